@@ -1,7 +1,7 @@
 import { useEffect } from "react";
 import { Text, TextInput } from "react-native";
 import { DarkTheme, DefaultTheme, ThemeProvider } from "@react-navigation/native";
-import { Stack } from "expo-router";
+import { router, Stack } from "expo-router";
 import { StatusBar } from "expo-status-bar";
 import { useFonts } from "expo-font";
 import * as SplashScreen from "expo-splash-screen";
@@ -10,8 +10,15 @@ import "react-native-reanimated";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import PretendardFont from "../assets/fonts/PretendardVariable.ttf";
 import { ProfileDetailsProvider } from "@/contexts/profile-details-context";
+import {
+  addReminderResponseListener,
+  configureReminderHandler,
+  startReminderResync,
+} from "@/lib/routine-reminders";
+import { startUploadQueue } from "@/lib/upload-queue";
 
 void SplashScreen.preventAutoHideAsync();
+configureReminderHandler();
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
@@ -19,6 +26,15 @@ export default function RootLayout() {
     Pretendard: PretendardFont,
   });
 
+  useEffect(() => {
+    const subscription = addReminderResponseListener(() => router.push("/routine"));
+    return () => subscription?.remove();
+  }, []);
+
+  useEffect(() => startReminderResync(), []);
+
+  useEffect(() => startUploadQueue(), []);
+
   useEffect(() => {
     if (fontsLoaded) {
       const fontStyle = { fontFamily: 'Pretendard' };
@@ -47,9 +63,13 @@ export default function RootLayout() {
         <Stack.Screen name="personal-color/index" />
         <Stack.Screen name="reports/index" />
         <Stack.Screen name="reports/[id]" />
+        <Stack.Screen name="reports/progress" />
+        <Stack.Screen name="reports/compare" />
         <Stack.Screen name="routine/index" />
+        <Stack.Screen name="routine/history" />
         <Stack.Screen name="mypage/index" />
         <Stack.Screen name="recommend/index" />
+        <Stack.Screen name="shelf/index" />
         <Stack.Screen name="onboarding/details" />
           <Stack.Screen
             name="modal"
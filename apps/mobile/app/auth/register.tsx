@@ -13,7 +13,7 @@ import { SafeAreaView } from "react-native-safe-area-context";
 import { useRouter } from "expo-router";
 
 import { supabase, upsertProfile } from "@/lib/supabase";
-import { SERVER_BASE_URL } from "@/lib/server";
+import { apiRequest, ApiError, describeApiError } from "@/lib/api-client";
 import TanglyLogo from "@/assets/images/logo-tangly.png";
 
 export default function RegisterScreen() {
@@ -44,23 +44,13 @@ export default function RegisterScreen() {
     try {
       setSubmitting(true);
       setErrorMessage(null);
-      if (!SERVER_BASE_URL) {
-        throw new Error("서버 주소가 설정되지 않았습니다.");
-      }
-
-      const response = await fetch(`${SERVER_BASE_URL}/api/auth/signup`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
+      await apiRequest("POST /api/auth/signup", {
+        body: {
           email: trimmedEmail,
           password: trimmedPassword,
           displayName: trimmedName,
-        }),
+        },
       });
-      const payload = await response.json().catch(() => null);
-      if (!response.ok) {
-        throw new Error(payload?.error ?? "가입에 실패했습니다.");
-      }
 
       const { data: loginData, error: loginError } = await supabase.auth.signInWithPassword({
         email: trimmedEmail,
@@ -72,7 +62,12 @@ export default function RegisterScreen() {
       await upsertProfile({ userId: loginData.user?.id, displayName: trimmedName });
       router.replace("/");
     } catch (err) {
-      const message = err instanceof Error ? err.message : "가입 중 오류가 발생했습니다.";
+      const message =
+        err instanceof ApiError
+          ? describeApiError(err, "가입에 실패했습니다.")
+          : err instanceof Error
+            ? err.message
+            : "가입 중 오류가 발생했습니다.";
       setErrorMessage(message);
     } finally {
       setSubmitting(false);
@@ -13,22 +13,30 @@ import {
 } from "react-native";
 import { CameraView, useCameraPermissions } from "expo-camera";
 import { SafeAreaView } from "react-native-safe-area-context";
-import { SERVER_BASE_URL, UPLOAD_API_URL } from "@/lib/server";
-import { supabase } from "@/lib/supabase";
+import type {
+  AiReportContent,
+  AnalysisSessionStatus,
+  OxAnswer,
+  ProductRecommendation,
+  ReportItem,
+} from "@tangly/domain";
+
+import { apiRequest } from "@/lib/api-client";
+import { describeQualityWarning } from "@/lib/photo-quality";
 import { optimizePhoto, type NormalizedCropRegion } from "@/lib/photo-utils";
-import type { AiReportContent } from "@/lib/ai-report";
-import type { OxAnswer } from "@/lib/ox-questions";
+import {
+  clearSessionUploads,
+  dismissUpload,
+  findResumableSession,
+  isAwaitingUpload,
+  uploadCapturedPhoto,
+  type UploadJob,
+} from "@/lib/upload-queue";
 import { useRequireProfileDetails } from "@/hooks/use-profile-details";
+import { useSessionUploads } from "@/hooks/use-session-uploads";
 
 type FlowStage = "intro" | "capture" | "analyzing" | "report";
 type CaptureState = "idle" | "uploading" | "completed" | "error";
-type SessionStatus =
-  | "capturing"
-  | "awaiting_ox"
-  | "ox_collected"
-  | "analyzing"
-  | "report_ready"
-  | "failed";
 
 type QualityResult = {
   passed: boolean;
@@ -98,14 +106,6 @@ type AnalysisStepState = {
   status: "pending" | "active" | "done";
 };
 
-type ReportItem = {
-  id: string;
-  title: string;
-  description: string;
-  comparison: string;
-  status: "좋음" | "보통" | "주의";
-};
-
 type NeedFocus = {
   id: string;
   label: string;
@@ -121,18 +121,6 @@ const SKIN_SECTION_LABELS: Record<string, string> = {
   pore: "모공 관리",
 };
 
-type ProductRecommendationInfo = {
-  id: string;
-  name: string;
-  brand: string | null;
-  category: string | null;
-  reason: string;
-  focus: string[];
-  keyIngredients: string[];
-  note?: string | null;
-  imageUrl?: string | null;
-};
-
 type ReportData = {
   sessionLabel: string;
   summary: string;
@@ -140,7 +128,7 @@ type ReportData = {
   items: ReportItem[];
   tips: string[];
   needs: NeedFocus[];
-  recommendations: ProductRecommendationInfo[];
+  recommendations: ProductRecommendation[];
   aiReport?: AiReportContent | null;
 };
 
@@ -180,17 +168,18 @@ const createInitialStepState = (): StepState => ({
   quality: null,
 });
 
-const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+const QUEUED_STEP_MESSAGE = "사진을 보관했어요. 연결되면 자동으로 전송됩니다.";
 
-const isTransientNetworkError = (error: unknown) => {
-  if (error instanceof TypeError) {
-    return true;
-  }
-  if (error instanceof Error) {
-    return /Network request failed|Failed to fetch/i.test(error.message);
-  }
-  return false;
-};
+const restoreStepState = (job?: UploadJob): StepState =>
+  job
+    ? {
+        status: "completed",
+        previewUri: job.fileUri,
+        uploadUrl: job.imageUrl,
+        message: isAwaitingUpload(job) ? QUEUED_STEP_MESSAGE : "저장 완료! 다음 단계로 이동하세요.",
+        quality: null,
+      }
+    : createInitialStepState();
 
 export default function StepBasedCaptureScreen() {
   const cameraRef = useRef<CameraView>(null);
@@ -218,11 +207,35 @@ export default function StepBasedCaptureScreen() {
   const analysisTimers = useRef<ReturnType<typeof setTimeout>[]>([]);
   const stepStatesRef = useRef(stepStates);
   const sessionIdRef = useRef<string | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const sessionUploads = useSessionUploads(sessionId);
+  const pendingUploads = sessionUploads.filter(isAwaitingUpload).length;
+  const signInRequired = sessionUploads.find((job) => job.status === "auth_required");
 
   useEffect(() => {
     stepStatesRef.current = stepStates;
   }, [stepStates]);
 
+  useEffect(() => {
+    const rejected = sessionUploads.find((job) => job.status === "rejected");
+    if (!rejected) return;
+    const index = STEP_CONFIGS.findIndex((step) => step.id === rejected.stepId);
+    if (index !== -1) {
+      setStepStates((prev) => {
+        const next = [...prev];
+        next[index] = {
+          ...createInitialStepState(),
+          status: "error",
+          message: rejected.error ?? "업로드 실패",
+        };
+        return next;
+      });
+      setCurrentStepIndex(index);
+    }
+    setGlobalMessage("보관한 사진이 전송되지 못했어요. 다시 촬영해주세요.");
+    void dismissUpload(rejected.id);
+  }, [sessionUploads]);
+
 
   useEffect(() => {
     return () => {
@@ -248,12 +261,11 @@ export default function StepBasedCaptureScreen() {
   const isCompleted = currentState.status === "completed";
 
   const allCompleted = useMemo(
-    () => stepStates.every((state) => state.status === "completed"),
-    [stepStates]
+    () => stepStates.every((state) => state.status === "completed") && pendingUploads === 0,
+    [stepStates, pendingUploads]
   );
 
 
-  const [authUserId, setAuthUserId] = useState<string | null>(null);
 
   const handleCameraLayout = useCallback((event: LayoutChangeEvent) => {
     const { width, height } = event.nativeEvent.layout;
@@ -339,22 +351,6 @@ export default function StepBasedCaptureScreen() {
     [cameraLayout, focusLayouts]
   );
 
-  useEffect(() => {
-    let active = true;
-    supabase.auth
-      .getUser()
-      .then(({ data }) => {
-        if (!active) return;
-        setAuthUserId(data.user?.id ?? null);
-      })
-      .catch(() => {
-        if (!active) return;
-        setAuthUserId(null);
-      });
-    return () => {
-      active = false;
-    };
-  }, []);
 
   useEffect(() => {
     if (flowStage === "capture" && allCompleted) {
@@ -362,15 +358,6 @@ export default function StepBasedCaptureScreen() {
     }
   }, [flowStage, allCompleted, beginAnalysisPhase]);
 
-  const resolveUserId = useCallback(async () => {
-    if (authUserId) {
-      return authUserId;
-    }
-    const { data } = await supabase.auth.getUser();
-    const id = data.user?.id ?? null;
-    setAuthUserId(id);
-    return id;
-  }, [authUserId]);
 
   const ensurePermission = async () => {
     if (permission?.granted) return true;
@@ -379,35 +366,19 @@ export default function StepBasedCaptureScreen() {
   };
 
   const createAnalysisSession = async () => {
-    if (!SERVER_BASE_URL) {
-      throw new Error("서버 API 주소가 설정되지 않았습니다.");
-    }
-
-    const currentUserId = await resolveUserId();
-    const res = await fetch(`${SERVER_BASE_URL}/api/analysis-sessions`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ source: "expo_app", status: "capturing", userId: currentUserId }),
+    const data = await apiRequest("POST /api/analysis-sessions", {
+      body: { source: "expo_app", status: "capturing" },
     });
-    const data = await res.json();
-    if (!res.ok || !data?.sessionId) {
-      throw new Error(data?.error || "세션 생성에 실패했습니다.");
-    }
-    return data.sessionId as string;
+    return data.sessionId;
   };
 
-  const updateSessionStatus = useCallback(async (status: SessionStatus) => {
+  const updateSessionStatus = useCallback(async (status: AnalysisSessionStatus) => {
     const sessionId = sessionIdRef.current;
     if (!sessionId) return;
     try {
-      if (!SERVER_BASE_URL) {
-        throw new Error("서버 API 주소가 설정되지 않았습니다.");
-      }
-
-      await fetch(`${SERVER_BASE_URL}/api/analysis-sessions/${sessionId}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status }),
+      await apiRequest("PATCH /api/analysis-sessions/:sessionId", {
+        params: { sessionId },
+        body: { status },
       });
     } catch (error) {
       console.warn("Failed to update session status", error);
@@ -430,26 +401,16 @@ const refreshServerReport = useCallback(
       setFlowStage("report");
       return;
     }
-    if (!SERVER_BASE_URL) {
-      fallbackToLocalReport();
-      setFlowStage("report");
-      return;
-    }
 
     try {
       setGlobalMessage(
         options?.loadingMessage ?? "리포트를 정리하는 중입니다..."
       );
-      const response = await fetch(
-        `${SERVER_BASE_URL}/api/reports/${sessionIdRef.current}`
-      );
-      const payload = await response.json();
-      if (!response.ok) {
-        throw new Error(payload?.error || "리포트 생성에 실패했습니다.");
-      }
+      const payload = await apiRequest("GET /api/reports/:sessionId", {
+        params: { sessionId: sessionIdRef.current },
+      });
 
-      const aiPayload: AiReportContent | null =
-        payload?.aiReport?.payload ?? payload?.aiReport ?? null;
+      const aiPayload: AiReportContent | null = payload.aiReport?.payload ?? null;
       const summaryText =
         payload.summary ??
         (Array.isArray(aiPayload?.summary)
@@ -488,7 +449,7 @@ const refreshServerReport = useCallback(
 );
 
   const fetchSkinAnalysis = useCallback(async () => {
-    if (!sessionIdRef.current || !SERVER_BASE_URL) {
+    if (!sessionIdRef.current) {
       await refreshServerReport({
         loadingMessage: "기본 리포트를 불러오는 중입니다...",
       });
@@ -496,13 +457,9 @@ const refreshServerReport = useCallback(
     }
     try {
       setGlobalMessage("AI가 촬영 이미지를 해석하는 중입니다...");
-      const response = await fetch(
-        `${SERVER_BASE_URL}/api/skin-analysis/${sessionIdRef.current}`
-      );
-      const payload = await response.json();
-      if (!response.ok) {
-        throw new Error(payload?.error || "AI 분석에 실패했습니다.");
-      }
+      await apiRequest("GET /api/skin-analysis/:sessionId", {
+        params: { sessionId: sessionIdRef.current },
+      });
     } catch (error) {
       console.warn("Skin analysis error", error);
       setGlobalMessage("AI 분석에 실패했습니다. 기본 리포트를 준비할게요.");
@@ -525,13 +482,21 @@ const refreshServerReport = useCallback(
 
     try {
       setGlobalMessage("분석 세션을 준비하는 중입니다...");
-      const sessionId = await createAnalysisSession();
-      sessionIdRef.current = sessionId;
+      const resumable = await findResumableSession("expo_app");
+      const nextSessionId = resumable?.sessionId ?? (await createAnalysisSession());
+      sessionIdRef.current = nextSessionId;
+      setSessionId(nextSessionId);
       analysisTimers.current.forEach((timer) => clearTimeout(timer));
       analysisTimers.current = [];
 
-      setStepStates(STEP_CONFIGS.map(() => createInitialStepState()));
-      setCurrentStepIndex(0);
+      const restored = STEP_CONFIGS.map((step) =>
+        restoreStepState(
+          resumable?.jobs.find((job) => job.stepId === step.id && job.status !== "rejected")
+        )
+      );
+      const nextIndex = restored.findIndex((state) => state.status !== "completed");
+      setStepStates(restored);
+      setCurrentStepIndex(nextIndex === -1 ? STEP_CONFIGS.length - 1 : nextIndex);
       setReportData(null);
       setFlashVisible(false);
       setFlowStage("capture");
@@ -541,7 +506,11 @@ const refreshServerReport = useCallback(
           status: index === 0 ? "active" : "pending",
         }))
       );
-      setGlobalMessage("가이드에 맞춰 첫 번째 촬영부터 진행해주세요.");
+      setGlobalMessage(
+        resumable
+          ? "이전에 촬영한 사진을 이어서 전송하고 있어요."
+          : "가이드에 맞춰 첫 번째 촬영부터 진행해주세요."
+      );
     } catch (error) {
       const message = error instanceof Error ? error.message : "세션 생성 실패";
       setGlobalMessage(message);
@@ -610,40 +579,17 @@ const refreshServerReport = useCallback(
   };
 
   const uploadViaApi = async (uri: string, step: StepConfig) => {
-    if (!UPLOAD_API_URL) {
-      throw new Error("EXPO_PUBLIC_UPLOAD_API_URL 값을 설정해주세요.");
-    }
     if (!sessionIdRef.current) {
       throw new Error("세션 정보가 없습니다. 다시 세션을 시작해주세요.");
     }
-
-    const formData = new FormData();
-    const filePayload = {
+    return uploadCapturedPhoto({
+      sessionId: sessionIdRef.current,
+      source: "expo_app",
+      stepId: step.id,
+      shotType: step.shotType,
+      focusArea: step.focusArea,
       uri,
-      name: `${step.id}-${Date.now()}.jpg`,
-      type: "image/jpeg",
-    };
-    formData.append("file", filePayload as unknown as Blob);
-    formData.append("shot_type", step.shotType);
-    if (step.focusArea) {
-      formData.append("focus_area", step.focusArea);
-    }
-    formData.append("session_id", sessionIdRef.current);
-    const currentUserId = await resolveUserId();
-    if (currentUserId) {
-      formData.append("user_id", currentUserId);
-    }
-
-    const response = await fetch(UPLOAD_API_URL, {
-      method: "POST",
-      body: formData,
     });
-    const result = await response.json();
-
-    if (!response.ok) {
-      throw new Error(result?.error || "업로드 실패");
-    }
-    return result;
   };
 
 
@@ -717,30 +663,28 @@ const refreshServerReport = useCallback(
         message: "촬영이 통과되었습니다. 업로드 중...",
       });
 
-      let result;
-      try {
-        result = await uploadViaApi(processedPhoto.uri, currentStep);
-      } catch (error) {
-        if (!isTransientNetworkError(error)) {
-          throw error;
-        }
+      const job = await uploadViaApi(processedPhoto.uri, currentStep);
 
+      if (isAwaitingUpload(job)) {
         updateStepState(currentStepIndex, {
-          message: "네트워크가 잠시 불안정해 한번 더 전송하고 있어요...",
+          status: "completed",
+          message: QUEUED_STEP_MESSAGE,
         });
-        setGlobalMessage("전송이 끊겨 잠깐 대기 후 다시 시도하는 중입니다.");
-        await wait(800);
-
-        result = await uploadViaApi(processedPhoto.uri, currentStep);
+        setGlobalMessage(
+          currentStepIndex === STEP_CONFIGS.length - 1
+            ? "보관한 사진이 전송되면 분석을 시작합니다."
+            : "전송이 끊겨 사진을 보관했어요. 다음 단계로 넘어가세요."
+        );
+        return;
       }
 
-      const publicUrl =
-        result?.publicUrl ?? result?.photo?.image_url ?? result?.photo?.image_url;
-
+      const qualityWarning = describeQualityWarning(job.quality);
       updateStepState(currentStepIndex, {
         status: "completed",
-        uploadUrl: publicUrl || null,
-        message: "저장 완료! 다음 단계로 이동하세요.",
+        uploadUrl: job.imageUrl,
+        message: qualityWarning
+          ? `저장 완료! ${qualityWarning}`
+          : "저장 완료! 다음 단계로 이동하세요.",
       });
 
       setGlobalMessage(
@@ -769,6 +713,9 @@ const refreshServerReport = useCallback(
   };
 
   const beginAnalysisPhase = useCallback(() => {
+    if (sessionIdRef.current) {
+      void clearSessionUploads(sessionIdRef.current);
+    }
     setFlowStage("analyzing");
     setGlobalMessage("Tangly AI가 촬영 이미지를 분석 중입니다.");
     updateSessionStatus("analyzing");
@@ -881,7 +828,7 @@ const refreshServerReport = useCallback(
             {currentState.quality?.tip ? (
               <Text style={styles.statusTip}>{currentState.quality.tip}</Text>
             ) : null}
-            <Text style={styles.globalMessage}>{globalMessage}</Text>
+            <Text style={styles.globalMessage}>{signInRequired?.error ?? globalMessage}</Text>
           </View>
 
           <View style={styles.buttonRow}>
@@ -1170,7 +1117,7 @@ const NeedFocusList = ({ needs }: { needs: NeedFocus[] }) => (
 const ProductRecommendationCard = ({
   item,
 }: {
-  item: ProductRecommendationInfo;
+  item: ProductRecommendation;
 }) => (
   <View style={styles.recommendCard}>
     <View style={styles.recommendHeader}>
@@ -12,12 +12,20 @@ import {
 import { SafeAreaView } from "react-native-safe-area-context";
 import { CameraView, useCameraPermissions } from "expo-camera";
 import { useRouter } from "expo-router";
+import type { AiReportContent, EyeWrinkleMetric } from "@tangly/domain";
 
-import { SERVER_BASE_URL, UPLOAD_API_URL } from "@/lib/server";
-import { supabase } from "@/lib/supabase";
+import { apiRequest, describeApiError } from "@/lib/api-client";
 import { useRequireProfileDetails } from "@/hooks/use-profile-details";
+import { useSessionUploads } from "@/hooks/use-session-uploads";
 import { optimizePhoto, type NormalizedCropRegion } from "@/lib/photo-utils";
-import type { AiReportContent } from "@/lib/ai-report";
+import {
+  clearSessionUploads,
+  dismissUpload,
+  findResumableSession,
+  isAwaitingUpload,
+  uploadCapturedPhoto,
+  type UploadJob,
+} from "@/lib/upload-queue";
 
 type FlowStage = "capture" | "analyzing" | "result";
 type SessionStatus = "capturing" | "analyzing" | "report_ready";
@@ -46,14 +54,6 @@ type Rect = {
   height: number;
 };
 
-type WrinkleMetric = {
-  id: string;
-  label: string;
-  score: number;
-  status: "양호" | "주의";
-  detail: string;
-};
-
 const STEP_CONFIGS: StepConfig[] = [
   {
     id: "open",
@@ -69,30 +69,6 @@ const STEP_CONFIGS: StepConfig[] = [
   },
 ];
 
-const WRINKLE_METRICS: WrinkleMetric[] = [
-  {
-    id: "elasticity",
-    label: "눈가 탄력",
-    score: 92,
-    status: "양호",
-    detail: "눈 중간 부분이 안정적으로 치켜올라 있어 전반적인 탄력은 잘 유지되고 있어요.",
-  },
-  {
-    id: "fineLines",
-    label: "미세 주름",
-    score: 68,
-    status: "주의",
-    detail: "눈꼬리에서 2~3줄 정도의 얕은 주름이 반복적으로 보이고 있어 꾸준한 보습이 필요해요.",
-  },
-  {
-    id: "hydration",
-    label: "수분도",
-    score: 74,
-    status: "주의",
-    detail: "세안을 자주 하는 날엔 눈가가 쉽게 건조해질 수 있으니 크림 레이어링을 추가해 주세요.",
-  },
-];
-
 const TIPS = [
   "저녁 루틴에서는 아이크림을 두껍게 올린 뒤 5분 정도 흡수시키면 주름이 덜 눈에 띕니다.",
   "눈 주위 림프를 따라 가볍게 마사지하면 붓기와 주름이 함께 완화돼요.",
@@ -101,6 +77,12 @@ const TIPS = [
 
 const createStepStates = () => STEP_CONFIGS.map(() => ({ previewUri: null, uploaded: false }));
 
+const restoreStepStates = (jobs: UploadJob[]): StepState[] =>
+  STEP_CONFIGS.map((step) => {
+    const job = jobs.find((entry) => entry.stepId === step.id && entry.status !== "rejected");
+    return job ? { previewUri: job.fileUri, uploaded: true } : { previewUri: null, uploaded: false };
+  });
+
 const CAMERA_ASPECT_RATIO = 4 / 3;
 const EYE_GUIDE_WIDTH = 220;
 const EYE_GUIDE_HEIGHT = 140;
@@ -132,19 +114,21 @@ export default function EyeWrinkleScreen() {
   const { loading: detailsChecking } = useRequireProfileDetails();
   const cameraRef = useRef<CameraView>(null);
   const sessionIdRef = useRef<string | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
   const [flowStage, setFlowStage] = useState<FlowStage>("capture");
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
   const [stepStates, setStepStates] = useState<StepState[]>(createStepStates());
   const [analyzingMessage, setAnalyzingMessage] = useState("눈가 주름 패턴을 분석하는 중입니다...");
   const [aiReport, setAiReport] = useState<AiReportContent | null>(null);
+  const [wrinkleMetrics, setWrinkleMetrics] = useState<EyeWrinkleMetric[]>([]);
   const [reportError, setReportError] = useState<string | null>(null);
+  const sessionUploads = useSessionUploads(sessionId);
   const [reportLoading, setReportLoading] = useState(false);
   const [creatingSession, setCreatingSession] = useState(false);
   const [sessionError, setSessionError] = useState<string | null>(null);
   const [uploadingStep, setUploadingStep] = useState<number | null>(null);
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [completedSessionId, setCompletedSessionId] = useState<string | null>(null);
-  const [authUserId, setAuthUserId] = useState<string | null>(null);
   const [cameraLayout, setCameraLayout] = useState<CameraLayout | null>(null);
   const [guideLayout, setGuideLayout] = useState<LayoutRectangle | null>(null);
 
@@ -225,27 +209,21 @@ export default function EyeWrinkleScreen() {
       setReportError("세션 정보를 찾지 못했습니다.");
       return;
     }
-    if (!SERVER_BASE_URL) {
-      setReportError("서버 주소가 설정되지 않았습니다.");
-      return;
-    }
     setReportLoading(true);
     setReportError(null);
     try {
-      const response = await fetch(`${SERVER_BASE_URL}/api/eye-wrinkle-analysis/${sessionIdRef.current}`);
-      const payload = await response.json();
-      if (!response.ok) {
-        throw new Error(payload?.error ?? "눈 주름 분석을 불러오지 못했습니다.");
-      }
-      const aiPayload: AiReportContent | null = payload?.payload ?? null;
+      const payload = await apiRequest("GET /api/eye-wrinkle-analysis/:sessionId", {
+        params: { sessionId: sessionIdRef.current },
+      });
+      const aiPayload: AiReportContent | null = payload.payload ?? null;
       setAiReport(aiPayload);
+      setWrinkleMetrics(payload.metrics ?? []);
       setAnalyzingMessage("눈가 분석이 완료되었습니다.");
       setFlowStage("result");
       await updateSessionStatus("report_ready");
       setCompletedSessionId(sessionIdRef.current);
     } catch (error) {
-      const message = error instanceof Error ? error.message : "AI 리포트를 불러오지 못했습니다.";
-      setReportError(message);
+      setReportError(describeApiError(error, "AI 리포트를 불러오지 못했습니다."));
       setAnalyzingMessage("리포트 연결에 실패했습니다. 다시 시도해 주세요.");
     } finally {
       setReportLoading(false);
@@ -258,65 +236,55 @@ export default function EyeWrinkleScreen() {
     }
   }, [permission, requestPermission]);
 
-  useEffect(() => {
-    let active = true;
-    supabase.auth
-      .getUser()
-      .then(({ data }) => {
-        if (!active) return;
-        setAuthUserId(data.user?.id ?? null);
-      })
-      .catch(() => {
-        if (!active) return;
-        setAuthUserId(null);
-      });
-    return () => {
-      active = false;
-    };
-  }, []);
 
-  const resolveUserId = useCallback(async () => {
-    if (authUserId) {
-      return authUserId;
-    }
-    const { data } = await supabase.auth.getUser();
-    const id = data.user?.id ?? null;
-    setAuthUserId(id);
-    return id;
-  }, [authUserId]);
 
   const prepareSession = useCallback(async () => {
-    if (!SERVER_BASE_URL) {
-      setSessionError("서버 주소가 설정되지 않았습니다.");
-      return;
-    }
     try {
       setCreatingSession(true);
       setSessionError(null);
-      const userId = await resolveUserId();
-      const response = await fetch(`${SERVER_BASE_URL}/api/analysis-sessions`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ source: "eye_wrinkle", status: "capturing", userId }),
-      });
-      const payload = await response.json();
-      if (!response.ok || !payload?.sessionId) {
-        throw new Error(payload?.error ?? "세션 생성에 실패했습니다.");
+      setCompletedSessionId(null);
+      const resumable = await findResumableSession("eye_wrinkle");
+      if (resumable) {
+        const restored = restoreStepStates(resumable.jobs);
+        const nextIndex = restored.findIndex((state) => !state.uploaded);
+        sessionIdRef.current = resumable.sessionId;
+        setSessionId(resumable.sessionId);
+        setStepStates(restored);
+        setCurrentStepIndex(nextIndex === -1 ? STEP_CONFIGS.length - 1 : nextIndex);
+        return;
       }
+      const payload = await apiRequest("POST /api/analysis-sessions", {
+        body: { source: "eye_wrinkle", status: "capturing" },
+      });
       sessionIdRef.current = payload.sessionId;
-      setCompletedSessionId(null);
+      setSessionId(payload.sessionId);
     } catch (error) {
-      const message = error instanceof Error ? error.message : "세션 생성 중 문제가 발생했습니다.";
-      setSessionError(message);
+      setSessionError(describeApiError(error, "세션 생성 중 문제가 발생했습니다."));
     } finally {
       setCreatingSession(false);
     }
-  }, [resolveUserId]);
+  }, []);
 
   useEffect(() => {
     prepareSession();
   }, [prepareSession]);
 
+  useEffect(() => {
+    const rejected = sessionUploads.find((job) => job.status === "rejected");
+    if (!rejected) return;
+    const index = STEP_CONFIGS.findIndex((step) => step.id === rejected.stepId);
+    if (index !== -1) {
+      setStepStates((prev) => {
+        const next = [...prev];
+        next[index] = { previewUri: null, uploaded: false };
+        return next;
+      });
+      setCurrentStepIndex(index);
+    }
+    setUploadError(rejected.error ?? "촬영 이미지를 저장하지 못했습니다.");
+    void dismissUpload(rejected.id);
+  }, [sessionUploads]);
+
   const ensureSession = async () => {
     if (sessionIdRef.current) {
       return true;
@@ -326,12 +294,11 @@ export default function EyeWrinkleScreen() {
   };
 
   const updateSessionStatus = useCallback(async (status: SessionStatus) => {
-    if (!sessionIdRef.current || !SERVER_BASE_URL) return;
+    if (!sessionIdRef.current) return;
     try {
-      await fetch(`${SERVER_BASE_URL}/api/analysis-sessions/${sessionIdRef.current}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status }),
+      await apiRequest("PATCH /api/analysis-sessions/:sessionId", {
+        params: { sessionId: sessionIdRef.current },
+        body: { status },
       });
     } catch (error) {
       console.warn("Failed to update session status", error);
@@ -339,38 +306,17 @@ export default function EyeWrinkleScreen() {
   }, []);
 
   const uploadEyePhoto = async (uri: string, step: StepConfig) => {
-    if (!UPLOAD_API_URL) {
-      throw new Error("업로드 API 주소가 설정되지 않았습니다.");
-    }
     if (!sessionIdRef.current) {
       throw new Error("세션 정보가 없어 업로드할 수 없습니다.");
     }
-    const formData = new FormData();
-    formData.append(
-      "file",
-      {
-        uri,
-        name: `${step.id}-${Date.now()}.jpg`,
-        type: "image/jpeg",
-      } as unknown as Blob
-    );
-    const shotType = step.id === "open" ? "eye_open" : "eye_closed";
-    formData.append("shot_type", shotType);
-    formData.append("focus_area", step.id === "open" ? "eyes_open" : "eyes_closed");
-    formData.append("session_id", sessionIdRef.current);
-    const userId = await resolveUserId();
-    if (userId) {
-      formData.append("user_id", userId);
-    }
-
-    const response = await fetch(UPLOAD_API_URL, {
-      method: "POST",
-      body: formData,
+    return uploadCapturedPhoto({
+      sessionId: sessionIdRef.current,
+      source: "eye_wrinkle",
+      stepId: step.id,
+      shotType: step.id === "open" ? "eye_open" : "eye_closed",
+      focusArea: step.id === "open" ? "eyes_open" : "eyes_closed",
+      uri,
     });
-    const payload = await response.json();
-    if (!response.ok) {
-      throw new Error(payload?.error ?? "업로드에 실패했습니다.");
-    }
   };
 
   const handleCapture = async () => {
@@ -427,6 +373,9 @@ export default function EyeWrinkleScreen() {
   };
 
   const beginAnalysis = () => {
+    if (sessionIdRef.current) {
+      void clearSessionUploads(sessionIdRef.current);
+    }
     setFlowStage("analyzing");
     setAnalyzingMessage("눈 주름을 정밀하게 비교하고 있어요...");
     updateSessionStatus("analyzing");
@@ -440,15 +389,22 @@ export default function EyeWrinkleScreen() {
     setAnalyzingMessage("눈가 주름 패턴을 분석하는 중입니다...");
      setUploadError(null);
      setCompletedSessionId(null);
+     const previousSessionId = sessionIdRef.current;
      sessionIdRef.current = null;
-     prepareSession();
+     setSessionId(null);
+     void (previousSessionId ? clearSessionUploads(previousSessionId) : Promise.resolve()).then(
+       prepareSession
+     );
     setAiReport(null);
+    setWrinkleMetrics([]);
     setReportError(null);
     setReportLoading(false);
   };
 
   const currentStep = STEP_CONFIGS[currentStepIndex];
-  const readyToAnalyze = stepStates.every((step) => step.uploaded);
+  const pendingUploads = sessionUploads.filter(isAwaitingUpload).length;
+  const signInRequired = sessionUploads.find((job) => job.status === "auth_required");
+  const readyToAnalyze = stepStates.every((step) => step.uploaded) && pendingUploads === 0;
   const handlePreviousStep = () => {
     if (currentStepIndex === 0) return;
     setCurrentStepIndex((prev) => Math.max(0, prev - 1));
@@ -565,6 +521,12 @@ export default function EyeWrinkleScreen() {
           {(sessionError || uploadError) && (
             <Text style={styles.errorText}>{sessionError ?? uploadError}</Text>
           )}
+          {pendingUploads > 0 && (
+            <Text style={styles.pendingText}>
+              {signInRequired?.error ??
+                `사진 ${pendingUploads}장을 보관 중이에요. 연결되면 자동으로 전송한 뒤 분석을 시작할 수 있어요.`}
+            </Text>
+          )}
         </View>
       )}
 
@@ -643,7 +605,10 @@ export default function EyeWrinkleScreen() {
           ) : (
             <>
               <View style={styles.metricRow}>
-                {WRINKLE_METRICS.map((metric) => (
+                {wrinkleMetrics.length === 0 && (
+                  <Text style={styles.metricDetail}>눈가 사진을 분석하지 못했어요. 다시 촬영해 주세요.</Text>
+                )}
+                {wrinkleMetrics.map((metric) => (
                   <View key={metric.id} style={styles.metricCard}>
                     <View style={styles.metricHeader}>
                       <Text style={styles.metricLabel}>{metric.label}</Text>
@@ -966,6 +931,12 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: "#D6455D",
   },
+  pendingText: {
+    marginTop: 8,
+    textAlign: "center",
+    fontSize: 13,
+    color: "#715993",
+  },
   secondaryButton: {
     marginTop: 24,
     alignSelf: "center",
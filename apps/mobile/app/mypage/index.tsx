@@ -1,11 +1,25 @@
 import { useEffect, useMemo, useState } from "react";
-import { Alert, Pressable, ScrollView, StyleSheet, Text, View } from "react-native";
+import { Alert, Linking, Pressable, ScrollView, StyleSheet, Switch, Text, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useRouter } from "expo-router";
-
-import { supabase } from "@/lib/supabase";
+import {
+  concernToFriendlyLabel,
+  pickPrimaryConcern,
+  PRICE_TIER_LABELS,
+  type PriceTier,
+} from "@tangly/domain";
+
+import { apiRequest, describeApiError } from "@/lib/api-client";
+import { saveBudgetPreference, supabase } from "@/lib/supabase";
 import { useProfileDetails } from "@/hooks/use-profile-details";
-import { concernToFriendlyLabel, pickPrimaryConcern } from "@/lib/profile-details";
+import {
+  cancelRoutineReminders,
+  loadReminderSettings,
+  REMINDER_TIME_OPTIONS,
+  requestReminderPermission,
+  saveReminderSettings,
+  type ReminderSettings,
+} from "@/lib/routine-reminders";
 
 type PlanType = "free" | "pro";
 
@@ -30,6 +44,13 @@ const QUICK_ACTIONS: QuickAction[] = [
   { key: "giftbox", label: "선물함", icon: "🎁" },
 ];
 
+const BUDGET_OPTIONS: { key: PriceTier | null; label: string }[] = [
+  { key: null, label: "상관없음" },
+  { key: "budget", label: PRICE_TIER_LABELS.budget },
+  { key: "mid", label: PRICE_TIER_LABELS.mid },
+  { key: "premium", label: PRICE_TIER_LABELS.premium },
+];
+
 const PURCHASE_ITEMS: PurchaseItem[] = [
   { key: "gift", label: "선물하기", icon: "🎁" },
   { key: "market", label: "마켓", icon: "🏬" },
@@ -45,7 +66,24 @@ export default function MyPageScreen() {
   const [userId, setUserId] = useState<string | null>(null);
   const [profileName, setProfileName] = useState("Tangly 회원");
   const [avatarInitial, setAvatarInitial] = useState("T");
-  const { details } = useProfileDetails();
+  const { details, setDetails } = useProfileDetails();
+  const [budgetSaving, setBudgetSaving] = useState(false);
+  const [reminderSettings, setReminderSettings] = useState<ReminderSettings | null>(null);
+  const [reminderSaving, setReminderSaving] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    loadReminderSettings().then((settings) => {
+      if (active) {
+        setReminderSettings(settings);
+      }
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
 
   useEffect(() => {
     let active = true;
@@ -121,6 +159,9 @@ export default function MyPageScreen() {
       if (error) {
         throw error;
       }
+      await cancelRoutineReminders().catch((reminderError) =>
+        console.warn("reminder cancel error", reminderError)
+      );
       router.replace("/auth");
     } catch (err) {
       const message = err instanceof Error ? err.message : "로그아웃 중 문제가 발생했습니다.";
@@ -130,6 +171,47 @@ export default function MyPageScreen() {
     }
   };
 
+  const handleExportData = async () => {
+    try {
+      setExporting(true);
+      const payload = await apiRequest("POST /api/account/export");
+      await Linking.openURL(payload.url);
+    } catch (err) {
+      Alert.alert("내보내기 실패", describeApiError(err, "데이터를 내보내지 못했습니다."));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const deleteAccount = async () => {
+    try {
+      setDeleting(true);
+      await apiRequest("DELETE /api/account", { body: { confirm: true } });
+      await cancelRoutineReminders().catch((reminderError) =>
+        console.warn("reminder cancel error", reminderError)
+      );
+      await supabase.auth.signOut().catch((signOutError) =>
+        console.warn("sign out after delete error", signOutError)
+      );
+      router.replace("/auth");
+    } catch (err) {
+      Alert.alert("계정 삭제 실패", describeApiError(err, "계정을 삭제하지 못했습니다."));
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const handleDeleteAccount = () => {
+    Alert.alert(
+      "계정과 데이터 삭제",
+      "얼굴 사진, 분석 기록, AI 리포트, 루틴과 화장대 정보가 모두 삭제되고 되돌릴 수 없어요. 필요하면 먼저 내 데이터를 내려받아 주세요.",
+      [
+        { text: "취소", style: "cancel" },
+        { text: "삭제", style: "destructive", onPress: () => void deleteAccount() },
+      ]
+    );
+  };
+
   const handlePlanChange = async (nextPlan: PlanType) => {
     if (planType === nextPlan || planSaving) return;
     if (!userId) {
@@ -164,6 +246,51 @@ export default function MyPageScreen() {
     ]);
   };
 
+  const updateReminderSettings = async (next: ReminderSettings) => {
+    if (reminderSaving) return;
+    try {
+      setReminderSaving(true);
+      if (next.enabled && !(await requestReminderPermission())) {
+        Alert.alert("알림 권한 필요", "설정에서 Tangly 알림을 허용하면 루틴 알림을 받을 수 있어요.");
+        return;
+      }
+      await saveReminderSettings(next);
+      setReminderSettings(next);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "알림 설정을 저장하지 못했습니다.";
+      Alert.alert("알림 설정 실패", message);
+    } finally {
+      setReminderSaving(false);
+    }
+  };
+
+  const toggleReminderTime = (time: string) => {
+    if (!reminderSettings) return;
+    const selected = reminderSettings.times.includes(time);
+    if (selected && reminderSettings.times.length === 1) {
+      Alert.alert("알림 시간", "알림 시간은 하나 이상 선택해 주세요.");
+      return;
+    }
+    const times = selected
+      ? reminderSettings.times.filter((item) => item !== time)
+      : [...reminderSettings.times, time].sort();
+    void updateReminderSettings({ ...reminderSettings, times });
+  };
+
+  const handleBudgetChange = async (budget: PriceTier | null) => {
+    if (budgetSaving || (details?.budget ?? null) === budget) return;
+    try {
+      setBudgetSaving(true);
+      const next = await saveBudgetPreference({ userId, budget });
+      setDetails(next);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "가격대를 저장하지 못했습니다.";
+      Alert.alert("가격대 저장 실패", message);
+    } finally {
+      setBudgetSaving(false);
+    }
+  };
+
   const handleEditProfile = () => {
     router.push("/onboarding/details?mode=edit");
   };
@@ -237,6 +364,12 @@ export default function MyPageScreen() {
               onPress={handlePlanOptions}
               disabled={planLoading || planSaving}
             />
+            <ActivityRow
+              icon="🪞"
+              label="내 화장대"
+              value="제품 관리"
+              onPress={() => router.push("/shelf")}
+            />
             <ActivityRow
               icon="🧴"
               label="피부 정보 편집"
@@ -252,6 +385,94 @@ export default function MyPageScreen() {
           </View>
         </View>
 
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>루틴 알림</Text>
+          <View style={styles.infoCard}>
+            <View style={styles.detailRow}>
+              <View style={styles.reminderText}>
+                <Text style={styles.reminderLabel}>추천 요일 알림</Text>
+                <Text style={styles.reminderHelper}>
+                  주간 루틴의 추천 요일에 알려드려요. 이미 체크한 날은 건너뛰어요.
+                </Text>
+              </View>
+              <Switch
+                value={reminderSettings?.enabled ?? false}
+                onValueChange={(enabled) => {
+                  if (reminderSettings) {
+                    void updateReminderSettings({ ...reminderSettings, enabled });
+                  }
+                }}
+                disabled={!reminderSettings || reminderSaving}
+                trackColor={{ true: "#A884CC", false: "#E1DDE8" }}
+              />
+            </View>
+            {reminderSettings?.enabled ? (
+              <View style={styles.reminderTimes}>
+                {REMINDER_TIME_OPTIONS.map((time) => {
+                  const selected = reminderSettings.times.includes(time);
+                  return (
+                    <Pressable
+                      key={time}
+                      style={[styles.reminderChip, selected && styles.reminderChipActive]}
+                      onPress={() => toggleReminderTime(time)}
+                      disabled={reminderSaving}
+                    >
+                      <Text style={[styles.reminderChipText, selected && styles.reminderChipTextActive]}>
+                        {time}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            ) : null}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>추천 가격대</Text>
+          <View style={styles.infoCard}>
+            <Text style={styles.reminderHelper}>
+              고른 가격대를 넘는 제품은 추천에서 빼고, 같은 가격대 제품을 먼저 보여드려요.
+            </Text>
+            <View style={styles.reminderTimes}>
+              {BUDGET_OPTIONS.map((option) => {
+                const selected = (details?.budget ?? null) === option.key;
+                return (
+                  <Pressable
+                    key={option.key ?? "any"}
+                    style={[styles.reminderChip, selected && styles.reminderChipActive]}
+                    onPress={() => handleBudgetChange(option.key)}
+                    disabled={budgetSaving}
+                  >
+                    <Text style={[styles.reminderChipText, selected && styles.reminderChipTextActive]}>
+                      {option.label}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>내 데이터</Text>
+          <View style={styles.activityCard}>
+            <ActivityRow
+              icon="📦"
+              label={exporting ? "내보내는 중..." : "내 데이터 내려받기"}
+              value="24시간 링크"
+              onPress={handleExportData}
+              disabled={exporting || deleting}
+            />
+            <ActivityRow
+              icon="🗑"
+              label={deleting ? "삭제 중..." : "계정 및 데이터 삭제"}
+              onPress={handleDeleteAccount}
+              disabled={exporting || deleting}
+            />
+          </View>
+        </View>
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>내 피부 정보</Text>
           <View style={styles.infoCard}>
@@ -538,6 +759,43 @@ const styles = StyleSheet.create({
   detailValueMulti: {
     textAlign: "left",
   },
+  reminderText: {
+    flex: 1,
+    gap: 4,
+  },
+  reminderLabel: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1F1F24",
+  },
+  reminderHelper: {
+    fontSize: 13,
+    color: "#7A7483",
+  },
+  reminderTimes: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  reminderChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#E1DDE8",
+  },
+  reminderChipActive: {
+    backgroundColor: "#A884CC",
+    borderColor: "#A884CC",
+  },
+  reminderChipText: {
+    fontSize: 13,
+    color: "#4E4E55",
+    fontWeight: "600",
+  },
+  reminderChipTextActive: {
+    color: "#FFFFFF",
+  },
 });
 
 const mapGenderLabel = (gender?: string | null) => {
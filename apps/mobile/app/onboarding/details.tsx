@@ -11,10 +11,10 @@ import {
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useFocusEffect, useLocalSearchParams, useRouter } from "expo-router";
+import type { ProfileGender } from "@tangly/domain";
 
 import { saveProfileDetails } from "@/lib/supabase";
 import { useProfileDetails } from "@/hooks/use-profile-details";
-import type { ProfileGender } from "@/lib/profile-details";
 
 const GENDER_OPTIONS: { key: ProfileGender; label: string }[] = [
   { key: "female", label: "여성" },
@@ -9,15 +9,15 @@ import {
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useRouter } from "expo-router";
-
-import { useRequireProfileDetails } from "@/hooks/use-profile-details";
-import { SERVER_BASE_URL } from "@/lib/server";
 import {
   OX_CATEGORY_LABELS,
   OX_QUESTIONS,
   type OxAnswer,
   type OxQuestion,
-} from "@/lib/ox-questions";
+} from "@tangly/domain";
+
+import { useRequireProfileDetails } from "@/hooks/use-profile-details";
+import { apiRequest, describeApiError } from "@/lib/api-client";
 
 type RecordedAnswer = {
   answer: OxAnswer;
@@ -71,40 +71,22 @@ export default function OxCheckScreen() {
   useEffect(() => {
     const fetchRecords = async () => {
       if (!userId) return;
-      if (!SERVER_BASE_URL) {
-        setError("SERVER_BASE_URL이 설정되지 않았습니다.");
-        return;
-      }
       setLoadingRecords(true);
       setError(null);
       try {
-        const response = await fetch(
-          `${SERVER_BASE_URL}/api/profile-ox?userId=${userId}`
-        );
-        const payload = await response.json();
-        if (!response.ok) {
-          throw new Error(payload?.error ?? "OX 기록을 불러오지 못했습니다.");
-        }
+        const payload = await apiRequest("GET /api/profile-ox");
         const next: Record<string, RecordedAnswer> = {};
-        (payload?.answers ?? []).forEach((entry: Record<string, unknown>) => {
-          const key =
-            typeof entry?.question_key === "string" ? entry.question_key : null;
-          const answerRaw =
-            typeof entry?.answer === "string"
-              ? entry.answer.toUpperCase()
-              : null;
-          if (!key || (answerRaw !== "O" && answerRaw !== "X")) return;
-          next[key] = {
+        (payload.answers ?? []).forEach((entry) => {
+          const answerRaw = entry.answer?.toUpperCase();
+          if (!entry.question_key || (answerRaw !== "O" && answerRaw !== "X")) return;
+          next[entry.question_key] = {
             answer: answerRaw,
-            updatedAt:
-              typeof entry?.updated_at === "string" ? entry.updated_at : null,
+            updatedAt: entry.updated_at ?? null,
           };
         });
         setRecords(next);
       } catch (err) {
-        const message =
-          err instanceof Error ? err.message : "OX 기록을 불러오지 못했습니다.";
-        setError(message);
+        setError(describeApiError(err, "OX 기록을 불러오지 못했습니다."));
       } finally {
         setLoadingRecords(false);
       }
@@ -127,33 +109,15 @@ export default function OxCheckScreen() {
       setError("O 또는 X를 선택해 주세요.");
       return;
     }
-    if (!SERVER_BASE_URL) {
-      setError("SERVER_BASE_URL이 설정되지 않았습니다.");
-      return;
-    }
-
     setSubmitting(true);
     setError(null);
     setSuccessMessage(null);
 
     try {
-      const response = await fetch(`${SERVER_BASE_URL}/api/profile-ox`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          userId,
-          questionKey: currentQuestion.key,
-          answer: selection,
-        }),
+      const payload = await apiRequest("POST /api/profile-ox", {
+        body: { questionKey: currentQuestion.key, answer: selection },
       });
-      const payload = await response.json();
-      if (!response.ok) {
-        throw new Error(payload?.error ?? "OX 응답을 저장하지 못했습니다.");
-      }
-      const updatedAt =
-        typeof payload?.record?.updated_at === "string"
-          ? payload.record.updated_at
-          : new Date().toISOString();
+      const updatedAt = payload.record?.updated_at ?? new Date().toISOString();
       setRecords((prev) => ({
         ...prev,
         [currentQuestion.key]: { answer: selection, updatedAt },
@@ -162,9 +126,7 @@ export default function OxCheckScreen() {
       setSelection(null);
       setSuccessMessage("생활 습관 기록을 반영했어요.");
     } catch (err) {
-      const message =
-        err instanceof Error ? err.message : "OX 응답을 저장하지 못했습니다.";
-      setError(message);
+      setError(describeApiError(err, "OX 응답을 저장하지 못했습니다."));
     } finally {
       setSubmitting(false);
     }
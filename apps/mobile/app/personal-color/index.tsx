@@ -18,7 +18,7 @@ import {
   type PersonalColorInputs,
   type PersonalColorResult,
 } from "@/lib/personal-color";
-import { SERVER_BASE_URL } from "@/lib/server";
+import { apiRequest, describeApiError } from "@/lib/api-client";
 import { useRequireProfileDetails } from "@/hooks/use-profile-details";
 
 type FaceDetectorModule = typeof import("expo-face-detector");
@@ -385,10 +385,6 @@ export default function PersonalColorSelectorScreen() {
 
   const handleSaveReport = async () => {
     if (!capturedPhoto || !result || !lockedTone) return;
-    if (!SERVER_BASE_URL) {
-      setSaveState({ status: "error", error: "서버 주소가 설정되지 않았습니다." });
-      return;
-    }
     try {
       setSaveState({ status: "saving" });
       const formData = new FormData();
@@ -404,18 +400,10 @@ export default function PersonalColorSelectorScreen() {
       formData.append("inputs", JSON.stringify(lockedTone.inputs));
       formData.append("session_label", result.sessionLabel);
 
-      const response = await fetch(`${SERVER_BASE_URL}/api/personal-color`, {
-        method: "POST",
-        body: formData,
-      });
-      const payload = await response.json();
-      if (!response.ok) {
-        throw new Error(payload?.error ?? "저장에 실패했습니다.");
-      }
+      const payload = await apiRequest("POST /api/personal-color", { body: formData });
       setSaveState({ status: "saved", reportId: payload.id });
     } catch (err) {
-      const message = err instanceof Error ? err.message : "리포트를 저장하지 못했습니다.";
-      setSaveState({ status: "error", error: message });
+      setSaveState({ status: "error", error: describeApiError(err, "리포트를 저장하지 못했습니다.") });
     }
   };
 
@@ -1,12 +1,101 @@
-import { ActivityIndicator, StyleSheet, Text, View } from "react-native";
+import { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Linking,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
+import { Image } from "expo-image";
+import { PRICE_TIER_LABELS, type ProductReaction } from "@tangly/domain";
 
+import { apiRequest, describeApiError } from "@/lib/api-client";
+import { SCORING_DEBUG_QUERY } from "@/lib/server";
+import { ScoreBreakdownPanel } from "@/components/score-breakdown";
 import { useRequireProfileDetails } from "@/hooks/use-profile-details";
+import type { ProductRecommendation } from "@/types/report";
+import type {
+  IngredientWarning,
+  NeedPick,
+  RecommendationsResponse,
+  RecommendedProduct,
+} from "@/types/recommendations";
+
+const formatPrice = (price: number) => `${price.toLocaleString("ko-KR")}원`;
+
+const openProductUrl = (url: string) => {
+  Linking.openURL(url).catch(() => {
+    Alert.alert("링크 열기 실패", "구매 페이지를 열 수 없어요.");
+  });
+};
+
+const REACTION_OPTIONS: { key: ProductReaction; label: string }[] = [
+  { key: "like", label: "👍 좋아요" },
+  { key: "used", label: "써봤어요" },
+  { key: "dislike", label: "👎 별로예요" },
+  { key: "irritation", label: "자극 있었어요" },
+];
 
 export default function RecommendScreen() {
   const { loading: checkingDetails } = useRequireProfileDetails();
+  const [data, setData] = useState<RecommendationsResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (checkingDetails) return;
+    const loadRecommendations = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setData(await apiRequest("GET /api/recommendations", { query: SCORING_DEBUG_QUERY }));
+      } catch (err) {
+        setError(describeApiError(err, "추천을 불러오지 못했습니다."));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRecommendations();
+  }, [checkingDetails]);
+
+  const setProductFeedback = (productId: string, feedback: ProductReaction | null) => {
+    setData((prev) =>
+      prev
+        ? {
+            ...prev,
+            products: prev.products.map((item) =>
+              item.id === productId ? { ...item, feedback } : item
+            ),
+          }
+        : prev
+    );
+  };
+
+  const handleReaction = async (product: RecommendedProduct, reaction: ProductReaction) => {
+    const next = product.feedback === reaction ? null : reaction;
+    setProductFeedback(product.id, next);
+    try {
+      if (next) {
+        await apiRequest("POST /api/product-feedback", {
+          body: { productId: product.id, reaction: next },
+        });
+      } else {
+        await apiRequest("DELETE /api/product-feedback/:productId", {
+          params: { productId: product.id },
+        });
+      }
+    } catch (err) {
+      setProductFeedback(product.id, product.feedback);
+      Alert.alert("저장 실패", describeApiError(err, "반응을 저장하지 못했습니다."));
+    }
+  };
 
-  if (checkingDetails) {
+  if (checkingDetails || loading) {
     return (
       <SafeAreaView style={styles.safeArea}>
         <View style={styles.centered}>
@@ -16,17 +105,184 @@ export default function RecommendScreen() {
     );
   }
 
+  if (error || !data) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.container}>
+          <Text style={styles.title}>추천</Text>
+          <Text style={styles.helper}>{error ?? "추천 정보를 찾을 수 없습니다."}</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView style={styles.safeArea}>
-      <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.container} showsVerticalScrollIndicator={false}>
         <Text style={styles.title}>추천</Text>
-        <Text style={styles.description}>현재 준비중입니다.</Text>
-        <Text style={styles.helper}>조금만 기다려 주세요. 곧 맞춤 추천을 만날 수 있어요.</Text>
-      </View>
+        {data.state ? (
+          <View style={styles.stateCard}>
+            <Text style={styles.stateLabel}>
+              {data.state.mode === "weekly" ? "이번 주 포커스" : "이번 달 목표"}
+            </Text>
+            <Text style={styles.description}>{data.state.headline}</Text>
+            <Text style={styles.helper}>{data.state.subline}</Text>
+          </View>
+        ) : null}
+
+        {data.tags.length ? (
+          <View style={styles.tagRow}>
+            {data.tags.map((tag) => (
+              <Text key={tag.id} style={[styles.tagChip, tag.level === "high" && styles.tagChipHigh]}>
+                {tag.label}
+              </Text>
+            ))}
+          </View>
+        ) : null}
+
+        {data.shelf?.gaps.length ? (
+          <View style={styles.shelfCard}>
+            <Text style={styles.safetyTitle}>내 화장대에 비어 있는 케어</Text>
+            {data.shelf.gaps.map((gap) => (
+              <Text key={gap} style={styles.safetyMessage}>
+                • {gap}
+              </Text>
+            ))}
+          </View>
+        ) : null}
+
+        {data.safety.length ? <SafetyCard warnings={data.safety} /> : null}
+
+        {data.picks.length ? <NeedPicksCard picks={data.picks} /> : null}
+
+        {data.products.length ? (
+          <View style={styles.productList}>
+            {data.products.map((product) => (
+              <ProductCard
+                key={product.id}
+                product={product}
+                onReact={(reaction) => handleReaction(product, reaction)}
+              />
+            ))}
+          </View>
+        ) : (
+          <Text style={styles.helper}>피부 분석을 마치면 맞춤 제품을 추천해 드릴게요.</Text>
+        )}
+      </ScrollView>
     </SafeAreaView>
   );
 }
 
+const SafetyCard = ({ warnings }: { warnings: IngredientWarning[] }) => (
+  <View style={styles.safetyCard}>
+    <Text style={styles.safetyTitle}>함께 쓸 때 주의하세요</Text>
+    {warnings.map((warning) => (
+      <View key={warning.id} style={styles.safetyItem}>
+        <Text
+          style={[
+            styles.safetyBadge,
+            warning.severity === "conflict" ? styles.safetyBadgeConflict : styles.safetyBadgeCaution,
+          ]}
+        >
+          {warning.severity === "conflict" ? "피하기" : "주의"} · {warning.title}
+        </Text>
+        <Text style={styles.safetyItems}>{warning.items.join(" + ")}</Text>
+        <Text style={styles.safetyMessage}>{warning.message}</Text>
+      </View>
+    ))}
+  </View>
+);
+
+const NeedPicksCard = ({ picks }: { picks: NeedPick[] }) => (
+  <View style={styles.picksCard}>
+    <Text style={styles.safetyTitle}>가격대별로 골라보기</Text>
+    {picks.map((pick) => (
+      <View key={pick.need} style={styles.pickGroup}>
+        <Text style={styles.pickNeed}>{pick.needLabel}</Text>
+        {pick.budgetPick ? <PickRow label="가성비" product={pick.budgetPick} /> : null}
+        {pick.premiumPick ? <PickRow label="프리미엄" product={pick.premiumPick} /> : null}
+      </View>
+    ))}
+  </View>
+);
+
+const PickRow = ({ label, product }: { label: string; product: ProductRecommendation }) => (
+  <Pressable
+    style={styles.pickRow}
+    onPress={() => product.productUrl && openProductUrl(product.productUrl)}
+    disabled={!product.productUrl}
+  >
+    <Text style={styles.pickLabel}>{label}</Text>
+    <View style={{ flex: 1 }}>
+      <Text style={styles.pickName} numberOfLines={1}>
+        {product.brand ? `${product.brand} ` : ""}
+        {product.name}
+      </Text>
+      {product.price ? <Text style={styles.pickPrice}>{formatPrice(product.price)}</Text> : null}
+    </View>
+    {product.productUrl ? <Text style={styles.pickLink}>보기</Text> : null}
+  </Pressable>
+);
+
+const ProductCard = ({
+  product,
+  onReact,
+}: {
+  product: RecommendedProduct;
+  onReact: (reaction: ProductReaction) => void;
+}) => (
+  <View style={styles.productCard}>
+    <View style={styles.productHeader}>
+      <View style={{ flex: 1 }}>
+        <Text style={styles.productName}>{product.name}</Text>
+        {product.brand ? <Text style={styles.productBrand}>{product.brand}</Text> : null}
+      </View>
+      {product.imageUrl ? (
+        <Image source={product.imageUrl} style={styles.productImage} contentFit="cover" />
+      ) : null}
+    </View>
+    {product.price ? (
+      <Text style={styles.productPrice}>
+        {formatPrice(product.price)}
+        {product.priceTier ? ` · ${PRICE_TIER_LABELS[product.priceTier]}` : ""}
+      </Text>
+    ) : null}
+    <Text style={styles.productReason}>{product.reason}</Text>
+    {product.keyIngredients.length ? (
+      <Text style={styles.productIngredients}>핵심 성분: {product.keyIngredients.join(", ")}</Text>
+    ) : null}
+    {product.productUrl ? (
+      <Pressable style={styles.buyButton} onPress={() => openProductUrl(product.productUrl!)}>
+        <Text style={styles.buyButtonText}>구매하러 가기</Text>
+      </Pressable>
+    ) : null}
+    <View style={styles.reactionRow}>
+      {REACTION_OPTIONS.map((option) => {
+        const active = product.feedback === option.key;
+        return (
+          <Pressable
+            key={option.key}
+            style={[styles.reactionChip, active && styles.reactionChipActive]}
+            onPress={() => onReact(option.key)}
+          >
+            <Text style={[styles.reactionChipText, active && styles.reactionChipTextActive]}>
+              {option.label}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </View>
+    {product.feedback === "dislike" || product.feedback === "irritation" ? (
+      <Text style={styles.reactionHelper}>
+        {product.feedback === "irritation"
+          ? "다음 추천부터 이 제품은 빼고 진정·장벽 케어를 더 챙길게요."
+          : "다음 추천부터 이 제품은 보여드리지 않을게요."}
+      </Text>
+    ) : null}
+    {product.scoring ? <ScoreBreakdownPanel scoring={product.scoring} /> : null}
+  </View>
+);
+
 const styles = StyleSheet.create({
   safeArea: {
     flex: 1,
@@ -38,10 +294,10 @@ const styles = StyleSheet.create({
     justifyContent: "center",
   },
   container: {
-    flex: 1,
     paddingHorizontal: 24,
     paddingTop: 32,
-    gap: 12,
+    paddingBottom: 48,
+    gap: 16,
   },
   title: {
     fontSize: 24,
@@ -54,7 +310,201 @@ const styles = StyleSheet.create({
     color: "#1F1F24",
   },
   helper: {
+    fontSize: 15,
+    color: "#6F6F73",
+  },
+  stateCard: {
+    padding: 16,
+    borderRadius: 20,
+    backgroundColor: "#F9F7FC",
+    gap: 6,
+  },
+  stateLabel: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#A884CC",
+  },
+  tagRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  tagChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    backgroundColor: "#F3EEFA",
+    color: "#6F6F73",
+    fontSize: 13,
+    fontWeight: "600",
+    overflow: "hidden",
+  },
+  tagChipHigh: {
+    backgroundColor: "#1F1F24",
+    color: "#FFFFFF",
+  },
+  shelfCard: {
+    padding: 16,
+    borderRadius: 20,
+    backgroundColor: "#F9F7FC",
+    gap: 8,
+  },
+  safetyCard: {
+    padding: 16,
+    borderRadius: 20,
+    backgroundColor: "#FFF6F2",
+    gap: 12,
+  },
+  safetyTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#1F1F24",
+  },
+  safetyItem: {
+    gap: 4,
+  },
+  safetyBadge: {
+    fontSize: 12,
+    fontWeight: "700",
+  },
+  safetyBadgeConflict: {
+    color: "#D0674F",
+  },
+  safetyBadgeCaution: {
+    color: "#B7791F",
+  },
+  safetyItems: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1F1F24",
+  },
+  safetyMessage: {
+    fontSize: 13,
+    color: "#4E4E55",
+  },
+  productList: {
+    gap: 12,
+  },
+  productCard: {
+    backgroundColor: "#F6F1FA",
+    borderRadius: 16,
+    padding: 16,
+    gap: 8,
+  },
+  productHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  productName: {
     fontSize: 16,
+    fontWeight: "700",
+    color: "#1F1F24",
+  },
+  productBrand: {
+    fontSize: 13,
+    color: "#6A4BA1",
+  },
+  productImage: {
+    width: 64,
+    height: 64,
+    borderRadius: 10,
+    backgroundColor: "#E4DDF7",
+  },
+  productReason: {
+    fontSize: 13,
+    color: "#4B3A63",
+  },
+  productIngredients: {
+    fontSize: 12,
+    color: "#5C3AA1",
+  },
+  productPrice: {
+    fontSize: 13,
+    fontWeight: "700",
+    color: "#1F1F24",
+  },
+  buyButton: {
+    alignSelf: "flex-start",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    backgroundColor: "#1F1F24",
+  },
+  buyButtonText: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#FFFFFF",
+  },
+  picksCard: {
+    padding: 16,
+    borderRadius: 20,
+    backgroundColor: "#F9F7FC",
+    gap: 12,
+  },
+  pickGroup: {
+    gap: 6,
+  },
+  pickNeed: {
+    fontSize: 13,
+    fontWeight: "700",
+    color: "#5C3AA1",
+  },
+  pickRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    padding: 10,
+    borderRadius: 12,
+    backgroundColor: "#FFFFFF",
+  },
+  pickLabel: {
+    fontSize: 11,
+    fontWeight: "700",
+    color: "#A884CC",
+    width: 44,
+  },
+  pickName: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1F1F24",
+  },
+  pickPrice: {
+    fontSize: 12,
+    color: "#6F6F73",
+  },
+  pickLink: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#5C3AA1",
+  },
+  reactionRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  reactionChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#E1DDE8",
+    backgroundColor: "#FFFFFF",
+  },
+  reactionChipActive: {
+    backgroundColor: "#A884CC",
+    borderColor: "#A884CC",
+  },
+  reactionChipText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#4E4E55",
+  },
+  reactionChipTextActive: {
+    color: "#FFFFFF",
+  },
+  reactionHelper: {
+    fontSize: 12,
     color: "#6F6F73",
   },
 });
@@ -10,43 +10,27 @@ import {
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import { Image } from "expo-image";
-
-import {
-  type NeedEntry,
-  type ProductRecommendation,
-  type ReportItem,
-} from "@/types/report";
 import type {
   AiActionFrequency,
   AiFocusTopic,
   AiKeyFindingStatus,
   AiReportEnvelope,
-} from "@/types/ai-report";
-import { buildServerUrl } from "@/lib/server";
-import { type PersonalColorExtras } from "@/lib/personal-color";
+  AiReportVersionSummary,
+  NeedEntry,
+  PersonalColorExtras,
+  ReportDetail,
+} from "@tangly/domain";
+
+import type { ProductRecommendation } from "@/types/report";
+import { apiRequest, describeApiError } from "@/lib/api-client";
+import { SCORING_DEBUG_QUERY } from "@/lib/server";
 import { supabase } from "@/lib/supabase";
 import { useRequireProfileDetails } from "@/hooks/use-profile-details";
+import { ScoreBreakdownPanel } from "@/components/score-breakdown";
 
-type ReportType = "skin" | "eye_wrinkle" | "personal_color";
+type ReportType = ReportDetail["type"];
 type PlanType = "free" | "pro";
 
-type ReportDetailPayload = {
-  type: ReportType;
-  sessionId: string;
-  createdAt: string | null;
-  thumbnail: string | null;
-  summary: string;
-  highlight: string;
-  items: ReportItem[];
-  tips: string[];
-  needs: NeedEntry[];
-  recommendations: ProductRecommendation[];
-  extras?: PersonalColorExtras | null;
-  aiReport?: AiReportEnvelope | null;
-};
-
-type ApiResponse = ReportDetailPayload & { error?: string };
-
 const SKELETON_PLACEHOLDER =
   "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVQIW2NkYGD4DwABBAEAfZcb1gAAAABJRU5ErkJggg==";
 
@@ -93,12 +77,14 @@ export default function ReportDetailScreen() {
   };
   const initialType: ReportType = parseType(typeParam);
 
-  const [report, setReport] = useState<ReportDetailPayload | null>(null);
+  const [report, setReport] = useState<ReportDetail | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [reportType, setReportType] = useState<ReportType>(initialType);
   const [planType, setPlanType] = useState<PlanType>("free");
   const [planLoading, setPlanLoading] = useState(true);
+  const [aiVersions, setAiVersions] = useState<AiReportVersionSummary[]>([]);
+  const [aiVersionLoading, setAiVersionLoading] = useState(false);
   const { loading: detailsChecking } = useRequireProfileDetails();
 
   useEffect(() => {
@@ -159,22 +145,16 @@ export default function ReportDetailScreen() {
       try {
         setLoading(true);
         setError(null);
-        const query = reportType === "personal_color" ? "?type=personal_color" : "";
-        const response = await fetch(buildServerUrl(`/api/reports/${sessionId}${query}`));
-        if (!response.ok) {
-          throw new Error("리포트를 불러오지 못했습니다.");
-        }
-        const payload = (await response.json()) as ApiResponse;
-        if ((payload as { error?: string }).error) {
-          throw new Error((payload as { error: string }).error);
-        }
+        const payload = await apiRequest("GET /api/reports/:sessionId", {
+          params: { sessionId },
+          query: reportType === "personal_color" ? { type: "personal_color" } : SCORING_DEBUG_QUERY,
+        });
         if (payload.type && payload.type !== reportType) {
           setReportType(parseType(payload.type));
         }
         setReport(payload);
       } catch (err) {
-        const message = err instanceof Error ? err.message : "네트워크 오류가 발생했습니다.";
-        setError(message);
+        setError(describeApiError(err, "리포트를 불러오지 못했습니다."));
       } finally {
         setLoading(false);
       }
@@ -183,6 +163,53 @@ export default function ReportDetailScreen() {
     fetchDetail();
   }, [sessionId, reportType]);
 
+  const aiReportKind = report?.aiReport?.version?.kind ?? null;
+
+  useEffect(() => {
+    if (!sessionId || !aiReportKind) {
+      setAiVersions([]);
+      return;
+    }
+    let active = true;
+    const loadVersions = async () => {
+      try {
+        const payload = await apiRequest("GET /api/reports/:sessionId/ai-versions", {
+          params: { sessionId },
+          query: { kind: aiReportKind },
+        });
+        if (active) {
+          setAiVersions(payload.versions ?? []);
+        }
+      } catch (err) {
+        console.warn("ai versions fetch error", err);
+        if (active) {
+          setAiVersions([]);
+        }
+      }
+    };
+
+    loadVersions();
+    return () => {
+      active = false;
+    };
+  }, [sessionId, aiReportKind]);
+
+  const handleSelectAiVersion = async (target: AiReportVersionSummary) => {
+    if (!sessionId || aiVersionLoading) return;
+    try {
+      setAiVersionLoading(true);
+      const payload = await apiRequest("GET /api/reports/:sessionId/ai-versions/:version", {
+        params: { sessionId, version: String(target.version) },
+        query: { kind: target.kind },
+      });
+      setReport((prev) => (prev ? { ...prev, aiReport: payload } : prev));
+    } catch (err) {
+      console.warn("ai version fetch error", err);
+    } finally {
+      setAiVersionLoading(false);
+    }
+  };
+
   const heroImage = report?.thumbnail ?? initialThumb;
   const dateLabel = useMemo(() => formatDate(report?.createdAt ?? initialDate), [report?.createdAt, initialDate]);
   const typeLabel =
@@ -224,12 +251,23 @@ export default function ReportDetailScreen() {
         <Text style={styles.dateLabel}>{dateLabel}</Text>
         <Text style={styles.headline}>{report.highlight}</Text>
         <Text style={styles.summary}>{report.summary}</Text>
+        {reportType !== "personal_color" && sessionId ? (
+          <Pressable
+            style={styles.compareButton}
+            onPress={() => router.push({ pathname: "/reports/compare", params: { id: sessionId } })}
+          >
+            <Text style={styles.compareButtonText}>이전 사진과 비교하기</Text>
+          </Pressable>
+        ) : null}
 
         <AiReportSection
           data={report.aiReport}
           planType={planType}
           loadingPlan={planLoading}
           onUpgradePress={() => router.push("/mypage")}
+          versions={aiVersions}
+          switchingVersion={aiVersionLoading}
+          onSelectVersion={handleSelectAiVersion}
         />
 
         <ReportCard data={report} />
@@ -256,14 +294,29 @@ const AiReportSection = ({
   planType,
   loadingPlan,
   onUpgradePress,
+  versions,
+  switchingVersion,
+  onSelectVersion,
 }: {
   data?: AiReportEnvelope | null;
   planType: PlanType;
   loadingPlan: boolean;
   onUpgradePress: () => void;
+  versions: AiReportVersionSummary[];
+  switchingVersion: boolean;
+  onSelectVersion: (version: AiReportVersionSummary) => void;
 }) => {
   if (!data) return null;
 
+  const versionBar = data.version ? (
+    <AiVersionBar
+      current={data.version}
+      versions={versions}
+      switching={switchingVersion}
+      onSelect={onSelectVersion}
+    />
+  ) : null;
+
   const renderNotice = (message: string) => (
     <View style={styles.aiCard}>
       <View style={styles.aiHeaderRow}>
@@ -272,6 +325,7 @@ const AiReportSection = ({
           <Text style={[styles.aiBadgeText, styles.aiBadgePreviewText]}>PREVIEW</Text>
         </View>
       </View>
+      {versionBar}
       <Text style={styles.aiNoticeText}>{message}</Text>
     </View>
   );
@@ -303,6 +357,7 @@ const AiReportSection = ({
           <Text style={badgeTextStyle}>{planType === "pro" ? "PRO" : "PREVIEW"}</Text>
         </View>
       </View>
+      {versionBar}
       <Text style={styles.aiOneLiner}>{payload.oneLiner || "AI가 리포트를 정리하고 있습니다."}</Text>
       {summaryLines.map((line) => (
         <Text key={line} style={styles.aiSummaryLine}>
@@ -384,6 +439,55 @@ const AiReportSection = ({
   );
 };
 
+const AiVersionBar = ({
+  current,
+  versions,
+  switching,
+  onSelect,
+}: {
+  current: AiReportVersionSummary;
+  versions: AiReportVersionSummary[];
+  switching: boolean;
+  onSelect: (version: AiReportVersionSummary) => void;
+}) => {
+  const meta = [
+    `v${current.version}`,
+    formatDate(current.generatedAt),
+    current.model,
+    current.promptVersion,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return (
+    <View style={styles.aiVersionBlock}>
+      <Text style={styles.aiVersionMeta}>{meta}</Text>
+      {versions.length > 1 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <View style={styles.aiVersionChipRow}>
+            {versions.map((item) => {
+              const active = item.version === current.version;
+              return (
+                <Pressable
+                  key={item.id}
+                  style={[styles.aiVersionChip, active && styles.aiVersionChipActive]}
+                  onPress={() => onSelect(item)}
+                  disabled={switching || active}
+                >
+                  <Text style={[styles.aiVersionChipText, active && styles.aiVersionChipTextActive]}>
+                    v{item.version}
+                    {item.status === "failed" ? " 실패" : ""}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        </ScrollView>
+      )}
+    </View>
+  );
+};
+
 const AiPreviewUpsell = ({
   loading,
   onUpgradePress,
@@ -404,7 +508,7 @@ const AiPreviewUpsell = ({
   </View>
 );
 
-const ReportCard = ({ data }: { data: ReportDetailPayload }) => (
+const ReportCard = ({ data }: { data: ReportDetail }) => (
   <View style={styles.reportCard}>
     <Text style={styles.reportTitle}>세션 요약</Text>
     <Text style={styles.reportSession}>
@@ -545,6 +649,7 @@ const ProductRecommendationCard = ({
       </Text>
     )}
     {item.note ? <Text style={styles.recommendNote}>{item.note}</Text> : null}
+    {item.scoring ? <ScoreBreakdownPanel scoring={item.scoring} /> : null}
   </View>
 );
 
@@ -632,6 +737,20 @@ const styles = StyleSheet.create({
     marginTop: 8,
     paddingHorizontal: 32,
   },
+  compareButton: {
+    alignSelf: "center",
+    marginTop: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#A884CC",
+  },
+  compareButtonText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#A884CC",
+  },
   summary: {
     fontSize: 14,
     color: "#4E4E55",
@@ -678,6 +797,36 @@ const styles = StyleSheet.create({
   aiBadgePreviewText: {
     color: "#5C3AA1",
   },
+  aiVersionBlock: {
+    gap: 8,
+  },
+  aiVersionMeta: {
+    fontSize: 12,
+    color: "#8E7BB8",
+  },
+  aiVersionChipRow: {
+    flexDirection: "row",
+    gap: 6,
+  },
+  aiVersionChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#E6E0F2",
+  },
+  aiVersionChipActive: {
+    backgroundColor: "#1F1F24",
+    borderColor: "#1F1F24",
+  },
+  aiVersionChipText: {
+    fontSize: 12,
+    color: "#5C3AA1",
+    fontWeight: "600",
+  },
+  aiVersionChipTextActive: {
+    color: "#FFFFFF",
+  },
   aiNoticeText: {
     fontSize: 14,
     color: "#6F6F73",
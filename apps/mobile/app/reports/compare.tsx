@@ -0,0 +1,416 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  PanResponder,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+  type LayoutChangeEvent,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { Image } from "expo-image";
+import type { PhotoComparison, PhotoPair } from "@tangly/domain";
+
+import { apiRequest, describeApiError } from "@/lib/api-client";
+
+type ViewMode = "slider" | "side";
+
+export default function PhotoCompareScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ id?: string; against?: string }>();
+  const sessionId = params.id && !Array.isArray(params.id) ? params.id : null;
+  const initialAgainst =
+    params.against && !Array.isArray(params.against) ? params.against : null;
+
+  const [against, setAgainst] = useState<string | null>(initialAgainst);
+  const [data, setData] = useState<PhotoComparison | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pairKey, setPairKey] = useState<string | null>(null);
+  const [mode, setMode] = useState<ViewMode>("slider");
+
+  useEffect(() => {
+    const loadComparison = async () => {
+      if (!sessionId) {
+        setError("세션 정보가 없습니다.");
+        setLoading(false);
+        return;
+      }
+      try {
+        setLoading(true);
+        setError(null);
+        const payload = await apiRequest("GET /api/reports/:sessionId/photo-comparison", {
+          params: { sessionId },
+          query: { against: against ?? undefined },
+        });
+        setData(payload);
+        setPairKey((prev) =>
+          payload.pairs.some((pair) => pair.key === prev) ? prev : payload.pairs[0]?.key ?? null
+        );
+      } catch (err) {
+        setError(describeApiError(err, "비교할 사진을 불러오지 못했습니다."));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadComparison();
+  }, [sessionId, against]);
+
+  const activePair = useMemo(
+    () => data?.pairs.find((pair) => pair.key === pairKey) ?? data?.pairs[0] ?? null,
+    [data, pairKey]
+  );
+  const otherSessionId =
+    data?.before?.sessionId === sessionId ? data?.after?.sessionId : data?.before?.sessionId;
+
+  const renderBody = () => {
+    if (loading) {
+      return (
+        <View style={styles.centerState}>
+          <ActivityIndicator />
+          <Text style={styles.stateText}>사진을 불러오는 중입니다...</Text>
+        </View>
+      );
+    }
+
+    if (error || !data) {
+      return (
+        <View style={styles.centerState}>
+          <Text style={styles.stateText}>{error ?? "비교할 사진을 찾을 수 없습니다."}</Text>
+        </View>
+      );
+    }
+
+    if (!data.before || !data.after || !activePair) {
+      return (
+        <View style={styles.centerState}>
+          <Text style={styles.stateText}>
+            같은 부위를 촬영한 이전 세션이 없어요. 다음 촬영 후 변화를 비교해 보세요.
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.dateRow}>
+          <Text style={styles.dateText}>Before · {formatDate(data.before.createdAt)}</Text>
+          <Text style={styles.dateText}>After · {formatDate(data.after.createdAt)}</Text>
+        </View>
+
+        <View style={styles.chipRow}>
+          {(["slider", "side"] as ViewMode[]).map((key) => (
+            <Pressable
+              key={key}
+              style={[styles.chip, mode === key && styles.chipActive]}
+              onPress={() => setMode(key)}
+            >
+              <Text style={[styles.chipText, mode === key && styles.chipTextActive]}>
+                {key === "slider" ? "슬라이더" : "나란히 보기"}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        {mode === "slider" ? (
+          <SliderCompare key={activePair.key} pair={activePair} />
+        ) : (
+          <View style={styles.sideRow}>
+            <SideImage label="Before" uri={activePair.before.imageUrl} />
+            <SideImage label="After" uri={activePair.after.imageUrl} />
+          </View>
+        )}
+
+        <Text style={styles.sectionTitle}>촬영 부위</Text>
+        <View style={styles.chipRow}>
+          {data.pairs.map((pair) => (
+            <Pressable
+              key={pair.key}
+              style={[styles.chip, pair.key === activePair.key && styles.chipActive]}
+              onPress={() => setPairKey(pair.key)}
+            >
+              <Text style={[styles.chipText, pair.key === activePair.key && styles.chipTextActive]}>
+                {pair.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        {data.candidates.length > 1 ? (
+          <>
+            <Text style={styles.sectionTitle}>비교할 세션</Text>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.chipRow}
+            >
+              {data.candidates.map((candidate) => {
+                const active = candidate.sessionId === otherSessionId;
+                return (
+                  <Pressable
+                    key={candidate.sessionId}
+                    style={[styles.chip, active && styles.chipActive]}
+                    onPress={() => setAgainst(candidate.sessionId)}
+                  >
+                    <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                      {formatDate(candidate.createdAt)}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </ScrollView>
+          </>
+        ) : null}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.headerRow}>
+        <Pressable style={styles.backButton} onPress={() => router.back()}>
+          <Text style={styles.backButtonText}>뒤로</Text>
+        </Pressable>
+        <Text style={styles.headerTitle}>전후 비교</Text>
+        <View style={{ width: 44 }} />
+      </View>
+      {renderBody()}
+    </SafeAreaView>
+  );
+}
+
+const SliderCompare = ({ pair }: { pair: PhotoPair }) => {
+  const [width, setWidth] = useState(0);
+  const [position, setPosition] = useState(0.5);
+  const widthRef = useRef(0);
+
+  const updatePosition = useCallback((x: number) => {
+    if (!widthRef.current) return;
+    setPosition(Math.min(1, Math.max(0, x / widthRef.current)));
+  }, []);
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: () => true,
+        onPanResponderTerminationRequest: () => false,
+        onPanResponderGrant: (event) => updatePosition(event.nativeEvent.locationX),
+        onPanResponderMove: (event) => updatePosition(event.nativeEvent.locationX),
+      }),
+    [updatePosition]
+  );
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    widthRef.current = event.nativeEvent.layout.width;
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  return (
+    <View style={styles.sliderFrame} onLayout={handleLayout} {...panResponder.panHandlers}>
+      <Image source={pair.after.imageUrl} style={styles.sliderImage} contentFit="cover" cachePolicy="disk" />
+      <View style={[styles.sliderClip, { width: width * position }]} pointerEvents="none">
+        <Image
+          source={pair.before.imageUrl}
+          style={[styles.sliderImage, { width }]}
+          contentFit="cover"
+          cachePolicy="disk"
+        />
+      </View>
+      <View style={[styles.sliderHandle, { left: width * position - 1 }]} pointerEvents="none">
+        <View style={styles.sliderKnob} />
+      </View>
+      <Text style={[styles.sliderTag, styles.sliderTagLeft]} pointerEvents="none">
+        Before
+      </Text>
+      <Text style={[styles.sliderTag, styles.sliderTagRight]} pointerEvents="none">
+        After
+      </Text>
+    </View>
+  );
+};
+
+const SideImage = ({ label, uri }: { label: string; uri: string }) => (
+  <View style={styles.sideColumn}>
+    <Image source={uri} style={styles.sideImage} contentFit="cover" cachePolicy="disk" />
+    <Text style={styles.sideLabel}>{label}</Text>
+  </View>
+);
+
+const formatDate = (input: string | null) => {
+  if (!input) return "";
+  const date = new Date(input);
+  if (Number.isNaN(date.getTime())) {
+    return "";
+  }
+  const year = date.getFullYear();
+  const month = `${date.getMonth() + 1}`.padStart(2, "0");
+  const day = `${date.getDate()}`.padStart(2, "0");
+  return `${year}.${month}.${day}`;
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: "#FFFFFF",
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingTop: 12,
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#E6E6EB",
+  },
+  backButtonText: {
+    color: "#6F6F73",
+    fontSize: 13,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1F1F24",
+  },
+  centerState: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 32,
+  },
+  stateText: {
+    marginTop: 12,
+    color: "#6F6F73",
+    textAlign: "center",
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 48,
+  },
+  dateRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 12,
+  },
+  dateText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#6F6F73",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    backgroundColor: "#F3EEFA",
+  },
+  chipActive: {
+    backgroundColor: "#1F1F24",
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#6F6F73",
+  },
+  chipTextActive: {
+    color: "#FFFFFF",
+  },
+  sliderFrame: {
+    width: "100%",
+    aspectRatio: 3 / 4,
+    borderRadius: 24,
+    overflow: "hidden",
+    backgroundColor: "#F1EAFB",
+  },
+  sliderImage: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    bottom: 0,
+    width: "100%",
+  },
+  sliderClip: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    bottom: 0,
+    overflow: "hidden",
+  },
+  sliderHandle: {
+    position: "absolute",
+    top: 0,
+    bottom: 0,
+    width: 2,
+    backgroundColor: "#FFFFFF",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  sliderKnob: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: "#FFFFFF",
+    borderWidth: 2,
+    borderColor: "#A884CC",
+  },
+  sliderTag: {
+    position: "absolute",
+    top: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 999,
+    backgroundColor: "rgba(0,0,0,0.55)",
+    color: "#FFFFFF",
+    fontSize: 11,
+    fontWeight: "600",
+    overflow: "hidden",
+  },
+  sliderTagLeft: {
+    left: 12,
+  },
+  sliderTagRight: {
+    right: 12,
+  },
+  sideRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  sideColumn: {
+    flex: 1,
+    alignItems: "center",
+  },
+  sideImage: {
+    width: "100%",
+    aspectRatio: 3 / 4,
+    borderRadius: 18,
+    backgroundColor: "#F1EAFB",
+  },
+  sideLabel: {
+    marginTop: 8,
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#6F6F73",
+  },
+  sectionTitle: {
+    marginTop: 24,
+    marginBottom: 10,
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#1F1F24",
+  },
+});
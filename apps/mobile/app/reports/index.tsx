@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   ActivityIndicator,
   FlatList,
@@ -10,23 +10,28 @@ import {
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useRouter } from "expo-router";
 import { Image } from "expo-image";
+import type { ReportArchiveItem, ReportArchiveType } from "@tangly/domain";
 
-import { SERVER_BASE_URL, buildServerUrl } from "@/lib/server";
+import { apiRequest, describeApiError } from "@/lib/api-client";
 import { useRequireProfileDetails } from "@/hooks/use-profile-details";
 
-type ArchiveType = "skin" | "eye_wrinkle" | "personal_color";
+type ArchiveFilter = "all" | ReportArchiveType;
 
-type ArchiveItem = {
-  id: string;
-  createdAt: string | null;
-  summary: string;
-  headline: string;
-  thumbnail: string | null;
-  type: ArchiveType;
-};
+const PAGE_SIZE = 12;
+
+const ARCHIVE_FILTERS: { key: ArchiveFilter; label: string }[] = [
+  { key: "all", label: "전체" },
+  { key: "skin", label: "피부" },
+  { key: "trouble", label: "트러블" },
+  { key: "eye_wrinkle", label: "눈 주름" },
+  { key: "personal_color", label: "퍼스널컬러" },
+];
 
-type ArchiveResponse = {
-  reports: ArchiveItem[];
+const TYPE_LABELS: Record<ReportArchiveType, string> = {
+  skin: "피부",
+  trouble: "트러블",
+  eye_wrinkle: "눈 주름",
+  personal_color: "퍼스널컬러",
 };
 
 const SKELETON_PLACEHOLDER =
@@ -34,38 +39,98 @@ const SKELETON_PLACEHOLDER =
 
 export default function ReportArchiveScreen() {
   const router = useRouter();
-  const [reports, setReports] = useState<ArchiveItem[]>([]);
+  const [reports, setReports] = useState<ReportArchiveItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [filter, setFilter] = useState<ArchiveFilter>("all");
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
+  const requestIdRef = useRef(0);
   const { loading: checkingDetails } = useRequireProfileDetails();
 
+  const fetchPage = useCallback(
+    (type: ArchiveFilter, cursor: string | null) =>
+      apiRequest("GET /api/reports", {
+        query: {
+          limit: PAGE_SIZE,
+          type: type === "all" ? undefined : type,
+          cursor: cursor ?? undefined,
+        },
+      }),
+    []
+  );
+
   useEffect(() => {
+    const requestId = ++requestIdRef.current;
     const loadReports = async () => {
-      if (!SERVER_BASE_URL) {
-        setError("서버 주소가 설정되지 않았습니다.");
-        setLoading(false);
-        return;
-      }
-
       try {
         setLoading(true);
         setError(null);
-        const response = await fetch(buildServerUrl("/api/reports?limit=20"));
-        if (!response.ok) {
-          throw new Error("리포트를 불러오지 못했습니다.");
-        }
-        const payload = (await response.json()) as ArchiveResponse;
+        setLoadMoreError(null);
+        const payload = await fetchPage(filter, null);
+        if (requestId !== requestIdRef.current) return;
         setReports(payload.reports ?? []);
+        setNextCursor(payload.nextCursor ?? null);
       } catch (err) {
-        const message = err instanceof Error ? err.message : "네트워크 오류가 발생했습니다.";
-        setError(message);
+        if (requestId !== requestIdRef.current) return;
+        setError(describeApiError(err, "리포트를 불러오지 못했습니다."));
+        setReports([]);
+        setNextCursor(null);
       } finally {
-        setLoading(false);
+        if (requestId === requestIdRef.current) {
+          setLoading(false);
+          setLoadingMore(false);
+        }
       }
     };
 
     loadReports();
-  }, []);
+  }, [filter, fetchPage]);
+
+  const handleLoadMore = useCallback(async () => {
+    if (!nextCursor || loading || loadingMore) {
+      return;
+    }
+    const requestId = requestIdRef.current;
+    try {
+      setLoadingMore(true);
+      setLoadMoreError(null);
+      const payload = await fetchPage(filter, nextCursor);
+      if (requestId !== requestIdRef.current) return;
+      setReports((prev) => {
+        const seen = new Set(prev.map((item) => item.id));
+        return [...prev, ...(payload.reports ?? []).filter((item) => !seen.has(item.id))];
+      });
+      setNextCursor(payload.nextCursor ?? null);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      setLoadMoreError(describeApiError(err, "리포트를 불러오지 못했습니다."));
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoadingMore(false);
+      }
+    }
+  }, [fetchPage, filter, loading, loadingMore, nextCursor]);
+
+  const renderFooter = () => {
+    if (loadingMore) {
+      return (
+        <View style={styles.footerState}>
+          <ActivityIndicator />
+        </View>
+      );
+    }
+    if (loadMoreError) {
+      return (
+        <Pressable style={styles.footerState} onPress={handleLoadMore}>
+          <Text style={styles.stateText}>{loadMoreError}</Text>
+          <Text style={styles.retryText}>다시 시도</Text>
+        </Pressable>
+      );
+    }
+    return null;
+  };
 
   const renderContent = () => {
     if (loading || checkingDetails) {
@@ -88,7 +153,11 @@ export default function ReportArchiveScreen() {
     if (!reports.length) {
       return (
         <View style={styles.centerState}>
-          <Text style={styles.stateText}>아직 저장된 리포트가 없습니다.</Text>
+          <Text style={styles.stateText}>
+            {filter === "all"
+              ? "아직 저장된 리포트가 없습니다."
+              : `${TYPE_LABELS[filter]} 리포트가 아직 없습니다.`}
+          </Text>
         </View>
       );
     }
@@ -104,6 +173,13 @@ export default function ReportArchiveScreen() {
         windowSize={6}
         initialNumToRender={4}
         removeClippedSubviews
+        onEndReached={() => {
+          if (!loadMoreError) {
+            handleLoadMore();
+          }
+        }}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={renderFooter}
         renderItem={({ item }) => (
           <ReportCard
             item={item}
@@ -127,8 +203,29 @@ export default function ReportArchiveScreen() {
   return (
     <SafeAreaView style={styles.safeArea}>
       <View style={styles.container}>
-        <Text style={styles.pageTitle}>리포트</Text>
+        <View style={styles.titleRow}>
+          <Text style={styles.pageTitle}>리포트</Text>
+          <Pressable style={styles.progressButton} onPress={() => router.push("/reports/progress")}>
+            <Text style={styles.progressButtonText}>변화 추이</Text>
+          </Pressable>
+        </View>
         <Text style={styles.pageSubtitle}>촬영 후 생성된 리포트를 차곡차곡 모았어요.</Text>
+        <View style={styles.filterRow}>
+          {ARCHIVE_FILTERS.map((option) => {
+            const active = option.key === filter;
+            return (
+              <Pressable
+                key={option.key}
+                style={[styles.filterChip, active && styles.filterChipActive]}
+                onPress={() => setFilter(option.key)}
+              >
+                <Text style={[styles.filterChipText, active && styles.filterChipTextActive]}>
+                  {option.label}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
         {renderContent()}
       </View>
     </SafeAreaView>
@@ -139,12 +236,11 @@ const ReportCard = ({
   item,
   onPress,
 }: {
-  item: ArchiveItem;
-  onPress: (item: ArchiveItem) => void;
+  item: ReportArchiveItem;
+  onPress: (item: ReportArchiveItem) => void;
 }) => {
   const dateLabel = useMemo(() => formatDate(item.createdAt), [item.createdAt]);
-  const typeLabel =
-    item.type === "personal_color" ? "퍼스널컬러" : item.type === "eye_wrinkle" ? "눈 주름" : "피부";
+  const typeLabel = TYPE_LABELS[item.type] ?? "피부";
 
   return (
     <Pressable style={styles.card} onPress={() => onPress(item)}>
@@ -202,6 +298,23 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     paddingTop: 16,
   },
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  progressButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#E6E6EB",
+  },
+  progressButtonText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#1F1F24",
+  },
   pageTitle: {
     fontSize: 26,
     fontWeight: "700",
@@ -223,6 +336,39 @@ const styles = StyleSheet.create({
     marginTop: 12,
     color: "#6F6F73",
   },
+  filterRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 16,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    backgroundColor: "#F3EEFA",
+  },
+  filterChipActive: {
+    backgroundColor: "#1F1F24",
+  },
+  filterChipText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#6F6F73",
+  },
+  filterChipTextActive: {
+    color: "#FFFFFF",
+  },
+  footerState: {
+    alignItems: "center",
+    paddingVertical: 20,
+  },
+  retryText: {
+    marginTop: 6,
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#1F1F24",
+  },
   listContent: {
     paddingBottom: 32,
   },
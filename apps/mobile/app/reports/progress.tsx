@@ -0,0 +1,573 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+
+import { apiRequest, describeApiError } from "@/lib/api-client";
+import { useRequireProfileDetails } from "@/hooks/use-profile-details";
+import type {
+  ComparisonEntry,
+  ProgressDirection,
+  ProgressSession,
+  ProgressTimeline,
+  ProgressTrend,
+  SessionComparison,
+} from "@/types/progress";
+
+type TrendTab = "metrics" | "needs";
+
+const CHART_HEIGHT = 140;
+
+const TYPE_LABELS: Record<ProgressSession["type"], string> = {
+  skin: "피부",
+  trouble: "트러블",
+  eye_wrinkle: "눈 주름",
+  personal_color: "퍼스널컬러",
+};
+
+const DIRECTION_LABELS: Record<ProgressDirection, string> = {
+  improved: "좋아졌어요",
+  regressed: "관리가 더 필요해요",
+  steady: "비슷해요",
+};
+
+const DIRECTION_COLORS: Record<ProgressDirection, string> = {
+  improved: "#3C9D6E",
+  regressed: "#D0674F",
+  steady: "#8A8A92",
+};
+
+export default function ProgressScreen() {
+  const router = useRouter();
+  const { loading: checkingDetails } = useRequireProfileDetails();
+  const [timeline, setTimeline] = useState<ProgressTimeline | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [tab, setTab] = useState<TrendTab>("metrics");
+  const [selectedTrendId, setSelectedTrendId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<SessionComparison | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [compareError, setCompareError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadTimeline = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const next = await apiRequest("GET /api/progress", { query: { limit: 20 } });
+        setTimeline(next);
+        setCompareIds(next.sessions.slice(-2).map((session) => session.sessionId));
+      } catch (err) {
+        setError(describeApiError(err, "변화 기록을 불러오지 못했습니다."));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadTimeline();
+  }, []);
+
+  const trends = useMemo(
+    () => (tab === "metrics" ? timeline?.metrics : timeline?.needs) ?? [],
+    [tab, timeline]
+  );
+  const selectedTrend =
+    trends.find((trend) => trend.id === selectedTrendId) ?? trends[0] ?? null;
+
+  const runComparison = useCallback(async (ids: string[]) => {
+    if (ids.length !== 2) {
+      setComparison(null);
+      return;
+    }
+    try {
+      setComparing(true);
+      setCompareError(null);
+      const result = await apiRequest("GET /api/progress/compare", {
+        query: { before: ids[0], after: ids[1] },
+      });
+      setComparison(result);
+    } catch (err) {
+      setComparison(null);
+      setCompareError(describeApiError(err, "세션을 비교하지 못했습니다."));
+    } finally {
+      setComparing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    runComparison(compareIds);
+  }, [compareIds, runComparison]);
+
+  const toggleCompareSession = (sessionId: string) => {
+    setCompareIds((prev) => {
+      if (prev.includes(sessionId)) {
+        return prev.filter((id) => id !== sessionId);
+      }
+      return [...prev, sessionId].slice(-2);
+    });
+  };
+
+  const renderBody = () => {
+    if (loading || checkingDetails) {
+      return (
+        <View style={styles.centerState}>
+          <ActivityIndicator />
+          <Text style={styles.stateText}>변화 기록을 불러오는 중입니다...</Text>
+        </View>
+      );
+    }
+
+    if (error || !timeline) {
+      return (
+        <View style={styles.centerState}>
+          <Text style={styles.stateText}>{error ?? "변화 기록을 찾을 수 없습니다."}</Text>
+        </View>
+      );
+    }
+
+    if (timeline.sessions.length < 2) {
+      return (
+        <View style={styles.centerState}>
+          <Text style={styles.stateText}>
+            분석을 두 번 이상 진행하면 피부 변화를 비교해 드릴게요.
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.tabRow}>
+          {(["metrics", "needs"] as TrendTab[]).map((key) => (
+            <Pressable
+              key={key}
+              style={[styles.tabChip, tab === key && styles.tabChipActive]}
+              onPress={() => {
+                setTab(key);
+                setSelectedTrendId(null);
+              }}
+            >
+              <Text style={[styles.tabChipText, tab === key && styles.tabChipTextActive]}>
+                {key === "metrics" ? "피부 지표" : "케어 필요도"}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        {selectedTrend ? <TrendChart trend={selectedTrend} /> : null}
+
+        <View style={styles.trendList}>
+          {trends.map((trend) => (
+            <TrendRow
+              key={trend.id}
+              trend={trend}
+              active={trend.id === selectedTrend?.id}
+              onPress={() => setSelectedTrendId(trend.id)}
+            />
+          ))}
+        </View>
+
+        <Text style={styles.sectionTitle}>두 세션 비교</Text>
+        <Text style={styles.sectionHint}>비교할 세션을 두 개 선택해 주세요.</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.sessionRow}>
+          {timeline.sessions.map((session) => {
+            const order = compareIds.indexOf(session.sessionId);
+            return (
+              <Pressable
+                key={session.sessionId}
+                style={[styles.sessionChip, order >= 0 && styles.sessionChipActive]}
+                onPress={() => toggleCompareSession(session.sessionId)}
+              >
+                <Text style={[styles.sessionChipDate, order >= 0 && styles.sessionChipTextActive]}>
+                  {formatDate(session.createdAt)}
+                </Text>
+                <Text style={[styles.sessionChipType, order >= 0 && styles.sessionChipTextActive]}>
+                  {TYPE_LABELS[session.type]}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </ScrollView>
+
+        {comparing ? (
+          <ActivityIndicator style={styles.compareLoader} />
+        ) : compareError ? (
+          <Text style={styles.stateText}>{compareError}</Text>
+        ) : comparison ? (
+          <ComparisonCard
+            comparison={comparison}
+            onOpenSession={(sessionId) =>
+              router.push({ pathname: "/reports/[id]", params: { id: sessionId } })
+            }
+          />
+        ) : null}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.headerRow}>
+        <Pressable style={styles.backButton} onPress={() => router.back()}>
+          <Text style={styles.backButtonText}>뒤로</Text>
+        </Pressable>
+        <Text style={styles.headerTitle}>변화 추이</Text>
+        <View style={{ width: 44 }} />
+      </View>
+      {renderBody()}
+    </SafeAreaView>
+  );
+}
+
+const TrendChart = ({ trend }: { trend: ProgressTrend }) => {
+  // Need scores have no fixed ceiling, so scale them against the largest recorded value.
+  const ceiling =
+    trend.kind === "metric" ? 100 : Math.max(3, ...trend.points.map((point) => point.value));
+
+  return (
+    <View style={styles.chartCard}>
+      <Text style={styles.chartTitle}>{trend.label}</Text>
+      <Text style={styles.chartHint}>
+        {trend.higherIsBetter ? "높을수록 좋아요" : "낮을수록 관리가 잘 되고 있어요"}
+      </Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chartBars}>
+        {trend.points.map((point) => {
+          const height = Math.max(4, (point.value / ceiling) * CHART_HEIGHT);
+          return (
+            <View key={point.sessionId} style={styles.chartColumn}>
+              <Text style={styles.chartValue}>{point.value}</Text>
+              <View style={[styles.chartBar, { height }]} />
+              <Text style={styles.chartDate}>{formatShortDate(point.createdAt)}</Text>
+            </View>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+};
+
+const TrendRow = ({
+  trend,
+  active,
+  onPress,
+}: {
+  trend: ProgressTrend;
+  active: boolean;
+  onPress: () => void;
+}) => (
+  <Pressable style={[styles.trendRow, active && styles.trendRowActive]} onPress={onPress}>
+    <View style={styles.trendText}>
+      <Text style={styles.trendLabel}>{trend.label}</Text>
+      <Text style={styles.trendMeta}>
+        최근 {trend.latest ?? "-"}
+        {trend.change !== null ? ` · ${formatDelta(trend.change)}` : ""}
+      </Text>
+    </View>
+    {trend.direction ? (
+      <Text style={[styles.directionBadge, { color: DIRECTION_COLORS[trend.direction] }]}>
+        {DIRECTION_LABELS[trend.direction]}
+      </Text>
+    ) : (
+      <Text style={styles.directionBadge}>기록 1회</Text>
+    )}
+  </Pressable>
+);
+
+const ComparisonCard = ({
+  comparison,
+  onOpenSession,
+}: {
+  comparison: SessionComparison;
+  onOpenSession: (sessionId: string) => void;
+}) => (
+  <View style={styles.compareCard}>
+    <View style={styles.compareHeader}>
+      <Pressable onPress={() => onOpenSession(comparison.before.sessionId)}>
+        <Text style={styles.compareDate}>{formatDate(comparison.before.createdAt)}</Text>
+      </Pressable>
+      <Text style={styles.compareArrow}>→</Text>
+      <Pressable onPress={() => onOpenSession(comparison.after.sessionId)}>
+        <Text style={styles.compareDate}>{formatDate(comparison.after.createdAt)}</Text>
+      </Pressable>
+    </View>
+    <Text style={styles.compareSummary}>{comparison.summary}</Text>
+    {[...comparison.metrics, ...comparison.needs].map((entry) => (
+      <ComparisonRow key={`${entry.kind}-${entry.id}`} entry={entry} />
+    ))}
+  </View>
+);
+
+const ComparisonRow = ({ entry }: { entry: ComparisonEntry }) => (
+  <View style={styles.compareRow}>
+    <Text style={styles.compareLabel}>
+      {entry.label}
+      {entry.kind === "need" ? " (케어 필요도)" : ""}
+    </Text>
+    <Text style={styles.compareValues}>
+      {entry.before ?? "-"} → {entry.after ?? "-"}
+    </Text>
+    {entry.direction ? (
+      <Text style={[styles.compareDirection, { color: DIRECTION_COLORS[entry.direction] }]}>
+        {DIRECTION_LABELS[entry.direction]}
+      </Text>
+    ) : null}
+  </View>
+);
+
+const formatDelta = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+const formatDate = (input: string | null) => {
+  if (!input) return "";
+  const date = new Date(input);
+  if (Number.isNaN(date.getTime())) {
+    return "";
+  }
+  const year = date.getFullYear();
+  const month = `${date.getMonth() + 1}`.padStart(2, "0");
+  const day = `${date.getDate()}`.padStart(2, "0");
+  return `${year}.${month}.${day}`;
+};
+
+const formatShortDate = (input: string | null) => formatDate(input).slice(5);
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: "#FFFFFF",
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingTop: 12,
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#E6E6EB",
+  },
+  backButtonText: {
+    color: "#6F6F73",
+    fontSize: 13,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1F1F24",
+  },
+  centerState: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 32,
+  },
+  stateText: {
+    marginTop: 12,
+    color: "#6F6F73",
+    textAlign: "center",
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 48,
+  },
+  tabRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 16,
+  },
+  tabChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 999,
+    backgroundColor: "#F3EEFA",
+  },
+  tabChipActive: {
+    backgroundColor: "#1F1F24",
+  },
+  tabChipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#6F6F73",
+  },
+  tabChipTextActive: {
+    color: "#FFFFFF",
+  },
+  chartCard: {
+    backgroundColor: "#F9F7FC",
+    borderRadius: 20,
+    padding: 16,
+  },
+  chartTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#1F1F24",
+  },
+  chartHint: {
+    marginTop: 4,
+    fontSize: 12,
+    color: "#8A8A92",
+  },
+  chartBars: {
+    alignItems: "flex-end",
+    gap: 14,
+    paddingTop: 16,
+    minHeight: CHART_HEIGHT + 48,
+  },
+  chartColumn: {
+    alignItems: "center",
+    justifyContent: "flex-end",
+    width: 36,
+  },
+  chartValue: {
+    fontSize: 11,
+    color: "#4E4E55",
+    marginBottom: 4,
+  },
+  chartBar: {
+    width: 18,
+    borderRadius: 9,
+    backgroundColor: "#A884CC",
+  },
+  chartDate: {
+    marginTop: 6,
+    fontSize: 11,
+    color: "#8A8A92",
+  },
+  trendList: {
+    marginTop: 16,
+    gap: 8,
+  },
+  trendRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#EFEAF5",
+  },
+  trendRowActive: {
+    borderColor: "#A884CC",
+    backgroundColor: "#FBF8FE",
+  },
+  trendText: {
+    flex: 1,
+    gap: 2,
+  },
+  trendLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1F1F24",
+  },
+  trendMeta: {
+    fontSize: 12,
+    color: "#6F6F73",
+  },
+  directionBadge: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#8A8A92",
+  },
+  sectionTitle: {
+    marginTop: 28,
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1F1F24",
+  },
+  sectionHint: {
+    marginTop: 4,
+    fontSize: 12,
+    color: "#8A8A92",
+  },
+  sessionRow: {
+    gap: 8,
+    paddingVertical: 12,
+  },
+  sessionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 14,
+    backgroundColor: "#F3EEFA",
+    alignItems: "center",
+  },
+  sessionChipActive: {
+    backgroundColor: "#1F1F24",
+  },
+  sessionChipDate: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#4E4E55",
+  },
+  sessionChipType: {
+    marginTop: 2,
+    fontSize: 11,
+    color: "#8A8A92",
+  },
+  sessionChipTextActive: {
+    color: "#FFFFFF",
+  },
+  compareLoader: {
+    marginTop: 16,
+  },
+  compareCard: {
+    marginTop: 4,
+    backgroundColor: "#F9F7FC",
+    borderRadius: 20,
+    padding: 16,
+    gap: 10,
+  },
+  compareHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 12,
+  },
+  compareDate: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#1F1F24",
+    textDecorationLine: "underline",
+  },
+  compareArrow: {
+    color: "#8A8A92",
+  },
+  compareSummary: {
+    fontSize: 13,
+    color: "#4E4E55",
+    lineHeight: 19,
+  },
+  compareRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 8,
+  },
+  compareLabel: {
+    flex: 1,
+    fontSize: 13,
+    color: "#1F1F24",
+  },
+  compareValues: {
+    fontSize: 13,
+    color: "#4E4E55",
+  },
+  compareDirection: {
+    width: 96,
+    textAlign: "right",
+    fontSize: 12,
+    fontWeight: "600",
+  },
+});
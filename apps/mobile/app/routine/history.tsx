@@ -0,0 +1,357 @@
+import { useEffect, useState } from "react";
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+
+import { apiRequest, describeApiError } from "@/lib/api-client";
+import { useRequireProfileDetails } from "@/hooks/use-profile-details";
+import type {
+  MonthlyHistoryEntry,
+  RoutineIntensity,
+  WeeklyHistory,
+  WeeklyHistoryEntry,
+} from "@/types/routine-history";
+
+type HistoryTab = "weekly" | "monthly";
+
+const INTENSITY_LABELS: Record<RoutineIntensity, string> = {
+  gentle: "순하게",
+  standard: "표준",
+  focus: "집중",
+};
+
+export default function RoutineHistoryScreen() {
+  const router = useRouter();
+  const { loading: checkingDetails } = useRequireProfileDetails();
+  const [tab, setTab] = useState<HistoryTab>("weekly");
+  const [weekly, setWeekly] = useState<WeeklyHistory | null>(null);
+  const [months, setMonths] = useState<MonthlyHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const [weeklyPayload, monthlyPayload] = await Promise.all([
+          apiRequest("GET /api/routines/weekly/history", { query: { limit: 12 } }),
+          apiRequest("GET /api/routines/monthly/history", { query: { limit: 6 } }),
+        ]);
+        setWeekly(weeklyPayload);
+        setMonths(monthlyPayload.months ?? []);
+      } catch (err) {
+        setError(describeApiError(err, "루틴 기록을 불러오지 못했습니다."));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, []);
+
+  const renderWeekly = () => {
+    if (!weekly?.weeks.length) {
+      return <Text style={styles.stateText}>아직 기록된 주간 루틴이 없어요.</Text>;
+    }
+    return (
+      <>
+        <View style={styles.summaryRow}>
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryLabel}>연속 달성</Text>
+            <Text style={styles.summaryValue}>{weekly.streak.current}주</Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryLabel}>최장 연속</Text>
+            <Text style={styles.summaryValue}>{weekly.streak.best}주</Text>
+          </View>
+        </View>
+        {weekly.bestWeek ? (
+          <View style={styles.bestCard}>
+            <Text style={styles.bestLabel}>베스트 주간</Text>
+            <Text style={styles.bestTitle}>
+              {formatRange(weekly.bestWeek.weekStart, weekly.bestWeek.weekEnd)} · {weekly.bestWeek.focus}
+            </Text>
+            <Text style={styles.bestText}>
+              {weekly.bestWeek.completed}/{weekly.bestWeek.target}회 체크 ({formatRate(weekly.bestWeek.rate)})
+            </Text>
+          </View>
+        ) : null}
+        <View style={styles.list}>
+          {weekly.weeks.map((week) => (
+            <WeekRow key={week.id} week={week} />
+          ))}
+        </View>
+      </>
+    );
+  };
+
+  const renderMonthly = () => {
+    if (!months.length) {
+      return <Text style={styles.stateText}>아직 기록된 월간 루틴이 없어요.</Text>;
+    }
+    return (
+      <View style={styles.list}>
+        {months.map((month) => (
+          <View key={month.id} style={styles.historyCard}>
+            <View style={styles.rowBetween}>
+              <Text style={styles.historyTitle}>{formatMonth(month.periodMonth)}</Text>
+              {month.current ? <Text style={styles.currentBadge}>이번 달</Text> : null}
+            </View>
+            <Text style={styles.historyText}>{month.goal}</Text>
+            <RateBar rate={month.rate} />
+            <Text style={styles.historyMeta}>
+              {month.weeks
+                ? `주간 루틴 ${month.weeks}주 · ${month.completed}/${month.target}회 체크 (${formatRate(month.rate)})`
+                : "이 달에 진행한 주간 루틴이 없어요."}
+            </Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderBody = () => {
+    if (loading || checkingDetails) {
+      return (
+        <View style={styles.centerState}>
+          <ActivityIndicator />
+          <Text style={styles.stateText}>루틴 기록을 불러오는 중입니다...</Text>
+        </View>
+      );
+    }
+
+    if (error) {
+      return (
+        <View style={styles.centerState}>
+          <Text style={styles.stateText}>{error}</Text>
+        </View>
+      );
+    }
+
+    return (
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.tabRow}>
+          {(["weekly", "monthly"] as HistoryTab[]).map((key) => (
+            <Pressable
+              key={key}
+              style={[styles.tabChip, tab === key && styles.tabChipActive]}
+              onPress={() => setTab(key)}
+            >
+              <Text style={[styles.tabChipText, tab === key && styles.tabChipTextActive]}>
+                {key === "weekly" ? "주간 기록" : "월간 기록"}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+        {tab === "weekly" ? renderWeekly() : renderMonthly()}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.headerRow}>
+        <Pressable style={styles.backButton} onPress={() => router.back()}>
+          <Text style={styles.backButtonText}>뒤로</Text>
+        </Pressable>
+        <Text style={styles.headerTitle}>루틴 기록</Text>
+        <View style={{ width: 44 }} />
+      </View>
+      {renderBody()}
+    </SafeAreaView>
+  );
+}
+
+const WeekRow = ({ week }: { week: WeeklyHistoryEntry }) => (
+  <View style={styles.historyCard}>
+    <View style={styles.rowBetween}>
+      <Text style={styles.historyTitle}>{formatRange(week.weekStart, week.weekEnd)}</Text>
+      {week.current ? (
+        <Text style={styles.currentBadge}>진행 중</Text>
+      ) : week.achieved ? (
+        <Text style={styles.achievedBadge}>목표 달성</Text>
+      ) : null}
+    </View>
+    <Text style={styles.historyText}>
+      {week.focus} · {INTENSITY_LABELS[week.intensity]}
+    </Text>
+    <RateBar rate={week.rate} />
+    <Text style={styles.historyMeta}>
+      {week.completed}/{week.target}회 체크 ({formatRate(week.rate)})
+    </Text>
+  </View>
+);
+
+const RateBar = ({ rate }: { rate: number }) => (
+  <View style={styles.rateTrack}>
+    <View style={[styles.rateFill, { width: `${Math.round(rate * 100)}%` }]} />
+  </View>
+);
+
+const formatRate = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const formatRange = (start: string, end: string) =>
+  `${start.slice(5).replace("-", ".")} - ${end.slice(5).replace("-", ".")}`;
+
+const formatMonth = (periodMonth: string) => {
+  const [year, month] = periodMonth.split("-");
+  return `${year}년 ${Number.parseInt(month ?? "1", 10)}월`;
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: "#FFFFFF",
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingTop: 12,
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#E6E6EB",
+  },
+  backButtonText: {
+    color: "#6F6F73",
+    fontSize: 13,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1F1F24",
+  },
+  centerState: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 32,
+  },
+  stateText: {
+    marginTop: 12,
+    color: "#6F6F73",
+    textAlign: "center",
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 48,
+    gap: 16,
+  },
+  tabRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  tabChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 999,
+    backgroundColor: "#F3EEFA",
+  },
+  tabChipActive: {
+    backgroundColor: "#1F1F24",
+  },
+  tabChipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#6F6F73",
+  },
+  tabChipTextActive: {
+    color: "#FFFFFF",
+  },
+  summaryRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  summaryCard: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 20,
+    backgroundColor: "#F9F7FC",
+    gap: 6,
+  },
+  summaryLabel: {
+    fontSize: 13,
+    color: "#8A8A92",
+  },
+  summaryValue: {
+    fontSize: 24,
+    fontWeight: "700",
+    color: "#5C3AA1",
+  },
+  bestCard: {
+    padding: 16,
+    borderRadius: 20,
+    backgroundColor: "#EFE8FB",
+    gap: 4,
+  },
+  bestLabel: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#5C3AA1",
+  },
+  bestTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#1F1F24",
+  },
+  bestText: {
+    fontSize: 13,
+    color: "#4E4E55",
+  },
+  list: {
+    gap: 12,
+  },
+  historyCard: {
+    padding: 16,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: "#EFEAF6",
+    gap: 8,
+  },
+  rowBetween: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  historyTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#1F1F24",
+  },
+  historyText: {
+    fontSize: 13,
+    color: "#4E4E55",
+  },
+  historyMeta: {
+    fontSize: 12,
+    color: "#8A8A92",
+  },
+  currentBadge: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#5C3AA1",
+  },
+  achievedBadge: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#3C9D6E",
+  },
+  rateTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: "#F1EDF9",
+    overflow: "hidden",
+  },
+  rateFill: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: "#A884CC",
+  },
+});
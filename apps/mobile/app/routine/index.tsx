@@ -1,70 +1,41 @@
 import { useCallback, useEffect, useState } from "react";
 import { Alert, Pressable, ScrollView, StyleSheet, Text, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import type {
+  MonthlyRoutinePayload,
+  RoutineCheckBody,
+  RoutineIntensity,
+  WeeklyRoutinePayload,
+  WeeklyRoutineUpdateBody,
+} from "@tangly/domain";
 
 import { supabase } from "@/lib/supabase";
-import { buildServerUrl } from "@/lib/server";
+import { syncRoutineReminders } from "@/lib/routine-reminders";
+import { apiRequest, describeApiError } from "@/lib/api-client";
 import { useRequireProfileDetails } from "@/hooks/use-profile-details";
 
 type PlanType = "free" | "pro";
 
-type RoutineAction = {
-  title: string;
-  description: string;
-};
-
 type RoutineTab = "weekly" | "monthly";
 
-type RoutineStep = {
-  key: string;
-  label: string;
-  enabled: boolean;
-};
-
-type MonthlyRoutineResponse = {
-  id: string;
-  periodMonth: string;
-  goal: string;
-  summary: string[];
-  cautions: string | null;
-  habits: string[];
-};
-
-type WeeklyRoutineResponse = {
-  id: string;
-  weekStart: string;
-  weekEnd: string;
-  focus: string;
-  focusReason: string;
-  conclusion: string;
-  recommendedDays: string[];
-  intensity: "gentle" | "standard" | "focus";
-  optionalSteps: RoutineStep[];
-  baseRoutine: string[];
-  actions: RoutineAction[];
-  warnings: string[];
-  progress: {
-    completed: number;
-    target: number;
-    daysChecked: string[];
-  };
-};
-
 const DAY_ORDER = ["월", "화", "수", "목", "금", "토", "일"];
 const WEEKDAY_LABELS = ["일", "월", "화", "수", "목", "금", "토"];
 
 export default function RoutineScreen() {
+  const router = useRouter();
   const [planType, setPlanType] = useState<PlanType>("free");
   const [planLoading, setPlanLoading] = useState(true);
   const [userId, setUserId] = useState<string | null>(null);
   const { loading: detailsChecking } = useRequireProfileDetails();
   const [activeTab, setActiveTab] = useState<RoutineTab>("monthly");
 
-  const [monthlyRoutine, setMonthlyRoutine] = useState<MonthlyRoutineResponse | null>(null);
-  const [weeklyRoutine, setWeeklyRoutine] = useState<WeeklyRoutineResponse | null>(null);
+  const [monthlyRoutine, setMonthlyRoutine] = useState<MonthlyRoutinePayload | null>(null);
+  const [weeklyRoutine, setWeeklyRoutine] = useState<WeeklyRoutinePayload | null>(null);
   const [routineLoading, setRoutineLoading] = useState(false);
   const [savingSettings, setSavingSettings] = useState(false);
   const [checking, setChecking] = useState(false);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
 
   useEffect(() => {
     let active = true;
@@ -115,46 +86,28 @@ export default function RoutineScreen() {
     });
   }, [planLoading, planType]);
 
-  const loadRoutine = useCallback(async (plan: PlanType, ownerId: string) => {
+  const loadRoutine = useCallback(async (plan: PlanType) => {
     try {
       setRoutineLoading(true);
       const fetches: Promise<void>[] = [];
 
       if (plan === "pro") {
         fetches.push(
-          fetch(buildServerUrl(`/api/routines/weekly?userId=${ownerId}`))
-            .then(async (response) => {
-              const payload = await response.json();
-              if (!response.ok) {
-                throw new Error(payload?.error ?? "주간 루틴을 불러오지 못했습니다.");
-              }
-              setWeeklyRoutine(payload.routine as WeeklyRoutineResponse);
-            })
+          apiRequest("GET /api/routines/weekly")
+            .then((payload) => setWeeklyRoutine(payload.routine))
             .catch((error) => {
               console.warn("weekly routine fetch error", error);
-              Alert.alert(
-                "루틴 오류",
-                error instanceof Error ? error.message : "주간 루틴을 불러오지 못했습니다."
-              );
+              Alert.alert("루틴 오류", describeApiError(error, "주간 루틴을 불러오지 못했습니다."));
             })
         );
       }
 
       fetches.push(
-        fetch(buildServerUrl(`/api/routines/monthly?userId=${ownerId}`))
-          .then(async (response) => {
-            const payload = await response.json();
-            if (!response.ok) {
-              throw new Error(payload?.error ?? "월간 루틴을 불러오지 못했습니다.");
-            }
-            setMonthlyRoutine(payload.routine as MonthlyRoutineResponse);
-          })
+        apiRequest("GET /api/routines/monthly")
+          .then((payload) => setMonthlyRoutine(payload.routine))
           .catch((error) => {
             console.warn("monthly routine fetch error", error);
-            Alert.alert(
-              "루틴 오류",
-              error instanceof Error ? error.message : "월간 루틴을 불러오지 못했습니다."
-            );
+            Alert.alert("루틴 오류", describeApiError(error, "월간 루틴을 불러오지 못했습니다."));
           })
       );
 
@@ -173,9 +126,16 @@ export default function RoutineScreen() {
     }
     setMonthlyRoutine(null);
     setWeeklyRoutine(null);
-    loadRoutine(planType, userId);
+    loadRoutine(planType);
   }, [planType, planLoading, userId, loadRoutine]);
 
+  useEffect(() => {
+    if (!weeklyRoutine) return;
+    syncRoutineReminders(weeklyRoutine).catch((error) =>
+      console.warn("routine reminder sync error", error)
+    );
+  }, [weeklyRoutine]);
+
   const handleAutoRebalance = async () => {
     if (!weeklyRoutine || !userId) return;
     const nextDays = autoRebalanceDays();
@@ -191,7 +151,7 @@ export default function RoutineScreen() {
     await updateWeeklySettings({ recommendedDays: ordered });
   };
 
-  const handleChangeIntensity = async (next: "gentle" | "standard" | "focus") => {
+  const handleChangeIntensity = async (next: RoutineIntensity) => {
     if (!weeklyRoutine || weeklyRoutine.intensity === next) return;
     await updateWeeklySettings({ intensity: next });
   };
@@ -204,68 +164,52 @@ export default function RoutineScreen() {
     await updateWeeklySettings({ optionalSteps: nextSteps });
   };
 
-  const updateWeeklySettings = async (updates: {
-    recommendedDays?: string[];
-    intensity?: "gentle" | "standard" | "focus";
-    optionalSteps?: RoutineStep[];
-  }) => {
+  const updateWeeklySettings = async (updates: WeeklyRoutineUpdateBody) => {
     if (!userId) return;
     try {
       setSavingSettings(true);
-      const response = await fetch(buildServerUrl("/api/routines/weekly"), {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          userId,
-          ...updates,
-        }),
-      });
-      const payload = await response.json();
-      if (!response.ok) {
-        throw new Error(payload?.error ?? "루틴을 수정하지 못했습니다.");
-      }
-      setWeeklyRoutine(payload.routine as WeeklyRoutineResponse);
+      const payload = await apiRequest("PATCH /api/routines/weekly", { body: updates });
+      setWeeklyRoutine(payload.routine);
     } catch (error) {
-      const message = error instanceof Error ? error.message : "루틴을 수정하지 못했습니다.";
-      Alert.alert("루틴 수정 실패", message);
+      Alert.alert("루틴 수정 실패", describeApiError(error, "루틴을 수정하지 못했습니다."));
     } finally {
       setSavingSettings(false);
     }
   };
 
-  const handleCheckIn = async (targetDate: string) => {
+  const submitCheck = async (method: "POST" | "DELETE", body: RoutineCheckBody) => {
     if (!userId || !weeklyRoutine || checking) return;
-    const today = getTodayIso();
-    if (targetDate !== today) {
-      Alert.alert("오늘만 체크할 수 있어요", "오늘 루틴을 완료했다면 오늘 날짜를 눌러 체크해 주세요.");
-      return;
-    }
-    if (weeklyRoutine.progress.daysChecked.includes(today)) {
-      return;
-    }
+    const fallbackMessage = method === "POST" ? "체크를 기록하지 못했습니다." : "체크를 취소하지 못했습니다.";
     try {
       setChecking(true);
-      const response = await fetch(buildServerUrl("/api/routines/weekly/check"), {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ userId }),
-      });
-      const payload = await response.json();
-      if (!response.ok) {
-        throw new Error(payload?.error ?? "체크를 기록하지 못했습니다.");
-      }
-      const routine = (payload?.routine as WeeklyRoutineResponse | undefined) ?? null;
-      if (routine) {
-        setWeeklyRoutine(routine);
-      }
+      const payload = await apiRequest(`${method} /api/routines/weekly/check`, { body });
+      setWeeklyRoutine(payload.routine);
     } catch (error) {
-      const message = error instanceof Error ? error.message : "체크를 기록하지 못했습니다.";
-      Alert.alert("체크 실패", message);
+      Alert.alert(
+        method === "POST" ? "체크 실패" : "취소 실패",
+        describeApiError(error, fallbackMessage)
+      );
     } finally {
       setChecking(false);
     }
   };
 
+  const handleCheckIn = async (targetDate: string) => {
+    if (!weeklyRoutine || weeklyRoutine.progress.daysChecked.includes(targetDate)) return;
+    await submitCheck("POST", { date: targetDate });
+  };
+
+  const toggleStepCheck = async (targetDate: string, stepKey: string, checked: boolean) => {
+    await submitCheck(checked ? "DELETE" : "POST", { date: targetDate, steps: [stepKey] });
+  };
+
+  const handleUndoDay = (targetDate: string) => {
+    Alert.alert("체크 취소", "이 날의 체크 기록을 모두 지울까요?", [
+      { text: "닫기", style: "cancel" },
+      { text: "취소하기", style: "destructive", onPress: () => submitCheck("DELETE", { date: targetDate }) },
+    ]);
+  };
+
   const showReason = (mode: RoutineTab) => {
     if (mode === "weekly" && weeklyRoutine) {
       const reasons = [
@@ -373,7 +317,14 @@ export default function RoutineScreen() {
 
     const disableActions = savingSettings || checking;
     const weekDays = buildWeekDays(weeklyRoutine.weekStart);
-    const todayIso = getTodayIso();
+    const todayIso = weeklyRoutine.today ?? getTodayIso();
+    const activeDate =
+      selectedDate && selectedDate >= weeklyRoutine.weekStart && selectedDate <= todayIso
+        ? selectedDate
+        : todayIso;
+    const gridByDate = new Map(weeklyRoutine.progress.grid.map((day) => [day.date, day]));
+    const activeChecks = gridByDate.get(activeDate)?.steps ?? [];
+    const activeDayComplete = weeklyRoutine.progress.daysChecked.includes(activeDate);
 
     return (
       <>
@@ -446,32 +397,38 @@ export default function RoutineScreen() {
             </Text>
           </View>
           <Text style={styles.cardText}>
-            주 3회만 지켜도 충분하지만, 원하는 만큼 체크할 수 있어요. 오늘 완료했다면 해당 날짜를 눌러 주세요.
+            주 3회만 지켜도 충분하지만, 원하는 만큼 체크할 수 있어요. 날짜를 눌러 그날 한 단계를 체크하거나 취소할 수 있어요.
           </Text>
           <View style={styles.calendarRow}>
             {weekDays.map((day) => {
               const isChecked = weeklyRoutine.progress.daysChecked.includes(day.iso);
+              const isPartial = !isChecked && Boolean(gridByDate.get(day.iso)?.steps.length);
               const isToday = day.iso === todayIso;
+              const isSelected = day.iso === activeDate;
+              const isFuture = day.iso > todayIso;
               const recommended = weeklyRoutine.recommendedDays.includes(day.label);
               return (
                 <Pressable
                   key={day.iso}
                   style={styles.calendarCell}
-                  onPress={() => handleCheckIn(day.iso)}
-                  disabled={disableActions || isChecked}
+                  onPress={() => setSelectedDate(day.iso)}
+                  disabled={isFuture}
                 >
                   <View
                     style={[
                       styles.calendarCircle,
                       recommended && styles.calendarCircleRecommended,
                       isToday && styles.calendarCircleToday,
+                      isPartial && styles.calendarCirclePartial,
                       isChecked && styles.calendarCircleChecked,
+                      isSelected && styles.calendarCircleSelected,
                     ]}
                   >
                     <Text
                       style={[
                         styles.calendarDayText,
                         isChecked && styles.calendarDayTextChecked,
+                        isFuture && styles.calendarDayTextFuture,
                       ]}
                     >
                       {isChecked ? "✓" : day.dayNumber}
@@ -484,17 +441,51 @@ export default function RoutineScreen() {
               );
             })}
           </View>
+          <Text style={styles.cardSubtitle}>
+            {activeDate === todayIso ? "오늘" : activeDate.replace(/-/g, ".")} 단계별 체크
+          </Text>
+          {weeklyRoutine.progress.steps.map((step) => {
+            const checked = activeChecks.includes(step.key);
+            return (
+              <Pressable
+                key={step.key}
+                style={styles.stepRow}
+                onPress={() => toggleStepCheck(activeDate, step.key, checked)}
+                disabled={disableActions}
+              >
+                <View style={[styles.stepBox, checked && styles.stepBoxChecked]}>
+                  {checked ? <Text style={styles.stepBoxMark}>✓</Text> : null}
+                </View>
+                <Text style={[styles.stepLabel, checked && styles.stepLabelChecked]}>{step.label}</Text>
+                {step.kind === "optional" ? <Text style={styles.stepBadge}>옵션</Text> : null}
+              </Pressable>
+            );
+          })}
+          {activeDayComplete || activeChecks.length ? (
+            <Pressable
+              style={[styles.outlineButton, disableActions && styles.ctaButtonDisabled]}
+              onPress={() => handleUndoDay(activeDate)}
+              disabled={disableActions}
+            >
+              <Text style={styles.outlineButtonText}>이 날 체크 모두 취소</Text>
+            </Pressable>
+          ) : null}
           <Pressable
             style={[
               styles.ctaButton,
-              (disableActions || weeklyRoutine.progress.daysChecked.includes(todayIso)) &&
-                styles.ctaButtonDisabled,
+              (disableActions || activeDayComplete) && styles.ctaButtonDisabled,
             ]}
-            onPress={() => handleCheckIn(todayIso)}
-            disabled={disableActions || weeklyRoutine.progress.daysChecked.includes(todayIso)}
+            onPress={() => handleCheckIn(activeDate)}
+            disabled={disableActions || activeDayComplete}
           >
             <Text style={styles.ctaText}>
-              {weeklyRoutine.progress.daysChecked.includes(todayIso) ? "오늘 완료됨" : "오늘 루틴 완료"}
+              {activeDayComplete
+                ? activeDate === todayIso
+                  ? "오늘 완료됨"
+                  : "완료한 날"
+                : activeDate === todayIso
+                  ? "오늘 루틴 완료"
+                  : "이 날 루틴 완료"}
             </Text>
           </Pressable>
         </View>
@@ -614,6 +605,9 @@ export default function RoutineScreen() {
         ) : (
           renderMonthlyRoutine(planType !== "pro")
         )}
+        <Pressable style={[styles.outlineButton, styles.historyButton]} onPress={() => router.push("/routine/history")}>
+          <Text style={styles.outlineButtonText}>지난 루틴 기록 보기</Text>
+        </Pressable>
       </ScrollView>
     </SafeAreaView>
   );
@@ -654,6 +648,7 @@ const buildWeekDays = (weekStart: string) => {
   });
 };
 
+// Routine weeks and check-in days are computed on the server in the user's time zone.
 const getTodayIso = () => {
   return formatIsoDate(new Date());
 };
@@ -865,6 +860,9 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: "#D8CEE9",
   },
+  historyButton: {
+    alignItems: "center",
+  },
   outlineButtonText: {
     fontSize: 13,
     fontWeight: "600",
@@ -926,6 +924,14 @@ const styles = StyleSheet.create({
   calendarCircleToday: {
     borderColor: "#5C3AA1",
   },
+  calendarCirclePartial: {
+    borderColor: "#CFC4ED",
+    backgroundColor: "#EFE8FB",
+  },
+  calendarCircleSelected: {
+    borderWidth: 2,
+    borderColor: "#5C3AA1",
+  },
   calendarCircleChecked: {
     backgroundColor: "#1F1F24",
     borderColor: "#1F1F24",
@@ -938,6 +944,9 @@ const styles = StyleSheet.create({
   calendarDayTextChecked: {
     color: "#FFFFFF",
   },
+  calendarDayTextFuture: {
+    color: "#C4C4C8",
+  },
   calendarLabel: {
     fontSize: 12,
     color: "#6F6F73",
@@ -946,6 +955,43 @@ const styles = StyleSheet.create({
   calendarLabelToday: {
     color: "#5C3AA1",
   },
+  stepRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 6,
+  },
+  stepBox: {
+    width: 22,
+    height: 22,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: "#D5D5DA",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  stepBoxChecked: {
+    backgroundColor: "#1F1F24",
+    borderColor: "#1F1F24",
+  },
+  stepBoxMark: {
+    color: "#FFFFFF",
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  stepLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: "#1F1F24",
+  },
+  stepLabelChecked: {
+    color: "#6F6F73",
+  },
+  stepBadge: {
+    fontSize: 11,
+    color: "#5C3AA1",
+    fontWeight: "600",
+  },
   actionRow: {
     flexDirection: "row",
     gap: 12,
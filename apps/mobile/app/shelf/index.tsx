@@ -0,0 +1,508 @@
+import { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import type { ShelfProductBody } from "@tangly/domain";
+
+import { apiRequest, describeApiError } from "@/lib/api-client";
+import { useRequireProfileDetails } from "@/hooks/use-profile-details";
+import type { CatalogSearchResult, ProductUsage, ShelfProduct } from "@/types/shelf";
+
+type AddMode = "search" | "manual";
+
+const USAGE_OPTIONS: { key: ProductUsage; label: string }[] = [
+  { key: "am", label: "아침" },
+  { key: "pm", label: "저녁" },
+  { key: "both", label: "아침·저녁" },
+];
+
+export default function ShelfScreen() {
+  const router = useRouter();
+  const { loading: checkingDetails } = useRequireProfileDetails();
+  const [products, setProducts] = useState<ShelfProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [mode, setMode] = useState<AddMode>("search");
+  const [usage, setUsage] = useState<ProductUsage>("both");
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<CatalogSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [manualName, setManualName] = useState("");
+  const [manualBrand, setManualBrand] = useState("");
+  const [manualIngredients, setManualIngredients] = useState("");
+
+  useEffect(() => {
+    const loadShelf = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const payload = await apiRequest("GET /api/shelf");
+        setProducts(payload.products ?? []);
+      } catch (err) {
+        setError(describeApiError(err, "화장대를 불러오지 못했습니다."));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadShelf();
+  }, []);
+
+  const handleSearch = async () => {
+    const term = query.trim();
+    if (term.length < 2) {
+      Alert.alert("제품 검색", "검색어는 두 글자 이상 입력해 주세요.");
+      return;
+    }
+    try {
+      setSearching(true);
+      const payload = await apiRequest("GET /api/shelf/search", { query: { q: term } });
+      setResults(payload.products ?? []);
+    } catch (err) {
+      Alert.alert("검색 실패", describeApiError(err, "제품을 검색하지 못했습니다."));
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const addProduct = async (body: ShelfProductBody) => {
+    if (saving) return false;
+    try {
+      setSaving(true);
+      const payload = await apiRequest("POST /api/shelf", { body: { ...body, usage } });
+      setProducts((prev) => [...prev, payload.product]);
+      return true;
+    } catch (err) {
+      Alert.alert("등록 실패", describeApiError(err, "제품을 등록하지 못했습니다."));
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddResult = async (result: CatalogSearchResult) => {
+    const added = await addProduct({ productId: result.id });
+    if (added) {
+      setResults((prev) => prev.filter((item) => item.id !== result.id));
+    }
+  };
+
+  const handleAddManual = async () => {
+    if (!manualName.trim()) {
+      Alert.alert("직접 입력", "제품명을 입력해 주세요.");
+      return;
+    }
+    const added = await addProduct({
+      name: manualName.trim(),
+      brand: manualBrand.trim() || null,
+      ingredients: manualIngredients,
+    });
+    if (added) {
+      setManualName("");
+      setManualBrand("");
+      setManualIngredients("");
+    }
+  };
+
+  const handleChangeUsage = async (product: ShelfProduct, next: ProductUsage) => {
+    if (product.usage === next) return;
+    setProducts((prev) => prev.map((item) => (item.id === product.id ? { ...item, usage: next } : item)));
+    try {
+      await apiRequest("PATCH /api/shelf/:id", {
+        params: { id: product.id },
+        body: { usage: next },
+      });
+    } catch (err) {
+      setProducts((prev) => prev.map((item) => (item.id === product.id ? product : item)));
+      Alert.alert("수정 실패", describeApiError(err, "사용 시간을 바꾸지 못했습니다."));
+    }
+  };
+
+  const handleRemove = (product: ShelfProduct) => {
+    Alert.alert("화장대에서 빼기", `${product.name}을(를) 화장대에서 뺄까요?`, [
+      { text: "취소", style: "cancel" },
+      {
+        text: "빼기",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await apiRequest("DELETE /api/shelf/:id", { params: { id: product.id } });
+            setProducts((prev) => prev.filter((item) => item.id !== product.id));
+          } catch (err) {
+            Alert.alert("삭제 실패", describeApiError(err, "제품을 삭제하지 못했습니다."));
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderBody = () => {
+    if (loading || checkingDetails) {
+      return (
+        <View style={styles.centerState}>
+          <ActivityIndicator />
+          <Text style={styles.stateText}>화장대를 불러오는 중입니다...</Text>
+        </View>
+      );
+    }
+
+    if (error) {
+      return (
+        <View style={styles.centerState}>
+          <Text style={styles.stateText}>{error}</Text>
+        </View>
+      );
+    }
+
+    return (
+      <ScrollView
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        <Text style={styles.sectionHint}>
+          쓰고 있는 제품을 등록하면 이미 가진 종류는 빼고, 빈 단계를 채우는 제품을 추천해 드려요.
+        </Text>
+
+        {products.length ? (
+          <View style={styles.list}>
+            {products.map((product) => (
+              <View key={product.id} style={styles.productCard}>
+                <View style={styles.rowBetween}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.productName}>{product.name}</Text>
+                    {product.brand ? <Text style={styles.productBrand}>{product.brand}</Text> : null}
+                  </View>
+                  <Pressable onPress={() => handleRemove(product)}>
+                    <Text style={styles.removeText}>빼기</Text>
+                  </Pressable>
+                </View>
+                {product.keyIngredients.length ? (
+                  <Text style={styles.productMeta}>핵심 성분: {product.keyIngredients.join(", ")}</Text>
+                ) : null}
+                <UsageChips value={product.usage} onChange={(next) => handleChangeUsage(product, next)} />
+              </View>
+            ))}
+          </View>
+        ) : (
+          <Text style={styles.stateText}>아직 등록한 제품이 없어요.</Text>
+        )}
+
+        <Text style={styles.sectionTitle}>제품 추가</Text>
+        <View style={styles.tabRow}>
+          {(["search", "manual"] as AddMode[]).map((key) => (
+            <Pressable
+              key={key}
+              style={[styles.tabChip, mode === key && styles.tabChipActive]}
+              onPress={() => setMode(key)}
+            >
+              <Text style={[styles.tabChipText, mode === key && styles.tabChipTextActive]}>
+                {key === "search" ? "검색" : "직접 입력"}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+        <Text style={styles.fieldLabel}>사용 시간</Text>
+        <UsageChips value={usage} onChange={setUsage} />
+
+        {mode === "search" ? (
+          <>
+            <View style={styles.searchRow}>
+              <TextInput
+                style={[styles.input, { flex: 1 }]}
+                placeholder="제품명 또는 브랜드"
+                placeholderTextColor="#B8AFCF"
+                value={query}
+                onChangeText={setQuery}
+                onSubmitEditing={handleSearch}
+                returnKeyType="search"
+              />
+              <Pressable style={styles.primaryButton} onPress={handleSearch} disabled={searching}>
+                <Text style={styles.primaryButtonText}>{searching ? "검색 중" : "검색"}</Text>
+              </Pressable>
+            </View>
+            {results.map((result) => (
+              <Pressable
+                key={result.id}
+                style={styles.resultRow}
+                onPress={() => handleAddResult(result)}
+                disabled={saving}
+              >
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.productName}>{result.name}</Text>
+                  {result.brand ? <Text style={styles.productBrand}>{result.brand}</Text> : null}
+                </View>
+                <Text style={styles.addText}>추가</Text>
+              </Pressable>
+            ))}
+          </>
+        ) : (
+          <>
+            <TextInput
+              style={styles.input}
+              placeholder="제품명 (예: 수분 크림)"
+              placeholderTextColor="#B8AFCF"
+              value={manualName}
+              onChangeText={setManualName}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="브랜드 (선택)"
+              placeholderTextColor="#B8AFCF"
+              value={manualBrand}
+              onChangeText={setManualBrand}
+            />
+            <TextInput
+              style={[styles.input, styles.multilineInput]}
+              placeholder="전성분을 쉼표로 구분해 입력 (선택)"
+              placeholderTextColor="#B8AFCF"
+              value={manualIngredients}
+              onChangeText={setManualIngredients}
+              multiline
+            />
+            <Pressable
+              style={[styles.primaryButton, saving && styles.disabledButton]}
+              onPress={handleAddManual}
+              disabled={saving}
+            >
+              <Text style={styles.primaryButtonText}>{saving ? "등록 중..." : "화장대에 추가"}</Text>
+            </Pressable>
+          </>
+        )}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.headerRow}>
+        <Pressable style={styles.backButton} onPress={() => router.back()}>
+          <Text style={styles.backButtonText}>뒤로</Text>
+        </Pressable>
+        <Text style={styles.headerTitle}>내 화장대</Text>
+        <View style={{ width: 44 }} />
+      </View>
+      {renderBody()}
+    </SafeAreaView>
+  );
+}
+
+const UsageChips = ({
+  value,
+  onChange,
+}: {
+  value: ProductUsage;
+  onChange: (next: ProductUsage) => void;
+}) => (
+  <View style={styles.usageRow}>
+    {USAGE_OPTIONS.map((option) => {
+      const active = value === option.key;
+      return (
+        <Pressable
+          key={option.key}
+          style={[styles.usageChip, active && styles.usageChipActive]}
+          onPress={() => onChange(option.key)}
+        >
+          <Text style={[styles.usageChipText, active && styles.usageChipTextActive]}>{option.label}</Text>
+        </Pressable>
+      );
+    })}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: "#FFFFFF",
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingTop: 12,
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#E6E6EB",
+  },
+  backButtonText: {
+    color: "#6F6F73",
+    fontSize: 13,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1F1F24",
+  },
+  centerState: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 32,
+  },
+  stateText: {
+    marginTop: 12,
+    color: "#6F6F73",
+    textAlign: "center",
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 48,
+    gap: 12,
+  },
+  sectionTitle: {
+    marginTop: 12,
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#1F1F24",
+  },
+  sectionHint: {
+    fontSize: 13,
+    color: "#8A8A92",
+  },
+  list: {
+    gap: 12,
+  },
+  productCard: {
+    backgroundColor: "#F6F1FA",
+    borderRadius: 16,
+    padding: 16,
+    gap: 8,
+  },
+  rowBetween: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+  },
+  productName: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#1F1F24",
+  },
+  productBrand: {
+    fontSize: 13,
+    color: "#6A4BA1",
+  },
+  productMeta: {
+    fontSize: 12,
+    color: "#5C3AA1",
+  },
+  removeText: {
+    fontSize: 13,
+    color: "#D0674F",
+    fontWeight: "600",
+  },
+  tabRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  tabChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 999,
+    backgroundColor: "#F3EEFA",
+  },
+  tabChipActive: {
+    backgroundColor: "#1F1F24",
+  },
+  tabChipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#6F6F73",
+  },
+  tabChipTextActive: {
+    color: "#FFFFFF",
+  },
+  fieldLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#4E4E55",
+  },
+  usageRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  usageChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#E1DDE8",
+    backgroundColor: "#FFFFFF",
+  },
+  usageChipActive: {
+    backgroundColor: "#A884CC",
+    borderColor: "#A884CC",
+  },
+  usageChipText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#4E4E55",
+  },
+  usageChipTextActive: {
+    color: "#FFFFFF",
+  },
+  searchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  input: {
+    borderRadius: 14,
+    backgroundColor: "#F7F5FA",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: "#1F1F24",
+  },
+  multilineInput: {
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  primaryButton: {
+    borderRadius: 14,
+    backgroundColor: "#A884CC",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  primaryButtonText: {
+    color: "#FFFFFF",
+    fontWeight: "700",
+    fontSize: 14,
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  resultRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 14,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "#EFEAF6",
+    gap: 12,
+  },
+  addText: {
+    fontSize: 13,
+    fontWeight: "700",
+    color: "#5C3AA1",
+  },
+});
@@ -12,12 +12,20 @@ import {
 import { SafeAreaView } from "react-native-safe-area-context";
 import { CameraView, useCameraPermissions } from "expo-camera";
 import { useRouter } from "expo-router";
+import type { AiReportContent } from "@tangly/domain";
 
-import { SERVER_BASE_URL, UPLOAD_API_URL } from "@/lib/server";
-import { supabase } from "@/lib/supabase";
+import { apiRequest, describeApiError } from "@/lib/api-client";
+import {
+  clearSessionUploads,
+  dismissUpload,
+  findResumableSession,
+  isAwaitingUpload,
+  uploadCapturedPhoto,
+  type UploadJob,
+} from "@/lib/upload-queue";
 import { optimizePhoto, type NormalizedCropRegion } from "@/lib/photo-utils";
 import { useRequireProfileDetails } from "@/hooks/use-profile-details";
-import type { AiReportContent } from "@/lib/ai-report";
+import { useSessionUploads } from "@/hooks/use-session-uploads";
 
 type FlowStage = "capture" | "analyzing" | "result";
 
@@ -131,12 +139,19 @@ const clamp = (value: number, min: number, max: number) => {
 
 const createStepStates = () => STEP_CONFIGS.map(() => ({ previewUri: null, uploaded: false }));
 
+const restoreStepStates = (jobs: UploadJob[]): StepState[] =>
+  STEP_CONFIGS.map((step) => {
+    const job = jobs.find((entry) => entry.stepId === step.id && entry.status !== "rejected");
+    return job ? { previewUri: job.fileUri, uploaded: true } : { previewUri: null, uploaded: false };
+  });
+
 export default function TroubleCheckScreen() {
   const router = useRouter();
   const [permission, requestPermission] = useCameraPermissions();
   const { loading: detailsChecking } = useRequireProfileDetails();
   const cameraRef = useRef<CameraView>(null);
   const sessionIdRef = useRef<string | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
   const [flowStage, setFlowStage] = useState<FlowStage>("capture");
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
   const [stepStates, setStepStates] = useState<StepState[]>(createStepStates());
@@ -147,7 +162,6 @@ export default function TroubleCheckScreen() {
   const [completedSessionId, setCompletedSessionId] = useState<string | null>(null);
   const [cameraLayout, setCameraLayout] = useState<CameraLayout | null>(null);
   const [guideLayout, setGuideLayout] = useState<LayoutRectangle | null>(null);
-  const [authUserId, setAuthUserId] = useState<string | null>(null);
   const [analysisMessage, setAnalysisMessage] = useState("트러블 유형을 판별하는 중입니다...");
   const [reportData, setReportData] = useState<{
     summary: string;
@@ -155,6 +169,23 @@ export default function TroubleCheckScreen() {
     aiReport: AiReportContent | null;
   } | null>(null);
   const [reportError, setReportError] = useState<string | null>(null);
+  const sessionUploads = useSessionUploads(sessionId);
+
+  useEffect(() => {
+    const rejected = sessionUploads.find((job) => job.status === "rejected");
+    if (!rejected) return;
+    const index = STEP_CONFIGS.findIndex((step) => step.id === rejected.stepId);
+    if (index !== -1) {
+      setStepStates((prev) => {
+        const next = [...prev];
+        next[index] = { previewUri: null, uploaded: false };
+        return next;
+      });
+      setCurrentStepIndex(index);
+    }
+    setUploadError(rejected.error ?? "촬영 이미지를 저장하지 못했습니다.");
+    void dismissUpload(rejected.id);
+  }, [sessionUploads]);
 
   useEffect(() => {
     if (!permission?.granted) {
@@ -162,58 +193,34 @@ export default function TroubleCheckScreen() {
     }
   }, [permission, requestPermission]);
 
-  useEffect(() => {
-    let active = true;
-    supabase.auth
-      .getUser()
-      .then(({ data }) => {
-        if (!active) return;
-        setAuthUserId(data.user?.id ?? null);
-      })
-      .catch(() => {
-        if (!active) return;
-        setAuthUserId(null);
-      });
-    return () => {
-      active = false;
-    };
-  }, []);
 
-  const resolveUserId = useCallback(async () => {
-    if (authUserId) return authUserId;
-    const { data } = await supabase.auth.getUser();
-    const id = data.user?.id ?? null;
-    setAuthUserId(id);
-    return id;
-  }, [authUserId]);
 
   const prepareSession = useCallback(async () => {
-    if (!SERVER_BASE_URL) {
-      setSessionError("서버 주소가 설정되지 않았습니다.");
-      return;
-    }
     try {
       setCreatingSession(true);
       setSessionError(null);
-      const userId = await resolveUserId();
-      const response = await fetch(`${SERVER_BASE_URL}/api/analysis-sessions`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ source: "trouble_check", status: "capturing", userId }),
-      });
-      const payload = await response.json();
-      if (!response.ok || !payload?.sessionId) {
-        throw new Error(payload?.error ?? "세션 생성에 실패했습니다.");
+      setCompletedSessionId(null);
+      const resumable = await findResumableSession("trouble_check");
+      if (resumable) {
+        const restored = restoreStepStates(resumable.jobs);
+        const nextIndex = restored.findIndex((state) => !state.uploaded);
+        sessionIdRef.current = resumable.sessionId;
+        setSessionId(resumable.sessionId);
+        setStepStates(restored);
+        setCurrentStepIndex(nextIndex === -1 ? STEP_CONFIGS.length - 1 : nextIndex);
+        return;
       }
+      const payload = await apiRequest("POST /api/analysis-sessions", {
+        body: { source: "trouble_check", status: "capturing" },
+      });
       sessionIdRef.current = payload.sessionId;
-      setCompletedSessionId(null);
+      setSessionId(payload.sessionId);
     } catch (error) {
-      const message = error instanceof Error ? error.message : "세션을 만들지 못했습니다.";
-      setSessionError(message);
+      setSessionError(describeApiError(error, "세션을 만들지 못했습니다."));
     } finally {
       setCreatingSession(false);
     }
-  }, [resolveUserId]);
+  }, []);
 
   useEffect(() => {
     prepareSession();
@@ -226,12 +233,11 @@ export default function TroubleCheckScreen() {
   };
 
   const updateSessionStatus = useCallback(async (status: "capturing" | "analyzing" | "report_ready") => {
-    if (!sessionIdRef.current || !SERVER_BASE_URL) return;
+    if (!sessionIdRef.current) return;
     try {
-      await fetch(`${SERVER_BASE_URL}/api/analysis-sessions/${sessionIdRef.current}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status }),
+      await apiRequest("PATCH /api/analysis-sessions/:sessionId", {
+        params: { sessionId: sessionIdRef.current },
+        body: { status },
       });
     } catch (error) {
       console.warn("Trouble session status update failed", error);
@@ -313,20 +319,12 @@ export default function TroubleCheckScreen() {
       setReportError("세션 정보를 찾지 못했습니다.");
       return;
     }
-    if (!SERVER_BASE_URL) {
-      setReportError("서버 주소가 설정되지 않았습니다.");
-      return;
-    }
     setReportError(null);
     try {
-      const response = await fetch(
-        `${SERVER_BASE_URL}/api/trouble-analysis/${sessionIdRef.current}`
-      );
-      const payload = await response.json();
-      if (!response.ok) {
-        throw new Error(payload?.error ?? "트러블 분석을 불러오지 못했습니다.");
-      }
-      const aiPayload: AiReportContent | null = payload?.payload ?? null;
+      const payload = await apiRequest("GET /api/trouble-analysis/:sessionId", {
+        params: { sessionId: sessionIdRef.current },
+      });
+      const aiPayload: AiReportContent | null = payload.payload ?? null;
       setReportData({
         summary: aiPayload?.summary?.[0] ?? "",
         highlight: aiPayload?.oneLiner ?? "",
@@ -337,42 +335,23 @@ export default function TroubleCheckScreen() {
       await updateSessionStatus("report_ready");
       setCompletedSessionId(sessionIdRef.current);
     } catch (error) {
-      const message =
-        error instanceof Error ? error.message : "AI 리포트를 불러오지 못했습니다.";
-      setReportError(message);
+      setReportError(describeApiError(error, "AI 리포트를 불러오지 못했습니다."));
       setAnalysisMessage("리포트 연결에 실패했습니다. 다시 시도해 주세요.");
     }
   }, [updateSessionStatus]);
 
   const uploadTroublePhoto = async (uri: string, step: StepConfig) => {
-    if (!UPLOAD_API_URL) {
-      throw new Error("업로드 API 주소가 설정되지 않았습니다.");
-    }
     if (!sessionIdRef.current) {
       throw new Error("세션 정보가 없어 업로드할 수 없습니다.");
     }
-    const payload = new FormData();
-    payload.append(
-      "file",
-      {
-        uri,
-        name: `${step.id}-${Date.now()}.jpg`,
-        type: "image/jpeg",
-      } as unknown as Blob
-    );
-    payload.append("shot_type", step.shotType);
-    payload.append("focus_area", step.focusArea);
-    payload.append("session_id", sessionIdRef.current);
-    const userId = await resolveUserId();
-    if (userId) {
-      payload.append("user_id", userId);
-    }
-
-    const response = await fetch(UPLOAD_API_URL, { method: "POST", body: payload });
-    const result = await response.json();
-    if (!response.ok) {
-      throw new Error(result?.error ?? "업로드에 실패했습니다.");
-    }
+    return uploadCapturedPhoto({
+      sessionId: sessionIdRef.current,
+      source: "trouble_check",
+      stepId: step.id,
+      shotType: step.shotType,
+      focusArea: step.focusArea,
+      uri,
+    });
   };
 
   const handleCapture = async () => {
@@ -429,6 +408,9 @@ export default function TroubleCheckScreen() {
   };
 
   const beginAnalysis = () => {
+    if (sessionIdRef.current) {
+      void clearSessionUploads(sessionIdRef.current);
+    }
     setFlowStage("analyzing");
     setAnalysisMessage("AI가 트러블 유형을 세밀하게 정리하고 있어요...");
     updateSessionStatus("analyzing");
@@ -446,8 +428,12 @@ export default function TroubleCheckScreen() {
     setReportError(null);
       // no-op
     setCompletedSessionId(null);
+    const previousSessionId = sessionIdRef.current;
     sessionIdRef.current = null;
-    prepareSession();
+    setSessionId(null);
+    void (previousSessionId ? clearSessionUploads(previousSessionId) : Promise.resolve()).then(
+      prepareSession
+    );
   };
 
   const handleOpenReport = () => {
@@ -459,7 +445,9 @@ export default function TroubleCheckScreen() {
   };
 
   const currentStep = STEP_CONFIGS[currentStepIndex] ?? STEP_CONFIGS[STEP_CONFIGS.length - 1];
-  const readyToAnalyze = stepStates.every((state) => state.uploaded);
+  const pendingUploads = sessionUploads.filter(isAwaitingUpload).length;
+  const signInRequired = sessionUploads.find((job) => job.status === "auth_required");
+  const readyToAnalyze = stepStates.every((state) => state.uploaded) && pendingUploads === 0;
   const isUploading = uploadingStep !== null;
 
   const translateSeverity = (status?: string | null): "주의" | "보통" | "좋음" => {
@@ -585,6 +573,12 @@ export default function TroubleCheckScreen() {
             </Pressable>
           </View>
           {(sessionError || uploadError) && <Text style={styles.errorText}>{sessionError ?? uploadError}</Text>}
+          {pendingUploads > 0 && (
+            <Text style={styles.pendingText}>
+              {signInRequired?.error ??
+                `사진 ${pendingUploads}장을 보관 중이에요. 연결되면 자동으로 전송한 뒤 분석을 시작할 수 있어요.`}
+            </Text>
+          )}
         </View>
       )}
 
@@ -945,6 +939,12 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: "#D6455D",
   },
+  pendingText: {
+    marginTop: 8,
+    textAlign: "center",
+    fontSize: 13,
+    color: "#715993",
+  },
   primaryFullButton: {
     marginTop: 10,
     borderRadius: 999,
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+
+import type { ScoreBreakdown } from "@tangly/domain";
+
+const formatScore = (value: number) => (Number.isInteger(value) ? `${value}` : value.toFixed(1));
+
+export function ScoreBreakdownPanel({ scoring }: { scoring: ScoreBreakdown }) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <View style={styles.panel}>
+      <Pressable style={styles.toggle} onPress={() => setOpen((value) => !value)}>
+        <Text style={styles.toggleLabel}>왜 이 제품일까요?</Text>
+        <Text style={styles.toggleIcon}>{open ? "▲" : "▼"}</Text>
+      </Pressable>
+      {open ? (
+        <View style={styles.body}>
+          <Text style={styles.total}>
+            {scoring.needLabel} 기준 {formatScore(scoring.total)}점
+          </Text>
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>니즈 우선순위</Text>
+            <Text style={styles.rowValue}>+{formatScore(scoring.priorityScore)}</Text>
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>카테고리 보너스</Text>
+            <Text style={styles.rowValue}>+{formatScore(scoring.categoryBonus)}</Text>
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>핵심 성분 보너스</Text>
+            <Text style={styles.rowValue}>+{formatScore(scoring.ingredientBonus)}</Text>
+          </View>
+          {scoring.budgetAdjustment ? (
+            <View style={styles.row}>
+              <Text style={styles.rowLabel}>선호 가격대</Text>
+              <Text style={styles.rowValue}>+{formatScore(scoring.budgetAdjustment)}</Text>
+            </View>
+          ) : null}
+          {scoring.feedbackAdjustment ? (
+            <View style={styles.row}>
+              <Text style={styles.rowLabel}>내 반응 반영</Text>
+              <Text style={styles.rowValue}>
+                {scoring.feedbackAdjustment > 0 ? "+" : ""}
+                {formatScore(scoring.feedbackAdjustment)}
+              </Text>
+            </View>
+          ) : null}
+          {scoring.matches.map((match) => (
+            <View
+              key={match.need}
+              style={[styles.match, match.need === scoring.need && styles.matchSelected]}
+            >
+              <Text style={styles.matchTitle}>
+                {match.rank}순위 니즈 · {match.label} ({formatScore(match.score)}점)
+              </Text>
+              <Text style={styles.matchDetail}>효과 태그: {match.matchedTags.join(", ")}</Text>
+              <Text style={styles.matchDetail}>
+                일치한 키워드: {match.matchedSynonyms.join(", ")}
+              </Text>
+            </View>
+          ))}
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: "#E4DDF7",
+    paddingTop: 8,
+  },
+  toggle: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  toggleLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#5C3AA1",
+  },
+  toggleIcon: {
+    fontSize: 11,
+    color: "#A884CC",
+  },
+  body: {
+    marginTop: 8,
+    gap: 6,
+  },
+  total: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#1F1F24",
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  rowLabel: {
+    fontSize: 12,
+    color: "#4E4E55",
+  },
+  rowValue: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#1F1F24",
+  },
+  match: {
+    padding: 10,
+    borderRadius: 12,
+    backgroundColor: "#FFFFFF",
+    gap: 2,
+  },
+  matchSelected: {
+    borderWidth: 1,
+    borderColor: "#A884CC",
+  },
+  matchTitle: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#1F1F24",
+  },
+  matchDetail: {
+    fontSize: 12,
+    color: "#6F6F73",
+  },
+});
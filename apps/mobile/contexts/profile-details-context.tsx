@@ -1,11 +1,11 @@
 import { createContext, useCallback, useContext, useEffect, useState } from "react";
-
-import { supabase } from "@/lib/supabase";
 import {
   parseProfileDetails,
   isProfileDetailsComplete,
   type ProfileDetails,
-} from "@/lib/profile-details";
+} from "@tangly/domain";
+
+import { supabase } from "@/lib/supabase";
 
 type ProfileDetailsState = {
   loading: boolean;
@@ -0,0 +1,19 @@
+import { useEffect, useState } from "react";
+
+import { subscribeUploadQueue, type UploadJob } from "@/lib/upload-queue";
+
+export const useSessionUploads = (sessionId: string | null) => {
+  const [jobs, setJobs] = useState<UploadJob[]>([]);
+
+  useEffect(() => {
+    if (!sessionId) {
+      setJobs([]);
+      return;
+    }
+    return subscribeUploadQueue((all) => {
+      setJobs(all.filter((job) => job.sessionId === sessionId));
+    });
+  }, [sessionId]);
+
+  return jobs;
+};
@@ -0,0 +1,149 @@
+import {
+  buildApiPath,
+  splitApiRoute,
+  type ApiBody,
+  type ApiParams,
+  type ApiQuery,
+  type ApiQueryValue,
+  type ApiResponse,
+  type ApiRoute,
+} from "@tangly/domain";
+
+import {
+  buildServerUrl,
+  getDeviceTimeZone,
+  serverFetch,
+  TIME_ZONE_HEADER,
+  UPLOAD_API_URL,
+} from "@/lib/server";
+
+const RETRY_BASE_DELAY_MS = 400;
+const GET_RETRIES = 2;
+
+// `status` is 0 when the request never reached the server.
+export class ApiError extends Error {
+  status: number;
+  body: Record<string, unknown> | null;
+
+  constructor(message: string, status: number, body: Record<string, unknown> | null = null) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+type ParamsOption<R extends ApiRoute> = keyof ApiParams<R> extends never
+  ? { params?: undefined }
+  : { params: ApiParams<R> };
+
+type BodyOption<R extends ApiRoute> = ApiBody<R> extends undefined
+  ? { body?: undefined }
+  : { body: ApiBody<R> };
+
+type QueryOption<R extends ApiRoute> = ApiQuery<R> extends undefined
+  ? { query?: undefined }
+  : { query?: ApiQuery<R> };
+
+export type ApiRequestOptions<R extends ApiRoute> = ParamsOption<R> &
+  BodyOption<R> &
+  QueryOption<R> & {
+    headers?: Record<string, string>;
+    // GET requests retry by default; writes only retry when the caller knows they are safe to repeat.
+    retries?: number;
+    onRetry?: (attempt: number, error: ApiError) => void;
+  };
+
+type ApiRequestArgs<R extends ApiRoute> =
+  object extends ParamsOption<R> & BodyOption<R>
+    ? [options?: ApiRequestOptions<R>]
+    : [options: ApiRequestOptions<R>];
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const toRecord = (value: unknown) =>
+  value && typeof value === "object" ? (value as Record<string, unknown>) : null;
+
+export const describeApiError = (error: unknown, fallback: string) => {
+  if (error instanceof ApiError) {
+    const serverMessage = error.body?.error;
+    if (typeof serverMessage === "string" && serverMessage) {
+      return serverMessage;
+    }
+    return error.status === 0 ? error.message : fallback;
+  }
+  return fallback;
+};
+
+const resolveUrl = (route: ApiRoute, path: string) =>
+  route === "POST /api/upload" && UPLOAD_API_URL ? UPLOAD_API_URL : buildServerUrl(path);
+
+const isRetryable = (error: ApiError, method: string) => {
+  if (error.status === 0) {
+    return true;
+  }
+  return method === "GET" && (error.status === 429 || error.status >= 500);
+};
+
+const send = async (url: string, init: RequestInit) => {
+  let response: Response;
+  try {
+    response = await serverFetch(url, init);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Network request failed";
+    throw new ApiError(`네트워크 연결을 확인해 주세요. (${message})`, 0);
+  }
+  const payload = toRecord(await response.json().catch(() => null));
+  if (!response.ok) {
+    const message = typeof payload?.error === "string" ? payload.error : `HTTP ${response.status}`;
+    throw new ApiError(message, response.status, payload);
+  }
+  if (!payload) {
+    throw new ApiError("서버 응답을 해석하지 못했습니다.", response.status);
+  }
+  return payload;
+};
+
+export const apiRequest = async <R extends ApiRoute>(
+  route: R,
+  ...[options]: ApiRequestArgs<R>
+): Promise<ApiResponse<R>> => {
+  const { method, path } = splitApiRoute(route);
+  const url = resolveUrl(
+    route,
+    buildApiPath(
+      path,
+      options?.params as Record<string, string> | undefined,
+      options?.query as Record<string, ApiQueryValue> | undefined
+    )
+  );
+  if (!url) {
+    throw new ApiError("서버 API 주소가 설정되지 않았습니다.", 0);
+  }
+
+  const headers: Record<string, string> = { ...options?.headers };
+  const timeZone = getDeviceTimeZone();
+  if (timeZone) {
+    headers[TIME_ZONE_HEADER] = timeZone;
+  }
+  let body: BodyInit | undefined;
+  if (options?.body instanceof FormData) {
+    body = options.body;
+  } else if (options?.body !== undefined) {
+    headers["Content-Type"] = "application/json";
+    body = JSON.stringify(options.body);
+  }
+
+  const retries = options?.retries ?? (method === "GET" ? GET_RETRIES : 0);
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return (await send(url, { method, headers, body })) as ApiResponse<R>;
+    } catch (error) {
+      if (!(error instanceof ApiError) || attempt >= retries || !isRetryable(error, method)) {
+        throw error;
+      }
+      options?.onRetry?.(attempt + 1, error);
+      await wait(RETRY_BASE_DELAY_MS * 2 ** attempt);
+    }
+  }
+};
@@ -1,29 +1,16 @@
-import {
-  type NeedEntry,
-  type ProductRecommendation,
-  type ReportItem,
-} from "@/types/report";
-
-export type PersonalColorInputs = {
-  tone: number; // 0 ~ 1, 0은 쿨·1은 웜
-  depth: number; // 0은 밝음·1은 딥
-  clarity: number; // 0은 소프트·1은 비비드
-};
-
-export type PersonalColorSliderDetail = {
-  id: keyof PersonalColorInputs;
-  label: string;
-  leftLabel: string;
-  rightLabel: string;
-  value: number;
-};
-
-export type PersonalColorExtras = {
-  toneLabel: string;
-  palette: string[];
-  storyline: string[];
-  sliderDetails: PersonalColorSliderDetail[];
-};
+import type {
+  NeedEntry,
+  PersonalColorExtras,
+  PersonalColorInputs,
+  ProductRecommendation,
+  ReportItem,
+} from "@tangly/domain";
+
+export type {
+  PersonalColorExtras,
+  PersonalColorInputs,
+  PersonalColorSliderDetail,
+} from "@tangly/domain";
 
 export type PersonalColorResult = {
   sessionLabel: string;
@@ -206,6 +193,9 @@ export const computePersonalColorResult = (inputs: PersonalColorInputs): Persona
       focus: ["톤 보정", "광채"],
       keyIngredients: ["라벤더 피그먼트", "히알루론산"],
       note: "얇게 2번 레이어링하면 들뜸 없이 화사해집니다.",
+      price: null,
+      productUrl: null,
+      priceTier: null,
     },
     {
       id: "cheek-lip",
@@ -215,6 +205,9 @@ export const computePersonalColorResult = (inputs: PersonalColorInputs): Persona
       reason: "입술·볼에 같은 컬러를 얹어 색조 톤을 단일화할 수 있어요.",
       focus: ["색조 통일", "촉촉한 표현"],
       keyIngredients: ["세라마이드", "식물성 오일"],
+      price: null,
+      productUrl: null,
+      priceTier: null,
     },
     {
       id: "finish-mist",
@@ -224,6 +217,9 @@ export const computePersonalColorResult = (inputs: PersonalColorInputs): Persona
       reason: "마지막 단계에서 한 번 더 톤을 잠궈 들뜸 없이 유지해 줍니다.",
       focus: ["보습막", "톤 고정"],
       keyIngredients: ["판테놀", "비타민 복합체"],
+      price: null,
+      productUrl: null,
+      priceTier: null,
     },
   ];
 
@@ -0,0 +1,18 @@
+import type { PhotoQualityVerdict, PhotoUploadFailure } from "@tangly/domain";
+
+import { ApiError, describeApiError } from "@/lib/api-client";
+
+export type { PhotoQualityIssue, PhotoQualityVerdict } from "@tangly/domain";
+
+export const describeUploadFailure = (error: unknown, fallback: string) => {
+  const result = error instanceof ApiError ? (error.body as PhotoUploadFailure | null) : null;
+  if (result?.quality?.retake) {
+    return `${result.quality.detail} 다시 촬영해 주세요.`;
+  }
+  return describeApiError(error, fallback);
+};
+
+export const describeQualityWarning = (quality?: PhotoQualityVerdict | null) => {
+  const warning = quality?.issues.find((entry) => entry.severity === "warning");
+  return warning ? warning.message : null;
+};
@@ -0,0 +1,208 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Notifications from "expo-notifications";
+import { AppState, Platform } from "react-native";
+
+export type ReminderSettings = {
+  enabled: boolean;
+  times: string[];
+};
+
+export type ReminderRoutine = {
+  recommendedDays: string[];
+  progress: {
+    daysChecked: string[];
+  };
+};
+
+type ReminderRequest = {
+  id: string;
+  trigger: Notifications.NotificationTriggerInput;
+};
+
+export const REMINDER_TIME_OPTIONS = ["07:30", "09:00", "12:30", "19:00", "21:00", "22:30"];
+
+const SETTINGS_KEY = "tangly.routineReminders.settings";
+const ROUTINE_KEY = "tangly.routineReminders.routine";
+const REMINDER_PREFIX = "routine-reminder";
+const CHANNEL_ID = "routine-reminders";
+const WEEKDAY_LABELS = ["일", "월", "화", "수", "목", "금", "토"];
+const SKIPPED_DAY_WEEKS = 4;
+
+const DEFAULT_SETTINGS: ReminderSettings = {
+  enabled: false,
+  times: ["21:00"],
+};
+
+const supported = Platform.OS !== "web";
+
+export const configureReminderHandler = () => {
+  if (!supported) return;
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
+    }),
+  });
+};
+
+export const addReminderResponseListener = (onOpen: () => void) => {
+  if (!supported) return null;
+  return Notifications.addNotificationResponseReceivedListener((response) => {
+    if (response.notification.request.identifier.startsWith(REMINDER_PREFIX)) {
+      onOpen();
+    }
+  });
+};
+
+export const loadReminderSettings = async (): Promise<ReminderSettings> => {
+  try {
+    const raw = await AsyncStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const parsed = JSON.parse(raw) as Partial<ReminderSettings>;
+    const times = Array.isArray(parsed.times)
+      ? parsed.times.filter((time) => REMINDER_TIME_OPTIONS.includes(time))
+      : [];
+    return {
+      enabled: Boolean(parsed.enabled),
+      times: times.length ? times : DEFAULT_SETTINGS.times,
+    };
+  } catch (error) {
+    console.warn("reminder settings load error", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const requestReminderPermission = async () => {
+  if (!supported) return false;
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+};
+
+// Saving settings reschedules against the last routine the routine screen synced.
+export const saveReminderSettings = async (settings: ReminderSettings) => {
+  await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  const raw = await AsyncStorage.getItem(ROUTINE_KEY);
+  const routine = raw ? (JSON.parse(raw) as ReminderRoutine) : null;
+  return scheduleReminders(settings, routine);
+};
+
+export const syncRoutineReminders = async (routine: ReminderRoutine) => {
+  await AsyncStorage.setItem(ROUTINE_KEY, JSON.stringify(routine));
+  const settings = await loadReminderSettings();
+  return scheduleReminders(settings, routine);
+};
+
+// Re-arms a weekday skipped after a check-in once that day has passed, even if the routine screen is never opened.
+export const resyncRoutineReminders = async () => {
+  const raw = await AsyncStorage.getItem(ROUTINE_KEY);
+  if (!raw) return 0;
+  const settings = await loadReminderSettings();
+  return scheduleReminders(settings, JSON.parse(raw) as ReminderRoutine);
+};
+
+export const startReminderResync = () => {
+  const resync = () =>
+    resyncRoutineReminders().catch((error) => console.warn("reminder resync error", error));
+  void resync();
+  const subscription = AppState.addEventListener("change", (state) => {
+    if (state === "active") {
+      void resync();
+    }
+  });
+  return () => subscription.remove();
+};
+
+const cancelScheduledReminders = async () => {
+  if (!supported) return;
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter((request) => request.identifier.startsWith(REMINDER_PREFIX))
+      .map((request) => Notifications.cancelScheduledNotificationAsync(request.identifier))
+  );
+};
+
+// Also forgets the synced routine so a later resync does not bring reminders back after sign-out.
+export const cancelRoutineReminders = async () => {
+  await AsyncStorage.removeItem(ROUTINE_KEY);
+  await cancelScheduledReminders();
+};
+
+// Repeating weekly reminders on each recommended weekday at every preferred time.
+// Once today is checked in, a reminder still ahead today is swapped for one-off reminders on the same
+// weekday in the following weeks, so only today's occurrence is skipped; a resync after today restores it.
+const scheduleReminders = async (settings: ReminderSettings, routine: ReminderRoutine | null) => {
+  if (!supported) return 0;
+  await cancelScheduledReminders();
+  if (!settings.enabled || !routine) return 0;
+
+  const permissions = await Notifications.getPermissionsAsync();
+  if (!permissions.granted) return 0;
+
+  if (Platform.OS === "android") {
+    await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+      name: "루틴 알림",
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+
+  const now = new Date();
+  const checkedToday = routine.progress.daysChecked.includes(toIsoDate(now));
+  const requests = WEEKDAY_LABELS.map((label, index) => ({ label, index }))
+    .filter((day) => routine.recommendedDays.includes(day.label))
+    .flatMap((day) =>
+      settings.times.flatMap((time): ReminderRequest[] => {
+        const [hour, minute] = time.split(":").map((value) => parseInt(value, 10));
+        const id = `${REMINDER_PREFIX}-${day.index}-${time}`;
+        const todayAt = atTime(now, 0, hour, minute);
+        if (checkedToday && day.index === now.getDay() && todayAt > now) {
+          return Array.from({ length: SKIPPED_DAY_WEEKS }, (_, week) => ({
+            id: `${id}-w${week + 1}`,
+            trigger: {
+              type: Notifications.SchedulableTriggerInputTypes.DATE,
+              date: atTime(now, (week + 1) * 7, hour, minute),
+              channelId: CHANNEL_ID,
+            },
+          }));
+        }
+        return [
+          {
+            id,
+            trigger: {
+              type: Notifications.SchedulableTriggerInputTypes.WEEKLY,
+              // Expo counts weekdays from 1 (Sunday), Date#getDay from 0.
+              weekday: day.index + 1,
+              hour,
+              minute,
+              channelId: CHANNEL_ID,
+            },
+          },
+        ];
+      })
+    );
+
+  await Promise.all(
+    requests.map((request) =>
+      Notifications.scheduleNotificationAsync({
+        identifier: request.id,
+        content: {
+          title: "오늘은 루틴 데이예요",
+          body: "이번 주 추천 요일이에요. 루틴을 마치고 체크해 주세요.",
+          data: { type: REMINDER_PREFIX },
+        },
+        trigger: request.trigger,
+      })
+    )
+  );
+  return requests.length;
+};
+
+const atTime = (date: Date, dayOffset: number, hour: number, minute: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + dayOffset, hour, minute);
+
+const toIsoDate = (date: Date) =>
+  `${date.getFullYear()}-${`${date.getMonth() + 1}`.padStart(2, "0")}-${`${date.getDate()}`.padStart(2, "0")}`;
@@ -1,3 +1,5 @@
+import { supabase } from "@/lib/supabase";
+
 const uploadApiUrl = process.env.EXPO_PUBLIC_UPLOAD_API_URL ?? "";
 
 const computeServerBase = () => {
@@ -28,3 +30,27 @@ export const buildServerUrl = (path: string) => {
   }
   return `${SERVER_BASE_URL}${path.startsWith("/") ? path : `/${path}`}`;
 };
+
+const scoringDebug = process.env.EXPO_PUBLIC_RECOMMENDATION_DEBUG === "1";
+
+export const SCORING_DEBUG_QUERY: { debug?: "scoring" } = scoringDebug ? { debug: "scoring" } : {};
+
+export const TIME_ZONE_HEADER = "X-Timezone";
+
+export const getDeviceTimeZone = () => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || null;
+  } catch {
+    return null;
+  }
+};
+
+export const serverFetch = async (input: string, init: RequestInit = {}) => {
+  const { data } = await supabase.auth.getSession();
+  const headers = new Headers(init.headers);
+  const token = data.session?.access_token;
+  if (token && !headers.has("Authorization")) {
+    headers.set("Authorization", `Bearer ${token}`);
+  }
+  return fetch(input, { ...init, headers });
+};
@@ -1,7 +1,6 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { createClient } from "@supabase/supabase-js";
-
-import type { ProfileDetails } from "@/lib/profile-details";
+import { parseProfileDetails, type PriceTier, type ProfileDetails } from "@tangly/domain";
 
 const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL ?? "";
 const supabaseAnonKey = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY ?? "";
@@ -74,6 +73,7 @@ export const saveProfileDetails = async ({
     ageRange,
     concerns,
     birthYear: birthYear ?? null,
+    budget: parseProfileDetails(metadata).budget ?? null,
     completedAt: new Date().toISOString(),
   };
   const nextMetadata = {
@@ -88,3 +88,33 @@ export const saveProfileDetails = async ({
 
   return details;
 };
+
+export const saveBudgetPreference = async ({
+  userId,
+  budget,
+}: {
+  userId?: string | null;
+  budget: PriceTier | null;
+}): Promise<ProfileDetails> => {
+  if (!userId) {
+    throw new Error("로그인을 확인해주세요.");
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("metadata")
+    .eq("id", userId)
+    .maybeSingle<{ metadata: Record<string, unknown> | null }>();
+
+  const metadata = (profile?.metadata ?? {}) as Record<string, unknown>;
+  const details: ProfileDetails = { ...parseProfileDetails(metadata), budget };
+  const { error } = await supabase
+    .from("profiles")
+    .update({ metadata: { ...metadata, profileDetails: details } })
+    .eq("id", userId);
+  if (error) {
+    throw error;
+  }
+
+  return details;
+};
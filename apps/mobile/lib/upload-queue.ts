@@ -0,0 +1,391 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import NetInfo from "@react-native-community/netinfo";
+import type { AnalysisSessionStatus, PhotoQualityVerdict } from "@tangly/domain";
+import { Directory, File, Paths } from "expo-file-system";
+import { AppState } from "react-native";
+
+import { ApiError, apiRequest } from "@/lib/api-client";
+import { describeUploadFailure } from "@/lib/photo-quality";
+import { supabase } from "@/lib/supabase";
+
+export type UploadSource = "expo_app" | "trouble_check" | "eye_wrinkle";
+
+// "auth_required" jobs stop backing off until the user signs in again.
+export type UploadJobStatus = "pending" | "auth_required" | "uploaded" | "rejected";
+
+export type UploadJob = {
+  id: string;
+  sessionId: string;
+  source: UploadSource;
+  stepId: string;
+  shotType: string;
+  focusArea: string | null;
+  fileUri: string;
+  status: UploadJobStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  error: string | null;
+  imageUrl: string | null;
+  quality: PhotoQualityVerdict | null;
+  createdAt: number;
+};
+
+export type UploadPhotoInput = {
+  sessionId: string;
+  source: UploadSource;
+  stepId: string;
+  shotType: string;
+  focusArea?: string | null;
+  uri: string;
+};
+
+export type ResumableSession = {
+  sessionId: string;
+  jobs: UploadJob[];
+};
+
+type UploadQueueListener = (jobs: UploadJob[]) => void;
+
+const STORAGE_KEY = "tangly.uploadQueue.jobs";
+const QUEUE_DIRECTORY = "upload-queue";
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+const JOB_MAX_AGE_MS = 3 * 24 * 60 * 60 * 1000;
+const UPLOAD_FAILED_MESSAGE = "업로드에 실패했습니다.";
+const AUTH_REQUIRED_MESSAGE = "로그인이 만료되어 전송을 멈췄어요. 다시 로그인하면 이어서 전송합니다.";
+const RESUMABLE_STATUSES = new Set<AnalysisSessionStatus>(["capturing", "awaiting_ox", "ox_collected"]);
+
+let jobs: UploadJob[] = [];
+let loading: Promise<void> | null = null;
+let flushing: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const inFlight = new Set<string>();
+const listeners = new Set<UploadQueueListener>();
+
+const ensureLoaded = () => {
+  loading ??= AsyncStorage.getItem(STORAGE_KEY)
+    .then((raw) => {
+      const parsed = raw ? JSON.parse(raw) : [];
+      jobs = Array.isArray(parsed) ? (parsed as UploadJob[]) : [];
+    })
+    .catch((error) => {
+      console.warn("Failed to load upload queue", error);
+    });
+  return loading;
+};
+
+const commit = async (next: UploadJob[]) => {
+  jobs = next;
+  listeners.forEach((listener) => listener(jobs));
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+  } catch (error) {
+    console.warn("Failed to persist upload queue", error);
+  }
+};
+
+const updateJob = (id: string, patch: Partial<UploadJob>) =>
+  commit(jobs.map((job) => (job.id === id ? { ...job, ...patch } : job)));
+
+const findJob = (id: string) => jobs.find((job) => job.id === id) ?? null;
+
+const queueDirectory = () => new Directory(Paths.document, QUEUE_DIRECTORY);
+
+// Optimized shots live in the cache directory, which the OS may purge before a queued upload is sent.
+const keepPhoto = (uri: string, name: string) => {
+  try {
+    const directory = queueDirectory();
+    if (!directory.exists) {
+      directory.create({ intermediates: true });
+    }
+    const target = new File(directory, `${name}.jpg`);
+    new File(uri).copy(target);
+    return target.uri;
+  } catch (error) {
+    console.warn("Failed to keep photo for upload queue", error);
+    return uri;
+  }
+};
+
+const discardPhoto = (uri: string) => {
+  try {
+    if (!uri.startsWith(queueDirectory().uri)) return;
+    const file = new File(uri);
+    if (file.exists) {
+      file.delete();
+    }
+  } catch (error) {
+    console.warn("Failed to remove queued photo", error);
+  }
+};
+
+const isRetryable = (error: unknown) =>
+  error instanceof ApiError && (error.status === 0 || error.status === 429 || error.status >= 500);
+
+const isUnauthorized = (error: unknown) => error instanceof ApiError && error.status === 401;
+
+export const isAwaitingUpload = (job: UploadJob) =>
+  job.status === "pending" || job.status === "auth_required";
+
+const retryDelay = (attempts: number) =>
+  Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+
+const sendJob = (job: UploadJob) => {
+  const formData = new FormData();
+  formData.append(
+    "file",
+    {
+      uri: job.fileUri,
+      name: `${job.stepId}-${job.createdAt}.jpg`,
+      type: "image/jpeg",
+    } as unknown as Blob
+  );
+  formData.append("shot_type", job.shotType);
+  if (job.focusArea) {
+    formData.append("focus_area", job.focusArea);
+  }
+  formData.append("session_id", job.sessionId);
+  return apiRequest("POST /api/upload", { body: formData });
+};
+
+// An expired access token gets one refresh before the job is parked for sign-in.
+const sendWithFreshSession = async (job: UploadJob) => {
+  try {
+    return await sendJob(job);
+  } catch (error) {
+    if (!isUnauthorized(error)) {
+      throw error;
+    }
+    const { data } = await supabase.auth.refreshSession();
+    if (!data.session) {
+      throw error;
+    }
+    return sendJob(job);
+  }
+};
+
+const attemptJob = async (job: UploadJob) => {
+  if (inFlight.has(job.id)) {
+    return job;
+  }
+  inFlight.add(job.id);
+  try {
+    const result = await sendWithFreshSession(job);
+    await updateJob(job.id, {
+      status: "uploaded",
+      error: null,
+      imageUrl: result.imageUrl ?? null,
+      quality: result.quality ?? null,
+    });
+  } catch (error) {
+    const message = describeUploadFailure(error, UPLOAD_FAILED_MESSAGE);
+    if (isUnauthorized(error)) {
+      await updateJob(job.id, { status: "auth_required", error: AUTH_REQUIRED_MESSAGE });
+    } else if (isRetryable(error)) {
+      const attempts = job.attempts + 1;
+      await updateJob(job.id, {
+        attempts,
+        nextAttemptAt: Date.now() + retryDelay(attempts),
+        error: message,
+      });
+    } else {
+      discardPhoto(job.fileUri);
+      await updateJob(job.id, { status: "rejected", error: message });
+    }
+  } finally {
+    inFlight.delete(job.id);
+  }
+  return findJob(job.id) ?? job;
+};
+
+const scheduleRetry = () => {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  const pending = jobs.filter((job) => job.status === "pending");
+  if (!pending.length) return;
+  const nextAttemptAt = Math.min(...pending.map((job) => job.nextAttemptAt));
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    void flushUploadQueue();
+  }, Math.max(nextAttemptAt - Date.now(), RETRY_BASE_DELAY_MS));
+};
+
+const pruneStaleJobs = async () => {
+  const cutoff = Date.now() - JOB_MAX_AGE_MS;
+  const stale = jobs.filter((job) => job.createdAt < cutoff);
+  if (!stale.length) return;
+  stale.forEach((job) => discardPhoto(job.fileUri));
+  await commit(jobs.filter((job) => job.createdAt >= cutoff));
+};
+
+// `force` ignores backoff, e.g. when the connection comes back or the app returns to the foreground.
+export const flushUploadQueue = (options?: { force?: boolean }) => {
+  flushing ??= (async () => {
+    await ensureLoaded();
+    const now = Date.now();
+    const due = jobs.filter(
+      (job) => job.status === "pending" && (options?.force || job.nextAttemptAt <= now)
+    );
+    for (const job of due) {
+      const current = findJob(job.id);
+      if (current?.status === "pending") {
+        await attemptJob(current);
+      }
+    }
+    scheduleRetry();
+  })().finally(() => {
+    flushing = null;
+  });
+  return flushing;
+};
+
+const resumeAuthRequiredJobs = async () => {
+  await ensureLoaded();
+  if (!jobs.some((job) => job.status === "auth_required")) return;
+  await commit(
+    jobs.map((job) =>
+      job.status === "auth_required"
+        ? { ...job, status: "pending", error: null, nextAttemptAt: Date.now() }
+        : job
+    )
+  );
+  await flushUploadQueue();
+};
+
+export const startUploadQueue = () => {
+  void ensureLoaded()
+    .then(pruneStaleJobs)
+    .then(() => flushUploadQueue());
+  const appStateSubscription = AppState.addEventListener("change", (state) => {
+    if (state === "active") {
+      void flushUploadQueue({ force: true });
+    }
+  });
+  let online: boolean | null = null;
+  const unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+    const reachable = !!state.isConnected && state.isInternetReachable !== false;
+    if (reachable && online === false) {
+      void flushUploadQueue({ force: true });
+    }
+    online = reachable;
+  });
+  const {
+    data: { subscription: authSubscription },
+  } = supabase.auth.onAuthStateChange((event, session) => {
+    if (session && (event === "SIGNED_IN" || event === "TOKEN_REFRESHED")) {
+      void resumeAuthRequiredJobs();
+    }
+  });
+  return () => {
+    appStateSubscription.remove();
+    unsubscribeNetInfo();
+    authSubscription.unsubscribe();
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+  };
+};
+
+export const subscribeUploadQueue = (listener: UploadQueueListener) => {
+  listeners.add(listener);
+  void ensureLoaded().then(() => {
+    if (listeners.has(listener)) {
+      listener(jobs);
+    }
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Resolves once the first attempt settles: "uploaded", or "pending" when the shot was queued for later.
+// Server rejections (e.g. a failed quality check) throw so the screen can ask for a retake right away.
+export const uploadCapturedPhoto = async (input: UploadPhotoInput) => {
+  await ensureLoaded();
+  const createdAt = Date.now();
+  const id = `${input.sessionId}-${input.stepId}-${createdAt}`;
+  const job: UploadJob = {
+    id,
+    sessionId: input.sessionId,
+    source: input.source,
+    stepId: input.stepId,
+    shotType: input.shotType,
+    focusArea: input.focusArea ?? null,
+    fileUri: keepPhoto(input.uri, id),
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: createdAt,
+    error: null,
+    imageUrl: null,
+    quality: null,
+    createdAt,
+  };
+  const replaced = jobs.filter(
+    (entry) => entry.sessionId === input.sessionId && entry.stepId === input.stepId
+  );
+  replaced.forEach((entry) => discardPhoto(entry.fileUri));
+  await commit([...jobs.filter((entry) => !replaced.includes(entry)), job]);
+
+  const settled = await attemptJob(job);
+  if (settled.status === "rejected") {
+    await dismissUpload(settled.id);
+    throw new Error(settled.error ?? UPLOAD_FAILED_MESSAGE);
+  }
+  if (settled.status === "pending") {
+    scheduleRetry();
+  }
+  return settled;
+};
+
+export const dismissUpload = async (id: string) => {
+  await ensureLoaded();
+  const job = findJob(id);
+  if (!job) return;
+  discardPhoto(job.fileUri);
+  await commit(jobs.filter((entry) => entry.id !== id));
+};
+
+// Offline the shots on the device win; only a server answer that the session is closed or gone drops them.
+const isSessionOpen = async (sessionId: string) => {
+  try {
+    const session = await apiRequest("GET /api/analysis-sessions/:sessionId", {
+      params: { sessionId },
+    });
+    return RESUMABLE_STATUSES.has(session.status);
+  } catch (error) {
+    return !(error instanceof ApiError && (error.status === 403 || error.status === 404));
+  }
+};
+
+// The most recent session from this flow that still has shots on the device, so a restart can pick it up.
+export const findResumableSession = async (
+  source: UploadSource
+): Promise<ResumableSession | null> => {
+  await ensureLoaded();
+  const latest = jobs
+    .filter((job) => job.source === source && job.status !== "rejected")
+    .reduce<UploadJob | null>(
+      (found, job) => (!found || job.createdAt > found.createdAt ? job : found),
+      null
+    );
+  if (!latest) return null;
+  if (!(await isSessionOpen(latest.sessionId))) {
+    await clearSessionUploads(latest.sessionId);
+    return findResumableSession(source);
+  }
+  return {
+    sessionId: latest.sessionId,
+    jobs: jobs.filter((job) => job.sessionId === latest.sessionId),
+  };
+};
+
+export const clearSessionUploads = async (sessionId: string) => {
+  await ensureLoaded();
+  const cleared = jobs.filter((job) => job.sessionId === sessionId);
+  if (!cleared.length) return;
+  cleared.forEach((job) => discardPhoto(job.fileUri));
+  await commit(jobs.filter((job) => job.sessionId !== sessionId));
+};
@@ -0,0 +1,9 @@
+// Shared domain code lives in packages/ at the repo root, outside this project.
+const path = require("path");
+const { getDefaultConfig } = require("expo/metro-config");
+
+const config = getDefaultConfig(__dirname);
+
+config.watchFolders = [...(config.watchFolders ?? []), path.resolve(__dirname, "../../packages")];
+
+module.exports = config;
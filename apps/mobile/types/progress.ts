@@ -0,0 +1,9 @@
+export type {
+  ComparisonEntry,
+  ProgressDirection,
+  ProgressSession,
+  ProgressTimeline,
+  ProgressTrend,
+  SessionComparison,
+  TrendPoint,
+} from "@tangly/domain";
@@ -0,0 +1,8 @@
+export type {
+  IngredientWarning,
+  NeedPick,
+  RecommendationState,
+  RecommendationTag,
+  RecommendationsResponse,
+  RecommendedProduct,
+} from "@tangly/domain";
@@ -0,0 +1,7 @@
+export type {
+  MonthlyHistoryEntry,
+  RoutineIntensity,
+  RoutineStreak,
+  WeeklyHistoryEntry,
+  WeeklyHistoryPayload as WeeklyHistory,
+} from "@tangly/domain";
@@ -0,0 +1,6 @@
+export type {
+  CatalogSearchResult,
+  ProductUsage,
+  ShelfProduct,
+  ShelfSummary,
+} from "@tangly/domain";
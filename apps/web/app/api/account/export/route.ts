@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+
+import { createAccountExportLink } from "@/lib/account-data";
+import { authenticateRequest } from "@/lib/auth";
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+export async function POST(req: Request) {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json({ error: "Missing Supabase configuration" }, { status: 500 });
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false },
+    });
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const link = await createAccountExportLink(supabase, auth.userId);
+    return NextResponse.json(link);
+  } catch (error) {
+    console.error("account export error", error);
+    const message = error instanceof Error ? error.message : "데이터를 내보내지 못했습니다.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+
+import { eraseAccountData } from "@/lib/account-data";
+import { authenticateRequest } from "@/lib/auth";
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+export async function DELETE(req: Request) {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json({ error: "Missing Supabase configuration" }, { status: 500 });
+  }
+
+  const body = await req.json().catch(() => null);
+  if (body?.confirm !== true) {
+    return NextResponse.json({ error: "계정 삭제 확인이 필요합니다." }, { status: 400 });
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false },
+    });
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const result = await eraseAccountData(supabase, auth.userId);
+    return NextResponse.json({ ok: true, ...result });
+  } catch (error) {
+    console.error("account erase error", error);
+    const message = error instanceof Error ? error.message : "계정을 삭제하지 못했습니다.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
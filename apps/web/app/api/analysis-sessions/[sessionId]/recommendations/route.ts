@@ -2,15 +2,20 @@ import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import {
   buildRecommendationPayload,
+  wantsScoringBreakdown,
   type OxResponseRow,
   type PhotoRow,
   type ProductRow,
 } from "@/lib/recommendations";
+import { authenticateRequest, authorizeSession } from "@/lib/auth";
 import {
   fetchProfileOxForUser,
   mergeSessionAndProfileOx,
   type ProfileOxRow,
 } from "@/lib/ox-storage";
+import { fetchProfileDetails } from "@/lib/profile-details";
+import { listProductFeedback, type ProductFeedback } from "@/lib/product-feedback";
+import { listUserProducts, type UserProduct } from "@/lib/user-products";
 
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -45,15 +50,15 @@ export async function GET(
       auth: { persistSession: false },
     });
 
-    const { data: session, error: sessionError } = await supabase
-      .from("analysis_sessions")
-      .select("id, user_id")
-      .eq("id", sessionId)
-      .single();
-
-    if (sessionError || !session) {
-      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const access = await authorizeSession(supabase, sessionId, auth.userId);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
     }
+    const { session } = access;
 
     const { data: photosData, error: photosError } = await supabase
       .from("photos")
@@ -86,7 +91,7 @@ export async function GET(
     const { data: productsData, error: productError } = await supabase
       .from("products")
       .select(
-        "id, name, brand, category, key_ingredients, effect_tags, note, image_url"
+        "id, name, brand, category, key_ingredients, effect_tags, note, image_url, price, product_url"
       )
       .limit(80);
 
@@ -101,11 +106,27 @@ export async function GET(
       { sessionId }
     );
 
+    const [owned, feedback, profile] = await Promise.all([
+      listUserProducts(supabase, auth.userId).catch((error) => {
+        console.warn("user products load error", error);
+        return [] as UserProduct[];
+      }),
+      listProductFeedback(supabase, auth.userId).catch((error) => {
+        console.warn("product feedback load error", error);
+        return [] as ProductFeedback[];
+      }),
+      fetchProfileDetails(supabase, auth.userId),
+    ]);
+
     const payload = buildRecommendationPayload({
       sessionId,
       photos: (photosData ?? []) as PhotoRow[],
       oxResponses: mergedOxResponses,
       products: (productsData ?? []) as ProductRow[],
+      owned,
+      feedback,
+      budget: profile?.budget ?? null,
+      includeScoring: wantsScoringBreakdown(new URL(req.url ?? "http://localhost")),
     });
 
     return NextResponse.json(payload);
@@ -1,5 +1,8 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { ANALYSIS_SESSION_STATUSES } from "@tangly/domain";
+
+import { authenticateRequest, authorizeSession } from "@/lib/auth";
 
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -11,14 +14,44 @@ const resolveParams = async <T>(params: T | Promise<T>): Promise<T> => {
   return params as T;
 };
 
-const ALLOWED_STATUSES = new Set([
-  "capturing",
-  "awaiting_ox",
-  "ox_collected",
-  "analyzing",
-  "report_ready",
-  "failed",
-]);
+const ALLOWED_STATUSES = new Set<string>(ANALYSIS_SESSION_STATUSES);
+
+export async function GET(
+  req: Request,
+  context: { params: { sessionId?: string } | Promise<{ sessionId?: string }> }
+) {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json(
+      { error: "Missing Supabase configuration" },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const resolvedParams = await resolveParams(context.params);
+    const sessionId = resolvedParams.sessionId;
+    if (!sessionId) {
+      return NextResponse.json({ error: "Session id is required" }, { status: 400 });
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false },
+    });
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const access = await authorizeSession(supabase, sessionId, auth.userId);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    return NextResponse.json({ sessionId: access.session.id, status: access.session.status });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Server error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
 
 export async function PATCH(
   req: Request,
@@ -47,6 +80,14 @@ export async function PATCH(
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
       auth: { persistSession: false },
     });
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const access = await authorizeSession(supabase, sessionId, auth.userId);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
 
     const { data, error } = await supabase
       .from("analysis_sessions")
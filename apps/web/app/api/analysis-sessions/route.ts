@@ -2,6 +2,8 @@ import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { randomUUID } from "crypto";
 
+import { authenticateRequest } from "@/lib/auth";
+
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
@@ -17,14 +19,14 @@ export async function POST(req: Request) {
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
       auth: { persistSession: false },
     });
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
 
     const payload = (await req.json().catch(() => null)) ?? {};
     const source = typeof payload?.source === "string" ? payload.source : "expo_app";
     const status = typeof payload?.status === "string" ? payload.status : "capturing";
-    const userId =
-      typeof payload?.userId === "string" && payload.userId.trim().length > 0
-        ? payload.userId.trim()
-        : null;
     const sessionId =
       typeof payload?.sessionId === "string" && payload.sessionId
         ? payload.sessionId
@@ -36,7 +38,7 @@ export async function POST(req: Request) {
         id: sessionId,
         source,
         status,
-        user_id: userId,
+        user_id: auth.userId,
       })
       .select("id, status")
       .single();
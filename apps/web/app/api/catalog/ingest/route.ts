@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { timingSafeEqual } from "crypto";
+
+import { ingestCatalog, type CrawledItem } from "@/lib/catalog-ingestion";
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const CATALOG_INGEST_SECRET = process.env.CATALOG_INGEST_SECRET;
+
+const MAX_ITEMS = 5000;
+
+// Catalog writes are an operator task, so they use a shared secret instead of a user session.
+const isAuthorized = (req: Request) => {
+  if (!CATALOG_INGEST_SECRET) {
+    return false;
+  }
+  const header = req.headers.get("authorization") ?? "";
+  const token = header.toLowerCase().startsWith("bearer ") ? header.slice(7).trim() : "";
+  const expected = Buffer.from(CATALOG_INGEST_SECRET);
+  const received = Buffer.from(token);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
+
+export async function POST(req: Request) {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json({ error: "Missing Supabase configuration" }, { status: 500 });
+  }
+  if (!CATALOG_INGEST_SECRET) {
+    return NextResponse.json({ error: "Missing CATALOG_INGEST_SECRET" }, { status: 500 });
+  }
+  if (!isAuthorized(req)) {
+    return NextResponse.json({ error: "카탈로그 적재 권한이 없습니다." }, { status: 401 });
+  }
+
+  let items: CrawledItem[] = [];
+  let apply = false;
+  try {
+    const body = await req.json();
+    items = Array.isArray(body?.items) ? body.items : [];
+    apply = body?.apply === true;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (!items.length) {
+    return NextResponse.json({ error: "items is required" }, { status: 400 });
+  }
+  if (items.length > MAX_ITEMS) {
+    return NextResponse.json({ error: `items must be ${MAX_ITEMS} or fewer` }, { status: 400 });
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false },
+    });
+    const report = await ingestCatalog(supabase, items, { apply });
+    return NextResponse.json(report);
+  } catch (err) {
+    console.error("catalog ingest error", err);
+    return NextResponse.json({ error: "Failed to ingest catalog" }, { status: 500 });
+  }
+}
@@ -2,9 +2,11 @@ import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { randomUUID } from "crypto";
 
+import { authenticateRequest } from "@/lib/auth";
+import { PHOTO_BUCKET, signPhotoUrl } from "@/lib/photo-storage";
+
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
-const STORAGE_BUCKET = process.env.NEXT_PUBLIC_SUPABASE_STORAGE_BUCKET || "photos";
 
 type PersonalColorPayload = {
   sessionLabel?: string;
@@ -26,6 +28,14 @@ export async function POST(req: Request) {
   }
 
   try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false },
+    });
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
     const contentType = req.headers.get("content-type") || "";
     if (!contentType.includes("multipart/form-data")) {
       return NextResponse.json({ error: "Invalid content type" }, { status: 400 });
@@ -49,15 +59,11 @@ export async function POST(req: Request) {
       payload?.sessionLabel ||
       `퍼스널컬러-${Date.now()}`;
 
-    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
-      auth: { persistSession: false },
-    });
-
     const buffer = Buffer.from(await file.arrayBuffer());
-    const fileName = `personal-color/${Date.now()}-${file.name || "result"}`;
+    const fileName = `personal-color/${auth.userId}/${Date.now()}-${file.name || "result"}`;
 
     const { data: uploadData, error: uploadError } = await supabase.storage
-      .from(STORAGE_BUCKET)
+      .from(PHOTO_BUCKET)
       .upload(fileName, buffer, {
         contentType: file.type || "image/jpeg",
         upsert: false,
@@ -69,15 +75,11 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: uploadError.message }, { status: 500 });
     }
 
-    const { data: publicUrlData } = supabase.storage
-      .from(STORAGE_BUCKET)
-      .getPublicUrl(uploadData.path);
-    const publicUrl = publicUrlData.publicUrl;
-
     const insertPayload = {
       id: randomUUID(),
+      user_id: auth.userId,
       session_label: sessionLabel,
-      thumbnail_url: publicUrl,
+      thumbnail_url: uploadData.path,
       result_summary: payload?.summary ?? "퍼스널 컬러 요약",
       result_headline: payload?.highlight ?? "퍼스널 컬러 결과",
       payload,
@@ -98,7 +100,7 @@ export async function POST(req: Request) {
     return NextResponse.json({
       id: inserted.id,
       createdAt: inserted.created_at,
-      thumbnail: inserted.thumbnail_url,
+      thumbnail: await signPhotoUrl(supabase, inserted.thumbnail_url).catch(() => null),
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Server error";
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+
+import { authenticateRequest } from "@/lib/auth";
+import { clearProductFeedback } from "@/lib/product-feedback";
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const resolveParams = async <T>(params: T | Promise<T>): Promise<T> => {
+  if (typeof (params as Promise<T>)?.then === "function") {
+    return params as Promise<T>;
+  }
+  return params as T;
+};
+
+export async function DELETE(
+  req: Request,
+  context: { params: { productId?: string } | Promise<{ productId?: string }> }
+) {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json({ error: "Missing Supabase configuration" }, { status: 500 });
+  }
+
+  const { productId } = await resolveParams(context.params);
+  if (!productId) {
+    return NextResponse.json({ error: "productId is required" }, { status: 400 });
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false },
+    });
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const removed = await clearProductFeedback(supabase, auth.userId, productId);
+    if (!removed) {
+      return NextResponse.json({ error: "저장된 반응이 없습니다." }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("product feedback clear error", error);
+    const message = error instanceof Error ? error.message : "제품 반응을 지우지 못했습니다.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
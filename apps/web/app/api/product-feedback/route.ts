@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+
+import { authenticateRequest } from "@/lib/auth";
+import {
+  listProductFeedback,
+  normalizeReaction,
+  setProductFeedback,
+} from "@/lib/product-feedback";
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+export async function GET(req: Request) {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json({ error: "Missing Supabase configuration" }, { status: 500 });
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false },
+    });
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const feedback = await listProductFeedback(supabase, auth.userId);
+    return NextResponse.json({ feedback });
+  } catch (error) {
+    console.error("product feedback list error", error);
+    const message = error instanceof Error ? error.message : "제품 반응을 불러오지 못했습니다.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json({ error: "Missing Supabase configuration" }, { status: 500 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const productId = typeof body?.productId === "string" ? body.productId.trim() : "";
+  if (!productId) {
+    return NextResponse.json({ error: "productId is required" }, { status: 400 });
+  }
+  const reaction = normalizeReaction(body?.reaction);
+  if (!reaction) {
+    return NextResponse.json(
+      { error: "reaction은 like, dislike, used, irritation 중 하나여야 합니다." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false },
+    });
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const feedback = await setProductFeedback(supabase, auth.userId, productId, reaction);
+    return NextResponse.json({ feedback });
+  } catch (error) {
+    console.error("product feedback save error", error);
+    const message = error instanceof Error ? error.message : "제품 반응을 저장하지 못했습니다.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { isOxQuestionKey } from "@tangly/domain";
 
+import { authenticateRequest } from "@/lib/auth";
 import { PROFILE_OX_TABLE } from "@/lib/ox-storage";
 
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -18,11 +20,11 @@ const ensureSupabase = () => {
 export async function GET(req: Request) {
   try {
     const supabase = ensureSupabase();
-    const url = new URL(req.url ?? "http://localhost");
-    const userId = url.searchParams.get("userId");
-    if (!userId) {
-      return NextResponse.json({ error: "userId is required" }, { status: 400 });
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
     }
+    const { userId } = auth;
 
     const { data, error } = await supabase
       .from(PROFILE_OX_TABLE)
@@ -46,11 +48,12 @@ export async function GET(req: Request) {
 export async function POST(req: Request) {
   try {
     const supabase = ensureSupabase();
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { userId } = auth;
     const body = await req.json().catch(() => null);
-    const userId =
-      typeof body?.userId === "string" && body.userId.trim().length > 0
-        ? body.userId.trim()
-        : null;
     const questionKey =
       typeof body?.questionKey === "string" && body.questionKey.trim().length > 0
         ? body.questionKey.trim()
@@ -59,12 +62,15 @@ export async function POST(req: Request) {
       typeof body?.answer === "string" ? body.answer.trim().toUpperCase() : null;
     const answer = answerRaw === "X" ? "X" : answerRaw === "O" ? "O" : null;
 
-    if (!userId || !questionKey || !answer) {
+    if (!questionKey || !answer) {
       return NextResponse.json(
-        { error: "userId, questionKey and answer are required" },
+        { error: "questionKey and answer are required" },
         { status: 400 }
       );
     }
+    if (!isOxQuestionKey(questionKey)) {
+      return NextResponse.json({ error: "Unknown questionKey" }, { status: 400 });
+    }
 
     const { data, error } = await supabase
       .from(PROFILE_OX_TABLE)
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+
+import { authenticateRequest, authorizeSession } from "@/lib/auth";
+import { compareSessionSnapshots, loadSessionSnapshots } from "@/lib/skin-progress";
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+export async function GET(req: Request) {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json({ error: "Missing Supabase configuration" }, { status: 500 });
+  }
+
+  const url = new URL(req.url ?? "http://localhost");
+  const beforeId = url.searchParams.get("before")?.trim();
+  const afterId = url.searchParams.get("after")?.trim();
+  if (!beforeId || !afterId) {
+    return NextResponse.json({ error: "before and after session ids are required" }, { status: 400 });
+  }
+  if (beforeId === afterId) {
+    return NextResponse.json({ error: "Choose two different sessions" }, { status: 400 });
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false },
+    });
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const accesses = await Promise.all(
+      [beforeId, afterId].map((sessionId) => authorizeSession(supabase, sessionId, auth.userId))
+    );
+    const sessions = [];
+    for (const access of accesses) {
+      if (!access.ok) {
+        return NextResponse.json({ error: access.error }, { status: access.status });
+      }
+      sessions.push(access.session);
+    }
+
+    const snapshots = await loadSessionSnapshots(supabase, auth.userId, sessions);
+    const before = snapshots.find((snapshot) => snapshot.sessionId === beforeId);
+    const after = snapshots.find((snapshot) => snapshot.sessionId === afterId);
+    if (!before || !after) {
+      return NextResponse.json(
+        { error: "비교할 분석 결과가 부족합니다. 두 세션 모두 촬영을 완료했는지 확인해 주세요." },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json(compareSessionSnapshots(before, after));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Server error";
+    console.error("progress compare error", error);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
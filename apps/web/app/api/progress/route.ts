@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+
+import { authenticateRequest } from "@/lib/auth";
+import { parseReportArchiveTypes, resolveSessionSourceFilter } from "@/lib/report-archive";
+import {
+  buildProgressTimeline,
+  loadSessionSnapshots,
+  type ProgressSessionRow,
+} from "@/lib/skin-progress";
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 60;
+
+export async function GET(req: Request) {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json({ error: "Missing Supabase configuration" }, { status: 500 });
+  }
+
+  const url = new URL(req.url ?? "http://localhost");
+  const limitParam = Number.parseInt(url.searchParams.get("limit") ?? "", 10);
+  const limit = Number.isFinite(limitParam)
+    ? Math.min(Math.max(limitParam, 2), MAX_LIMIT)
+    : DEFAULT_LIMIT;
+  const { types, invalid } = parseReportArchiveTypes(url.searchParams.get("type"));
+  const sessionTypes = types.filter((type) => type !== "personal_color");
+  if (invalid.length || !sessionTypes.length) {
+    return NextResponse.json(
+      { error: `Invalid type: ${invalid.join(", ") || "personal_color"}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false },
+    });
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    let query = supabase
+      .from("analysis_sessions")
+      .select("id, created_at, source")
+      .eq("user_id", auth.userId);
+    const sourceFilter = resolveSessionSourceFilter(sessionTypes);
+    if (sourceFilter?.mode === "include") {
+      query = query.in("source", sourceFilter.sources);
+    } else if (sourceFilter?.mode === "exclude") {
+      query = query.not("source", "in", `(${sourceFilter.sources.join(",")})`);
+    }
+    const { data: sessions, error: sessionError } = await query
+      .order("created_at", { ascending: false })
+      .limit(limit);
+    if (sessionError) {
+      console.error("progress sessions error", sessionError);
+      return NextResponse.json({ error: sessionError.message }, { status: 500 });
+    }
+
+    const snapshots = await loadSessionSnapshots(
+      supabase,
+      auth.userId,
+      (sessions ?? []) as ProgressSessionRow[]
+    );
+    return NextResponse.json(buildProgressTimeline(snapshots));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Server error";
+    console.error("progress timeline error", error);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,16 +1,17 @@
 import { NextResponse } from "next/server";
 import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import type { RecommendationState, RecommendationTag } from "@tangly/domain";
 
 import {
   ensureMonthlyRoutine,
   ensureWeeklyRoutine,
-  getWeeklyProgressCount,
-  toMonthlyPayload,
+  getWeeklyProgressDetail,
   toWeeklyPayload,
   loadRecommendationContext,
   type MonthlyRoutinePayload,
   type WeeklyRoutinePayload,
 } from "@/lib/routines";
+import { authenticateRequest } from "@/lib/auth";
 import { ensureAiReport } from "@/lib/ai-report";
 import {
   fetchProfileDetails,
@@ -19,20 +20,26 @@ import {
   mapConcernToFocus,
   type ProfileDetails,
 } from "@/lib/profile-details";
-import type { NeedEntry, ProductRecommendation } from "@/lib/recommendations";
+import {
+  getPriceTier,
+  readPurchaseInfo,
+  wantsScoringBreakdown,
+  type NeedEntry,
+  type ProductRecommendation,
+  type ProductRow,
+} from "@/lib/recommendations";
+import {
+  checkIngredientSafety,
+  isSensitiveSkin,
+  SAFETY_PRODUCT_LIMIT,
+  toProductSubject,
+  toStepSubjects,
+} from "@/lib/ingredient-safety";
+import { readRequestTimeZone, resolveUserTimeZone } from "@/lib/timezone";
 
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
-type TagInfo = {
-  id: string;
-  label: string;
-  level: "high" | "medium";
-  reason: string;
-  ingredients: string[];
-  origin: "profile" | "analysis" | "ai";
-};
-
 const FOCUS_INGREDIENT_HINTS: Record<string, string[]> = {
   hydration: ["히알루론산", "베타글루칸", "NMF"],
   elasticity: ["콜라겐", "펩타이드", "엘라스틴"],
@@ -58,34 +65,35 @@ export async function GET(req: Request) {
     return NextResponse.json({ error: "Supabase configuration missing" }, { status: 500 });
   }
 
-  const url = new URL(req.url ?? "http://localhost");
-  const userId = url.searchParams.get("userId");
-  if (!userId) {
-    return NextResponse.json({ error: "userId is required" }, { status: 400 });
-  }
-
   try {
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
       auth: { persistSession: false },
     });
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { userId } = auth;
+    const includeScoring = wantsScoringBreakdown(new URL(req.url ?? "http://localhost"));
 
-    const [{ data: profileRow }, profileDetails, context] = await Promise.all([
+    const [{ data: profileRow }, profileDetails, context, timeZone] = await Promise.all([
       supabase.from("profiles").select("plan_type").eq("id", userId).maybeSingle(),
       fetchProfileDetails(supabase, userId).catch(() => null),
-      loadRecommendationContext(supabase, userId).catch(() => null),
+      loadRecommendationContext(supabase, userId, { includeScoring }).catch(() => null),
+      resolveUserTimeZone(supabase, userId, readRequestTimeZone(req)),
     ]);
 
     const planType =
       (profileRow?.plan_type ?? "").toString().toLowerCase() === "pro" ? "pro" : "free";
 
-    let stateSummary: StateSummary | null = null;
+    let stateSummary: RecommendationState | null = null;
     let routinePayload: WeeklyRoutinePayload | MonthlyRoutinePayload | null = null;
 
     if (planType === "pro") {
       try {
-        const weeklyRow = await ensureWeeklyRoutine(supabase, userId);
-        const progressCount = await getWeeklyProgressCount(supabase, weeklyRow.id);
-        const weekly = toWeeklyPayload(weeklyRow, progressCount);
+        const weeklyRow = await ensureWeeklyRoutine(supabase, userId, timeZone);
+        const progress = await getWeeklyProgressDetail(supabase, weeklyRow, timeZone);
+        const weekly = toWeeklyPayload(weeklyRow, timeZone, progress);
         routinePayload = weekly;
         stateSummary = {
           mode: "weekly",
@@ -99,8 +107,7 @@ export async function GET(req: Request) {
       }
     } else {
       try {
-        const monthlyRow = await ensureMonthlyRoutine(supabase, userId);
-        const monthly = toMonthlyPayload(monthlyRow);
+        const monthly = await ensureMonthlyRoutine(supabase, userId, timeZone);
         routinePayload = monthly;
         stateSummary = {
           mode: "monthly",
@@ -121,6 +128,9 @@ export async function GET(req: Request) {
         state: stateSummary,
         tags: buildProfileTags(profileDetails),
         products: [],
+        picks: [],
+        safety: [],
+        shelf: null,
       });
     }
 
@@ -143,16 +153,37 @@ export async function GET(req: Request) {
 
     let products = buildProductTiles(context.payload.recommendations ?? [], tags);
     if (!products.length) {
-      const fallback = await fetchFallbackProducts(supabase, 4);
-      products = fallback;
+      const hidden = new Set(
+        context.feedback
+          .filter((entry) => entry.reaction === "dislike" || entry.reaction === "irritation")
+          .map((entry) => entry.productId)
+      );
+      const fallback = await fetchFallbackProducts(supabase, 4 + hidden.size);
+      products = fallback.filter((product) => !hidden.has(product.id)).slice(0, 4);
     }
 
+    const routineSteps =
+      routinePayload && "optionalSteps" in routinePayload
+        ? toStepSubjects(routinePayload.baseRoutine, routinePayload.optionalSteps)
+        : [];
+    const safety = checkIngredientSafety(
+      [
+        ...context.owned.map(toProductSubject),
+        ...products.slice(0, SAFETY_PRODUCT_LIMIT).map(toProductSubject),
+        ...routineSteps,
+      ],
+      { sensitive: isSensitiveSkin(context.ox) }
+    );
+
     return NextResponse.json({
       planType,
       profile: profileDetails,
       state: stateSummary,
       tags,
       products,
+      picks: context.payload.picks ?? [],
+      safety,
+      shelf: context.payload.shelf ?? null,
     });
   } catch (error) {
     console.error("recommendations api error", error);
@@ -161,17 +192,7 @@ export async function GET(req: Request) {
   }
 }
 
-type StateSummary =
-  | {
-      mode: "weekly" | "monthly";
-      focus: string;
-      headline: string;
-      subline: string;
-      summary: string[];
-    }
-  | null;
-
-const buildProfileTags = (profile: ProfileDetails | null): TagInfo[] => {
+const buildProfileTags = (profile: ProfileDetails | null): RecommendationTag[] => {
   if (!profile || !profile.concerns.length) return [];
   const concern = pickPrimaryConcern(profile.concerns);
   if (!concern) return [];
@@ -199,10 +220,10 @@ const buildAllTags = ({
   profile: ProfileDetails | null;
   aiFocus: { topic: string; reason: string } | null | undefined;
   routine: WeeklyRoutinePayload | MonthlyRoutinePayload | null;
-}): TagInfo[] => {
-  const map = new Map<string, TagInfo>();
+}): RecommendationTag[] => {
+  const map = new Map<string, RecommendationTag>();
 
-  const mergeTag = (tag: TagInfo) => {
+  const mergeTag = (tag: RecommendationTag) => {
     const existing = map.get(tag.id);
     if (!existing) {
       map.set(tag.id, tag);
@@ -278,7 +299,7 @@ const buildAllTags = ({
   });
 };
 
-const buildProductTiles = (products: ProductRecommendation[], tags: TagInfo[]) => {
+const buildProductTiles = (products: ProductRecommendation[], tags: RecommendationTag[]) => {
   if (!products.length) return [];
   const normalizedTags = tags.map((tag) => ({
     ...tag,
@@ -300,7 +321,12 @@ const buildProductTiles = (products: ProductRecommendation[], tags: TagInfo[]) =
       focus: item.focus,
       keyIngredients: item.keyIngredients,
       imageUrl: item.imageUrl,
+      price: item.price,
+      productUrl: item.productUrl,
+      priceTier: item.priceTier,
       tags: matchedTags,
+      feedback: item.feedback ?? null,
+      ...(item.scoring ? { scoring: item.scoring } : {}),
     };
   });
 };
@@ -311,26 +337,33 @@ const normalizeTag = (value?: string | null) =>
 const fetchFallbackProducts = async (supabase: SupabaseClient, limit = 16) => {
   const { data, error } = await supabase
     .from("products")
-    .select("id, name, brand, category, key_ingredients, image_url")
+    .select("id, name, brand, category, key_ingredients, image_url, note, price, product_url")
     .limit(limit);
 
   if (error || !data?.length) {
     return [];
   }
 
-  return data.map((product) => ({
-    id: `${product.id}`,
-    name: product.name ?? "추천 제품",
-    brand: product.brand ?? null,
-    category: product.category ?? null,
-    reason: "상품 데이터 업데이트 중이라 기본 추천을 보여드려요.",
-    focus: [],
-    keyIngredients: Array.isArray(product.key_ingredients)
-      ? product.key_ingredients.map((item) => `${item}`).filter(Boolean)
-      : typeof product.key_ingredients === "string"
-        ? product.key_ingredients.split(",").map((item) => item.trim())
-        : [],
-    imageUrl: product.image_url ?? null,
-    tags: [],
-  }));
+  return (data as ProductRow[]).map((product) => {
+    const { price, productUrl } = readPurchaseInfo(product);
+    return {
+      id: `${product.id}`,
+      name: product.name ?? "추천 제품",
+      brand: product.brand ?? null,
+      category: product.category ?? null,
+      reason: "상품 데이터 업데이트 중이라 기본 추천을 보여드려요.",
+      focus: [],
+      keyIngredients: Array.isArray(product.key_ingredients)
+        ? product.key_ingredients.map((item) => `${item}`).filter(Boolean)
+        : typeof product.key_ingredients === "string"
+          ? product.key_ingredients.split(",").map((item) => item.trim())
+          : [],
+      imageUrl: product.image_url ?? null,
+      price,
+      productUrl,
+      priceTier: getPriceTier(price),
+      tags: [],
+      feedback: null,
+    };
+  });
 };
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+
+import { toAiReportEnvelope } from "@/lib/ai-report";
+import { authenticateRequest, authorizeSession } from "@/lib/auth";
+import { fetchAiReportVersion, parseAiReportKind } from "@/lib/ai-report-store";
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+type RouteParams = { sessionId?: string; version?: string };
+
+const resolveParams = async <T>(params: T | Promise<T>): Promise<T> => {
+  if (typeof (params as Promise<T>)?.then === "function") {
+    return params as Promise<T>;
+  }
+  return params as T;
+};
+
+export async function GET(
+  req: Request,
+  context: { params: RouteParams | Promise<RouteParams> }
+) {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json(
+      { error: "Missing Supabase configuration" },
+      { status: 500 }
+    );
+  }
+
+  const resolvedParams = await resolveParams(context.params);
+  const sessionId = resolvedParams?.sessionId;
+  const version = Number.parseInt(resolvedParams?.version ?? "", 10);
+  if (!sessionId || !Number.isInteger(version) || version < 1) {
+    return NextResponse.json(
+      { error: "Session id and a positive version are required" },
+      { status: 400 }
+    );
+  }
+
+  const kind = parseAiReportKind(new URL(req.url).searchParams.get("kind") ?? "general");
+  if (!kind) {
+    return NextResponse.json({ error: "Invalid kind" }, { status: 400 });
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false },
+    });
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const access = await authorizeSession(supabase, sessionId, auth.userId);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+    const row = await fetchAiReportVersion(supabase, sessionId, kind, version);
+    if (!row) {
+      return NextResponse.json({ error: "AI report version not found" }, { status: 404 });
+    }
+    return NextResponse.json(toAiReportEnvelope(row));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Server error";
+    console.error("ai report version error", error);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+
+import { authenticateRequest, authorizeSession } from "@/lib/auth";
+import { listAiReportVersions, parseAiReportKind } from "@/lib/ai-report-store";
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const resolveParams = async <T>(params: T | Promise<T>): Promise<T> => {
+  if (typeof (params as Promise<T>)?.then === "function") {
+    return params as Promise<T>;
+  }
+  return params as T;
+};
+
+export async function GET(
+  req: Request,
+  context: { params: { sessionId?: string } | Promise<{ sessionId?: string }> }
+) {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json(
+      { error: "Missing Supabase configuration" },
+      { status: 500 }
+    );
+  }
+
+  const resolvedParams = await resolveParams(context.params);
+  const sessionId = resolvedParams?.sessionId;
+  if (!sessionId) {
+    return NextResponse.json({ error: "Session id is required" }, { status: 400 });
+  }
+
+  const kindParam = new URL(req.url).searchParams.get("kind");
+  const kind = parseAiReportKind(kindParam);
+  if (kindParam && !kind) {
+    return NextResponse.json({ error: "Invalid kind" }, { status: 400 });
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false },
+    });
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const access = await authorizeSession(supabase, sessionId, auth.userId);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+    const versions = await listAiReportVersions(supabase, sessionId, kind);
+    return NextResponse.json({ sessionId, kind, versions });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Server error";
+    console.error("ai report versions error", error);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
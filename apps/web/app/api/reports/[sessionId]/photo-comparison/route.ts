@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+
+import { authenticateRequest, authorizeSession } from "@/lib/auth";
+import {
+  fetchSessionPhotos,
+  listComparisonCandidates,
+  pairSessionPhotos,
+  pickDefaultCandidate,
+} from "@/lib/photo-comparison";
+import { signPhotoRows } from "@/lib/photo-storage";
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const resolveParams = async <T>(params: T | Promise<T>): Promise<T> => {
+  if (typeof (params as Promise<T>)?.then === "function") {
+    return params as Promise<T>;
+  }
+  return params as T;
+};
+
+export async function GET(
+  req: Request,
+  context: { params: { sessionId?: string } | Promise<{ sessionId?: string }> }
+) {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json(
+      { error: "Missing Supabase configuration" },
+      { status: 500 }
+    );
+  }
+
+  const resolvedParams = await resolveParams(context.params);
+  const sessionId = resolvedParams?.sessionId;
+  if (!sessionId) {
+    return NextResponse.json({ error: "Session id is required" }, { status: 400 });
+  }
+  const againstParam = new URL(req.url).searchParams.get("against")?.trim() || null;
+  if (againstParam === sessionId) {
+    return NextResponse.json({ error: "Choose a different session to compare" }, { status: 400 });
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false },
+    });
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const access = await authorizeSession(supabase, sessionId, auth.userId);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const sessionPhotos = (await fetchSessionPhotos(supabase, [sessionId])).get(sessionId) ?? [];
+    const candidates = await listComparisonCandidates(
+      supabase,
+      auth.userId,
+      access.session,
+      sessionPhotos
+    );
+
+    let other: { id: string; created_at: string | null } | null = null;
+    if (againstParam) {
+      const againstAccess = await authorizeSession(supabase, againstParam, auth.userId);
+      if (!againstAccess.ok) {
+        return NextResponse.json(
+          { error: againstAccess.error },
+          { status: againstAccess.status }
+        );
+      }
+      other = againstAccess.session;
+    } else {
+      const candidate = pickDefaultCandidate(access.session, candidates);
+      other = candidate ? { id: candidate.sessionId, created_at: candidate.createdAt } : null;
+    }
+
+    if (!other) {
+      return NextResponse.json({ before: null, after: null, pairs: [], candidates });
+    }
+
+    const otherPhotos = (await fetchSessionPhotos(supabase, [other.id])).get(other.id) ?? [];
+    const current = {
+      id: sessionId,
+      created_at: access.session.created_at,
+      photos: await signPhotoRows(supabase, sessionPhotos),
+    };
+    const previous = {
+      id: other.id,
+      created_at: other.created_at,
+      photos: await signPhotoRows(supabase, otherPhotos),
+    };
+    const [before, after] =
+      Date.parse(previous.created_at ?? "") <= Date.parse(current.created_at ?? "")
+        ? [previous, current]
+        : [current, previous];
+
+    return NextResponse.json({
+      before: { sessionId: before.id, createdAt: before.created_at },
+      after: { sessionId: after.id, createdAt: after.created_at },
+      pairs: pairSessionPhotos(before.photos, after.photos),
+      candidates,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Server error";
+    console.error("photo comparison error", error);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -3,13 +3,24 @@ import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 
 import {
   buildRecommendationPayload,
+  wantsScoringBreakdown,
   type OxResponseRow,
   type PhotoRow,
   type ProductRow,
 } from "@/lib/recommendations";
-import { buildEyeWrinkleDetailPayload } from "@/lib/eye-wrinkle-report";
-import { ensureAiReport, type AiReportEnvelope } from "@/lib/ai-report";
+import { buildEyeWrinkleDetailPayload, ensureEyeWrinkleScores } from "@/lib/eye-wrinkle-report";
+import {
+  ensureAiReport,
+  toAiReportEnvelope,
+  type AiReportContent,
+  type AiReportEnvelope,
+} from "@/lib/ai-report";
+import { fetchAiReportVersion, fetchLatestAiReport } from "@/lib/ai-report-store";
+import { signPhotoRows, signPhotoUrl } from "@/lib/photo-storage";
 import { fetchProfileDetails } from "@/lib/profile-details";
+import { listProductFeedback, type ProductFeedback } from "@/lib/product-feedback";
+import { listUserProducts, type UserProduct } from "@/lib/user-products";
+import { authenticateRequest, authorizeSession, isOwnedBy } from "@/lib/auth";
 import {
   fetchProfileOxForUser,
   mergeSessionAndProfileOx,
@@ -46,26 +57,27 @@ export async function GET(
   }
 
   const type = url.searchParams.get("type") === "personal_color" ? "personal_color" : "analysis";
+  const aiVersion = Number.parseInt(url.searchParams.get("aiVersion") ?? "", 10) || null;
 
   try {
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
       auth: { persistSession: false },
     });
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
 
     if (type === "personal_color") {
-      const response = await fetchPersonalColorReport(supabase, sessionId);
+      const response = await fetchPersonalColorReport(supabase, sessionId, auth.userId);
       return response;
     }
 
-    const { data: session, error: sessionError } = await supabase
-      .from("analysis_sessions")
-      .select("id, created_at, source, user_id")
-      .eq("id", sessionId)
-      .single();
-
-    if (sessionError || !session) {
-      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    const access = await authorizeSession(supabase, sessionId, auth.userId);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
     }
+    const { session } = access;
 
     const isEyeWrinkle = (session.source ?? "").toLowerCase() === "eye_wrinkle";
 
@@ -78,17 +90,26 @@ export async function GET(
       console.error("reports detail photos error", photosError);
       return NextResponse.json({ error: photosError.message }, { status: 500 });
     }
+    const photos = await signPhotoRows(supabase, (photosData ?? []) as PhotoRow[]);
 
     if (isEyeWrinkle) {
+      const [eyeAiRow, scores] = await Promise.all([
+        aiVersion
+          ? fetchAiReportVersion(supabase, sessionId, "eye_wrinkle", aiVersion)
+          : fetchLatestAiReport(supabase, sessionId, "eye_wrinkle", { readyOnly: true }),
+        ensureEyeWrinkleScores(supabase, sessionId, photos),
+      ]);
       const payload = buildEyeWrinkleDetailPayload({
         sessionId,
         createdAt: session.created_at,
-        photos: (photosData ?? []) as PhotoRow[],
+        photos,
+        scores,
+        aiReport: eyeAiRow?.status === "ready" ? (eyeAiRow.payload as AiReportContent) : null,
       });
       return NextResponse.json({
         ...payload,
         type: "eye_wrinkle",
-        aiReport: null as AiReportEnvelope | null,
+        aiReport: eyeAiRow ? toAiReportEnvelope(eyeAiRow) : (null as AiReportEnvelope | null),
       });
     }
 
@@ -114,7 +135,9 @@ export async function GET(
 
     const { data: productsData, error: productError } = await supabase
       .from("products")
-      .select("id, name, brand, category, key_ingredients, note, image_url")
+      .select(
+        "id, name, brand, category, key_ingredients, effect_tags, note, image_url, price, product_url"
+      )
       .limit(80);
 
     if (productError) {
@@ -122,24 +145,39 @@ export async function GET(
       return NextResponse.json({ error: productError.message }, { status: 500 });
     }
 
+    const [owned, feedback, profile] = await Promise.all([
+      listUserProducts(supabase, auth.userId).catch((error) => {
+        console.warn("user products load error", error);
+        return [] as UserProduct[];
+      }),
+      listProductFeedback(supabase, auth.userId).catch((error) => {
+        console.warn("product feedback load error", error);
+        return [] as ProductFeedback[];
+      }),
+      fetchProfileDetails(supabase, auth.userId).catch(() => null),
+    ]);
+
     const payload = buildRecommendationPayload({
       sessionId,
-      photos: (photosData ?? []) as PhotoRow[],
+      photos,
       oxResponses: mergedOxResponses,
       products: (productsData ?? []) as ProductRow[],
+      owned,
+      feedback,
+      budget: profile?.budget ?? null,
+      includeScoring: wantsScoringBreakdown(url),
     });
 
-    const thumbnail = selectThumbnail((photosData ?? []) as PhotoRow[]);
-    const profile =
-      session.user_id ? await fetchProfileDetails(supabase, session.user_id).catch(() => null) : null;
+    const thumbnail = selectThumbnail(photos);
     const aiReport = await ensureAiReport({
       supabase,
       sessionId,
       sessionCreatedAt: session.created_at,
       payload,
-      photos: (photosData ?? []) as PhotoRow[],
+      photos,
       oxResponses: mergedOxResponses,
       profile,
+      version: aiVersion,
     });
 
     return NextResponse.json({
@@ -157,16 +195,25 @@ export async function GET(
   }
 }
 
-const fetchPersonalColorReport = async (supabase: SupabaseClient, reportId: string) => {
+const fetchPersonalColorReport = async (
+  supabase: SupabaseClient,
+  reportId: string,
+  userId: string
+) => {
   const { data, error } = await supabase
     .from("personal_color_reports")
-    .select("id, created_at, session_label, thumbnail_url, result_summary, result_headline, payload")
+    .select(
+      "id, user_id, created_at, session_label, thumbnail_url, result_summary, result_headline, payload"
+    )
     .eq("id", reportId)
     .single();
 
   if (error || !data) {
     return NextResponse.json({ error: "Report not found" }, { status: 404 });
   }
+  if (!isOwnedBy(data.user_id as string | null, userId)) {
+    return NextResponse.json({ error: "이 리포트에 접근할 권한이 없습니다." }, { status: 403 });
+  }
 
   const payload = (data.payload ?? {}) as Record<string, unknown>;
 
@@ -174,7 +221,7 @@ const fetchPersonalColorReport = async (supabase: SupabaseClient, reportId: stri
     type: "personal_color",
     sessionId: (data.session_label as string | null) ?? data.id,
     createdAt: data.created_at,
-    thumbnail: data.thumbnail_url,
+    thumbnail: await signPhotoUrl(supabase, data.thumbnail_url as string | null),
     summary: (payload.summary as string) ?? data.result_summary ?? "퍼스널 컬러 요약",
     highlight: (payload.highlight as string) ?? data.result_headline ?? "퍼스널 컬러 결과",
     items: (payload.items as unknown[]) ?? [],
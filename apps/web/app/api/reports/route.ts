@@ -1,5 +1,5 @@
 import { NextResponse } from "next/server";
-import { createClient } from "@supabase/supabase-js";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 
 import {
   buildRecommendationPayload,
@@ -7,19 +7,40 @@ import {
   type PhotoRow,
   type ProductRow,
 } from "@/lib/recommendations";
-import { buildEyeWrinkleArchiveEntry } from "@/lib/eye-wrinkle-report";
+import { authenticateRequest } from "@/lib/auth";
+import type { AiReportContent } from "@/lib/ai-report";
+import { fetchLatestAiReports, type AiReportVersionRow } from "@/lib/ai-report-store";
 import {
-  buildProfileOxMap,
-  fetchProfileOxRows,
+  buildEyeWrinkleArchiveEntry,
+  fetchEyeWrinkleScores,
+  type EyeWrinkleScores,
+} from "@/lib/eye-wrinkle-report";
+import {
+  fetchProfileOxForUser,
   mergeSessionAndProfileOx,
   type ProfileOxRow,
 } from "@/lib/ox-storage";
+import { createSignedPhotoUrls, toPhotoPath } from "@/lib/photo-storage";
+import {
+  buildCursorFilter,
+  compareArchiveRows,
+  decodeReportArchiveCursor,
+  encodeReportArchiveCursor,
+  parseReportArchiveDateRange,
+  parseReportArchiveTypes,
+  resolveSessionReportType,
+  resolveSessionSourceFilter,
+  type ReportArchiveCursor,
+  type ReportArchiveDateRange,
+  type ReportArchiveType,
+} from "@/lib/report-archive";
 
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
 const DEFAULT_LIMIT = 12;
 const MAX_LIMIT = 36;
+const MAX_SCAN_ROUNDS = 3;
 
 type PersonalColorRow = {
   id: string;
@@ -29,6 +50,39 @@ type PersonalColorRow = {
   result_headline?: string | null;
 };
 
+type SessionRow = {
+  id: string;
+  created_at: string | null;
+  source: string | null;
+  user_id: string | null;
+};
+
+type ArchiveRow = ReportArchiveCursor &
+  ({ kind: "session"; session: SessionRow } | { kind: "personal_color"; report: PersonalColorRow });
+
+type ArchiveEntry = {
+  id: string;
+  createdAt: string | null;
+  summary: string;
+  headline: string;
+  thumbnail: string;
+  type: ReportArchiveType;
+};
+
+type ArchiveQuery = {
+  userId: string;
+  types: ReportArchiveType[];
+  range: ReportArchiveDateRange;
+  cursor: ReportArchiveCursor | null;
+  limit: number;
+};
+
+type ArchiveContext = {
+  userId: string;
+  products: ProductRow[] | null;
+  profileOx: ProfileOxRow[] | null;
+};
+
 export async function GET(req: Request) {
   if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
     return NextResponse.json(
@@ -41,6 +95,10 @@ export async function GET(req: Request) {
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
       auth: { persistSession: false },
     });
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
 
     const url = new URL(req.url ?? "http://localhost");
     const limitParam = Number.parseInt(url.searchParams.get("limit") ?? "", 10);
@@ -48,150 +106,65 @@ export async function GET(req: Request) {
       ? Math.min(Math.max(limitParam, 1), MAX_LIMIT)
       : DEFAULT_LIMIT;
 
-    const { data: sessions, error: sessionError } = await supabase
-      .from("analysis_sessions")
-      .select("id, created_at, source, user_id")
-      .order("created_at", { ascending: false })
-      .limit(limit);
-
-    if (sessionError) {
-      console.error("reports sessions error", sessionError);
-      return NextResponse.json({ error: sessionError.message }, { status: 500 });
+    const { types, invalid } = parseReportArchiveTypes(url.searchParams.get("type"));
+    if (invalid.length) {
+      return NextResponse.json({ error: `Invalid type: ${invalid.join(", ")}` }, { status: 400 });
     }
-
-    const sessionIds = (sessions ?? []).map((session) => session.id);
-    const userIds = Array.from(
-      new Set(
-        (sessions ?? [])
-          .map((session) => session.user_id)
-          .filter((value): value is string => typeof value === "string" && value.length > 0)
-      )
+    const cursorParam = url.searchParams.get("cursor");
+    let cursor = decodeReportArchiveCursor(cursorParam);
+    if (cursorParam && !cursor) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+    const range = parseReportArchiveDateRange(
+      url.searchParams.get("from"),
+      url.searchParams.get("to")
     );
-
-    let photosBySession = new Map<string, PhotoRow[]>();
-    let oxBySession = new Map<string, OxResponseRow[]>();
-    let profileOxByUser = new Map<string, ProfileOxRow[]>();
-    const products: ProductRow[] = [];
-
-    if (sessionIds.length) {
-      const [{ data: photosData, error: photosError }, { data: oxData, error: oxError }, { data: productsData, error: productError }, profileRows] =
-        await Promise.all([
-          supabase
-            .from("photos")
-            .select("id, session_id, shot_type, focus_area, image_url, created_at")
-            .in("session_id", sessionIds),
-          supabase
-            .from("ox_responses")
-            .select("session_id, question_key, answer, created_at")
-            .in("session_id", sessionIds),
-          supabase
-            .from("products")
-            .select("id, name, brand, category, key_ingredients, note, image_url")
-            .limit(80),
-          fetchProfileOxRows(supabase, userIds),
-        ]);
-
-      if (photosError) {
-        console.error("reports photos error", photosError);
-        return NextResponse.json({ error: photosError.message }, { status: 500 });
-      }
-      if (oxError) {
-        console.error("reports ox error", oxError);
-        return NextResponse.json({ error: oxError.message }, { status: 500 });
-      }
-      if (productError) {
-        console.error("reports product error", productError);
-        return NextResponse.json({ error: productError.message }, { status: 500 });
-      }
-
-      photosBySession = groupBySession(photosData ?? []);
-      oxBySession = groupOxBySession(oxData ?? []);
-      profileOxByUser = buildProfileOxMap(profileRows);
-      products.push(...((productsData ?? []) as ProductRow[]));
+    if (!range) {
+      return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
     }
 
-    const analysisReports =
-      sessions?.flatMap((session) => {
-        const sessionPhotos = photosBySession.get(session.id) ?? [];
-        if ((session.source ?? "").toLowerCase() === "eye_wrinkle") {
-          const eyeEntry = buildEyeWrinkleArchiveEntry(session.id, session.created_at, sessionPhotos);
-          const thumbnail = eyeEntry.thumbnail ?? selectThumbnail(sessionPhotos);
-          if (!thumbnail) {
-            return [];
-          }
-          return [
-            {
-              id: session.id,
-              createdAt: session.created_at,
-              summary: eyeEntry.summary,
-              headline: eyeEntry.headline,
-              thumbnail,
-              type: "eye_wrinkle" as const,
-            },
-          ];
-        }
+    // Sessions without photos produce no card, so keep scanning a few windows to fill the page.
+    const context: ArchiveContext = { userId: auth.userId, products: null, profileOx: null };
+    const reports: ArchiveEntry[] = [];
+    let nextCursor: ReportArchiveCursor | null = null;
+    for (let round = 0; round < MAX_SCAN_ROUNDS; round += 1) {
+      const rows = await fetchArchiveRows(supabase, {
+        userId: auth.userId,
+        types,
+        range,
+        cursor,
+        limit,
+      });
+      const window = rows.slice(0, limit);
+      const hasMore = rows.length > limit;
+      const entries = await signArchiveThumbnails(
+        supabase,
+        await buildArchiveEntries(supabase, window, context)
+      );
 
-        const profileAnswers = session.user_id
-          ? profileOxByUser.get(session.user_id) ?? []
-          : [];
-        const sessionOx = mergeSessionAndProfileOx(
-          oxBySession.get(session.id) ?? [],
-          profileAnswers,
-          { sessionId: session.id }
-        );
-        const payload = buildRecommendationPayload({
-          sessionId: session.id,
-          photos: sessionPhotos,
-          oxResponses: sessionOx,
-          products,
-        });
-
-        const thumbnail = selectThumbnail(sessionPhotos);
-        if (!thumbnail) {
-          return [];
+      let filled = false;
+      for (let index = 0; index < window.length; index += 1) {
+        const entry = entries.get(window[index].id);
+        if (entry) {
+          reports.push(entry);
         }
-
-        return [
-          {
-            id: session.id,
-            createdAt: session.created_at,
-            summary: payload.summary,
-            headline: payload.highlight,
-            thumbnail,
-            type: "skin" as const,
-          },
-        ];
-      }) ?? [];
-
-    const { data: personalRows, error: personalError } = await supabase
-      .from("personal_color_reports")
-      .select("id, created_at, thumbnail_url, result_summary, result_headline")
-      .order("created_at", { ascending: false })
-      .limit(limit * 2);
-
-    if (personalError) {
-      console.error("personal-color list error", personalError);
-      return NextResponse.json({ error: personalError.message }, { status: 500 });
+        if (reports.length === limit) {
+          filled = true;
+          nextCursor = index < window.length - 1 || hasMore ? window[index] : null;
+          break;
+        }
+      }
+      if (filled || !hasMore) {
+        break;
+      }
+      cursor = window[window.length - 1];
+      nextCursor = cursor;
     }
 
-    const personalReports = ((personalRows ?? []) as PersonalColorRow[])
-      .filter((row) => row.thumbnail_url)
-      .map((row) => ({
-        id: row.id,
-        createdAt: row.created_at,
-        summary: row.result_summary ?? "퍼스널컬러 리포트",
-        headline: row.result_headline ?? "퍼스널컬러 결과",
-        thumbnail: row.thumbnail_url,
-        type: "personal_color" as const,
-      }));
-
-    const combined = [...analysisReports, ...personalReports].sort((a, b) => {
-      const left = a.createdAt ? Date.parse(a.createdAt) : 0;
-      const right = b.createdAt ? Date.parse(b.createdAt) : 0;
-      return right - left;
+    return NextResponse.json({
+      reports,
+      nextCursor: nextCursor ? encodeReportArchiveCursor(nextCursor) : null,
     });
-
-    return NextResponse.json({ reports: combined.slice(0, limit) });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Server error";
     console.error("reports list error", error);
@@ -199,6 +172,264 @@ export async function GET(req: Request) {
   }
 }
 
+const fetchArchiveRows = async (
+  supabase: SupabaseClient,
+  query: ArchiveQuery
+): Promise<ArchiveRow[]> => {
+  const sessionTypes = query.types.filter((type) => type !== "personal_color");
+  const [sessions, personalReports] = await Promise.all([
+    sessionTypes.length ? fetchSessionRows(supabase, query, sessionTypes) : [],
+    query.types.includes("personal_color") ? fetchPersonalColorRows(supabase, query) : [],
+  ]);
+
+  const rows: ArchiveRow[] = [
+    ...sessions.flatMap((session) =>
+      session.created_at
+        ? [{ kind: "session" as const, id: session.id, createdAt: session.created_at, session }]
+        : []
+    ),
+    ...personalReports.flatMap((report) =>
+      report.created_at
+        ? [{ kind: "personal_color" as const, id: report.id, createdAt: report.created_at, report }]
+        : []
+    ),
+  ];
+  return rows.sort(compareArchiveRows);
+};
+
+const fetchSessionRows = async (
+  supabase: SupabaseClient,
+  query: ArchiveQuery,
+  sessionTypes: ReportArchiveType[]
+) => {
+  let request = supabase
+    .from("analysis_sessions")
+    .select("id, created_at, source, user_id")
+    .eq("user_id", query.userId);
+  const sourceFilter = resolveSessionSourceFilter(sessionTypes);
+  if (sourceFilter?.mode === "include") {
+    request = request.in("source", sourceFilter.sources);
+  } else if (sourceFilter?.mode === "exclude") {
+    request = request.not("source", "in", `(${sourceFilter.sources.join(",")})`);
+  }
+  const { data, error } = await applyArchiveWindow(request, query);
+  if (error) {
+    console.error("reports sessions error", error);
+    throw new Error(error.message);
+  }
+  return (data ?? []) as SessionRow[];
+};
+
+const fetchPersonalColorRows = async (supabase: SupabaseClient, query: ArchiveQuery) => {
+  const request = supabase
+    .from("personal_color_reports")
+    .select("id, created_at, thumbnail_url, result_summary, result_headline")
+    .eq("user_id", query.userId)
+    .not("thumbnail_url", "is", null);
+  const { data, error } = await applyArchiveWindow(request, query);
+  if (error) {
+    console.error("personal-color list error", error);
+    throw new Error(error.message);
+  }
+  return (data ?? []) as PersonalColorRow[];
+};
+
+const applyArchiveWindow = <
+  T extends {
+    gte: (column: string, value: string) => T;
+    lt: (column: string, value: string) => T;
+    or: (filters: string) => T;
+    order: (column: string, options: { ascending: boolean; nullsFirst?: boolean }) => T;
+    limit: (count: number) => T;
+  },
+>(
+  request: T,
+  query: ArchiveQuery
+) => {
+  let next = request;
+  if (query.range.from) {
+    next = next.gte("created_at", query.range.from);
+  }
+  if (query.range.until) {
+    next = next.lt("created_at", query.range.until);
+  }
+  if (query.cursor) {
+    next = next.or(buildCursorFilter(query.cursor));
+  }
+  return next
+    .order("created_at", { ascending: false, nullsFirst: false })
+    .order("id", { ascending: false })
+    .limit(query.limit + 1);
+};
+
+const buildArchiveEntries = async (
+  supabase: SupabaseClient,
+  rows: ArchiveRow[],
+  context: ArchiveContext
+) => {
+  const entries = new Map<string, ArchiveEntry>();
+  const sessions = rows.flatMap((row) => (row.kind === "session" ? [row.session] : []));
+
+  rows.forEach((row) => {
+    if (row.kind !== "personal_color" || !row.report.thumbnail_url) return;
+    entries.set(row.id, {
+      id: row.id,
+      createdAt: row.report.created_at,
+      summary: row.report.result_summary ?? "퍼스널컬러 리포트",
+      headline: row.report.result_headline ?? "퍼스널컬러 결과",
+      thumbnail: row.report.thumbnail_url,
+      type: "personal_color",
+    });
+  });
+  if (!sessions.length) {
+    return entries;
+  }
+
+  const sessionIds = sessions.map((session) => session.id);
+  const eyeSessionIds = sessions
+    .filter((session) => resolveSessionReportType(session.source) === "eye_wrinkle")
+    .map((session) => session.id);
+  const [
+    { data: photosData, error: photosError },
+    { data: oxData, error: oxError },
+    eyeScores,
+    eyeAiReports,
+  ] = await Promise.all([
+    supabase
+      .from("photos")
+      .select("id, session_id, shot_type, focus_area, image_url, created_at")
+      .in("session_id", sessionIds),
+    supabase
+      .from("ox_responses")
+      .select("session_id, question_key, answer, created_at")
+      .in("session_id", sessionIds),
+    fetchEyeWrinkleScores(supabase, eyeSessionIds),
+    fetchLatestAiReports(supabase, eyeSessionIds, "eye_wrinkle"),
+    loadArchiveContext(supabase, context),
+  ]);
+  if (photosError) {
+    console.error("reports photos error", photosError);
+    throw new Error(photosError.message);
+  }
+  if (oxError) {
+    console.error("reports ox error", oxError);
+    throw new Error(oxError.message);
+  }
+
+  const photosBySession = groupBySession((photosData ?? []) as PhotoRow[]);
+  const oxBySession = groupOxBySession((oxData ?? []) as OxResponseRow[]);
+
+  sessions.forEach((session) => {
+    const entry = buildSessionEntry(session, photosBySession.get(session.id) ?? [], {
+      ox: oxBySession.get(session.id) ?? [],
+      context,
+      eyeScores,
+      eyeAiReports,
+    });
+    if (entry) {
+      entries.set(session.id, entry);
+    }
+  });
+  return entries;
+};
+
+// Thumbnails are stored as bucket paths; cards whose image can no longer be signed are dropped.
+const signArchiveThumbnails = async (
+  supabase: SupabaseClient,
+  entries: Map<string, ArchiveEntry>
+) => {
+  const paths = new Map<string, string | null>();
+  entries.forEach((entry) => paths.set(entry.id, toPhotoPath(entry.thumbnail)));
+  const signed = await createSignedPhotoUrls(
+    supabase,
+    Array.from(paths.values()).filter((path): path is string => Boolean(path))
+  );
+  entries.forEach((entry, id) => {
+    const path = paths.get(id);
+    if (!path) return;
+    const url = signed.get(path);
+    if (url) {
+      entries.set(id, { ...entry, thumbnail: url });
+    } else {
+      entries.delete(id);
+    }
+  });
+  return entries;
+};
+
+const loadArchiveContext = async (supabase: SupabaseClient, context: ArchiveContext) => {
+  if (context.products && context.profileOx) {
+    return;
+  }
+  const [{ data: productsData, error: productError }, profileOx] = await Promise.all([
+    supabase
+      .from("products")
+      .select("id, name, brand, category, key_ingredients, note, image_url")
+      .limit(80),
+    fetchProfileOxForUser(supabase, context.userId),
+  ]);
+  if (productError) {
+    console.error("reports product error", productError);
+    throw new Error(productError.message);
+  }
+  context.products = (productsData ?? []) as ProductRow[];
+  context.profileOx = profileOx;
+};
+
+const buildSessionEntry = (
+  session: SessionRow,
+  sessionPhotos: PhotoRow[],
+  sources: {
+    ox: OxResponseRow[];
+    context: ArchiveContext;
+    eyeScores: Map<string, EyeWrinkleScores>;
+    eyeAiReports: Map<string, AiReportVersionRow>;
+  }
+): ArchiveEntry | null => {
+  const type = resolveSessionReportType(session.source);
+  if (type === "eye_wrinkle") {
+    const eyeEntry = buildEyeWrinkleArchiveEntry(session.id, session.created_at, sessionPhotos, {
+      scores: sources.eyeScores.get(session.id) ?? null,
+      aiReport:
+        (sources.eyeAiReports.get(session.id)?.payload as AiReportContent | undefined) ?? null,
+    });
+    const thumbnail = eyeEntry.thumbnail ?? selectThumbnail(sessionPhotos);
+    if (!thumbnail) {
+      return null;
+    }
+    return {
+      id: session.id,
+      createdAt: session.created_at,
+      summary: eyeEntry.summary,
+      headline: eyeEntry.headline,
+      thumbnail,
+      type,
+    };
+  }
+
+  const thumbnail = selectThumbnail(sessionPhotos);
+  if (!thumbnail) {
+    return null;
+  }
+  const sessionOx = mergeSessionAndProfileOx(sources.ox, sources.context.profileOx ?? [], {
+    sessionId: session.id,
+  });
+  const payload = buildRecommendationPayload({
+    sessionId: session.id,
+    photos: sessionPhotos,
+    oxResponses: sessionOx,
+    products: sources.context.products ?? [],
+  });
+  return {
+    id: session.id,
+    createdAt: session.created_at,
+    summary: payload.summary,
+    headline: payload.highlight,
+    thumbnail,
+    type,
+  };
+};
+
 const groupBySession = (photos: PhotoRow[]) => {
   const map = new Map<string, PhotoRow[]>();
   photos.forEach((photo) => {
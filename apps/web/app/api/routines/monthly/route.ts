@@ -1,7 +1,9 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 
+import { authenticateRequest } from "@/lib/auth";
 import { ensureMonthlyRoutine } from "@/lib/routines";
+import { readRequestTimeZone, resolveUserTimeZone } from "@/lib/timezone";
 
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -11,17 +13,17 @@ export async function GET(req: Request) {
     return NextResponse.json({ error: "Missing Supabase configuration" }, { status: 500 });
   }
 
-  const url = new URL(req.url ?? "http://localhost");
-  const userId = url.searchParams.get("userId");
-  if (!userId) {
-    return NextResponse.json({ error: "userId is required" }, { status: 400 });
-  }
-
   try {
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
       auth: { persistSession: false },
     });
-    const routine = await ensureMonthlyRoutine(supabase, userId);
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { userId } = auth;
+    const timeZone = await resolveUserTimeZone(supabase, userId, readRequestTimeZone(req));
+    const routine = await ensureMonthlyRoutine(supabase, userId, timeZone);
     return NextResponse.json({ routine });
   } catch (error) {
     console.error("monthly routine error", error);
@@ -1,42 +1,69 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 
+import { authenticateRequest } from "@/lib/auth";
 import {
   ensureWeeklyRoutine,
   recordWeeklyCheck,
+  resolveCheckTarget,
   toWeeklyPayload,
+  undoWeeklyCheck,
 } from "@/lib/routines";
+import { readRequestTimeZone, resolveUserTimeZone } from "@/lib/timezone";
 
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
-export async function POST(req: Request) {
+const handleCheck = async (req: Request, mode: "check" | "undo") => {
   if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
     return NextResponse.json({ error: "Missing Supabase configuration" }, { status: 500 });
   }
 
   const body = await req.json().catch(() => null);
-  const userId = typeof body?.userId === "string" ? body.userId : null;
-  if (!userId) {
-    return NextResponse.json({ error: "userId is required" }, { status: 400 });
-  }
 
   try {
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
       auth: { persistSession: false },
     });
-    const routineRow = await ensureWeeklyRoutine(supabase, userId);
-    const progress = await recordWeeklyCheck(
-      supabase,
-      routineRow.id,
-      routineRow.week_start,
-      routineRow.week_end
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { userId } = auth;
+    const timeZone = await resolveUserTimeZone(supabase, userId, readRequestTimeZone(req));
+    const routineRow = await ensureWeeklyRoutine(supabase, userId, timeZone);
+
+    const target = resolveCheckTarget(
+      routineRow,
+      timeZone,
+      { date: body?.date, steps: body?.steps },
+      mode
     );
-    const payload = toWeeklyPayload(routineRow, progress.count, progress.daysChecked);
-    return NextResponse.json({ routine: payload });
+    if (!target.ok) {
+      return NextResponse.json({ error: target.error }, { status: 400 });
+    }
+
+    const progress =
+      mode === "check"
+        ? await recordWeeklyCheck(supabase, routineRow, timeZone, target.date, target.steps ?? [])
+        : await undoWeeklyCheck(supabase, routineRow, timeZone, target.date, target.steps);
+    return NextResponse.json({ routine: toWeeklyPayload(routineRow, timeZone, progress) });
   } catch (error) {
-    console.error("weekly routine check error", error);
-    const message = error instanceof Error ? error.message : "체크를 기록하지 못했습니다.";
+    console.error(`weekly routine ${mode} error`, error);
+    const message =
+      error instanceof Error
+        ? error.message
+        : mode === "check"
+          ? "체크를 기록하지 못했습니다."
+          : "체크를 취소하지 못했습니다.";
     return NextResponse.json({ error: message }, { status: 500 });
   }
+};
+
+export async function POST(req: Request) {
+  return handleCheck(req, "check");
+}
+
+export async function DELETE(req: Request) {
+  return handleCheck(req, "undo");
 }
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+
+import { authenticateRequest } from "@/lib/auth";
+import { listWeeklyHistory } from "@/lib/routines";
+import { readRequestTimeZone, resolveUserTimeZone } from "@/lib/timezone";
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const DEFAULT_LIMIT = 12;
+const MAX_LIMIT = 26;
+
+export async function GET(req: Request) {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json({ error: "Missing Supabase configuration" }, { status: 500 });
+  }
+
+  const url = new URL(req.url ?? "http://localhost");
+  const limitParam = Number.parseInt(url.searchParams.get("limit") ?? "", 10);
+  const limit = Number.isFinite(limitParam)
+    ? Math.min(Math.max(limitParam, 1), MAX_LIMIT)
+    : DEFAULT_LIMIT;
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false },
+    });
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { userId } = auth;
+    const timeZone = await resolveUserTimeZone(supabase, userId, readRequestTimeZone(req));
+    const history = await listWeeklyHistory(supabase, userId, timeZone, limit);
+    return NextResponse.json(history);
+  } catch (error) {
+    console.error("weekly routine history error", error);
+    const message = error instanceof Error ? error.message : "주간 루틴 기록을 불러오지 못했습니다.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
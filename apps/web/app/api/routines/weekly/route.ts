@@ -1,12 +1,14 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 
+import { authenticateRequest } from "@/lib/auth";
 import {
   ensureWeeklyRoutine,
   getWeeklyProgressDetail,
   toWeeklyPayload,
   updateWeeklyRoutine,
 } from "@/lib/routines";
+import { readRequestTimeZone, resolveUserTimeZone } from "@/lib/timezone";
 
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -16,21 +18,21 @@ export async function GET(req: Request) {
     return NextResponse.json({ error: "Missing Supabase configuration" }, { status: 500 });
   }
 
-  const url = new URL(req.url ?? "http://localhost");
-  const userId = url.searchParams.get("userId");
-  if (!userId) {
-    return NextResponse.json({ error: "userId is required" }, { status: 400 });
-  }
-
   try {
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
       auth: { persistSession: false },
     });
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { userId } = auth;
+    const timeZone = await resolveUserTimeZone(supabase, userId, readRequestTimeZone(req));
 
-    const row = await ensureWeeklyRoutine(supabase, userId);
-    const progress = await getWeeklyProgressDetail(supabase, row.id, row.week_start, row.week_end);
+    const row = await ensureWeeklyRoutine(supabase, userId, timeZone);
+    const progress = await getWeeklyProgressDetail(supabase, row, timeZone);
     return NextResponse.json({
-      routine: toWeeklyPayload(row, progress.count, progress.daysChecked),
+      routine: toWeeklyPayload(row, timeZone, progress),
     });
   } catch (error) {
     console.error("weekly routine error", error);
@@ -45,11 +47,6 @@ export async function PATCH(req: Request) {
   }
 
   const body = await req.json().catch(() => null);
-  const userId = typeof body?.userId === "string" ? body.userId : null;
-  if (!userId) {
-    return NextResponse.json({ error: "userId is required" }, { status: 400 });
-  }
-
   const recommendedDays =
     Array.isArray(body?.recommendedDays) && body.recommendedDays.length
       ? body.recommendedDays.map((day: unknown) => `${day}`.trim()).filter(Boolean)
@@ -66,14 +63,20 @@ export async function PATCH(req: Request) {
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
       auth: { persistSession: false },
     });
-    const row = await updateWeeklyRoutine(supabase, userId, {
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { userId } = auth;
+    const timeZone = await resolveUserTimeZone(supabase, userId, readRequestTimeZone(req));
+    const row = await updateWeeklyRoutine(supabase, userId, timeZone, {
       recommendedDays,
       intensity,
       optionalSteps,
     });
-    const progress = await getWeeklyProgressDetail(supabase, row.id, row.week_start, row.week_end);
+    const progress = await getWeeklyProgressDetail(supabase, row, timeZone);
     return NextResponse.json({
-      routine: toWeeklyPayload(row, progress.count, progress.daysChecked),
+      routine: toWeeklyPayload(row, timeZone, progress),
     });
   } catch (error) {
     console.error("weekly routine update error", error);
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+
+import { authenticateRequest } from "@/lib/auth";
+import { normalizeUsage, removeUserProduct, updateUserProductUsage } from "@/lib/user-products";
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+type RouteContext = { params: { id?: string } | Promise<{ id?: string }> };
+
+const resolveParams = async <T>(params: T | Promise<T>): Promise<T> => {
+  if (typeof (params as Promise<T>)?.then === "function") {
+    return params as Promise<T>;
+  }
+  return params as T;
+};
+
+export async function PATCH(req: Request, context: RouteContext) {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json({ error: "Missing Supabase configuration" }, { status: 500 });
+  }
+
+  const { id } = await resolveParams(context.params);
+  if (!id) {
+    return NextResponse.json({ error: "Product id is required" }, { status: 400 });
+  }
+  const body = await req.json().catch(() => null);
+  const usage = normalizeUsage(body?.usage);
+  if (!usage) {
+    return NextResponse.json({ error: "usage는 am, pm, both 중 하나여야 합니다." }, { status: 400 });
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false },
+    });
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const product = await updateUserProductUsage(supabase, auth.userId, id, usage);
+    if (!product) {
+      return NextResponse.json({ error: "화장대에서 제품을 찾을 수 없습니다." }, { status: 404 });
+    }
+    return NextResponse.json({ product });
+  } catch (error) {
+    console.error("shelf update error", error);
+    const message = error instanceof Error ? error.message : "제품을 수정하지 못했습니다.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request, context: RouteContext) {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json({ error: "Missing Supabase configuration" }, { status: 500 });
+  }
+
+  const { id } = await resolveParams(context.params);
+  if (!id) {
+    return NextResponse.json({ error: "Product id is required" }, { status: 400 });
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false },
+    });
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const removed = await removeUserProduct(supabase, auth.userId, id);
+    if (!removed) {
+      return NextResponse.json({ error: "화장대에서 제품을 찾을 수 없습니다." }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("shelf remove error", error);
+    const message = error instanceof Error ? error.message : "제품을 삭제하지 못했습니다.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+
+import { authenticateRequest } from "@/lib/auth";
+import { searchCatalogProducts } from "@/lib/user-products";
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 40;
+
+export async function GET(req: Request) {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json({ error: "Missing Supabase configuration" }, { status: 500 });
+  }
+
+  const url = new URL(req.url ?? "http://localhost");
+  const query = url.searchParams.get("q")?.trim() ?? "";
+  if (query.length < 2) {
+    return NextResponse.json({ error: "검색어는 두 글자 이상 입력해 주세요." }, { status: 400 });
+  }
+  const limitParam = Number.parseInt(url.searchParams.get("limit") ?? "", 10);
+  const limit = Number.isFinite(limitParam)
+    ? Math.min(Math.max(limitParam, 1), MAX_LIMIT)
+    : DEFAULT_LIMIT;
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false },
+    });
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const products = await searchCatalogProducts(supabase, query, limit);
+    return NextResponse.json({ products });
+  } catch (error) {
+    console.error("shelf search error", error);
+    const message = error instanceof Error ? error.message : "제품을 검색하지 못했습니다.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -2,10 +2,20 @@ import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { randomUUID } from "crypto";
 
+import { authenticateRequest, authorizeSession } from "@/lib/auth";
+import {
+  assessPhotoQuality,
+  MAX_UPLOAD_BYTES,
+  PhotoRejectedError,
+  type PhotoQualityVerdict,
+} from "@/lib/photo-quality";
+import { PHOTO_BUCKET, signPhotoUrl } from "@/lib/photo-storage";
+
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
-const STORAGE_BUCKET =
-  process.env.NEXT_PUBLIC_SUPABASE_STORAGE_BUCKET || "photos";
+// Room for the multipart boundaries and the small text fields next to the file.
+const FORM_OVERHEAD_BYTES = 64 * 1024;
+const FILE_TOO_LARGE_MESSAGE = "이미지 용량은 15MB 이하만 업로드할 수 있습니다.";
 
 export async function POST(req: Request) {
   if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
@@ -19,6 +29,14 @@ export async function POST(req: Request) {
   }
 
   try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false },
+    });
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
     const contentType = req.headers.get("content-type") || "";
     if (!contentType.includes("multipart/form-data")) {
       return NextResponse.json(
@@ -27,12 +45,17 @@ export async function POST(req: Request) {
       );
     }
 
+    // Reject oversized bodies before buffering them; the file size check below still applies.
+    const contentLength = Number(req.headers.get("content-length"));
+    if (contentLength > MAX_UPLOAD_BYTES + FORM_OVERHEAD_BYTES) {
+      return NextResponse.json({ error: FILE_TOO_LARGE_MESSAGE }, { status: 413 });
+    }
+
     const formData = await req.formData();
     const file = formData.get("file");
     const shotTypeRaw = formData.get("shot_type");
     const focusAreaRaw = formData.get("focus_area");
     const sessionIdRaw = formData.get("session_id");
-    const userIdRaw = formData.get("user_id");
 
     if (!(file instanceof File)) {
       return NextResponse.json(
@@ -76,39 +99,40 @@ export async function POST(req: Request) {
         ? focusAreaRaw.toLowerCase()
         : null;
     const sessionId = sessionIdRaw.trim();
-    const userId =
-      typeof userIdRaw === "string" && userIdRaw.trim().length > 0 ? userIdRaw.trim() : null;
+    const access = await authorizeSession(supabase, sessionId, auth.userId);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
 
-    const buffer = Buffer.from(await file.arrayBuffer());
-    const fileName = `${Date.now()}-${file.name || "upload"}`;
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { error: FILE_TOO_LARGE_MESSAGE },
+        { status: 413 }
+      );
+    }
 
-    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
-      auth: { persistSession: false },
-    });
+    const buffer = Buffer.from(await file.arrayBuffer());
 
-    const { data: sessionRow } = await supabase
-      .from("analysis_sessions")
-      .select("user_id")
-      .eq("id", sessionId)
-      .maybeSingle<{ user_id: string | null }>();
-
-    const derivedUserId = sessionRow?.user_id ?? userId ?? null;
-
-    if (!sessionRow?.user_id && userId) {
-      const { error: sessionUpdateError } = await supabase
-        .from("analysis_sessions")
-        .update({ user_id: userId })
-        .eq("id", sessionId);
-      if (sessionUpdateError) {
-        console.warn("Failed to backfill session user_id", sessionUpdateError);
+    let quality: PhotoQualityVerdict;
+    try {
+      quality = await assessPhotoQuality(buffer, shotType);
+    } catch (error) {
+      if (error instanceof PhotoRejectedError) {
+        return NextResponse.json({ error: error.message }, { status: error.status });
       }
+      throw error;
     }
+    if (!quality.passed) {
+      return NextResponse.json({ error: quality.detail, quality }, { status: 422 });
+    }
+
+    const fileName = `${auth.userId}/${Date.now()}-${file.name || "upload"}`;
 
     /* 1️⃣ Storage 업로드 */
     const { data: uploadData, error: uploadError } = await supabase.storage
-      .from(STORAGE_BUCKET)
+      .from(PHOTO_BUCKET)
       .upload(fileName, buffer, {
-        contentType: file.type || "application/octet-stream",
+        contentType: file.type || `image/${quality.metrics?.format ?? "jpeg"}`,
         cacheControl: "3600",
         upsert: false,
       });
@@ -121,25 +145,20 @@ export async function POST(req: Request) {
       );
     }
 
-    /* 2️⃣ Public URL 생성 */
-    const { data: publicUrlData } = supabase.storage
-      .from(STORAGE_BUCKET)
-      .getPublicUrl(uploadData.path);
-
-    const publicUrl = publicUrlData.publicUrl;
-
-    /* 3️⃣ photos 테이블 insert (⭐ 핵심 수정 ⭐) */
+    /* 2️⃣ photos 테이블 insert: 비공개 버킷이라 URL 대신 경로만 저장 */
     const { data: insertedRow, error: insertError } = await supabase
       .from("photos")
       .insert({
         id: randomUUID(),
         session_id: sessionId,
-        user_id: derivedUserId,
+        user_id: auth.userId,
         image_path: uploadData.path,
-        image_url: publicUrl,
+        image_url: uploadData.path,
         source: "upload_api",
         shot_type: shotType,
         focus_area: focusArea,
+        quality_metrics: quality.metrics,
+        quality_issues: quality.issues,
       })
       .select()
       .single();
@@ -152,11 +171,16 @@ export async function POST(req: Request) {
       );
     }
 
-    /* 4️⃣ 성공 응답 */
+    /* 3️⃣ 성공 응답 (미리보기용 서명 URL) */
+    const imageUrl = await signPhotoUrl(supabase, uploadData.path).catch((error) => {
+      console.warn("Signed url error:", error);
+      return null;
+    });
     return NextResponse.json({
       success: true,
       photo: insertedRow,
-      publicUrl,
+      imageUrl,
+      quality,
     });
   } catch (error) {
     console.error("Upload handler error:", error);
@@ -0,0 +1,275 @@
+import { type SupabaseClient } from "@supabase/supabase-js";
+import type { AccountErasureResult } from "@tangly/domain";
+
+import { PROFILE_OX_TABLE } from "@/lib/ox-storage";
+import { createSignedPhotoUrls, PHOTO_BUCKET, toPhotoPath } from "@/lib/photo-storage";
+
+// The archive embeds signed photo links, so they stay valid as long as the download link itself.
+export const ACCOUNT_EXPORT_TTL_SECONDS = 60 * 60 * 24;
+
+const STORAGE_REMOVE_BATCH = 100;
+const STORAGE_LIST_LIMIT = 100;
+
+export type { AccountErasureResult } from "@tangly/domain";
+
+type DataRow = Record<string, unknown>;
+
+export type AccountExport = {
+  exportedAt: string;
+  userId: string;
+  profile: DataRow | null;
+  sessions: DataRow[];
+  photos: DataRow[];
+  oxResponses: DataRow[];
+  profileOx: DataRow[];
+  aiReports: DataRow[];
+  eyeWrinkleScores: DataRow[];
+  weeklyRoutines: DataRow[];
+  weeklyRoutineChecks: DataRow[];
+  monthlyRoutines: DataRow[];
+  personalColorReports: DataRow[];
+  userProducts: DataRow[];
+  productFeedback: DataRow[];
+};
+
+const userFolders = (userId: string) => [
+  userId,
+  `personal-color/${userId}`,
+  `exports/${userId}`,
+];
+
+const selectRows = async (
+  query: PromiseLike<{ data: unknown; error: { message: string } | null }>,
+  table: string
+) => {
+  const { data, error } = await query;
+  if (error) {
+    console.error(`account data ${table} error`, error);
+    throw new Error(error.message);
+  }
+  return (data ?? []) as DataRow[];
+};
+
+const readIds = (rows: DataRow[]) =>
+  rows.map((row) => row.id).filter((id): id is string => typeof id === "string");
+
+const loadAccountRows = async (supabase: SupabaseClient, userId: string) => {
+  const [sessions, weeklyRoutines] = await Promise.all([
+    selectRows(
+      supabase.from("analysis_sessions").select("*").eq("user_id", userId),
+      "analysis_sessions"
+    ),
+    selectRows(supabase.from("weekly_routines").select("*").eq("user_id", userId), "weekly_routines"),
+  ]);
+  const sessionIds = readIds(sessions);
+  const routineIds = readIds(weeklyRoutines);
+  const bySession = (table: string) =>
+    sessionIds.length
+      ? selectRows(supabase.from(table).select("*").in("session_id", sessionIds), table)
+      : Promise.resolve([] as DataRow[]);
+  const byUser = (table: string) =>
+    selectRows(supabase.from(table).select("*").eq("user_id", userId), table);
+
+  const [
+    photos,
+    oxResponses,
+    aiReports,
+    eyeWrinkleScores,
+    weeklyRoutineChecks,
+    profileOx,
+    monthlyRoutines,
+    personalColorReports,
+    userProducts,
+    productFeedback,
+    profiles,
+  ] = await Promise.all([
+    bySession("photos"),
+    bySession("ox_responses"),
+    bySession("ai_reports"),
+    bySession("eye_wrinkle_scores"),
+    routineIds.length
+      ? selectRows(
+          supabase.from("weekly_routine_checks").select("*").in("routine_id", routineIds),
+          "weekly_routine_checks"
+        )
+      : Promise.resolve([] as DataRow[]),
+    byUser(PROFILE_OX_TABLE),
+    byUser("monthly_routines"),
+    byUser("personal_color_reports"),
+    byUser("user_products"),
+    byUser("product_feedback"),
+    selectRows(supabase.from("profiles").select("*").eq("id", userId), "profiles"),
+  ]);
+
+  return {
+    profile: profiles[0] ?? null,
+    sessions,
+    photos,
+    oxResponses,
+    profileOx,
+    aiReports,
+    eyeWrinkleScores,
+    weeklyRoutines,
+    weeklyRoutineChecks,
+    monthlyRoutines,
+    personalColorReports,
+    userProducts,
+    productFeedback,
+  };
+};
+
+const readPhotoPath = (row: DataRow, keys: string[]) => {
+  for (const key of keys) {
+    const value = row[key];
+    const path = typeof value === "string" ? toPhotoPath(value) : null;
+    if (path) return path;
+  }
+  return null;
+};
+
+const listUserObjects = async (supabase: SupabaseClient, userId: string) => {
+  const bucket = supabase.storage.from(PHOTO_BUCKET);
+  const paths: string[] = [];
+  for (const folder of userFolders(userId)) {
+    for (let offset = 0; ; offset += STORAGE_LIST_LIMIT) {
+      const { data, error } = await bucket.list(folder, { limit: STORAGE_LIST_LIMIT, offset });
+      if (error) {
+        throw error;
+      }
+      const files = (data ?? []).filter((entry) => entry.id);
+      files.forEach((entry) => paths.push(`${folder}/${entry.name}`));
+      if ((data ?? []).length < STORAGE_LIST_LIMIT) break;
+    }
+  }
+  return paths;
+};
+
+export const buildAccountExport = async (
+  supabase: SupabaseClient,
+  userId: string
+): Promise<AccountExport> => {
+  const rows = await loadAccountRows(supabase, userId);
+  const photoPaths = rows.photos.map((row) => readPhotoPath(row, ["image_path", "image_url"]));
+  const thumbnailPaths = rows.personalColorReports.map((row) =>
+    readPhotoPath(row, ["thumbnail_url"])
+  );
+  const signed = await createSignedPhotoUrls(
+    supabase,
+    [...photoPaths, ...thumbnailPaths].filter((path): path is string => Boolean(path)),
+    ACCOUNT_EXPORT_TTL_SECONDS
+  );
+
+  return {
+    exportedAt: new Date().toISOString(),
+    userId,
+    ...rows,
+    photos: rows.photos.map((row, index) => {
+      const path = photoPaths[index];
+      return path ? { ...row, image_url: signed.get(path) ?? null } : row;
+    }),
+    personalColorReports: rows.personalColorReports.map((row, index) => {
+      const path = thumbnailPaths[index];
+      return path ? { ...row, thumbnail_url: signed.get(path) ?? null } : row;
+    }),
+  };
+};
+
+// Stores the archive next to the user's photos and hands back a link that expires with them.
+export const createAccountExportLink = async (supabase: SupabaseClient, userId: string) => {
+  const archive = await buildAccountExport(supabase, userId);
+  const path = `exports/${userId}/tangly-export-${Date.now()}.json`;
+  const bucket = supabase.storage.from(PHOTO_BUCKET);
+  const { error: uploadError } = await bucket.upload(path, JSON.stringify(archive, null, 2), {
+    contentType: "application/json",
+    upsert: false,
+  });
+  if (uploadError) {
+    throw uploadError;
+  }
+  const { data, error } = await bucket.createSignedUrl(path, ACCOUNT_EXPORT_TTL_SECONDS, {
+    download: true,
+  });
+  if (error || !data) {
+    throw error ?? new Error("Failed to sign export archive");
+  }
+  return {
+    url: data.signedUrl,
+    expiresAt: new Date(Date.now() + ACCOUNT_EXPORT_TTL_SECONDS * 1000).toISOString(),
+  };
+};
+
+const deleteRows = async (
+  supabase: SupabaseClient,
+  table: string,
+  column: string,
+  values: string[]
+) => {
+  if (!values.length) {
+    return 0;
+  }
+  const { data, error } = await supabase.from(table).delete().in(column, values).select(column);
+  if (error) {
+    console.error(`account erase ${table} error`, error);
+    throw new Error(error.message);
+  }
+  return data?.length ?? 0;
+};
+
+// Storage goes first and the auth user last, so a failed run can simply be retried.
+export const eraseAccountData = async (
+  supabase: SupabaseClient,
+  userId: string
+): Promise<AccountErasureResult> => {
+  const rows = await loadAccountRows(supabase, userId);
+  const objectPaths = new Set(await listUserObjects(supabase, userId));
+  rows.photos.forEach((row) => {
+    const path = readPhotoPath(row, ["image_path", "image_url"]);
+    if (path) objectPaths.add(path);
+  });
+  rows.personalColorReports.forEach((row) => {
+    const path = readPhotoPath(row, ["thumbnail_url"]);
+    if (path) objectPaths.add(path);
+  });
+
+  const paths = Array.from(objectPaths);
+  for (let index = 0; index < paths.length; index += STORAGE_REMOVE_BATCH) {
+    const { error } = await supabase.storage
+      .from(PHOTO_BUCKET)
+      .remove(paths.slice(index, index + STORAGE_REMOVE_BATCH));
+    if (error) {
+      throw error;
+    }
+  }
+
+  const sessionIds = readIds(rows.sessions);
+  const routineIds = readIds(rows.weeklyRoutines);
+  const deleted: Record<string, number> = {};
+  deleted.weekly_routine_checks = await deleteRows(
+    supabase,
+    "weekly_routine_checks",
+    "routine_id",
+    routineIds
+  );
+  deleted.weekly_routines = await deleteRows(supabase, "weekly_routines", "user_id", [userId]);
+  deleted.monthly_routines = await deleteRows(supabase, "monthly_routines", "user_id", [userId]);
+  for (const table of ["ai_reports", "eye_wrinkle_scores", "ox_responses", "photos"]) {
+    deleted[table] = await deleteRows(supabase, table, "session_id", sessionIds);
+  }
+  deleted.analysis_sessions = await deleteRows(supabase, "analysis_sessions", "user_id", [userId]);
+  for (const table of [
+    PROFILE_OX_TABLE,
+    "personal_color_reports",
+    "user_products",
+    "product_feedback",
+  ]) {
+    deleted[table] = await deleteRows(supabase, table, "user_id", [userId]);
+  }
+  deleted.profiles = await deleteRows(supabase, "profiles", "id", [userId]);
+
+  const { error: authError } = await supabase.auth.admin.deleteUser(userId);
+  if (authError) {
+    throw authError;
+  }
+
+  return { storageObjects: paths.length, rows: deleted };
+};
@@ -0,0 +1,301 @@
+export type AiTask = "report" | "skin" | "trouble" | "eye_wrinkle";
+
+export type AiContentPart =
+  | { type: "text"; text: string }
+  | {
+      type: "image_url";
+      image_url: { url: string; detail?: "low" | "high" | "auto" };
+    };
+
+export type AiChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string | AiContentPart[];
+};
+
+export type AiJsonSchema = {
+  name: string;
+  schema: Record<string, unknown>;
+};
+
+export type AiJsonRequest = {
+  task: AiTask;
+  messages: AiChatMessage[];
+  jsonSchema?: AiJsonSchema | null;
+};
+
+export type AiErrorCode =
+  | "not_configured"
+  | "timeout"
+  | "network"
+  | "rate_limited"
+  | "upstream"
+  | "bad_response"
+  | "invalid_json";
+
+export type AiJsonResult =
+  | {
+      ok: true;
+      data: unknown;
+      raw: string;
+      provider: string;
+      model: string;
+      attempts: number;
+    }
+  | {
+      ok: false;
+      code: AiErrorCode;
+      error: string;
+      provider: string;
+      model: string;
+      attempts: number;
+    };
+
+export type AiProvider = {
+  name: string;
+  model: string;
+  isConfigured: () => boolean;
+  complete: (request: AiJsonRequest, options: { signal: AbortSignal }) => Promise<string>;
+};
+
+export class AiProviderError extends Error {
+  code: AiErrorCode;
+  retryable: boolean;
+
+  constructor(code: AiErrorCode, message: string, retryable = false) {
+    super(message);
+    this.name = "AiProviderError";
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
+
+export const parseCount = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const AI_PROVIDER = (process.env.AI_PROVIDER ?? "openai").trim().toLowerCase();
+const AI_TIMEOUT_MS =
+  Number.parseInt(process.env.AI_TIMEOUT_MS ?? process.env.AI_REPORT_TIMEOUT_MS ?? "", 10) ||
+  20000;
+const AI_MAX_RETRIES = parseCount(process.env.AI_MAX_RETRIES, 1);
+const AI_RETRY_BASE_DELAY_MS = 600;
+
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+const OPENAI_MODEL =
+  process.env.OPENAI_MODEL ?? process.env.OPENAI_RESPONSE_MODEL ?? "gpt-4.1-mini";
+const OPENAI_BASE_URL =
+  process.env.OPENAI_BASE_URL ??
+  process.env.OPENAI_API_URL ??
+  "https://api.openai.com/v1/chat/completions";
+
+const openAiProvider: AiProvider = {
+  name: "openai",
+  model: OPENAI_MODEL,
+  isConfigured: () => Boolean(OPENAI_API_KEY),
+  complete: async (request, { signal }) => {
+    const body = {
+      model: OPENAI_MODEL,
+      response_format: request.jsonSchema
+        ? { type: "json_schema", json_schema: request.jsonSchema }
+        : { type: "json_object" },
+      messages: request.messages,
+    };
+
+    let response: Response;
+    try {
+      response = await fetch(OPENAI_BASE_URL, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${OPENAI_API_KEY}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      throw new AiProviderError(
+        "network",
+        error instanceof Error ? error.message : "AI 서버에 연결하지 못했습니다.",
+        true
+      );
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "");
+      console.error("AI API error", response.status, errorText);
+      if (response.status === 429) {
+        throw new AiProviderError("rate_limited", "AI 요청 한도를 초과했습니다.", true);
+      }
+      throw new AiProviderError(
+        "upstream",
+        "AI API 호출에 실패했습니다.",
+        response.status >= 500
+      );
+    }
+
+    const payload = await response.json().catch(() => null);
+    const rawContent =
+      payload?.choices?.[0]?.message?.content ??
+      payload?.choices?.[0]?.message?.tool_calls?.[0]?.function?.arguments;
+    if (!rawContent || typeof rawContent !== "string") {
+      throw new AiProviderError("bad_response", "AI 응답 포맷이 올바르지 않습니다.");
+    }
+    return rawContent;
+  },
+};
+
+const FIXTURE_FINDING_TITLES: Record<AiTask, string[]> = {
+  report: ["수분 밀도", "탄력", "톤 균형"],
+  skin: ["hydration", "elasticity", "barrier", "tone", "pore"],
+  trouble: ["PHOTO_1 국소 트러블", "주변 홍조"],
+  eye_wrinkle: ["눈꼬리 잔주름", "눈가 탄력"],
+};
+
+const FIXTURE_FOCUS: Record<AiTask, string> = {
+  report: "hydration",
+  skin: "hydration",
+  trouble: "trouble",
+  eye_wrinkle: "wrinkle",
+};
+
+const buildFixtureContent = (task: AiTask) => ({
+  oneLiner: "로컬 픽스처 응답입니다. 보습막을 먼저 채우는 데 집중해 보세요.",
+  summary: [
+    "촬영 이미지와 응답을 기준으로 생성한 오프라인 결과예요.",
+    "수분 레이어링을 꾸준히 이어가면 결이 안정됩니다.",
+    "자극이 느껴지는 날은 루틴을 가볍게 줄여 주세요.",
+  ],
+  keyFindings: FIXTURE_FINDING_TITLES[task].map((title, index) => ({
+    title,
+    status: index === 0 ? "caution" : "neutral",
+    description: `${title} 항목에 대한 픽스처 설명입니다.`,
+  })),
+  ageComparison: {
+    percentile: 55,
+    statement: "동연령 평균과 비슷한 수준으로 참고해 주세요.",
+  },
+  focus: {
+    topic: FIXTURE_FOCUS[task],
+    reason: "픽스처 기준으로 가장 먼저 챙길 영역이에요.",
+  },
+  actions: [
+    {
+      title: "저녁 수분 레이어링",
+      description: "토너를 2회 겹쳐 바른 뒤 크림으로 마무리하세요.",
+      frequency: "daily",
+    },
+    {
+      title: "진정 시트팩",
+      description: "열감이 느껴지는 날 10분간 붙여 주세요.",
+      frequency: "three_per_week",
+    },
+  ],
+  warnings: ["각질 제거는 주 1회 이하로 가볍게 진행하세요."],
+});
+
+const fixtureProvider: AiProvider = {
+  name: "fixture",
+  model: "fixture-v1",
+  isConfigured: () => true,
+  complete: async (request) => JSON.stringify(buildFixtureContent(request.task)),
+};
+
+const providers = new Map<string, AiProvider>([
+  [openAiProvider.name, openAiProvider],
+  [fixtureProvider.name, fixtureProvider],
+]);
+
+export const registerAiProvider = (provider: AiProvider) => {
+  providers.set(provider.name.toLowerCase(), provider);
+};
+
+export const getAiProvider = (name: string = AI_PROVIDER): AiProvider | null =>
+  providers.get(name.toLowerCase()) ?? null;
+
+export const isAiConfigured = () => Boolean(getAiProvider()?.isConfigured());
+
+export const requestAiJson = async (
+  request: AiJsonRequest,
+  options?: { provider?: AiProvider | null; timeoutMs?: number; maxRetries?: number }
+): Promise<AiJsonResult> => {
+  const provider = options?.provider ?? getAiProvider();
+  if (!provider || !provider.isConfigured()) {
+    return {
+      ok: false,
+      code: "not_configured",
+      error: provider
+        ? `${provider.name} AI 설정이 누락되었습니다.`
+        : `알 수 없는 AI_PROVIDER 입니다: ${AI_PROVIDER}`,
+      provider: provider?.name ?? AI_PROVIDER,
+      model: provider?.model ?? "",
+      attempts: 0,
+    };
+  }
+
+  const timeoutMs = options?.timeoutMs ?? AI_TIMEOUT_MS;
+  const maxRetries = options?.maxRetries ?? AI_MAX_RETRIES;
+  let attempts = 0;
+  let lastError = new AiProviderError("upstream", "AI 요청 중 오류");
+
+  while (attempts <= maxRetries) {
+    attempts += 1;
+    try {
+      const raw = await provider.complete(request, {
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      try {
+        return {
+          ok: true,
+          data: JSON.parse(raw),
+          raw,
+          provider: provider.name,
+          model: provider.model,
+          attempts,
+        };
+      } catch (error) {
+        console.error("AI JSON parse error", error, raw);
+        lastError = new AiProviderError("invalid_json", "AI JSON 응답을 해석할 수 없습니다.");
+      }
+    } catch (error) {
+      lastError = toProviderError(error);
+      console.error("AI request failure", provider.name, lastError.code, lastError.message);
+    }
+
+    if (!lastError.retryable || attempts > maxRetries) {
+      break;
+    }
+    await wait(AI_RETRY_BASE_DELAY_MS * 2 ** (attempts - 1));
+  }
+
+  return {
+    ok: false,
+    code: lastError.code,
+    error: lastError.message,
+    provider: provider.name,
+    model: provider.model,
+    attempts,
+  };
+};
+
+const toProviderError = (error: unknown) => {
+  if (error instanceof AiProviderError) {
+    return error;
+  }
+  if (isAbortError(error)) {
+    return new AiProviderError("timeout", "AI 응답 시간이 초과되었습니다.", true);
+  }
+  return new AiProviderError(
+    "upstream",
+    error instanceof Error ? error.message : "AI 요청 중 오류",
+    false
+  );
+};
+
+const isAbortError = (error: unknown) =>
+  error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError");
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
@@ -0,0 +1,221 @@
+import { type SupabaseClient } from "@supabase/supabase-js";
+import { type AiReportKind, type AiReportVersionSummary } from "@tangly/domain";
+
+import type { AiFailureReason } from "@/lib/ai-schema";
+import type { AiReportContent } from "@/lib/ai-report";
+
+export { AI_REPORT_KINDS, parseAiReportKind } from "@tangly/domain";
+export type { AiReportKind, AiReportVersionSummary } from "@tangly/domain";
+
+export type AiReportVersionRow = {
+  id: string;
+  session_id: string;
+  kind: AiReportKind;
+  version: number;
+  payload: AiReportContent | Record<string, never>;
+  provider: string | null;
+  model: string | null;
+  prompt_version: string | null;
+  status: "ready" | "failed";
+  failure_reason: AiFailureReason | null;
+  generated_at: string | null;
+};
+
+type InsertAiReportVersionInput = {
+  sessionId: string;
+  kind: AiReportKind;
+  promptVersion: string;
+  provider: string;
+  model: string;
+} & (
+  | { status: "ready"; payload: AiReportContent }
+  | { status: "failed"; failure: AiFailureReason }
+);
+
+const VERSION_COLUMNS =
+  "id, session_id, kind, version, payload, provider, model, prompt_version, status, failure_reason, generated_at";
+const SUMMARY_COLUMNS =
+  "id, kind, version, status, provider, model, prompt_version, generated_at, failure_reason";
+const MAX_VERSION_INSERT_ATTEMPTS = 3;
+const FAILURE_RETRY_AFTER_MS = 10 * 60 * 1000;
+
+export const fetchLatestAiReport = async (
+  supabase: SupabaseClient,
+  sessionId: string,
+  kind: AiReportKind,
+  options?: { readyOnly?: boolean }
+) => {
+  let query = supabase
+    .from("ai_reports")
+    .select(VERSION_COLUMNS)
+    .eq("session_id", sessionId)
+    .eq("kind", kind);
+  if (options?.readyOnly) {
+    query = query.eq("status", "ready");
+  }
+  const { data, error } = await query
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle<AiReportVersionRow>();
+  if (error) {
+    throw error;
+  }
+  return data ?? null;
+};
+
+// A failure newer than the retry window is served again so repeated reads don't call the provider
+// and append another failed version each time.
+export const fetchRecentAiFailure = async (
+  supabase: SupabaseClient,
+  sessionId: string,
+  kind: AiReportKind
+) => {
+  const latest = await fetchLatestAiReport(supabase, sessionId, kind);
+  if (latest?.status !== "failed" || !latest.generated_at) {
+    return null;
+  }
+  return Date.now() - Date.parse(latest.generated_at) < FAILURE_RETRY_AFTER_MS ? latest : null;
+};
+
+export const fetchLatestAiReports = async (
+  supabase: SupabaseClient,
+  sessionIds: string[],
+  kind: AiReportKind
+) => {
+  const latest = new Map<string, AiReportVersionRow>();
+  if (!sessionIds.length) {
+    return latest;
+  }
+  const { data, error } = await supabase
+    .from("ai_reports")
+    .select(VERSION_COLUMNS)
+    .in("session_id", sessionIds)
+    .eq("kind", kind)
+    .eq("status", "ready")
+    .order("version", { ascending: false });
+  if (error) {
+    throw error;
+  }
+  ((data ?? []) as AiReportVersionRow[]).forEach((row) => {
+    if (!latest.has(row.session_id)) {
+      latest.set(row.session_id, row);
+    }
+  });
+  return latest;
+};
+
+export const fetchAiReportVersion = async (
+  supabase: SupabaseClient,
+  sessionId: string,
+  kind: AiReportKind,
+  version: number
+) => {
+  const { data, error } = await supabase
+    .from("ai_reports")
+    .select(VERSION_COLUMNS)
+    .eq("session_id", sessionId)
+    .eq("kind", kind)
+    .eq("version", version)
+    .maybeSingle<AiReportVersionRow>();
+  if (error) {
+    throw error;
+  }
+  return data ?? null;
+};
+
+export const listAiReportVersions = async (
+  supabase: SupabaseClient,
+  sessionId: string,
+  kind?: AiReportKind | null
+): Promise<AiReportVersionSummary[]> => {
+  let query = supabase.from("ai_reports").select(SUMMARY_COLUMNS).eq("session_id", sessionId);
+  if (kind) {
+    query = query.eq("kind", kind);
+  }
+  const { data, error } = await query
+    .order("kind", { ascending: true })
+    .order("version", { ascending: false });
+  if (error) {
+    throw error;
+  }
+  return ((data ?? []) as Omit<AiReportVersionRow, "session_id" | "payload">[]).map(
+    toAiReportVersionSummary
+  );
+};
+
+export const insertAiReportVersion = async (
+  supabase: SupabaseClient,
+  input: InsertAiReportVersionInput
+) => {
+  let lastError: unknown = null;
+  for (let attempt = 0; attempt < MAX_VERSION_INSERT_ATTEMPTS; attempt += 1) {
+    const latest = await fetchLatestAiReport(supabase, input.sessionId, input.kind).catch(
+      (error) => {
+        lastError = error;
+        return undefined;
+      }
+    );
+    if (latest === undefined) {
+      break;
+    }
+    const { data, error } = await supabase
+      .from("ai_reports")
+      .insert({
+        session_id: input.sessionId,
+        kind: input.kind,
+        version: (latest?.version ?? 0) + 1,
+        provider: input.provider,
+        model: input.model,
+        prompt_version: input.promptVersion,
+        status: input.status,
+        payload: input.status === "ready" ? input.payload : {},
+        failure_reason:
+          input.status === "failed"
+            ? {
+                code: input.failure.code,
+                error: input.failure.error,
+                issues: input.failure.issues ?? [],
+              }
+            : null,
+      })
+      .select(VERSION_COLUMNS)
+      .single<AiReportVersionRow>();
+    if (!error) {
+      return data;
+    }
+    lastError = error;
+    // 23505: another request took the same version number, so read the latest again.
+    if (error.code !== "23505") {
+      break;
+    }
+  }
+  console.error("ai_reports version insert error", lastError);
+  return null;
+};
+
+export const recordAiReportFailure = async (
+  supabase: SupabaseClient,
+  params: { sessionId: string; kind: AiReportKind; promptVersion: string },
+  failure: AiFailureReason & { provider: string; model: string }
+) =>
+  insertAiReportVersion(supabase, {
+    ...params,
+    provider: failure.provider,
+    model: failure.model,
+    status: "failed",
+    failure,
+  });
+
+export const toAiReportVersionSummary = (
+  row: Omit<AiReportVersionRow, "session_id" | "payload">
+): AiReportVersionSummary => ({
+  id: row.id,
+  kind: row.kind,
+  version: row.version,
+  status: row.status,
+  provider: row.provider ?? null,
+  model: row.model ?? null,
+  promptVersion: row.prompt_version ?? null,
+  generatedAt: row.generated_at ?? null,
+  failureReason: row.failure_reason ?? null,
+});
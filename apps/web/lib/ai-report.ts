@@ -1,4 +1,14 @@
 import { type SupabaseClient } from "@supabase/supabase-js";
+import {
+  AI_ACTION_FREQUENCIES,
+  AI_FOCUS_TOPICS,
+  AI_KEY_FINDING_STATUSES,
+  type AiActionFrequency,
+  type AiFocusTopic,
+  type AiKeyFindingStatus,
+  type AiReportContent,
+  type AiReportEnvelope,
+} from "@tangly/domain";
 
 import type {
   NeedEntry,
@@ -8,69 +18,103 @@ import type {
   ReportItem,
 } from "@/lib/recommendations";
 import type { ProfileDetails } from "@/lib/profile-details";
+import {
+  isAiConfigured,
+  type AiChatMessage,
+  type AiContentPart,
+} from "@/lib/ai-provider";
+import { requestValidatedAiJson, s, type Schema } from "@/lib/ai-schema";
+import {
+  fetchAiReportVersion,
+  fetchLatestAiReport,
+  fetchRecentAiFailure,
+  insertAiReportVersion,
+  recordAiReportFailure,
+  toAiReportVersionSummary,
+  type AiReportVersionRow,
+} from "@/lib/ai-report-store";
+
+export {
+  AI_ACTION_FREQUENCIES,
+  AI_FOCUS_TOPICS,
+  AI_KEY_FINDING_STATUSES,
+} from "@tangly/domain";
+export type {
+  AiActionFrequency,
+  AiFocusTopic,
+  AiKeyFindingStatus,
+  AiReportContent,
+  AiReportEnvelope,
+} from "@tangly/domain";
+
+export const AI_REPORT_PROMPT_VERSION = "general-v1";
+
+const STATUS_ALIASES: Record<string, AiKeyFindingStatus> = {
+  positive: "good",
+  warning: "caution",
+};
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-const OPENAI_MODEL =
-  process.env.OPENAI_MODEL ??
-  process.env.OPENAI_RESPONSE_MODEL ??
-  "gpt-4.1-mini";
-const OPENAI_BASE_URL =
-  process.env.OPENAI_BASE_URL ??
-  process.env.OPENAI_API_URL ??
-  "https://api.openai.com/v1/chat/completions";
-const AI_TIMEOUT_MS = Number.parseInt(
-  process.env.AI_REPORT_TIMEOUT_MS ?? "",
-  10
-) || 20000;
-
-export type AiKeyFindingStatus = "good" | "neutral" | "caution";
-export type AiFocusTopic =
-  | "hydration"
-  | "elasticity"
-  | "wrinkle"
-  | "radiance"
-  | "trouble";
-export type AiActionFrequency = "daily" | "weekly" | "three_per_week";
-
-export type AiReportContent = {
-  oneLiner: string;
-  summary: string[];
-  keyFindings: {
-    title: string;
-    status: AiKeyFindingStatus;
-    description: string;
-  }[];
-  ageComparison: {
-    percentile: number;
-    statement: string;
-  };
-  focus: {
-    topic: AiFocusTopic;
-    reason: string;
-  };
-  actions: {
-    title: string;
-    description: string;
-    frequency: AiActionFrequency;
-  }[];
-  warnings: string[];
+const FOCUS_ALIASES: Record<string, AiFocusTopic> = {
+  firmness: "elasticity",
+  wrinkles: "wrinkle",
+  glow: "radiance",
+  tone: "radiance",
+  troubles: "trouble",
+  blemish: "trouble",
+  acne: "trouble",
 };
 
-export type AiReportEnvelope = {
-  status: "ready" | "unavailable" | "error";
-  payload?: AiReportContent | null;
-  generatedAt?: string | null;
-  error?: string | null;
+const FREQUENCY_ALIASES: Record<string, AiActionFrequency> = {
+  once_a_week: "weekly",
+  "3_per_week": "three_per_week",
+  "three-times-per-week": "three_per_week",
 };
 
-type AiReportRow = {
-  session_id: string;
-  payload: AiReportContent;
-  provider?: string | null;
-  model?: string | null;
-  generated_at?: string | null;
+type AiReportSchemaOptions = {
+  findingTitles?: string[];
+  findings?: { min: number; max: number };
+  summary?: { min: number; max: number };
+  actions?: { min: number; max: number };
 };
 
+export const buildAiReportSchema = ({
+  findingTitles,
+  findings = { min: 1, max: 6 },
+  summary = { min: 1, max: 5 },
+  actions = { min: 1, max: 3 },
+}: AiReportSchemaOptions = {}): Schema<AiReportContent> =>
+  s.object({
+    oneLiner: s.string(),
+    summary: s.array(s.string(), summary),
+    keyFindings: s.array(
+      s.object({
+        title: findingTitles ? s.enumOf(findingTitles) : s.string(),
+        status: s.enumOf(AI_KEY_FINDING_STATUSES, STATUS_ALIASES),
+        description: s.string(),
+      }),
+      findings
+    ),
+    ageComparison: s.object({
+      percentile: s.number({ min: 0, max: 100, integer: true }),
+      statement: s.string(),
+    }),
+    focus: s.object({
+      topic: s.enumOf(AI_FOCUS_TOPICS, FOCUS_ALIASES),
+      reason: s.string(),
+    }),
+    actions: s.array(
+      s.object({
+        title: s.string(),
+        description: s.string(),
+        frequency: s.enumOf(AI_ACTION_FREQUENCIES, FREQUENCY_ALIASES),
+      }),
+      actions
+    ),
+    warnings: s.array(s.string(), { max: 3 }),
+  });
+
+const AI_REPORT_SCHEMA = buildAiReportSchema();
+
 type BuildAiReportParams = {
   supabase: SupabaseClient;
   sessionId: string;
@@ -79,6 +123,7 @@ type BuildAiReportParams = {
   photos: PhotoRow[];
   oxResponses: OxResponseRow[];
   profile?: ProfileDetails | null;
+  version?: number | null;
 };
 
 type ReferencedPhoto = PhotoRow & { reference: string };
@@ -91,26 +136,36 @@ export const ensureAiReport = async ({
   photos,
   oxResponses,
   profile,
+  version,
 }: BuildAiReportParams): Promise<AiReportEnvelope> => {
   try {
-    const { data: cached } = await supabase
-      .from("ai_reports")
-      .select("session_id, payload, model, provider, generated_at")
-      .eq("session_id", sessionId)
-      .maybeSingle<AiReportRow>();
+    if (version) {
+      const requested = await fetchAiReportVersion(supabase, sessionId, "general", version);
+      return requested
+        ? toAiReportEnvelope(requested)
+        : { status: "error", error: `AI 리포트 v${version}을 찾을 수 없습니다.` };
+    }
+
+    const cached = await fetchLatestAiReport(supabase, sessionId, "general", {
+      readyOnly: true,
+    });
+    if (cached) {
+      return toAiReportEnvelope(cached);
+    }
 
-    if (cached?.payload) {
+    if (!isAiConfigured()) {
       return {
-        status: "ready",
-        payload: sanitizeAiPayload(cached.payload),
-        generatedAt: cached.generated_at ?? null,
+        status: "unavailable",
+        error: "AI provider is not configured",
       };
     }
 
-    if (!OPENAI_API_KEY) {
+    const recentFailure = await fetchRecentAiFailure(supabase, sessionId, "general");
+    if (recentFailure) {
       return {
-        status: "unavailable",
-        error: "OPENAI_API_KEY is not configured",
+        status: "error",
+        error: recentFailure.failure_reason?.error ?? "AI 리포트 생성에 실패했습니다.",
+        version: toAiReportVersionSummary(recentFailure),
       };
     }
 
@@ -123,39 +178,37 @@ export const ensureAiReport = async ({
       profile,
     });
 
-    if (!aiResponse.success || !aiResponse.payload) {
+    const versionParams = {
+      sessionId,
+      kind: "general" as const,
+      promptVersion: AI_REPORT_PROMPT_VERSION,
+    };
+
+    if (!aiResponse.ok) {
+      const failed = await recordAiReportFailure(supabase, versionParams, aiResponse);
       return {
         status: "error",
-        error: aiResponse.error ?? "AI 응답을 생성하지 못했습니다.",
+        error: aiResponse.error,
+        version: failed ? toAiReportVersionSummary(failed) : null,
       };
     }
 
-    const sanitized = sanitizeAiPayload(aiResponse.payload);
-
-    const { data: upserted, error: insertError } = await supabase
-      .from("ai_reports")
-      .upsert(
-        {
-          session_id: sessionId,
-          payload: sanitized,
-          provider: "openai",
-          model: OPENAI_MODEL,
-        },
-        { onConflict: "session_id" }
-      )
-      .select("payload, generated_at")
-      .maybeSingle<AiReportRow>();
-
-    if (insertError) {
-      console.error("ai_reports upsert error", insertError);
-      // Continue even if caching fails so the client can render once.
-    }
-
-    return {
+    const inserted = await insertAiReportVersion(supabase, {
+      ...versionParams,
+      provider: aiResponse.provider,
+      model: aiResponse.model,
       status: "ready",
-      payload: sanitized,
-      generatedAt: upserted?.generated_at ?? new Date().toISOString(),
-    };
+      payload: aiResponse.value,
+    });
+
+    // Continue even if caching fails so the client can render once.
+    return inserted
+      ? toAiReportEnvelope(inserted)
+      : {
+          status: "ready",
+          payload: aiResponse.value,
+          generatedAt: new Date().toISOString(),
+        };
   } catch (error) {
     console.error("ensureAiReport error", error);
     return {
@@ -165,12 +218,6 @@ export const ensureAiReport = async ({
   }
 };
 
-type AiRequestResult = {
-  success: boolean;
-  payload?: AiReportContent;
-  error?: string;
-};
-
 type AiRequestInput = {
   report: RecommendationPayload;
   sessionId: string;
@@ -187,74 +234,47 @@ const requestAiReport = async ({
   photos,
   oxResponses,
   profile,
-}: AiRequestInput): Promise<AiRequestResult> => {
+}: AiRequestInput) => {
   const referencedPhotos = attachPhotoReferences(photos);
-  const body = {
-    model: OPENAI_MODEL,
-    response_format: { type: "json_object" },
-    messages: [
-      {
-        role: "system",
-        content:
-          "당신은 40-50대 여성을 위한 고급 스킨케어 코치입니다. " +
-          "의학적 진단이나 강압적 문장은 금지합니다. " +
-          "모든 응답은 JSON으로 반환해야 하며, 지정한 스키마를 반드시 따르세요.",
-      },
-      buildUserMessage({
-        sessionId,
-        sessionCreatedAt,
-        report,
-        photos: referencedPhotos,
-        oxResponses,
-        profile,
-      }),
-    ],
-  };
-
-  try {
-    const response = await fetch(OPENAI_BASE_URL, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${OPENAI_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(body),
-      signal: AbortSignal.timeout(AI_TIMEOUT_MS),
-    });
+  return requestValidatedAiJson(
+    {
+      task: "report",
+      messages: [
+        {
+          role: "system",
+          content:
+            "당신은 40-50대 여성을 위한 고급 스킨케어 코치입니다. " +
+            "의학적 진단이나 강압적 문장은 금지합니다. " +
+            "모든 응답은 JSON으로 반환해야 하며, 지정한 스키마를 반드시 따르세요.",
+        },
+        buildUserMessage({
+          sessionId,
+          sessionCreatedAt,
+          report,
+          photos: referencedPhotos,
+          oxResponses,
+          profile,
+        }),
+      ],
+    },
+    AI_REPORT_SCHEMA
+  );
+};
 
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => "");
-      console.error("AI API error", response.status, errorText);
-      return {
-        success: false,
-        error: "AI API 호출에 실패했습니다.",
+export const toAiReportEnvelope = (row: AiReportVersionRow): AiReportEnvelope =>
+  row.status === "ready"
+    ? {
+        status: "ready",
+        payload: sanitizeAiPayload(row.payload as AiReportContent),
+        generatedAt: row.generated_at ?? null,
+        version: toAiReportVersionSummary(row),
+      }
+    : {
+        status: "error",
+        error: row.failure_reason?.error ?? "AI 리포트 생성에 실패했습니다.",
+        generatedAt: row.generated_at ?? null,
+        version: toAiReportVersionSummary(row),
       };
-    }
-
-    const payload = await response.json();
-    const rawContent =
-      payload?.choices?.[0]?.message?.content ??
-      payload?.choices?.[0]?.message?.tool_calls?.[0]?.function?.arguments;
-    if (!rawContent || typeof rawContent !== "string") {
-      return { success: false, error: "AI 응답 포맷이 올바르지 않습니다." };
-    }
-
-    let parsed: unknown;
-    try {
-      parsed = JSON.parse(rawContent);
-    } catch (error) {
-      console.error("AI JSON parse error", error, rawContent);
-      return { success: false, error: "AI JSON 응답을 해석할 수 없습니다." };
-    }
-    return { success: true, payload: parsed as AiReportContent };
-  } catch (error) {
-    console.error("AI request failure", error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "AI 요청 중 오류",
-    };
-  }
-};
 
 type PromptBuilderInput = {
   sessionId: string;
@@ -316,7 +336,9 @@ const buildPromptPayload = ({
       highlight: report.highlight,
       needs: report.needs,
       keyFindings: report.items,
-      recommendations: report.recommendations.slice(0, 5),
+      recommendations: report.recommendations
+        .slice(0, 5)
+        .map((item) => ({ ...item, scoring: undefined })),
       tips: report.tips.slice(0, 5),
     },
     oxResponses: oxResponses.map((entry) => ({
@@ -348,7 +370,7 @@ const buildUserMessage = ({
   photos,
   oxResponses,
   profile,
-}: PromptBuilderInput) => {
+}: PromptBuilderInput): AiChatMessage => {
   const promptText = buildPromptPayload({
     sessionId,
     sessionCreatedAt,
@@ -370,17 +392,19 @@ const buildUserMessage = ({
   };
 };
 
-const attachPhotoReferences = (photos: PhotoRow[]): ReferencedPhoto[] =>
+export const attachPhotoReferences = <T extends PhotoRow>(
+  photos: T[]
+): (T & { reference: string })[] =>
   photos.map((photo, index) => ({
     ...photo,
     reference: `PHOTO_${index + 1}`,
   }));
 
-const buildVisionAttachments = (photos: ReferencedPhoto[]) => {
+export const buildVisionAttachments = (photos: PhotoRow[]): AiContentPart[] => {
   return photos
     .filter((photo) => typeof photo.image_url === "string" && photo.image_url.trim().length > 0)
     .map((photo) => ({
-      type: "image_url",
+      type: "image_url" as const,
       image_url: {
         url: (photo.image_url as string).trim(),
         detail: "high" as const,
@@ -438,56 +462,27 @@ export const sanitizeAiPayload = (raw: AiReportContent): AiReportContent => {
   };
 };
 
-const normalizeStatus = (value?: string | null): AiKeyFindingStatus => {
-  switch ((value ?? "").toLowerCase()) {
-    case "good":
-    case "positive":
-      return "good";
-    case "caution":
-    case "warning":
-      return "caution";
-    default:
-      return "neutral";
+const normalizeEnum = <T extends string>(
+  value: string | null | undefined,
+  values: readonly T[],
+  aliases: Record<string, T>,
+  fallback: T
+): T => {
+  const key = (value ?? "").toLowerCase();
+  if ((values as readonly string[]).includes(key)) {
+    return key as T;
   }
+  return aliases[key] ?? fallback;
 };
 
-const normalizeFocus = (value?: string | null): AiFocusTopic => {
-  switch ((value ?? "").toLowerCase()) {
-    case "elasticity":
-    case "firmness":
-      return "elasticity";
-    case "wrinkle":
-    case "wrinkles":
-      return "wrinkle";
-    case "radiance":
-    case "glow":
-    case "tone":
-      return "radiance";
-    case "trouble":
-    case "troubles":
-    case "blemish":
-    case "acne":
-      return "trouble";
-    default:
-      return "hydration";
-  }
-};
+const normalizeStatus = (value?: string | null) =>
+  normalizeEnum(value, AI_KEY_FINDING_STATUSES, STATUS_ALIASES, "neutral");
 
-const normalizeFrequency = (
-  value?: string | null
-): AiActionFrequency => {
-  switch ((value ?? "").toLowerCase()) {
-    case "weekly":
-    case "once_a_week":
-      return "weekly";
-    case "three_per_week":
-    case "3_per_week":
-    case "three-times-per-week":
-      return "three_per_week";
-    default:
-      return "daily";
-  }
-};
+const normalizeFocus = (value?: string | null) =>
+  normalizeEnum(value, AI_FOCUS_TOPICS, FOCUS_ALIASES, "hydration");
+
+const normalizeFrequency = (value?: string | null) =>
+  normalizeEnum(value, AI_ACTION_FREQUENCIES, FREQUENCY_ALIASES, "daily");
 
 const clampPercent = (value?: number) => {
   if (typeof value !== "number" || Number.isNaN(value)) {
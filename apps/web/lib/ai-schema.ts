@@ -0,0 +1,279 @@
+import {
+  parseCount,
+  requestAiJson,
+  type AiErrorCode,
+  type AiJsonRequest,
+} from "@/lib/ai-provider";
+
+export type SchemaIssue = {
+  path: string;
+  message: string;
+};
+
+type ParseContext = {
+  issues: SchemaIssue[];
+  repairs: SchemaIssue[];
+};
+
+export type Schema<T> = {
+  parse: (input: unknown, path: string, ctx: ParseContext) => T | undefined;
+  toJsonSchema: () => Record<string, unknown>;
+};
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export type SchemaValidation<T> =
+  | { ok: true; value: T; repairs: SchemaIssue[] }
+  | { ok: false; issues: SchemaIssue[]; repairs: SchemaIssue[] };
+
+const joinPath = (base: string, key: string | number) =>
+  typeof key === "number" ? `${base}[${key}]` : base ? `${base}.${key}` : key;
+
+const string = (options?: { min?: number }): Schema<string> => ({
+  parse: (input, path, ctx) => {
+    let value: string;
+    if (typeof input === "string") {
+      value = input;
+    } else if (typeof input === "number" || typeof input === "boolean") {
+      value = `${input}`;
+      ctx.repairs.push({ path, message: "문자열로 변환했습니다." });
+    } else {
+      ctx.issues.push({ path, message: "문자열이어야 합니다." });
+      return undefined;
+    }
+    const trimmed = value.trim();
+    if (trimmed.length < (options?.min ?? 1)) {
+      ctx.issues.push({ path, message: "비어 있지 않은 문자열이어야 합니다." });
+      return undefined;
+    }
+    return trimmed;
+  },
+  toJsonSchema: () => ({ type: "string" }),
+});
+
+const number = (options?: { min?: number; max?: number; integer?: boolean }): Schema<number> => ({
+  parse: (input, path, ctx) => {
+    const parsed = typeof input === "string" ? Number.parseFloat(input) : input;
+    if (typeof parsed !== "number" || Number.isNaN(parsed)) {
+      ctx.issues.push({ path, message: "숫자여야 합니다." });
+      return undefined;
+    }
+    let value = parsed;
+    if (typeof input === "string") {
+      ctx.repairs.push({ path, message: "숫자로 변환했습니다." });
+    }
+    if (options?.integer && !Number.isInteger(value)) {
+      value = Math.round(value);
+    }
+    if (options?.min !== undefined && value < options.min) {
+      ctx.repairs.push({ path, message: `${options.min} 이상으로 보정했습니다.` });
+      value = options.min;
+    }
+    if (options?.max !== undefined && value > options.max) {
+      ctx.repairs.push({ path, message: `${options.max} 이하로 보정했습니다.` });
+      value = options.max;
+    }
+    return value;
+  },
+  toJsonSchema: () => ({ type: "number" }),
+});
+
+const enumOf = <T extends string>(
+  values: readonly T[],
+  aliases: Record<string, T> = {}
+): Schema<T> => ({
+  parse: (input, path, ctx) => {
+    const key = typeof input === "string" ? input.trim().toLowerCase() : "";
+    if ((values as readonly string[]).includes(key)) {
+      return key as T;
+    }
+    if (aliases[key]) {
+      ctx.repairs.push({ path, message: `"${input}" 값을 ${aliases[key]}로 보정했습니다.` });
+      return aliases[key];
+    }
+    ctx.issues.push({ path, message: `${values.join("|")} 중 하나여야 합니다.` });
+    return undefined;
+  },
+  toJsonSchema: () => ({ type: "string", enum: [...values] }),
+});
+
+const array = <T>(
+  item: Schema<T>,
+  options?: { min?: number; max?: number }
+): Schema<T[]> => ({
+  parse: (input, path, ctx) => {
+    if (!Array.isArray(input)) {
+      ctx.issues.push({ path, message: "배열이어야 합니다." });
+      return undefined;
+    }
+    const values: T[] = [];
+    const droppedIssues: SchemaIssue[] = [];
+    input.forEach((entry, index) => {
+      const itemCtx: ParseContext = { issues: [], repairs: [] };
+      const value = item.parse(entry, joinPath(path, index), itemCtx);
+      ctx.repairs.push(...itemCtx.repairs);
+      if (value === undefined || itemCtx.issues.length) {
+        droppedIssues.push(...itemCtx.issues);
+        ctx.repairs.push({ path: joinPath(path, index), message: "유효하지 않은 항목을 제외했습니다." });
+        return;
+      }
+      values.push(value);
+    });
+    const min = options?.min ?? 0;
+    if (values.length < min) {
+      ctx.issues.push(
+        { path, message: `유효한 항목이 최소 ${min}개 필요합니다. (현재 ${values.length}개)` },
+        ...droppedIssues
+      );
+      return undefined;
+    }
+    if (options?.max !== undefined && values.length > options.max) {
+      ctx.repairs.push({ path, message: `최대 ${options.max}개로 잘랐습니다.` });
+      return values.slice(0, options.max);
+    }
+    return values;
+  },
+  toJsonSchema: () => ({
+    type: "array",
+    items: item.toJsonSchema(),
+    ...(options?.min !== undefined ? { minItems: options.min } : {}),
+    ...(options?.max !== undefined ? { maxItems: options.max } : {}),
+  }),
+});
+
+const object = <Shape extends Record<string, Schema<unknown>>>(
+  shape: Shape
+): Schema<{ [K in keyof Shape]: Infer<Shape[K]> }> => ({
+  parse: (input, path, ctx) => {
+    if (!input || typeof input !== "object" || Array.isArray(input)) {
+      ctx.issues.push({ path: path || "(root)", message: "객체여야 합니다." });
+      return undefined;
+    }
+    const source = input as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    let valid = true;
+    Object.entries(shape).forEach(([key, schema]) => {
+      const fieldPath = joinPath(path, key);
+      if (source[key] === undefined || source[key] === null) {
+        ctx.issues.push({ path: fieldPath, message: "필수 필드가 없습니다." });
+        valid = false;
+        return;
+      }
+      const value = schema.parse(source[key], fieldPath, ctx);
+      if (value === undefined) {
+        valid = false;
+        return;
+      }
+      result[key] = value;
+    });
+    return valid ? (result as { [K in keyof Shape]: Infer<Shape[K]> }) : undefined;
+  },
+  toJsonSchema: () => ({
+    type: "object",
+    properties: Object.fromEntries(
+      Object.entries(shape).map(([key, schema]) => [key, schema.toJsonSchema()])
+    ),
+    required: Object.keys(shape),
+  }),
+});
+
+export const s = { string, number, enumOf, array, object };
+
+export const validateWithSchema = <T>(schema: Schema<T>, input: unknown): SchemaValidation<T> => {
+  const ctx: ParseContext = { issues: [], repairs: [] };
+  const value = schema.parse(input, "", ctx);
+  if (value === undefined || ctx.issues.length) {
+    return { ok: false, issues: ctx.issues, repairs: ctx.repairs };
+  }
+  return { ok: true, value, repairs: ctx.repairs };
+};
+
+export const formatSchemaIssues = (issues: SchemaIssue[]) =>
+  issues.map((issue) => `${issue.path || "(root)"}: ${issue.message}`).join("\n");
+
+export type AiFailureReason = {
+  code: AiErrorCode | "schema_invalid";
+  error: string;
+  issues?: SchemaIssue[];
+};
+
+export type ValidatedAiResult<T> =
+  | {
+      ok: true;
+      value: T;
+      repairs: SchemaIssue[];
+      provider: string;
+      model: string;
+      reasks: number;
+    }
+  | ({
+      ok: false;
+      provider: string;
+      model: string;
+      reasks: number;
+    } & AiFailureReason);
+
+const AI_SCHEMA_MAX_REASKS = parseCount(process.env.AI_SCHEMA_MAX_REASKS, 1);
+
+export const requestValidatedAiJson = async <T>(
+  request: AiJsonRequest,
+  schema: Schema<T>,
+  options?: { maxReasks?: number }
+): Promise<ValidatedAiResult<T>> => {
+  const maxReasks = options?.maxReasks ?? AI_SCHEMA_MAX_REASKS;
+  const messages = [...request.messages];
+  let reasks = 0;
+
+  for (;;) {
+    const result = await requestAiJson({ ...request, messages });
+    if (!result.ok) {
+      return {
+        ok: false,
+        code: result.code,
+        error: result.error,
+        provider: result.provider,
+        model: result.model,
+        reasks,
+      };
+    }
+
+    const validation = validateWithSchema(schema, result.data);
+    if (validation.ok) {
+      if (validation.repairs.length) {
+        console.warn("AI payload repaired", validation.repairs);
+      }
+      return {
+        ok: true,
+        value: validation.value,
+        repairs: validation.repairs,
+        provider: result.provider,
+        model: result.model,
+        reasks,
+      };
+    }
+
+    console.warn("AI payload failed validation", validation.issues);
+    if (reasks >= maxReasks) {
+      return {
+        ok: false,
+        code: "schema_invalid",
+        error: "AI 응답이 스키마 검증을 통과하지 못했습니다.",
+        issues: validation.issues,
+        provider: result.provider,
+        model: result.model,
+        reasks,
+      };
+    }
+
+    reasks += 1;
+    messages.push(
+      { role: "assistant", content: result.raw },
+      {
+        role: "user",
+        content:
+          "직전 JSON 응답이 스키마를 만족하지 않습니다. 아래 필드를 고쳐서 전체 JSON을 다시 반환하세요.\n" +
+          formatSchemaIssues(validation.issues),
+      }
+    );
+  }
+};
@@ -0,0 +1,66 @@
+import { type SupabaseClient } from "@supabase/supabase-js";
+
+export type AuthFailure = {
+  ok: false;
+  status: 401 | 403 | 404 | 500;
+  error: string;
+};
+
+export type AuthResult = { ok: true; userId: string } | AuthFailure;
+
+export type SessionRow = {
+  id: string;
+  user_id: string | null;
+  source: string | null;
+  status: string | null;
+  created_at: string | null;
+};
+
+export type SessionAccess = { ok: true; session: SessionRow } | AuthFailure;
+
+const readBearerToken = (req: Request) => {
+  const header = req.headers.get("authorization") ?? "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match?.[1]?.trim() || null;
+};
+
+export const authenticateRequest = async (
+  req: Request,
+  supabase: SupabaseClient
+): Promise<AuthResult> => {
+  const token = readBearerToken(req);
+  if (!token) {
+    return { ok: false, status: 401, error: "로그인이 필요합니다." };
+  }
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) {
+    return { ok: false, status: 401, error: "인증 정보가 유효하지 않습니다. 다시 로그인해 주세요." };
+  }
+  return { ok: true, userId: data.user.id };
+};
+
+export const isOwnedBy = (ownerId: string | null | undefined, userId: string) =>
+  !!ownerId && ownerId === userId;
+
+export const authorizeSession = async (
+  supabase: SupabaseClient,
+  sessionId: string,
+  userId: string
+): Promise<SessionAccess> => {
+  const { data: session, error } = await supabase
+    .from("analysis_sessions")
+    .select("id, user_id, source, status, created_at")
+    .eq("id", sessionId)
+    .maybeSingle<SessionRow>();
+  if (error) {
+    return { ok: false, status: 500, error: error.message };
+  }
+  // Sessions without an owner are treated as missing until they are backfilled (see README).
+  if (!session || !session.user_id) {
+    return { ok: false, status: 404, error: "Session not found" };
+  }
+  if (!isOwnedBy(session.user_id, userId)) {
+    return { ok: false, status: 403, error: "이 세션에 접근할 권한이 없습니다." };
+  }
+  return { ok: true, session };
+};
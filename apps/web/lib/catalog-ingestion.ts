@@ -0,0 +1,477 @@
+import { type SupabaseClient } from "@supabase/supabase-js";
+
+import { getNeedSynonyms, NEED_TAGS, type NeedTag, type ProductRow } from "@/lib/recommendations";
+
+export type CrawledItem = {
+  name?: string | null;
+  brand?: string | null;
+  price?: string | null;
+  priceValue?: number | null;
+  link?: string | null;
+  image?: string | null;
+  tags?: string[] | null;
+  detail?: {
+    info?: Record<string, string> | null;
+    ingredientText?: string | null;
+    ingredients?: string[] | null;
+  } | null;
+  ingredients?: string[] | null;
+};
+
+export type CatalogProduct = {
+  key: string;
+  name: string;
+  brand: string | null;
+  category: string | null;
+  effect_tags: NeedTag[];
+  key_ingredients: string[];
+  ingredients: string[];
+  price: number | null;
+  product_url: string | null;
+  image_url: string | null;
+  note: string;
+};
+
+type CatalogField =
+  | "name"
+  | "brand"
+  | "category"
+  | "effect_tags"
+  | "key_ingredients"
+  | "price"
+  | "product_url"
+  | "image_url"
+  | "note";
+
+export type CatalogChange = {
+  action: "insert" | "update" | "unchanged";
+  key: string;
+  productId: string | null;
+  name: string;
+  brand: string | null;
+  fields: CatalogField[];
+};
+
+export type CatalogSkip = {
+  name: string | null;
+  reason: string;
+};
+
+export type CatalogIngestReport = {
+  received: number;
+  normalized: number;
+  duplicates: number;
+  skipped: CatalogSkip[];
+  inserts: number;
+  updates: number;
+  unchanged: number;
+  changes: CatalogChange[];
+  applied: boolean;
+};
+
+const PRODUCT_PAGE_SIZE = 1000;
+
+const CATALOG_FIELDS: CatalogField[] = [
+  "name",
+  "brand",
+  "category",
+  "effect_tags",
+  "key_ingredients",
+  "price",
+  "product_url",
+  "image_url",
+  "note",
+];
+
+// Ordered so the more specific product forms win (선크림 before 크림, 아이크림 before 크림).
+const CATEGORY_RULES: { category: string; pattern: RegExp }[] = [
+  { category: "sunscreen", pattern: /선크림|선세럼|선스틱|선젤|선밀크|선로션|선쿠션|자외선|sun\s?(cream|screen|stick)/i },
+  { category: "cleanser", pattern: /클렌징|클렌저|폼클|세안|cleans/i },
+  { category: "eye", pattern: /아이\s?크림|아이\s?세럼|eye\s?cream/i },
+  { category: "mask", pattern: /마스크|시트팩|패드|팩|mask|pad/i },
+  { category: "ampoule", pattern: /앰플|ampoule/i },
+  { category: "serum", pattern: /세럼|serum/i },
+  { category: "essence", pattern: /에센스|essence/i },
+  { category: "emulsion", pattern: /로션|에멀전|에멀젼|emulsion|lotion/i },
+  { category: "toner", pattern: /토너|스킨|toner/i },
+  { category: "gel", pattern: /수딩젤|젤(?![가-힣])|\bgel\b/i },
+  { category: "balm", pattern: /밤(?![가-힣])|balm/i },
+  { category: "cream", pattern: /크림|cream/i },
+  { category: "mist", pattern: /미스트|mist/i },
+  { category: "oil", pattern: /페이스\s?오일|오일|oil/i },
+];
+
+// Well known actives, matched against the 상품정보 제공고시 ingredient list.
+const KEY_INGREDIENT_RULES: { label: string; pattern: RegExp; needs: NeedTag[] }[] = [
+  { label: "히알루론산", pattern: /히알루론|히알루로닉|하이알루로닉|hyaluron/i, needs: ["hydration"] },
+  { label: "글리세린", pattern: /글리세린|glycerin/i, needs: ["hydration"] },
+  { label: "판테놀", pattern: /판테놀|panthenol/i, needs: ["hydration", "soothing"] },
+  { label: "세라마이드", pattern: /세라마이드|ceramide/i, needs: ["barrier"] },
+  { label: "스쿠알란", pattern: /스쿠알란|squalane/i, needs: ["barrier"] },
+  { label: "콜레스테롤", pattern: /콜레스테롤|cholesterol/i, needs: ["barrier"] },
+  { label: "병풀", pattern: /병풀|센텔라|시카|centella/i, needs: ["soothing", "barrier"] },
+  { label: "마데카소사이드", pattern: /마데카소사이드|madecassoside/i, needs: ["soothing"] },
+  { label: "알란토인", pattern: /알란토인|allantoin/i, needs: ["soothing"] },
+  { label: "어성초", pattern: /어성초|약모밀|houttuynia/i, needs: ["soothing"] },
+  { label: "티트리", pattern: /티트리|tea\s?tree/i, needs: ["soothing", "sebum_control"] },
+  { label: "나이아신아마이드", pattern: /나이아신아마이드|niacinamide/i, needs: ["radiance", "sebum_control"] },
+  { label: "비타민C", pattern: /아스코빅|아스코빌|비타민?\s?c|ascorb/i, needs: ["radiance"] },
+  { label: "알부틴", pattern: /알부틴|arbutin/i, needs: ["radiance"] },
+  { label: "글루타치온", pattern: /글루타치온|glutathione/i, needs: ["radiance"] },
+  { label: "레티놀", pattern: /레티놀|레티날|retinol|retinal/i, needs: ["elasticity"] },
+  { label: "펩타이드", pattern: /펩타이드|peptide/i, needs: ["elasticity"] },
+  { label: "콜라겐", pattern: /콜라겐|collagen/i, needs: ["elasticity"] },
+  { label: "아데노신", pattern: /아데노신|adenosine/i, needs: ["elasticity"] },
+  { label: "PDRN", pattern: /pdrn|폴리데옥시리보뉴클레오타이드/i, needs: ["elasticity", "barrier"] },
+  { label: "살리실산", pattern: /살리실릭|살리실산|salicyl|bha/i, needs: ["pore_care", "sebum_control"] },
+  { label: "AHA", pattern: /글라이콜릭|락틱애씨드|glycolic|\baha\b/i, needs: ["pore_care"] },
+  { label: "PHA", pattern: /글루코노락톤|락토바이오닉|gluconolactone|\bpha\b/i, needs: ["pore_care"] },
+  { label: "징크", pattern: /징크|zinc/i, needs: ["sebum_control"] },
+  { label: "녹차", pattern: /녹차|카멜리아시넨시스|green\s?tea/i, needs: ["sebum_control", "soothing"] },
+];
+
+const PROMO_WORDS = /(어워즈|한정|단독|기획|증정|세트|더블|리필|특가|에디션|올영픽|1\+1)/g;
+const VOLUME_TOKEN = /\d+(\.\d+)?\s?(ml|g|매|ea|개입|입)(?![a-z])/gi;
+const KEY_INGREDIENT_LIMIT = 6;
+
+const toText = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+export const normalizePrice = (item: CrawledItem) => {
+  if (typeof item.priceValue === "number" && Number.isFinite(item.priceValue)) {
+    return Math.round(item.priceValue);
+  }
+  const digits = toText(item.price).replace(/[^0-9]/g, "");
+  return digits ? Number.parseInt(digits, 10) : null;
+};
+
+// Listing names wrap the product in promo copy: "[2025 어워즈] 브랜드 제품 80ml 기획 (+30ml 증정)".
+export const cleanProductName = (name: string) =>
+  name
+    .replace(/\[[^\]]*\]/g, " ")
+    .replace(/\(\+[^)]*\)/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+export const buildCatalogKey = (brand: string | null, name: string) => {
+  const normalizedBrand = (brand ?? "").toLowerCase().replace(/[^a-z0-9가-힣]+/g, "");
+  let normalizedName = cleanProductName(name).toLowerCase();
+  if (normalizedBrand && normalizedName.replace(/\s+/g, "").startsWith(normalizedBrand)) {
+    normalizedName = normalizedName.replace(/\s+/g, "").slice(normalizedBrand.length);
+  }
+  normalizedName = normalizedName
+    .replace(/\([^)]*\)/g, " ")
+    .replace(VOLUME_TOKEN, " ")
+    .replace(PROMO_WORDS, " ")
+    .replace(/[^a-z0-9가-힣]+/g, "");
+  return `${normalizedBrand}::${normalizedName}`;
+};
+
+// Older snapshots were crawled before the brand selector existed; listing names lead with the brand.
+const deriveBrandFromName = (name: string) => {
+  const first = name.split(/\s+/)[0] ?? "";
+  if (!first || /^[0-9]+(ml|g|캡슐)/i.test(first)) {
+    return null;
+  }
+  return first.replace(/[^0-9a-zA-Z가-힣]/g, "") || null;
+};
+
+export const mapCategory = (name: string) =>
+  CATEGORY_RULES.find((rule) => rule.pattern.test(name))?.category ?? null;
+
+// Splits on commas outside parentheses so entries like "1,2-헥산다이올" or "(정제수, 글리세린)" stay whole.
+export const parseIngredientList = (text: string) => {
+  const entries: string[] = [];
+  let depth = 0;
+  let current = "";
+  const chars = Array.from(text.replace(/\s+/g, " "));
+  chars.forEach((char, index) => {
+    if (char === "(" || char === "[") depth += 1;
+    if ((char === ")" || char === "]") && depth > 0) depth -= 1;
+    const numbered = char === "," && /\d/.test(chars[index - 1] ?? "") && /\d/.test(chars[index + 1] ?? "");
+    if (depth === 0 && !numbered && (char === "," || char === "\u00B7" || char === "ㆍ")) {
+      entries.push(current);
+      current = "";
+      return;
+    }
+    current += char;
+  });
+  entries.push(current);
+
+  const seen = new Set<string>();
+  return entries
+    .map((entry) =>
+      entry
+        .replace(/^\s*\[[^\]]*\]\s*/, "")
+        .replace(/^[^:]{0,20}:\s*/, "")
+        .trim()
+    )
+    .filter((entry) => entry && entry.length <= 60)
+    .filter((entry) => {
+      if (seen.has(entry)) return false;
+      seen.add(entry);
+      return true;
+    });
+};
+
+export const extractIngredients = (item: CrawledItem) => {
+  const info = item.detail?.info ?? null;
+  const infoKey = info ? Object.keys(info).find((key) => key.includes("성분")) : undefined;
+  const text = toText(infoKey ? info?.[infoKey] : null) || toText(item.detail?.ingredientText);
+  if (text) {
+    return parseIngredientList(text);
+  }
+  const listed = item.ingredients?.length ? item.ingredients : item.detail?.ingredients ?? [];
+  return parseIngredientList(listed.join(","));
+};
+
+const matchesSynonym = (text: string, synonym: string) => {
+  if (/[가-힣]/.test(synonym)) {
+    return text.includes(synonym);
+  }
+  return new RegExp(`\\b${synonym.replace(/_/g, "[ _-]?")}\\b`, "i").test(text);
+};
+
+export const deriveEffectTags = ({
+  name,
+  tags,
+  ingredients,
+}: {
+  name: string;
+  tags: string[];
+  ingredients: string[];
+}): NeedTag[] => {
+  const copy = [name, ...tags].join(" ").toLowerCase();
+  const derived = new Set<NeedTag>();
+  NEED_TAGS.forEach((id) => {
+    if (getNeedSynonyms(id).some((synonym) => matchesSynonym(copy, synonym.toLowerCase()))) {
+      derived.add(id);
+    }
+  });
+  const ingredientText = ingredients.join(", ");
+  KEY_INGREDIENT_RULES.forEach((rule) => {
+    if (rule.pattern.test(ingredientText) || rule.pattern.test(name)) {
+      rule.needs.forEach((need) => derived.add(need));
+    }
+  });
+  return NEED_TAGS.filter((id) => derived.has(id));
+};
+
+export const deriveKeyIngredients = (name: string, ingredients: string[]) => {
+  const ingredientText = ingredients.join(", ");
+  const actives = KEY_INGREDIENT_RULES.filter(
+    (rule) => rule.pattern.test(ingredientText) || rule.pattern.test(name)
+  ).map((rule) => rule.label);
+  if (actives.length) {
+    return actives.slice(0, KEY_INGREDIENT_LIMIT);
+  }
+  return ingredients.filter((entry) => entry !== "정제수").slice(0, KEY_INGREDIENT_LIMIT);
+};
+
+export const buildCatalogNote = (price: number | null, link: string | null) =>
+  `OliveYoung | ${price ?? ""} | ${link ?? ""}`;
+
+export const normalizeCrawledItem = (
+  item: CrawledItem
+): { product: CatalogProduct } | { skip: CatalogSkip } => {
+  const rawName = toText(item.name);
+  if (!rawName) {
+    return { skip: { name: null, reason: "상품명이 없습니다." } };
+  }
+  const name = cleanProductName(rawName);
+  if (!name) {
+    return { skip: { name: rawName, reason: "프로모션 문구를 제외하면 상품명이 비어 있습니다." } };
+  }
+  const brand = toText(item.brand) || deriveBrandFromName(name);
+  const ingredients = extractIngredients(item);
+  const tags = (item.tags ?? []).map(toText).filter(Boolean);
+  const price = normalizePrice(item);
+  // Brand names like 피지오겔 would otherwise read as a 피지 claim.
+  const copy = brand && name.startsWith(brand) ? name.slice(brand.length).trim() : name;
+  const link = toText(item.link) || null;
+
+  return {
+    product: {
+      key: buildCatalogKey(brand, rawName),
+      name,
+      brand,
+      category: mapCategory(name),
+      effect_tags: deriveEffectTags({ name: copy, tags, ingredients }),
+      key_ingredients: deriveKeyIngredients(copy, ingredients),
+      ingredients,
+      price,
+      product_url: link,
+      image_url: toText(item.image) || null,
+      note: buildCatalogNote(price, link),
+    },
+  };
+};
+
+// The same product shows up under several promo listings; keep the one with the richest detail.
+const pickRicher = (current: CatalogProduct, next: CatalogProduct) => {
+  if (next.ingredients.length !== current.ingredients.length) {
+    return next.ingredients.length > current.ingredients.length ? next : current;
+  }
+  if (next.price !== null && (current.price === null || next.price < current.price)) {
+    return next;
+  }
+  return current;
+};
+
+export const normalizeCatalog = (items: CrawledItem[]) => {
+  const byKey = new Map<string, CatalogProduct>();
+  const skipped: CatalogSkip[] = [];
+  let duplicates = 0;
+  items.forEach((item) => {
+    const result = normalizeCrawledItem(item);
+    if ("skip" in result) {
+      skipped.push(result.skip);
+      return;
+    }
+    const existing = byKey.get(result.product.key);
+    if (existing) {
+      duplicates += 1;
+      byKey.set(result.product.key, pickRicher(existing, result.product));
+      return;
+    }
+    byKey.set(result.product.key, result.product);
+  });
+  return { products: Array.from(byKey.values()), skipped, duplicates };
+};
+
+const toComparable = (value: unknown) => {
+  if (Array.isArray(value)) {
+    return value.map((entry) => `${entry}`.trim()).join(",");
+  }
+  if (typeof value === "string") {
+    return value
+      .split(/[,|]/)
+      .map((entry) => entry.trim())
+      .join(",");
+  }
+  return value === null || value === undefined ? "" : `${value}`;
+};
+
+const diffFields = (existing: ProductRow, product: CatalogProduct) =>
+  CATALOG_FIELDS.filter((field) => {
+    const current = field === "note" ? existing.note : existing[field];
+    return toComparable(current) !== toComparable(product[field]);
+  });
+
+const toProductRecord = (product: CatalogProduct) => ({
+  name: product.name,
+  brand: product.brand,
+  category: product.category,
+  effect_tags: product.effect_tags,
+  key_ingredients: product.key_ingredients,
+  price: product.price,
+  product_url: product.product_url,
+  image_url: product.image_url,
+  note: product.note,
+});
+
+type ProductRecord = ReturnType<typeof toProductRecord>;
+
+export const planCatalogChanges = (existingRows: ProductRow[], products: CatalogProduct[]) => {
+  const existingByKey = new Map<string, ProductRow>();
+  existingRows.forEach((row) => {
+    if (!row.name) return;
+    const key = buildCatalogKey(row.brand ?? null, row.name);
+    if (!existingByKey.has(key)) {
+      existingByKey.set(key, row);
+    }
+  });
+
+  const inserts: ProductRecord[] = [];
+  const updates: (ProductRecord & { id: string })[] = [];
+  const changes = products.map((product): CatalogChange => {
+    const existing = existingByKey.get(product.key);
+    if (!existing) {
+      inserts.push(toProductRecord(product));
+      return {
+        action: "insert",
+        key: product.key,
+        productId: null,
+        name: product.name,
+        brand: product.brand,
+        fields: CATALOG_FIELDS,
+      };
+    }
+    const fields = diffFields(existing, product);
+    if (fields.length) {
+      updates.push({ id: existing.id, ...toProductRecord(product) });
+    }
+    return {
+      action: fields.length ? "update" : "unchanged",
+      key: product.key,
+      productId: existing.id,
+      name: product.name,
+      brand: product.brand,
+      fields,
+    };
+  });
+  return { changes, inserts, updates };
+};
+
+// PostgREST caps a select at 1000 rows, so the catalog is read page by page.
+const fetchExistingProducts = async (supabase: SupabaseClient) => {
+  const rows: ProductRow[] = [];
+  for (let from = 0; ; from += PRODUCT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("products")
+      .select(
+        "id, name, brand, category, effect_tags, key_ingredients, price, product_url, image_url, note"
+      )
+      .order("id", { ascending: true })
+      .range(from, from + PRODUCT_PAGE_SIZE - 1);
+    if (error) {
+      throw error;
+    }
+    const page = (data ?? []) as ProductRow[];
+    rows.push(...page);
+    if (page.length < PRODUCT_PAGE_SIZE) {
+      return rows;
+    }
+  }
+};
+
+export const ingestCatalog = async (
+  supabase: SupabaseClient,
+  items: CrawledItem[],
+  { apply }: { apply: boolean }
+): Promise<CatalogIngestReport> => {
+  const { products, skipped, duplicates } = normalizeCatalog(items);
+
+  const { changes, inserts, updates } = planCatalogChanges(
+    await fetchExistingProducts(supabase),
+    products
+  );
+
+  if (apply) {
+    if (inserts.length) {
+      const { error: insertError } = await supabase.from("products").insert(inserts);
+      if (insertError) {
+        throw insertError;
+      }
+    }
+    if (updates.length) {
+      const { error: upsertError } = await supabase
+        .from("products")
+        .upsert(updates, { onConflict: "id" });
+      if (upsertError) {
+        throw upsertError;
+      }
+    }
+  }
+
+  return {
+    received: items.length,
+    normalized: products.length,
+    duplicates,
+    skipped,
+    inserts: inserts.length,
+    updates: updates.length,
+    unchanged: changes.filter((change) => change.action === "unchanged").length,
+    changes,
+    applied: apply,
+  };
+};
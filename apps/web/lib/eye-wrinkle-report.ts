@@ -1,19 +1,14 @@
-import type { PhotoRow } from "./recommendations";
-
-type ReportItem = {
-  id: string;
-  title: string;
-  description: string;
-  comparison: string;
-  status: "좋음" | "보통" | "주의";
-};
+import { type SupabaseClient } from "@supabase/supabase-js";
+import type {
+  EyeWrinkleMetric,
+  EyeWrinkleMetricId,
+  NeedEntry,
+  ReportItem,
+} from "@tangly/domain";
 
-type NeedEntry = {
-  id: string;
-  label: string;
-  level: "high" | "medium";
-  description: string;
-};
+import type { AiReportContent } from "./ai-report";
+import { cropCenter, fetchGrayscale, measureTexture, type TextureStats } from "./image-analysis";
+import type { PhotoRow } from "./recommendations";
 
 type EyeWrinklePayload = {
   summary: string;
@@ -23,99 +18,306 @@ type EyeWrinklePayload = {
   needs: NeedEntry[];
 };
 
-const WRINKLE_METRICS = [
-  {
+export type { EyeWrinkleMetric, EyeWrinkleMetricId } from "@tangly/domain";
+
+export type EyeWrinkleScores = Record<EyeWrinkleMetricId, number | null>;
+
+type EyeWrinkleScoreRow = {
+  session_id: string;
+  elasticity: number | null;
+  fine_lines: number | null;
+  hydration: number | null;
+};
+
+type EyeWrinkleSources = {
+  scores?: EyeWrinkleScores | null;
+  aiReport?: AiReportContent | null;
+};
+
+const METRIC_IDS: EyeWrinkleMetricId[] = ["elasticity", "fineLines", "hydration"];
+
+const METRIC_LABELS: Record<EyeWrinkleMetricId, string> = {
+  elasticity: "눈가 탄력",
+  fineLines: "미세 주름",
+  hydration: "수분도",
+};
+
+const METRIC_DETAILS: Record<EyeWrinkleMetricId, Record<ReportItem["status"], string>> = {
+  elasticity: {
+    좋음: "눈을 뜰 때와 감을 때의 결 변화가 적어 탄력이 안정적으로 유지되고 있어요.",
+    보통: "표정에 따라 눈가 결이 조금씩 접히고 있어 탄력 케어를 병행하면 좋아요.",
+    주의: "눈을 뜰 때 생기는 접힘이 뚜렷해 탄력 저하가 느껴지는 단계예요.",
+  },
+  fineLines: {
+    좋음: "눈꼬리 결이 매끈해 잔주름이 거의 보이지 않아요.",
+    보통: "눈꼬리에 얕은 잔주름이 일부 보여 꾸준한 보습이 필요해요.",
+    주의: "눈꼬리와 눈 밑에 반복되는 잔주름이 선명하게 보이고 있어요.",
+  },
+  hydration: {
+    좋음: "눈가 결이 고르고 윤기가 있어 수분 컨디션이 좋아요.",
+    보통: "부분적으로 결이 거칠어 보여 크림 레이어링을 추가하면 좋아요.",
+    주의: "눈가 결이 거칠고 칙칙해 보여 건조함이 느껴지는 상태예요.",
+  },
+};
+
+const METRIC_HIGHLIGHTS: Record<EyeWrinkleMetricId, string> = {
+  elasticity: "눈가 탄력을 받쳐주는 리프팅 아이케어를 우선 추천드려요.",
+  fineLines: "눈꼬리 잔주름을 채워주는 집중 아이크림 루틴을 우선 추천드려요.",
+  hydration: "눈가 보습막과 결을 동시에 지켜주는 루틴을 우선 추천드려요.",
+};
+
+const METRIC_NEEDS: Record<EyeWrinkleMetricId, Omit<NeedEntry, "level">> = {
+  elasticity: {
     id: "elasticity",
-    label: "눈가 탄력",
-    score: 92,
-    status: "양호",
-    detail: "눈 중간 부분이 안정적으로 치켜올라 있어 전반적인 탄력은 잘 유지되고 있어요.",
+    label: "아이존 탄력",
+    description: "표정 주름이 반복되므로 리프팅 케어를 병행해 주세요.",
   },
-  {
-    id: "fineLines",
-    label: "미세 주름",
-    score: 68,
-    status: "주의",
-    detail: "눈꼬리에서 2~3줄 정도의 얕은 주름이 반복적으로 보이고 있어 꾸준한 보습이 필요해요.",
+  fineLines: {
+    id: "wrinkle",
+    label: "눈가 잔주름",
+    description: "레티놀·펩타이드 아이크림으로 잔주름을 꾸준히 관리해 주세요.",
   },
-  {
+  hydration: {
     id: "hydration",
-    label: "수분도",
-    score: 74,
-    status: "주의",
-    detail: "세안을 자주 하는 날엔 눈가가 쉽게 건조해질 수 있으니 크림 레이어링을 추가해 주세요.",
+    label: "눈가 보습막",
+    description: "수분을 오래 지켜주는 크림 레이어링이 필요해요.",
   },
-];
+};
 
-const WRINKLE_TIPS = [
-  "저녁 루틴에서는 아이크림을 두껍게 올린 뒤 5분 정도 흡수시키면 주름이 덜 눈에 띕니다.",
-  "눈 주위 림프를 따라 가볍게 마사지하면 붓기와 주름이 함께 완화돼요.",
-  "외출 전에는 자외선 차단제를 눈꼬리까지 꼼꼼히 바르세요.",
-];
+const METRIC_TIPS: Record<EyeWrinkleMetricId, string> = {
+  elasticity: "눈 주위 림프를 따라 가볍게 마사지하면 붓기와 주름이 함께 완화돼요.",
+  fineLines: "외출 전에는 자외선 차단제를 눈꼬리까지 꼼꼼히 바르세요.",
+  hydration: "저녁 루틴에서는 아이크림을 두껍게 올린 뒤 5분 정도 흡수시키면 주름이 덜 눈에 띕니다.",
+};
 
-const selectStatus = (status: string): "좋음" | "보통" | "주의" => {
-  if (status === "양호") {
+const AI_METRIC_PATTERNS: Record<EyeWrinkleMetricId, RegExp> = {
+  elasticity: /탄력|처짐|elastic|firm/i,
+  fineLines: /주름|라인|wrinkle|line/i,
+  hydration: /수분|건조|보습|hydrat|dry/i,
+};
+
+const AI_STATUS_SCORES: Record<AiReportContent["keyFindings"][number]["status"], number> = {
+  good: 88,
+  neutral: 74,
+  caution: 60,
+};
+
+const IMAGE_WEIGHT = 0.6;
+
+const clampScore = (value: number) => Math.round(Math.min(98, Math.max(30, value)));
+
+const toStatus = (score: number): ReportItem["status"] => {
+  if (score >= 80) {
     return "좋음";
   }
-  if (status === "주의") {
-    return "주의";
+  if (score >= 65) {
+    return "보통";
+  }
+  return "주의";
+};
+
+const selectLatestPhoto = (photos: PhotoRow[], keyword: string) =>
+  [...photos]
+    .filter((photo) => (photo.shot_type ?? "").toLowerCase().includes(keyword) && photo.image_url)
+    .sort((a, b) => Date.parse(b.created_at ?? "") - Date.parse(a.created_at ?? ""))[0] ?? null;
+
+const loadTexture = async (photo: PhotoRow | null): Promise<TextureStats | null> => {
+  if (!photo?.image_url) {
+    return null;
+  }
+  try {
+    const image = await fetchGrayscale(photo.image_url);
+    return measureTexture(cropCenter(image, 0.8, 0.6));
+  } catch (error) {
+    console.warn("eye wrinkle photo decode error", photo.id, error);
+    return null;
+  }
+};
+
+const relative = (value: number, mean: number) => (value / Math.max(mean, 1)) * 100;
+
+export const analyzeEyeWrinklePhotos = async (
+  photos: PhotoRow[]
+): Promise<EyeWrinkleScores | null> => {
+  const [open, closed] = await Promise.all([
+    loadTexture(selectLatestPhoto(photos, "open")),
+    loadTexture(selectLatestPhoto(photos, "closed")),
+  ]);
+  const reference = closed ?? open;
+  if (!reference) {
+    return null;
   }
-  return "보통";
+
+  const lineDensity = relative(reference.detail, reference.mean);
+  const dullness = Math.max(0, 110 - reference.mean) / 4;
+  const creasing = open && closed ? Math.abs(open.detail / Math.max(closed.detail, 0.1) - 1) : null;
+
+  return {
+    elasticity: creasing === null ? null : clampScore(94 - creasing * 40 - lineDensity * 2.5),
+    fineLines: clampScore(100 - lineDensity * 6),
+    hydration: clampScore(96 - relative(reference.roughness, reference.mean) * 5 - dullness),
+  };
 };
 
-const buildNarrative = (): EyeWrinklePayload => {
-  const atRisk = WRINKLE_METRICS.filter((metric) => metric.status === "주의");
+const toScores = (row: EyeWrinkleScoreRow): EyeWrinkleScores => ({
+  elasticity: row.elasticity,
+  fineLines: row.fine_lines,
+  hydration: row.hydration,
+});
+
+export const fetchEyeWrinkleScores = async (supabase: SupabaseClient, sessionIds: string[]) => {
+  const scores = new Map<string, EyeWrinkleScores>();
+  if (!sessionIds.length) {
+    return scores;
+  }
+  const { data, error } = await supabase
+    .from("eye_wrinkle_scores")
+    .select("session_id, elasticity, fine_lines, hydration")
+    .in("session_id", sessionIds);
+  if (error) {
+    console.error("eye_wrinkle_scores fetch error", error);
+    return scores;
+  }
+  ((data ?? []) as EyeWrinkleScoreRow[]).forEach((row) => {
+    scores.set(row.session_id, toScores(row));
+  });
+  return scores;
+};
+
+export const ensureEyeWrinkleScores = async (
+  supabase: SupabaseClient,
+  sessionId: string,
+  photos: PhotoRow[],
+  options?: { refresh?: boolean }
+) => {
+  if (!options?.refresh) {
+    const cached = (await fetchEyeWrinkleScores(supabase, [sessionId])).get(sessionId);
+    if (cached) {
+      return cached;
+    }
+  }
+
+  const scores = await analyzeEyeWrinklePhotos(photos);
+  if (!scores) {
+    return null;
+  }
+  const { error } = await supabase.from("eye_wrinkle_scores").upsert(
+    {
+      session_id: sessionId,
+      elasticity: scores.elasticity,
+      fine_lines: scores.fineLines,
+      hydration: scores.hydration,
+      computed_at: new Date().toISOString(),
+    },
+    { onConflict: "session_id" }
+  );
+  if (error) {
+    console.error("eye_wrinkle_scores upsert error", error);
+  }
+  return scores;
+};
+
+const matchAiFindings = (aiReport?: AiReportContent | null) => {
+  const matched = new Map<EyeWrinkleMetricId, AiReportContent["keyFindings"][number]>();
+  (aiReport?.keyFindings ?? []).forEach((finding) => {
+    const text = `${finding.title} ${finding.description}`;
+    const metricId = METRIC_IDS.find(
+      (id) => !matched.has(id) && AI_METRIC_PATTERNS[id].test(text)
+    );
+    if (metricId) {
+      matched.set(metricId, finding);
+    }
+  });
+  return matched;
+};
+
+export const buildEyeWrinkleMetrics = ({ scores, aiReport }: EyeWrinkleSources) => {
+  const aiFindings = matchAiFindings(aiReport);
+  return METRIC_IDS.flatMap((id): EyeWrinkleMetric[] => {
+    const imageScore = scores?.[id] ?? null;
+    const finding = aiFindings.get(id);
+    const aiScore = finding ? AI_STATUS_SCORES[finding.status] : null;
+    if (imageScore === null && aiScore === null) {
+      return [];
+    }
+    const score =
+      imageScore !== null && aiScore !== null
+        ? clampScore(imageScore * IMAGE_WEIGHT + aiScore * (1 - IMAGE_WEIGHT))
+        : imageScore ?? aiScore ?? 0;
+    const status = toStatus(score);
+    return [
+      {
+        id,
+        label: METRIC_LABELS[id],
+        score,
+        status,
+        detail: finding?.description ?? METRIC_DETAILS[id][status],
+      },
+    ];
+  });
+};
+
+const buildNarrative = (sources: EyeWrinkleSources): EyeWrinklePayload => {
+  const metrics = buildEyeWrinkleMetrics(sources);
+  if (!metrics.length) {
+    return {
+      summary: "눈가 사진 분석 결과를 준비 중이에요.",
+      highlight: "눈을 뜬 사진과 감은 사진을 모두 촬영하면 눈가 지수를 확인할 수 있어요.",
+      items: [],
+      tips: METRIC_IDS.map((id) => METRIC_TIPS[id]),
+      needs: [],
+    };
+  }
+
+  const ranked = [...metrics].sort((a, b) => a.score - b.score);
+  const weakest = ranked[0];
+  const atRisk = metrics.filter((metric) => metric.status === "주의");
 
   const summaryParts = [
-    "눈을 뜬 상태와 감은 상태를 모두 촬영해 눈가 라인을 비교했어요.",
+    metrics.some((metric) => metric.id === "elasticity")
+      ? "눈을 뜬 상태와 감은 상태를 비교해 눈가 지수를 계산했어요."
+      : "촬영한 눈가 사진으로 눈가 지수를 계산했어요.",
     atRisk.length
-      ? "탄력은 안정적이지만 미세 주름·수분 컨디션이 동시에 감지되어 루틴 보강이 필요합니다."
-      : "전체적인 눈가 텐션이 균일해 현재 루틴을 유지하면 좋을 시기예요.",
+      ? `${atRisk.map((metric) => metric.label).join("·")} 지수가 낮게 나와 루틴 보강이 필요합니다.`
+      : weakest.status === "보통"
+        ? `${weakest.label} 지수를 조금 더 챙기면 좋은 시기예요.`
+        : "전체적인 눈가 텐션이 균일해 현재 루틴을 유지하면 좋을 시기예요.",
   ];
 
-  const summary = summaryParts.join(" ");
-  const highlight = atRisk.length
-    ? "눈가 보습막과 결을 동시에 지켜주는 루틴을 우선 추천드려요."
-    : "지금 상태를 유지할 수 있도록 기본 아이케어만 잘 챙겨주세요.";
+  const highlight = weakest.status === "좋음"
+    ? "지금 상태를 유지할 수 있도록 기본 아이케어만 잘 챙겨주세요."
+    : METRIC_HIGHLIGHTS[weakest.id];
 
-  const items: ReportItem[] = WRINKLE_METRICS.map((metric) => ({
+  const items: ReportItem[] = metrics.map((metric) => ({
     id: metric.id,
     title: metric.label,
     description: metric.detail,
     comparison: `현재 지수 ${metric.score}점`,
-    status: selectStatus(metric.status),
+    status: metric.status,
   }));
 
-  const needs: NeedEntry[] = atRisk.length
-    ? [
-        {
-          id: "hydration",
-          label: "눈가 보습막",
-          level: "high",
-          description: "수분을 오래 지켜주는 크림 레이어링이 필요해요.",
-        },
-        {
-          id: "elasticity",
-          label: "아이존 탄력",
-          level: "medium",
-          description: "얕은 주름이 반복되므로 리프팅 케어를 병행해 주세요.",
-        },
-      ]
-    : [
-        {
-          id: "hydration",
-          label: "눈가 보습 유지",
-          level: "medium",
-          description: "기존 루틴을 유지하면서 얇은 수분막만 보강하면 충분합니다.",
-        },
-      ];
+  const needs: NeedEntry[] = ranked
+    .filter((metric) => metric.status !== "좋음")
+    .map((metric) => ({
+      ...METRIC_NEEDS[metric.id],
+      level: metric.status === "주의" ? "high" : "medium",
+    }));
 
   return {
-    summary,
+    summary: summaryParts.join(" "),
     highlight,
     items,
-    tips: WRINKLE_TIPS,
-    needs,
+    tips: ranked.map((metric) => METRIC_TIPS[metric.id]),
+    needs: needs.length
+      ? needs
+      : [
+          {
+            id: "hydration",
+            label: "눈가 보습 유지",
+            level: "medium",
+            description: "기존 루틴을 유지하면서 얇은 수분막만 보강하면 충분합니다.",
+          },
+        ],
   };
 };
 
@@ -137,8 +339,13 @@ const pickThumbnail = (photos: PhotoRow[]) => {
   return fallback?.image_url ?? null;
 };
 
-export const buildEyeWrinkleArchiveEntry = (sessionId: string, createdAt: string | null, photos: PhotoRow[]) => {
-  const narrative = buildNarrative();
+export const buildEyeWrinkleArchiveEntry = (
+  sessionId: string,
+  createdAt: string | null,
+  photos: PhotoRow[],
+  sources: EyeWrinkleSources = {}
+) => {
+  const narrative = buildNarrative(sources);
   return {
     id: sessionId,
     createdAt,
@@ -152,12 +359,14 @@ export const buildEyeWrinkleDetailPayload = ({
   sessionId,
   createdAt,
   photos,
+  scores,
+  aiReport,
 }: {
   sessionId: string;
   createdAt: string | null;
   photos: PhotoRow[];
-}) => {
-  const narrative = buildNarrative();
+} & EyeWrinkleSources) => {
+  const narrative = buildNarrative({ scores, aiReport });
   return {
     type: "eye_wrinkle" as const,
     sessionId,
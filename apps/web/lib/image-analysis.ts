@@ -0,0 +1,153 @@
+import sharp from "sharp";
+
+export type GrayscaleImage = {
+  data: Uint8Array;
+  width: number;
+  height: number;
+};
+
+export type TextureStats = {
+  mean: number;
+  contrast: number;
+  detail: number;
+  roughness: number;
+};
+
+const ANALYSIS_WIDTH = 320;
+const FETCH_TIMEOUT_MS = 8000;
+const BLOCK_SIZE = 8;
+
+export const decodeGrayscale = async (
+  input: Buffer,
+  width = ANALYSIS_WIDTH
+): Promise<GrayscaleImage> => {
+  const { data, info } = await sharp(input)
+    .rotate()
+    .resize({ width, withoutEnlargement: true })
+    .grayscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+};
+
+export const fetchGrayscale = async (url: string, width = ANALYSIS_WIDTH) => {
+  const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`이미지를 불러오지 못했습니다. (${response.status})`);
+  }
+  return decodeGrayscale(Buffer.from(await response.arrayBuffer()), width);
+};
+
+export const cropCenter = (
+  image: GrayscaleImage,
+  widthRatio: number,
+  heightRatio: number
+): GrayscaleImage => {
+  const width = Math.max(1, Math.round(image.width * widthRatio));
+  const height = Math.max(1, Math.round(image.height * heightRatio));
+  const left = Math.floor((image.width - width) / 2);
+  const top = Math.floor((image.height - height) / 2);
+  const data = new Uint8Array(width * height);
+  for (let y = 0; y < height; y += 1) {
+    const offset = (top + y) * image.width + left;
+    data.set(image.data.subarray(offset, offset + width), y * width);
+  }
+  return { data, width, height };
+};
+
+export const measureTexture = ({ data, width, height }: GrayscaleImage): TextureStats => {
+  const pixelCount = width * height;
+  if (!pixelCount) {
+    return { mean: 0, contrast: 0, detail: 0, roughness: 0 };
+  }
+
+  let sum = 0;
+  let sumSquares = 0;
+  for (let index = 0; index < pixelCount; index += 1) {
+    sum += data[index];
+    sumSquares += data[index] * data[index];
+  }
+  const mean = sum / pixelCount;
+  const contrast = Math.sqrt(Math.max(0, sumSquares / pixelCount - mean * mean));
+
+  let laplacianSum = 0;
+  let laplacianCount = 0;
+  for (let y = 1; y < height - 1; y += 1) {
+    for (let x = 1; x < width - 1; x += 1) {
+      const index = y * width + x;
+      const laplacian =
+        4 * data[index] - data[index - 1] - data[index + 1] - data[index - width] - data[index + width];
+      laplacianSum += Math.abs(laplacian);
+      laplacianCount += 1;
+    }
+  }
+
+  let blockDeviationSum = 0;
+  let blockCount = 0;
+  for (let top = 0; top + BLOCK_SIZE <= height; top += BLOCK_SIZE) {
+    for (let left = 0; left + BLOCK_SIZE <= width; left += BLOCK_SIZE) {
+      let blockSum = 0;
+      let blockSquares = 0;
+      for (let y = top; y < top + BLOCK_SIZE; y += 1) {
+        for (let x = left; x < left + BLOCK_SIZE; x += 1) {
+          const value = data[y * width + x];
+          blockSum += value;
+          blockSquares += value * value;
+        }
+      }
+      const size = BLOCK_SIZE * BLOCK_SIZE;
+      const blockMean = blockSum / size;
+      blockDeviationSum += Math.sqrt(Math.max(0, blockSquares / size - blockMean * blockMean));
+      blockCount += 1;
+    }
+  }
+
+  return {
+    mean,
+    contrast,
+    detail: laplacianCount ? laplacianSum / laplacianCount : 0,
+    roughness: blockCount ? blockDeviationSum / blockCount : 0,
+  };
+};
+
+export const measureExposure = ({ data, width, height }: GrayscaleImage) => {
+  const pixelCount = width * height;
+  let sum = 0;
+  let shadows = 0;
+  let highlights = 0;
+  for (let index = 0; index < pixelCount; index += 1) {
+    const value = data[index];
+    sum += value;
+    if (value <= 8) {
+      shadows += 1;
+    } else if (value >= 247) {
+      highlights += 1;
+    }
+  }
+  return {
+    brightness: pixelCount ? sum / pixelCount : 0,
+    shadowClip: pixelCount ? shadows / pixelCount : 0,
+    highlightClip: pixelCount ? highlights / pixelCount : 0,
+  };
+};
+
+export const measureSharpness = ({ data, width, height }: GrayscaleImage) => {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y += 1) {
+    for (let x = 1; x < width - 1; x += 1) {
+      const index = y * width + x;
+      const laplacian =
+        4 * data[index] - data[index - 1] - data[index + 1] - data[index - width] - data[index + width];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count += 1;
+    }
+  }
+  if (!count) {
+    return 0;
+  }
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
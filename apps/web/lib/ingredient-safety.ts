@@ -0,0 +1,285 @@
+import type { IngredientWarning } from "@tangly/domain";
+
+import type { OxResponseRow, ProductRecommendation } from "@/lib/recommendations";
+import type { UserProduct } from "@/lib/user-products";
+
+export type { IngredientWarning } from "@tangly/domain";
+
+export type IngredientClass =
+  | "retinoid"
+  | "aha"
+  | "bha"
+  | "pha"
+  | "vitamin_c"
+  | "benzoyl_peroxide"
+  | "peeling";
+
+export type IngredientSubject = {
+  id: string;
+  label: string;
+  kind: "product" | "step";
+  classes: IngredientClass[];
+};
+
+// Stored on the weekly routine so warnings can be re-checked when the user toggles steps.
+export type IngredientProfile = {
+  sensitive: boolean;
+  products: IngredientSubject[];
+};
+
+type IngredientDefinition = {
+  label: string;
+  keywords: string[];
+  exfoliant: boolean;
+};
+
+type InteractionRule = {
+  id: string;
+  severity: IngredientWarning["severity"];
+  title: string;
+  left: IngredientClass[];
+  right: IngredientClass[];
+  message: string;
+};
+
+export const INGREDIENT_KNOWLEDGE: Record<IngredientClass, IngredientDefinition> = {
+  retinoid: {
+    label: "레티노이드",
+    keywords: [
+      "레티놀",
+      "레티날",
+      "레티닐",
+      "레티노이드",
+      "레티노익",
+      "트레티노인",
+      "아다팔렌",
+      "retinol",
+      "retinal",
+      "retinyl",
+      "retinoid",
+      "tretinoin",
+      "adapalene",
+    ],
+    exfoliant: false,
+  },
+  aha: {
+    label: "AHA",
+    keywords: [
+      "aha",
+      "글리콜릭",
+      "글라이콜릭",
+      "글리콜산",
+      "락틱애씨드",
+      "락틱애시드",
+      "젖산",
+      "만델릭",
+      "만델산",
+      "glycolic",
+      "lactic",
+      "mandelic",
+    ],
+    exfoliant: true,
+  },
+  bha: {
+    label: "BHA",
+    keywords: ["bha", "lha", "살리실릭", "살리실산", "베타인살리실레이트", "salicylic"],
+    exfoliant: true,
+  },
+  pha: {
+    label: "PHA",
+    keywords: ["pha", "글루코노락톤", "락토바이오닉", "gluconolactone", "lactobionic"],
+    exfoliant: true,
+  },
+  vitamin_c: {
+    label: "비타민C",
+    keywords: ["비타민c", "비타c", "아스코빅", "아스코르빅", "아스코빌", "ascorbic", "ascorbyl", "vitaminc"],
+    exfoliant: false,
+  },
+  benzoyl_peroxide: {
+    label: "벤조일퍼옥사이드",
+    keywords: ["벤조일퍼옥사이드", "과산화벤조일", "benzoylperoxide"],
+    exfoliant: false,
+  },
+  peeling: {
+    label: "각질케어",
+    keywords: ["각질", "필링", "peeling", "exfoliat"],
+    exfoliant: true,
+  },
+};
+
+const INTERACTION_RULES: InteractionRule[] = [
+  {
+    id: "retinoid-benzoyl-peroxide",
+    severity: "conflict",
+    title: "레티노이드 + 벤조일퍼옥사이드",
+    left: ["retinoid"],
+    right: ["benzoyl_peroxide"],
+    message:
+      "벤조일퍼옥사이드가 레티노이드를 산화시켜 효과는 줄고 자극은 커질 수 있어요. 아침과 저녁으로 나눠 사용하세요.",
+  },
+  {
+    id: "vitamin-c-benzoyl-peroxide",
+    severity: "conflict",
+    title: "비타민C + 벤조일퍼옥사이드",
+    left: ["vitamin_c"],
+    right: ["benzoyl_peroxide"],
+    message: "벤조일퍼옥사이드가 비타민C를 산화시켜 효과가 떨어져요. 같은 시간대에 겹쳐 바르지 마세요.",
+  },
+  {
+    id: "retinoid-exfoliant",
+    severity: "conflict",
+    title: "레티노이드 + 각질 제거",
+    left: ["retinoid"],
+    right: ["aha", "bha", "peeling"],
+    message: "같은 날 함께 쓰면 각질이 과하게 벗겨져 붉어지거나 따가울 수 있어요. 사용하는 요일을 나눠 주세요.",
+  },
+  {
+    id: "vitamin-c-acid",
+    severity: "caution",
+    title: "비타민C + 산 성분",
+    left: ["vitamin_c"],
+    right: ["aha", "bha"],
+    message: "산도가 낮은 성분끼리 겹치면 따가울 수 있어요. 비타민C는 아침, 산 성분은 저녁에 사용해 보세요.",
+  },
+  {
+    id: "retinoid-vitamin-c",
+    severity: "caution",
+    title: "레티노이드 + 비타민C",
+    left: ["retinoid"],
+    right: ["vitamin_c"],
+    message: "처음 함께 쓴다면 비타민C는 아침, 레티노이드는 저녁으로 나눠 자극을 줄이세요.",
+  },
+];
+
+// Only the top picks are checked against each other; the rest of the list are alternatives.
+export const SAFETY_PRODUCT_LIMIT = 4;
+
+const STEP_INGREDIENTS: Record<string, IngredientClass[]> = {
+  peel: ["peeling"],
+};
+
+const normalizeText = (value: string) => value.replace(/\s+/g, "").toLowerCase();
+
+// Acronyms like "pha" need word edges, otherwise "alpha-arbutin" would read as PHA.
+const matchesKeyword = (text: string, keyword: string) =>
+  /^[a-z]{1,3}$/.test(keyword)
+    ? new RegExp(`(^|[^a-z])${keyword}(?![a-z])`).test(text.toLowerCase())
+    : normalizeText(text).includes(normalizeText(keyword));
+
+export const detectIngredientClasses = (texts: (string | null | undefined)[]): IngredientClass[] => {
+  const haystack = texts.filter((text): text is string => Boolean(text));
+  return (Object.keys(INGREDIENT_KNOWLEDGE) as IngredientClass[]).filter((id) =>
+    INGREDIENT_KNOWLEDGE[id].keywords.some((keyword) =>
+      haystack.some((text) => matchesKeyword(text, keyword))
+    )
+  );
+};
+
+export const toProductSubject = (
+  product: Pick<ProductRecommendation, "id" | "name" | "brand" | "keyIngredients">
+): IngredientSubject => ({
+  id: `product-${product.id}`,
+  label: product.brand ? `${product.brand} ${product.name}` : product.name,
+  kind: "product",
+  classes: detectIngredientClasses([product.name, ...product.keyIngredients]),
+});
+
+export const toStepSubjects = (
+  baseRoutine: string[],
+  optionalSteps: { key: string; label: string; enabled: boolean }[]
+): IngredientSubject[] => [
+  ...baseRoutine.map((line, index) => ({
+    id: `step-base_${index + 1}`,
+    label: line.split(":")[0].trim() || line,
+    kind: "step" as const,
+    classes: detectIngredientClasses([line]),
+  })),
+  ...optionalSteps
+    .filter((step) => step.enabled)
+    .map((step) => ({
+      id: `step-${step.key}`,
+      label: step.label,
+      kind: "step" as const,
+      classes: Array.from(
+        new Set([...(STEP_INGREDIENTS[step.key] ?? []), ...detectIngredientClasses([step.label])])
+      ),
+    })),
+];
+
+export const isSensitiveSkin = (ox: OxResponseRow[]) =>
+  ox.some(
+    (response) =>
+      response.question_key === "sensitive_skin" && response.answer?.toUpperCase() === "O"
+  );
+
+export const buildIngredientProfile = (
+  products: ProductRecommendation[],
+  ox: OxResponseRow[],
+  owned: UserProduct[] = []
+): IngredientProfile => ({
+  sensitive: isSensitiveSkin(ox),
+  products: [...owned, ...products.slice(0, SAFETY_PRODUCT_LIMIT)]
+    .map(toProductSubject)
+    .filter((subject) => subject.classes.length),
+});
+
+export const toIngredientProfile = (value: unknown): IngredientProfile => {
+  const record = value && typeof value === "object" ? (value as Partial<IngredientProfile>) : {};
+  return {
+    sensitive: record.sensitive === true,
+    products: Array.isArray(record.products) ? record.products : [],
+  };
+};
+
+// Pairs only count across different products or steps; a single formula is assumed to be balanced.
+// More than one exfoliating item is flagged on its own, and counts as a conflict for sensitive skin.
+export const checkIngredientSafety = (
+  subjects: IngredientSubject[],
+  options: { sensitive?: boolean } = {}
+): IngredientWarning[] => {
+  const active = subjects.filter((subject) => subject.classes.length);
+  const warnings: IngredientWarning[] = [];
+
+  INTERACTION_RULES.forEach((rule) => {
+    const items = new Set<string>();
+    active.forEach((left) => {
+      if (!left.classes.some((id) => rule.left.includes(id))) return;
+      active.forEach((right) => {
+        if (right.id === left.id || !right.classes.some((id) => rule.right.includes(id))) return;
+        items.add(left.label);
+        items.add(right.label);
+      });
+    });
+    if (items.size) {
+      warnings.push({
+        id: rule.id,
+        severity: rule.severity,
+        title: rule.title,
+        message: rule.message,
+        items: Array.from(items),
+      });
+    }
+  });
+
+  const exfoliants = active.filter((subject) =>
+    subject.classes.some((id) => INGREDIENT_KNOWLEDGE[id].exfoliant)
+  );
+  if (exfoliants.length >= 2) {
+    warnings.push({
+      id: "over-exfoliation",
+      severity: options.sensitive ? "conflict" : "caution",
+      title: "각질 제거 중복",
+      message: options.sensitive
+        ? "예민 피부라 각질 제거 제품은 한 가지만, 주 1~2회로 줄여 주세요."
+        : "각질 제거 제품이 겹쳐요. 같은 날에는 한 가지만 사용하세요.",
+      items: exfoliants.map((subject) => subject.label),
+    });
+  }
+
+  return warnings.sort((a, b) =>
+    a.severity === b.severity ? 0 : a.severity === "conflict" ? -1 : 1
+  );
+};
+
+export const formatIngredientWarning = (warning: IngredientWarning) =>
+  `${warning.items.join(" + ")}: ${warning.message}`;
@@ -1,16 +1,11 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ProfileOxRecord } from "@tangly/domain";
 
 import type { OxResponseRow } from "@/lib/recommendations";
 
 export const PROFILE_OX_TABLE = "profile_ox_records";
 
-export type ProfileOxRow = {
-  user_id: string;
-  question_key: string;
-  answer: string;
-  created_at?: string | null;
-  updated_at?: string | null;
-};
+export type ProfileOxRow = ProfileOxRecord;
 
 export const buildProfileOxMap = (rows: ProfileOxRow[]) => {
   const map = new Map<string, ProfileOxRow[]>();
@@ -0,0 +1,201 @@
+import { type SupabaseClient } from "@supabase/supabase-js";
+
+import {
+  attachPhotoReferences,
+  buildAiReportSchema,
+  buildVisionAttachments,
+  type AiReportContent,
+} from "@/lib/ai-report";
+import {
+  fetchRecentAiFailure,
+  insertAiReportVersion,
+  recordAiReportFailure,
+  type AiReportKind,
+  type AiReportVersionRow,
+} from "@/lib/ai-report-store";
+import { requestValidatedAiJson, type Schema, type ValidatedAiResult } from "@/lib/ai-schema";
+import type { PhotoRow } from "@/lib/recommendations";
+
+export type PhotoAnalysisKind = Exclude<AiReportKind, "general">;
+
+export type PhotoAnalysisResult = ValidatedAiResult<AiReportContent>;
+
+type PhotoAnalysisConfig = {
+  schemaName: string;
+  promptVersion: string;
+  systemPrompt: string;
+  purpose: string;
+  tone: string;
+  requirements: string[];
+  schema: Schema<AiReportContent>;
+  matchesPhoto: (shotType: string) => boolean;
+};
+
+const SKIN_FINDING_TITLES = ["hydration", "elasticity", "barrier", "tone", "pore"];
+
+const PHOTO_ANALYSIS_CONFIGS: Record<PhotoAnalysisKind, PhotoAnalysisConfig> = {
+  skin: {
+    schemaName: "SkinAiReport",
+    promptVersion: "skin-v1",
+    systemPrompt:
+      "당신은 피부 촬영을 해석하는 스킨케어 코치입니다. 응답은 반드시 JSON으로 작성하세요.",
+    purpose:
+      "볼 집중 촬영 이미지를 기반으로 수분 밀도, 탄력, 장벽, 톤 균형, 모공 컨디션을 진단하고 케어 방법을 제안하세요.",
+    tone: "전문 리추얼 코치처럼 차분하고 고급스럽게 설명하고, 의학적 확진 표현은 피하세요.",
+    requirements: [
+      "keyFindings 항목은 반드시 순서대로 hydration, elasticity, barrier, tone, pore 제목을 사용하세요. 제목 외에는 한국어로 설명합니다.",
+      "각 keyFindings.status는 good|neutral|caution 중 하나이며, description에는 해당 reference가 보여주는 특징을 구체적으로 서술하세요.",
+      "actions는 최소 2개 이상 작성하고 실행 빈도는 daily|weekly|three_per_week 중 하나만 사용하세요.",
+      "summary는 짧은 문장 2-4개로 bullet 느낌을 살려 작성하세요.",
+    ],
+    schema: buildAiReportSchema({
+      findingTitles: SKIN_FINDING_TITLES,
+      findings: { min: 5, max: 5 },
+      summary: { min: 2, max: 4 },
+      actions: { min: 2, max: 4 },
+    }),
+    matchesPhoto: (shotType) => shotType.includes("base") || shotType.includes("cheek"),
+  },
+  trouble: {
+    schemaName: "TroubleAiReport",
+    promptVersion: "trouble-v1",
+    systemPrompt:
+      "당신은 피부 트러블을 분석하는 뷰티 코치입니다. 응답은 반드시 JSON으로 반환하고, 위험한 의학적 표현은 피하세요.",
+    purpose: "여드름, 잡티, 홍조 등을 포함한 국소 트러블을 식별하고 관리법을 제안해주세요.",
+    tone: "피부과 전문 코치처럼 차분하고 현실적인 표현을 사용하세요. 의학적 확진 표현은 피합니다.",
+    requirements: [
+      "각 reference마다 무엇이 보이는지 짧게 언급하세요. 가급적 keyFindings 설명에 reference 코드를 명시하세요.",
+      "keyFindings는 최소 2개, status는 good|neutral|caution 중 선택하세요.",
+      "actions는 최소 2개 작성하고, 실행 빈도(frequency)는 daily|weekly|three_per_week 중 하나로 지정하세요.",
+      "summary는 bullet 느낌의 짧은 문장 2-4개로 작성합니다.",
+    ],
+    schema: buildAiReportSchema({
+      findings: { min: 2, max: 5 },
+      summary: { min: 2, max: 4 },
+      actions: { min: 2, max: 4 },
+    }),
+    matchesPhoto: (shotType) => shotType.includes("trouble"),
+  },
+  eye_wrinkle: {
+    schemaName: "EyeWrinkleAiReport",
+    promptVersion: "eye_wrinkle-v1",
+    systemPrompt:
+      "당신은 눈가 관리에 특화된 스킨케어 코치입니다. 응답은 JSON으로만 작성하세요.",
+    purpose: "눈가 주름/탄력/잔주름 패턴을 분석하고 맞춤 관리를 제안해주세요.",
+    tone: "세심하면서도 현실적인 뷰티 코치 톤을 유지하고, 의학적 확정 표현을 피하세요.",
+    requirements: [
+      "reference마다 눈가의 결, 깊이, 탄력 변화를 언급하세요.",
+      "keyFindings는 최소 2개 이상, status는 good|neutral|caution 중 하나로 지정하세요.",
+      "actions는 최소 2개 이상이며, frequency는 daily|weekly|three_per_week 중 하나여야 합니다.",
+      "summary는 bullet 느낌의 짧은 문장 2-4개로 작성합니다.",
+    ],
+    schema: buildAiReportSchema({
+      findings: { min: 2, max: 5 },
+      summary: { min: 2, max: 4 },
+      actions: { min: 2, max: 4 },
+    }),
+    matchesPhoto: (shotType) => shotType.includes("eye"),
+  },
+};
+
+export const filterAnalysisPhotos = <T extends PhotoRow>(kind: PhotoAnalysisKind, photos: T[]) =>
+  photos.filter((photo) =>
+    PHOTO_ANALYSIS_CONFIGS[kind].matchesPhoto((photo.shot_type ?? "").toLowerCase())
+  );
+
+export const requestPhotoAnalysis = async ({
+  kind,
+  photos,
+  sessionId,
+  capturedAt,
+}: {
+  kind: PhotoAnalysisKind;
+  photos: PhotoRow[];
+  sessionId: string;
+  capturedAt: string | null;
+}): Promise<PhotoAnalysisResult> => {
+  const config = PHOTO_ANALYSIS_CONFIGS[kind];
+  const referenced = attachPhotoReferences(photos);
+  const textPayload = JSON.stringify(
+    {
+      purpose: config.purpose,
+      instructions: {
+        tone: config.tone,
+        requirements: config.requirements,
+      },
+      session: {
+        id: sessionId,
+        capturedAt,
+      },
+      photoShots: referenced.map((photo) => ({
+        reference: photo.reference,
+        shotType: photo.shot_type,
+        focus: photo.focus_area,
+        capturedAt: photo.created_at,
+        imageUrl: photo.image_url,
+      })),
+    },
+    null,
+    2
+  );
+
+  return requestValidatedAiJson(
+    {
+      task: kind,
+      jsonSchema: { name: config.schemaName, schema: config.schema.toJsonSchema() },
+      messages: [
+        { role: "system", content: config.systemPrompt },
+        {
+          role: "user",
+          content: [{ type: "text", text: textPayload }, ...buildVisionAttachments(referenced)],
+        },
+      ],
+    },
+    config.schema
+  );
+};
+
+export const persistPhotoAnalysis = async (
+  supabase: SupabaseClient,
+  { kind, sessionId, result }: { kind: PhotoAnalysisKind; sessionId: string; result: PhotoAnalysisResult }
+) => {
+  const params = { sessionId, kind, promptVersion: PHOTO_ANALYSIS_CONFIGS[kind].promptVersion };
+  if (!result.ok) {
+    return recordAiReportFailure(supabase, params, result);
+  }
+  return insertAiReportVersion(supabase, {
+    ...params,
+    provider: result.provider,
+    model: result.model,
+    status: "ready",
+    payload: result.value,
+  });
+};
+
+const toFailedResult = (row: AiReportVersionRow): PhotoAnalysisResult => ({
+  ok: false,
+  provider: row.provider ?? "",
+  model: row.model ?? "",
+  reasks: 0,
+  code: row.failure_reason?.code ?? "upstream",
+  error: row.failure_reason?.error ?? "AI 분석에 실패했습니다.",
+  issues: row.failure_reason?.issues ?? [],
+});
+
+// A failure from moments ago is returned as-is instead of asking the provider again.
+export const analyzeSessionPhotos = async (
+  supabase: SupabaseClient,
+  input: Parameters<typeof requestPhotoAnalysis>[0]
+) => {
+  const recentFailure = await fetchRecentAiFailure(supabase, input.sessionId, input.kind);
+  if (recentFailure) {
+    return { result: toFailedResult(recentFailure), saved: recentFailure };
+  }
+  const result = await requestPhotoAnalysis(input);
+  const saved = await persistPhotoAnalysis(supabase, {
+    kind: input.kind,
+    sessionId: input.sessionId,
+    result,
+  });
+  return { result, saved };
+};
@@ -0,0 +1,150 @@
+import { type SupabaseClient } from "@supabase/supabase-js";
+import {
+  COMPARABLE_SHOT_TYPES,
+  type ComparableShotType,
+  type ComparisonCandidate,
+  type ComparisonPhoto,
+  type PhotoPair,
+} from "@tangly/domain";
+
+import type { PhotoRow } from "@/lib/recommendations";
+import { resolveSessionReportType } from "@/lib/report-archive";
+
+export { COMPARABLE_SHOT_TYPES } from "@tangly/domain";
+export type {
+  ComparableShotType,
+  ComparisonCandidate,
+  ComparisonPhoto,
+  PhotoPair,
+} from "@tangly/domain";
+
+export type ComparisonSessionRow = {
+  id: string;
+  created_at: string | null;
+  source: string | null;
+};
+
+const SHOT_LABELS: Record<ComparableShotType, string> = {
+  base: "정면",
+  cheek: "볼",
+  eye_open: "눈 뜬 눈가",
+  eye_closed: "눈 감은 눈가",
+  trouble_overview: "트러블 전체",
+  trouble_detail: "트러블 근접",
+};
+
+const CANDIDATE_LIMIT = 20;
+
+const toShotType = (value?: string | null): ComparableShotType | null => {
+  const normalized = (value ?? "").toLowerCase();
+  return (COMPARABLE_SHOT_TYPES as readonly string[]).includes(normalized)
+    ? (normalized as ComparableShotType)
+    : null;
+};
+
+// Flows like capture take the same shot type more than once, so shots are matched by their order.
+const groupShots = (photos: PhotoRow[]) => {
+  const groups = new Map<ComparableShotType, ComparisonPhoto[]>();
+  [...photos]
+    .sort((a, b) => Date.parse(a.created_at ?? "") - Date.parse(b.created_at ?? ""))
+    .forEach((photo) => {
+      const shotType = toShotType(photo.shot_type);
+      if (!shotType || !photo.image_url) return;
+      const bucket = groups.get(shotType) ?? [];
+      bucket.push({ photoId: photo.id, imageUrl: photo.image_url, createdAt: photo.created_at ?? null });
+      groups.set(shotType, bucket);
+    });
+  return groups;
+};
+
+export const pairSessionPhotos = (beforePhotos: PhotoRow[], afterPhotos: PhotoRow[]): PhotoPair[] => {
+  const before = groupShots(beforePhotos);
+  const after = groupShots(afterPhotos);
+  return COMPARABLE_SHOT_TYPES.flatMap((shotType) => {
+    const previous = before.get(shotType) ?? [];
+    const next = after.get(shotType) ?? [];
+    const count = Math.min(previous.length, next.length);
+    return Array.from({ length: count }, (_, index) => ({
+      key: `${shotType}:${index}`,
+      shotType,
+      label: count > 1 ? `${SHOT_LABELS[shotType]} ${index + 1}` : SHOT_LABELS[shotType],
+      before: previous[index],
+      after: next[index],
+    }));
+  });
+};
+
+export const fetchSessionPhotos = async (supabase: SupabaseClient, sessionIds: string[]) => {
+  const grouped = new Map<string, PhotoRow[]>();
+  if (!sessionIds.length) {
+    return grouped;
+  }
+  const { data, error } = await supabase
+    .from("photos")
+    .select("id, session_id, shot_type, focus_area, image_url, created_at")
+    .in("session_id", sessionIds);
+  if (error) {
+    throw error;
+  }
+  ((data ?? []) as PhotoRow[]).forEach((photo) => {
+    if (!photo.session_id) return;
+    const bucket = grouped.get(photo.session_id) ?? [];
+    bucket.push(photo);
+    grouped.set(photo.session_id, bucket);
+  });
+  return grouped;
+};
+
+// Other sessions of the same user and report type that share at least one shot type, newest first.
+export const listComparisonCandidates = async (
+  supabase: SupabaseClient,
+  userId: string,
+  session: ComparisonSessionRow,
+  sessionPhotos: PhotoRow[]
+): Promise<ComparisonCandidate[]> => {
+  const shotTypes = new Set(groupShots(sessionPhotos).keys());
+  if (!shotTypes.size) {
+    return [];
+  }
+  const type = resolveSessionReportType(session.source);
+  const { data, error } = await supabase
+    .from("analysis_sessions")
+    .select("id, created_at, source")
+    .eq("user_id", userId)
+    .neq("id", session.id)
+    .order("created_at", { ascending: false })
+    .limit(CANDIDATE_LIMIT * 2);
+  if (error) {
+    throw error;
+  }
+  const sameType = ((data ?? []) as ComparisonSessionRow[]).filter(
+    (row) => resolveSessionReportType(row.source) === type
+  );
+  const photos = await fetchSessionPhotos(
+    supabase,
+    sameType.map((row) => row.id)
+  );
+
+  return sameType
+    .map((row) => ({
+      sessionId: row.id,
+      createdAt: row.created_at,
+      type,
+      shotTypes: Array.from(groupShots(photos.get(row.id) ?? []).keys()).filter((shot) =>
+        shotTypes.has(shot)
+      ),
+    }))
+    .filter((candidate) => candidate.shotTypes.length)
+    .slice(0, CANDIDATE_LIMIT);
+};
+
+export const pickDefaultCandidate = (
+  session: ComparisonSessionRow,
+  candidates: ComparisonCandidate[]
+) => {
+  const current = Date.parse(session.created_at ?? "");
+  const earlier = candidates.find(
+    (candidate) => Date.parse(candidate.createdAt ?? "") < current
+  );
+  return earlier ?? candidates[0] ?? null;
+};
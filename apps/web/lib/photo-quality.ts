@@ -0,0 +1,165 @@
+import type {
+  PhotoQualityIssue,
+  PhotoQualityIssueCode,
+  PhotoQualityMetrics,
+  PhotoQualityVerdict,
+} from "@tangly/domain";
+import sharp from "sharp";
+
+import { decodeGrayscale, measureExposure, measureSharpness } from "@/lib/image-analysis";
+
+export type {
+  PhotoQualityIssue,
+  PhotoQualityIssueCode,
+  PhotoQualityMetrics,
+  PhotoQualityVerdict,
+} from "@tangly/domain";
+
+export const MAX_UPLOAD_BYTES = 15 * 1024 * 1024;
+const ACCEPTED_FORMATS = ["jpeg", "png", "webp", "heif"];
+const MIN_SHORT_EDGE = 320;
+const MAX_LONG_EDGE = 8000;
+const ANALYSIS_WIDTH = 512;
+
+const BRIGHTNESS_RANGE = { min: 55, max: 215, warnMin: 75, warnMax: 195 };
+const CLIP_LIMITS = { error: 0.3, warning: 0.12 };
+const SHARPNESS_LIMITS: Record<string, { error: number; warning: number }> = {
+  default: { error: 18, warning: 40 },
+  trouble_detail: { error: 12, warning: 30 },
+  eye_closed: { error: 12, warning: 30 },
+};
+
+const ISSUE_MESSAGES: Record<PhotoQualityIssueCode, string> = {
+  too_small: "해상도가 너무 낮아요. 카메라에 조금 더 가까이 다가가 다시 촬영해 주세요.",
+  too_large: "이미지 해상도가 너무 커요. 기본 카메라 설정으로 다시 촬영해 주세요.",
+  too_dark: "사진이 너무 어두워요. 밝은 곳에서 얼굴 정면으로 빛을 받으며 촬영해 주세요.",
+  too_bright: "사진이 너무 밝아요. 직사광선이나 조명을 살짝 피해서 촬영해 주세요.",
+  underexposed: "그림자 영역이 넓어 피부 결이 보이지 않아요. 조명을 얼굴 쪽으로 돌려 주세요.",
+  overexposed: "빛 반사로 하얗게 날아간 영역이 많아요. 각도를 조금 바꿔 촬영해 주세요.",
+  blurry: "초점이 흐려요. 휴대폰을 고정하고 초점이 맞을 때까지 잠시 기다려 주세요.",
+};
+
+export class PhotoRejectedError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "PhotoRejectedError";
+    this.status = status;
+  }
+}
+
+const issue = (code: PhotoQualityIssueCode, severity: PhotoQualityIssue["severity"]) => ({
+  code,
+  severity,
+  message: ISSUE_MESSAGES[code],
+});
+
+export const assessPhotoQuality = async (
+  buffer: Buffer,
+  shotType: string
+): Promise<PhotoQualityVerdict> => {
+  if (buffer.byteLength > MAX_UPLOAD_BYTES) {
+    throw new PhotoRejectedError(413, "이미지 용량은 15MB 이하만 업로드할 수 있습니다.");
+  }
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(buffer).metadata();
+  } catch {
+    throw new PhotoRejectedError(415, "이미지 파일만 업로드할 수 있습니다.");
+  }
+  if (!metadata.format || !ACCEPTED_FORMATS.includes(metadata.format)) {
+    throw new PhotoRejectedError(415, "JPEG, PNG, WebP, HEIC 이미지만 업로드할 수 있습니다.");
+  }
+
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  const width = (rotated ? metadata.height : metadata.width) ?? 0;
+  const height = (rotated ? metadata.width : metadata.height) ?? 0;
+  const issues: PhotoQualityIssue[] = [];
+
+  if (Math.min(width, height) < MIN_SHORT_EDGE) {
+    issues.push(issue("too_small", "error"));
+  }
+  if (Math.max(width, height) > MAX_LONG_EDGE) {
+    issues.push(issue("too_large", "error"));
+  }
+  if (issues.length) {
+    return buildVerdict(issues, null);
+  }
+
+  const image = await decodeGrayscale(buffer, ANALYSIS_WIDTH);
+  const exposure = measureExposure(image);
+  const sharpness = measureSharpness(image);
+  const metrics: PhotoQualityMetrics = {
+    width,
+    height,
+    format: metadata.format,
+    bytes: buffer.byteLength,
+    brightness: round(exposure.brightness),
+    sharpness: round(sharpness),
+    shadowClip: round(exposure.shadowClip, 3),
+    highlightClip: round(exposure.highlightClip, 3),
+  };
+
+  if (metrics.brightness < BRIGHTNESS_RANGE.min) {
+    issues.push(issue("too_dark", "error"));
+  } else if (metrics.brightness < BRIGHTNESS_RANGE.warnMin) {
+    issues.push(issue("too_dark", "warning"));
+  } else if (metrics.brightness > BRIGHTNESS_RANGE.max) {
+    issues.push(issue("too_bright", "error"));
+  } else if (metrics.brightness > BRIGHTNESS_RANGE.warnMax) {
+    issues.push(issue("too_bright", "warning"));
+  }
+
+  if (metrics.shadowClip >= CLIP_LIMITS.error) {
+    issues.push(issue("underexposed", "error"));
+  } else if (metrics.shadowClip >= CLIP_LIMITS.warning) {
+    issues.push(issue("underexposed", "warning"));
+  }
+  if (metrics.highlightClip >= CLIP_LIMITS.error) {
+    issues.push(issue("overexposed", "error"));
+  } else if (metrics.highlightClip >= CLIP_LIMITS.warning) {
+    issues.push(issue("overexposed", "warning"));
+  }
+
+  const sharpnessLimits = SHARPNESS_LIMITS[shotType] ?? SHARPNESS_LIMITS.default;
+  if (metrics.sharpness < sharpnessLimits.error) {
+    issues.push(issue("blurry", "error"));
+  } else if (metrics.sharpness < sharpnessLimits.warning) {
+    issues.push(issue("blurry", "warning"));
+  }
+
+  return buildVerdict(issues, metrics);
+};
+
+const buildVerdict = (
+  issues: PhotoQualityIssue[],
+  metrics: PhotoQualityMetrics | null
+): PhotoQualityVerdict => {
+  const errors = issues.filter((entry) => entry.severity === "error");
+  const warnings = issues.filter((entry) => entry.severity === "warning");
+  if (errors.length) {
+    return {
+      passed: false,
+      retake: true,
+      headline: "사진을 다시 촬영해 주세요.",
+      detail: errors[0].message,
+      issues,
+      metrics,
+    };
+  }
+  return {
+    passed: true,
+    retake: false,
+    headline: warnings.length ? "촬영은 저장했지만 품질이 조금 아쉬워요." : "촬영 품질이 좋아요.",
+    detail: warnings[0]?.message ?? "밝기와 초점이 분석에 충분합니다.",
+    issues,
+    metrics,
+  };
+};
+
+const round = (value: number, digits = 1) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
@@ -0,0 +1,75 @@
+import { type SupabaseClient } from "@supabase/supabase-js";
+
+import type { PhotoRow } from "@/lib/recommendations";
+
+export const PHOTO_BUCKET = process.env.NEXT_PUBLIC_SUPABASE_STORAGE_BUCKET || "photos";
+
+const parsedTtl = Number.parseInt(process.env.PHOTO_URL_TTL_SECONDS ?? "", 10);
+// Long enough for an AI provider to fetch the images during one report request.
+export const PHOTO_URL_TTL_SECONDS = Number.isFinite(parsedTtl) && parsedTtl > 0 ? parsedTtl : 600;
+
+const PUBLIC_OBJECT_MARKER = `/storage/v1/object/public/${PHOTO_BUCKET}/`;
+
+// Rows written before the bucket went private hold full public URLs; newer rows hold the object path.
+export const toPhotoPath = (value?: string | null): string | null => {
+  const input = value?.trim();
+  if (!input) {
+    return null;
+  }
+  const markerIndex = input.indexOf(PUBLIC_OBJECT_MARKER);
+  if (markerIndex >= 0) {
+    const path = input.slice(markerIndex + PUBLIC_OBJECT_MARKER.length).split("?")[0];
+    return decodeURIComponent(path) || null;
+  }
+  return /^[a-z][a-z0-9+.-]*:/i.test(input) ? null : input.replace(/^\/+/, "");
+};
+
+export const createSignedPhotoUrls = async (
+  supabase: SupabaseClient,
+  paths: string[],
+  expiresIn = PHOTO_URL_TTL_SECONDS
+): Promise<Map<string, string>> => {
+  const unique = Array.from(new Set(paths.filter(Boolean)));
+  const signed = new Map<string, string>();
+  if (!unique.length) {
+    return signed;
+  }
+  const { data, error } = await supabase.storage
+    .from(PHOTO_BUCKET)
+    .createSignedUrls(unique, expiresIn);
+  if (error) {
+    throw error;
+  }
+  (data ?? []).forEach((entry) => {
+    if (entry.path && entry.signedUrl && !entry.error) {
+      signed.set(entry.path, entry.signedUrl);
+    }
+  });
+  return signed;
+};
+
+// Replaces each stored path with a signed URL. URLs outside our bucket are left untouched, and
+// objects that can no longer be signed come back without an image rather than a dead link.
+export const signPhotoRows = async <T extends PhotoRow>(
+  supabase: SupabaseClient,
+  rows: T[]
+): Promise<T[]> => {
+  const paths = rows.map((row) => toPhotoPath(row.image_path ?? row.image_url));
+  const signed = await createSignedPhotoUrls(
+    supabase,
+    paths.filter((path): path is string => Boolean(path))
+  );
+  return rows.map((row, index) => {
+    const path = paths[index];
+    return path ? { ...row, image_url: signed.get(path) ?? null } : row;
+  });
+};
+
+export const signPhotoUrl = async (supabase: SupabaseClient, value?: string | null) => {
+  const path = toPhotoPath(value);
+  if (!path) {
+    return value ?? null;
+  }
+  const signed = await createSignedPhotoUrls(supabase, [path]);
+  return signed.get(path) ?? null;
+};
@@ -0,0 +1,84 @@
+import { type SupabaseClient } from "@supabase/supabase-js";
+import {
+  normalizeReaction,
+  type ProductFeedback,
+  type ProductReaction,
+} from "@tangly/domain";
+
+export { normalizeReaction } from "@tangly/domain";
+export type { ProductFeedback, ProductReaction } from "@tangly/domain";
+
+type ProductFeedbackRow = {
+  user_id: string;
+  product_id: string;
+  reaction: string;
+  updated_at: string | null;
+};
+
+const toProductFeedback = (row: ProductFeedbackRow): ProductFeedback | null => {
+  const reaction = normalizeReaction(row.reaction);
+  if (!reaction) {
+    return null;
+  }
+  return { productId: row.product_id, reaction, updatedAt: row.updated_at };
+};
+
+export const listProductFeedback = async (
+  supabase: SupabaseClient,
+  userId: string
+): Promise<ProductFeedback[]> => {
+  const { data, error } = await supabase
+    .from("product_feedback")
+    .select("user_id, product_id, reaction, updated_at")
+    .eq("user_id", userId)
+    .order("updated_at", { ascending: false });
+  if (error) {
+    throw error;
+  }
+  return ((data ?? []) as ProductFeedbackRow[])
+    .map(toProductFeedback)
+    .filter((entry): entry is ProductFeedback => Boolean(entry));
+};
+
+// One reaction per product: a new reaction replaces the previous one.
+export const setProductFeedback = async (
+  supabase: SupabaseClient,
+  userId: string,
+  productId: string,
+  reaction: ProductReaction
+): Promise<ProductFeedback> => {
+  const { data, error } = await supabase
+    .from("product_feedback")
+    .upsert(
+      {
+        user_id: userId,
+        product_id: productId,
+        reaction,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id,product_id" }
+    )
+    .select("user_id, product_id, reaction, updated_at")
+    .single<ProductFeedbackRow>();
+  if (error) {
+    throw error;
+  }
+  return { productId: data.product_id, reaction, updatedAt: data.updated_at };
+};
+
+export const clearProductFeedback = async (
+  supabase: SupabaseClient,
+  userId: string,
+  productId: string
+) => {
+  const { data, error } = await supabase
+    .from("product_feedback")
+    .delete()
+    .eq("user_id", userId)
+    .eq("product_id", productId)
+    .select("product_id");
+  if (error) {
+    throw error;
+  }
+  return Boolean(data?.length);
+};
@@ -1,3 +1,34 @@
+import {
+  PRICE_TIERS,
+  type NeedEntry as DomainNeedEntry,
+  type NeedLevel,
+  type NeedMatch,
+  type NeedPick,
+  type NeedTag,
+  type PriceTier,
+  type ProductReaction,
+  type ProductRecommendation,
+  type ReportItem,
+  type ScoreBreakdown,
+  type ShelfSummary,
+} from "@tangly/domain";
+
+import type { ProductFeedback } from "@/lib/product-feedback";
+import type { UserProduct } from "@/lib/user-products";
+
+export { normalizePriceTier } from "@tangly/domain";
+export type {
+  NeedLevel,
+  NeedMatch,
+  NeedPick,
+  NeedTag,
+  PriceTier,
+  ProductRecommendation,
+  ReportItem,
+  ScoreBreakdown,
+  ShelfSummary,
+} from "@tangly/domain";
+
 export type PhotoRow = {
   id: string;
   session_id?: string | null;
@@ -26,47 +57,15 @@ export type ProductRow = {
   note?: string | null;
   image_url?: string | null;
   title?: string | null;
+  price?: number | string | null;
+  product_url?: string | null;
 };
 
-export type NeedLevel = "high" | "medium";
-
-export type NeedTag =
-  | "hydration"
-  | "elasticity"
-  | "barrier"
-  | "soothing"
-  | "radiance"
-  | "pore_care"
-  | "sebum_control";
-
-export type NeedEntry = {
+export type NeedEntry = DomainNeedEntry & {
   id: NeedTag;
-  label: string;
-  level: NeedLevel;
-  description: string;
   reasons: string[];
 };
 
-export type ReportItem = {
-  id: string;
-  title: string;
-  description: string;
-  comparison: string;
-  status: "좋음" | "보통" | "주의";
-};
-
-export type ProductRecommendation = {
-  id: string;
-  name: string;
-  brand: string | null;
-  category: string | null;
-  reason: string;
-  focus: string[];
-  keyIngredients: string[];
-  note?: string | null;
-  imageUrl?: string | null;
-};
-
 export type RecommendationPayload = {
   sessionLabel: string;
   summary: string;
@@ -75,6 +74,8 @@ export type RecommendationPayload = {
   tips: string[];
   needs: NeedEntry[];
   recommendations: ProductRecommendation[];
+  picks?: NeedPick[];
+  shelf?: ShelfSummary | null;
 };
 
 type NeedDefinition = {
@@ -137,6 +138,39 @@ const NEED_DEFINITIONS: Record<NeedTag, NeedDefinition> = {
   },
 };
 
+const CATEGORY_LABELS: Record<string, string> = {
+  cleanser: "클렌저",
+  toner: "토너",
+  mist: "미스트",
+  essence: "에센스",
+  serum: "세럼",
+  ampoule: "앰플",
+  emulsion: "로션",
+  gel: "젤",
+  eye: "아이크림",
+  cream: "크림",
+  balm: "밤",
+  oil: "페이스 오일",
+  sunscreen: "선크림",
+  mask: "마스크팩",
+};
+
+// Dislikes and irritation remove a product outright; the rest only move it up or down the list.
+const EXCLUDED_REACTIONS: ProductReaction[] = ["dislike", "irritation"];
+const REACTION_ADJUSTMENTS: Partial<Record<ProductReaction, number>> = {
+  like: 1,
+  used: -2,
+};
+
+// Olive Young list prices in KRW: under 20,000 is a budget pick, 40,000 and up is premium.
+const PRICE_TIER_LIMITS: { tier: PriceTier; below: number }[] = [
+  { tier: "budget", below: 20000 },
+  { tier: "mid", below: 40000 },
+];
+const BUDGET_MATCH_BONUS = 0.5;
+// Rows ingested before price/product_url existed only carry them in the crawler note.
+const LEGACY_NOTE_PATTERN = /^OliveYoung \| *([0-9]*) *\| *(\S*)/;
+
 type NeedScoreEntry = { id: NeedTag; score: number; reasons: string[] };
 
 type AnalysisContext = {
@@ -163,6 +197,23 @@ const toArray = (value: unknown): string[] => {
 const normalizeTag = (value: string) =>
   value.trim().toLowerCase().replace(/[^a-z0-9가-힣]+/g, "_");
 
+export const readPurchaseInfo = (product: ProductRow) => {
+  const legacy = (product.note ?? "").match(LEGACY_NOTE_PATTERN);
+  const rawPrice =
+    product.price !== null && product.price !== undefined && `${product.price}`.trim()
+      ? product.price
+      : legacy?.[1];
+  const price = Number.parseInt(`${rawPrice ?? ""}`, 10);
+  const productUrl = product.product_url?.trim() || legacy?.[2] || null;
+  return {
+    price: Number.isFinite(price) && price > 0 ? price : null,
+    productUrl,
+  };
+};
+
+const isWithinBudget = (tier: PriceTier | null, budget: PriceTier | null) =>
+  !tier || !budget || PRICE_TIERS.indexOf(tier) <= PRICE_TIERS.indexOf(budget);
+
 const ensureNeedEntry = (map: Map<NeedTag, NeedScoreEntry>, id: NeedTag) => {
   if (!map.has(id)) {
     map.set(id, { id, score: 0, reasons: [] });
@@ -261,6 +312,19 @@ const deriveContext = (photos: PhotoRow[], oxResponses: OxResponseRow[]): Analys
   };
 };
 
+const applyFeedbackToNeeds = (
+  needScores: Map<NeedTag, NeedScoreEntry>,
+  feedback: ProductFeedback[]
+) => {
+  const irritations = feedback.filter((entry) => entry.reaction === "irritation").length;
+  if (!irritations) {
+    return;
+  }
+  const weight = Math.min(irritations, 2);
+  bumpNeed(needScores, "soothing", weight * 1.5, "추천 제품을 쓰고 자극을 느꼈다고 알려주셨어요.");
+  bumpNeed(needScores, "barrier", weight, "자극 반응이 있어 장벽을 먼저 다독여야 해요.");
+};
+
 const weightToLevel = (score: number): NeedLevel => (score >= 2 ? "high" : "medium");
 
 const buildNarrative = (
@@ -398,82 +462,153 @@ const buildNarrative = (
   return { needs: prioritized, summary, highlight, items, tips };
 };
 
-const pickRecommendations = (
+type ScoredProduct = {
+  product: ProductRow;
+  score: number;
+  need: NeedTag;
+  scoring: ScoreBreakdown;
+  reaction?: ProductReaction;
+  price: number | null;
+  productUrl: string | null;
+  tier: PriceTier | null;
+};
+
+const scoreProducts = (
   products: ProductRow[],
   needs: NeedEntry[],
-  context: AnalysisContext
-): ProductRecommendation[] => {
-  if (!products.length || !needs.length) {
-    return [];
-  }
-
+  {
+    owned,
+    feedback,
+    budget,
+  }: { owned: UserProduct[]; feedback: ProductFeedback[]; budget: PriceTier | null }
+): ScoredProduct[] => {
   const needOrder = new Map<NeedTag, number>();
   needs.forEach((need, idx) => needOrder.set(need.id, idx));
+  const ownedIds = new Set(owned.map((item) => item.productId).filter(Boolean));
+  const ownedCategories = new Set(owned.map((item) => normalizeTag(item.category ?? "")).filter(Boolean));
+  const reactions = new Map(feedback.map((entry) => [entry.productId, entry.reaction]));
 
-  const scored = products
+  return products
     .map((product) => {
       const normalizedCategory = normalizeTag(product.category ?? "");
-      const effectTags = toArray(product.effect_tags).map(normalizeTag);
-      let bestNeed: NeedTag | null = null;
-      let score = 0;
+      const reaction = reactions.get(`${product.id}`);
+      if (
+        ownedIds.has(`${product.id}`) ||
+        ownedCategories.has(normalizedCategory) ||
+        (reaction && EXCLUDED_REACTIONS.includes(reaction))
+      ) {
+        return null;
+      }
+      const effectTags = toArray(product.effect_tags);
+      const matches: NeedMatch[] = [];
 
       needs.forEach((need) => {
-        const synonyms = NEED_DEFINITIONS[need.id].synonyms.map(normalizeTag);
-        const hasTagMatch = effectTags.some((tag) => synonyms.includes(tag));
-        if (hasTagMatch) {
-          const priorityWeight = needs.length - (needOrder.get(need.id) ?? 0);
-          const categoryBonus = NEED_DEFINITIONS[need.id].categories.some((cat) =>
-            normalizedCategory.includes(cat)
-          )
-            ? 1.2
-            : 0;
-          const candidateScore = priorityWeight * 1.5 + categoryBonus;
-          if (candidateScore > score) {
-            score = candidateScore;
-            bestNeed = need.id;
-          }
+        const synonyms = getNeedSynonyms(need.id);
+        const normalizedSynonyms = synonyms.map(normalizeTag);
+        const matchedTags = effectTags.filter((tag) =>
+          normalizedSynonyms.includes(normalizeTag(tag))
+        );
+        if (!matchedTags.length) {
+          return;
         }
+        const normalizedMatches = matchedTags.map(normalizeTag);
+        const rank = needOrder.get(need.id) ?? 0;
+        const priorityWeight = needs.length - rank;
+        const categoryBonus = NEED_DEFINITIONS[need.id].categories.some((cat) =>
+          normalizedCategory.includes(cat)
+        )
+          ? 1.2
+          : 0;
+        matches.push({
+          need: need.id,
+          label: need.label,
+          rank: rank + 1,
+          matchedTags,
+          matchedSynonyms: synonyms.filter((synonym) =>
+            normalizedMatches.includes(normalizeTag(synonym))
+          ),
+          priorityWeight,
+          categoryBonus,
+          score: priorityWeight * 1.5 + categoryBonus,
+        });
       });
 
-      if (!bestNeed) {
+      if (!matches.length) {
         return null;
       }
 
+      // Stable sort keeps the higher-priority need first when two needs tie on score.
+      matches.sort((a, b) => b.score - a.score);
+      const best = matches[0];
+      const { price, productUrl } = readPurchaseInfo(product);
+      const tier = getPriceTier(price);
       const ingredientBonus = toArray(product.key_ingredients).length ? 0.3 : 0;
+      const feedbackAdjustment = (reaction && REACTION_ADJUSTMENTS[reaction]) ?? 0;
+      const budgetAdjustment = budget && tier === budget ? BUDGET_MATCH_BONUS : 0;
+      const scoring: ScoreBreakdown = {
+        need: best.need,
+        needLabel: best.label,
+        matches,
+        priorityScore: best.priorityWeight * 1.5,
+        categoryBonus: best.categoryBonus,
+        ingredientBonus,
+        feedbackAdjustment,
+        budgetAdjustment,
+        total: best.score + ingredientBonus + feedbackAdjustment + budgetAdjustment,
+      };
       return {
         product,
-        score: score + ingredientBonus,
-        need: bestNeed,
+        score: scoring.total,
+        need: best.need,
+        scoring,
+        reaction,
+        price,
+        productUrl,
+        tier,
       };
     })
-    .filter((entry): entry is { product: ProductRow; score: number; need: NeedTag } => Boolean(entry))
+    .filter((entry): entry is NonNullable<typeof entry> => Boolean(entry))
     .sort((a, b) => b.score - a.score);
+};
+
+const toRecommendation = (
+  entry: ScoredProduct,
+  context: AnalysisContext,
+  includeScoring: boolean,
+  need: NeedTag = entry.need
+): ProductRecommendation => ({
+  id: entry.product.id,
+  name: entry.product.name ?? entry.product.title ?? "추천 제품",
+  brand: entry.product.brand ?? null,
+  category: entry.product.category ?? null,
+  reason: buildRecommendationReason(need, context),
+  focus: [NEED_DEFINITIONS[need].label],
+  keyIngredients: toArray(entry.product.key_ingredients).slice(0, 4),
+  note: entry.product.note ?? null,
+  imageUrl: entry.product.image_url ?? null,
+  price: entry.price,
+  productUrl: entry.productUrl,
+  priceTier: entry.tier,
+  ...(entry.reaction ? { feedback: entry.reaction } : {}),
+  ...(includeScoring ? { scoring: entry.scoring } : {}),
+});
 
+const pickRecommendations = (
+  scored: ScoredProduct[],
+  context: AnalysisContext,
+  budget: PriceTier | null,
+  includeScoring: boolean
+): ProductRecommendation[] => {
   const deduped: ProductRecommendation[] = [];
   const seen = new Set<string>();
 
   for (const entry of scored) {
     const id = entry.product.id;
-    if (seen.has(id)) {
+    if (seen.has(id) || !isWithinBudget(entry.tier, budget)) {
       continue;
     }
     seen.add(id);
-    const needDefinition = NEED_DEFINITIONS[entry.need];
-    const productName = entry.product.name ?? entry.product.title ?? "추천 제품";
-    const keyIngredients = toArray(entry.product.key_ingredients).slice(0, 4);
-    const reason = buildRecommendationReason(entry.need, context);
-
-    deduped.push({
-      id,
-      name: productName,
-      brand: entry.product.brand ?? null,
-      category: entry.product.category ?? null,
-      reason,
-      focus: [needDefinition.label],
-      keyIngredients,
-      note: entry.product.note ?? null,
-      imageUrl: entry.product.image_url ?? null,
-    });
+    deduped.push(toRecommendation(entry, context, includeScoring));
 
     // continue collecting beyond 3 to provide a richer list
   }
@@ -481,6 +616,39 @@ const pickRecommendations = (
   return deduped;
 };
 
+// Picks ignore the budget filter on purpose: the premium pick is the upgrade option to compare against.
+const buildNeedPicks = (
+  scored: ScoredProduct[],
+  needs: NeedEntry[],
+  context: AnalysisContext,
+  includeScoring: boolean
+): NeedPick[] =>
+  needs
+    .map((need) => {
+      const candidates = scored
+        .map((entry) => ({
+          entry,
+          score: entry.scoring.matches.find((match) => match.need === need.id)?.score ?? null,
+        }))
+        .filter((candidate) => candidate.score !== null && candidate.entry.price !== null);
+      const pickTier = (tier: PriceTier) => {
+        const [best] = candidates
+          .filter((candidate) => candidate.entry.tier === tier)
+          .sort(
+            (a, b) =>
+              (b.score ?? 0) - (a.score ?? 0) || (a.entry.price ?? 0) - (b.entry.price ?? 0)
+          );
+        return best ? toRecommendation(best.entry, context, includeScoring, need.id) : null;
+      };
+      return {
+        need: need.id,
+        needLabel: need.label,
+        budgetPick: pickTier("budget"),
+        premiumPick: pickTier("premium"),
+      };
+    })
+    .filter((pick) => pick.budgetPick || pick.premiumPick);
+
 const buildRecommendationReason = (need: NeedTag, context: AnalysisContext): string => {
   const entry = context.needScores.get(need);
   if (entry?.reasons.length) {
@@ -507,20 +675,63 @@ const buildRecommendationReason = (need: NeedTag, context: AnalysisContext): str
   }
 };
 
+// Owned products count as covering a need when their effect tags match it; a need nothing on the
+// shelf covers is reported as a gap, pointing at categories the user doesn't have yet.
+const buildShelfSummary = (needs: NeedEntry[], owned: UserProduct[]): ShelfSummary | null => {
+  if (!owned.length) {
+    return null;
+  }
+  const coveredCategories = Array.from(
+    new Set(owned.map((item) => normalizeTag(item.category ?? "")).filter(Boolean))
+  );
+  const ownedTags = new Set(owned.flatMap((item) => item.effectTags.map(normalizeTag)));
+  const coveredNeeds = NEED_TAGS.filter((id) =>
+    getNeedSynonyms(id).some((synonym) => ownedTags.has(normalizeTag(synonym)))
+  );
+
+  const gaps = needs
+    .filter((need) => !coveredNeeds.includes(need.id))
+    .map((need) => {
+      const missing = NEED_DEFINITIONS[need.id].categories.filter(
+        (category) => !coveredCategories.includes(category)
+      );
+      if (missing.length) {
+        return `${need.label}: 화장대에 ${need.label} 케어 제품이 없어요. ${missing
+          .slice(0, 2)
+          .map(getCategoryLabel)
+          .join("·")} 중 하나로 채워 보세요.`;
+      }
+      return `${need.label}: 가지고 있는 제품 중 ${need.label} 기능이 있는 제품이 없어요. 다 쓴 제품을 ${need.label} 제품으로 바꿔 보세요.`;
+    });
+
+  return { owned: owned.length, coveredCategories, coveredNeeds, gaps };
+};
+
 export const buildRecommendationPayload = ({
   sessionId,
   photos,
   oxResponses,
   products,
+  owned = [],
+  feedback = [],
+  budget = null,
+  includeScoring = false,
 }: {
   sessionId: string;
   photos: PhotoRow[];
   oxResponses: OxResponseRow[];
   products: ProductRow[];
+  owned?: UserProduct[];
+  feedback?: ProductFeedback[];
+  budget?: PriceTier | null;
+  includeScoring?: boolean;
 }): RecommendationPayload => {
   const context = deriveContext(photos, oxResponses);
+  applyFeedbackToNeeds(context.needScores, feedback);
   const { needs, summary, highlight, items, tips } = buildNarrative(context);
-  const recommendations = pickRecommendations(products, needs, context);
+  const scored =
+    products.length && needs.length ? scoreProducts(products, needs, { owned, feedback, budget }) : [];
+  const recommendations = pickRecommendations(scored, context, budget, includeScoring);
 
   return {
     sessionLabel: sessionId,
@@ -530,5 +741,40 @@ export const buildRecommendationPayload = ({
     tips,
     needs,
     recommendations,
+    picks: buildNeedPicks(scored, needs, context, includeScoring),
+    shelf: buildShelfSummary(needs, owned),
   };
 };
+
+// The per-product score breakdown is a tuning aid, so routes only return it for `?debug=scoring`.
+export const wantsScoringBreakdown = (url: URL) => url.searchParams.get("debug") === "scoring";
+
+export const NEED_TAGS = Object.keys(NEED_DEFINITIONS) as NeedTag[];
+
+export const getNeedLabel = (id: NeedTag) => NEED_DEFINITIONS[id].label;
+
+export const getPriceTier = (price: number | null): PriceTier | null => {
+  if (price === null) {
+    return null;
+  }
+  return PRICE_TIER_LIMITS.find((limit) => price < limit.below)?.tier ?? "premium";
+};
+
+export const getCategoryLabel = (category: string) => CATEGORY_LABELS[category] ?? category;
+
+// Catalog ingestion stores need ids as effect tags, so the id itself always counts as a synonym.
+export const getNeedSynonyms = (id: NeedTag) => [id, ...NEED_DEFINITIONS[id].synonyms];
+
+export const scoreSessionNeeds = ({
+  photos,
+  oxResponses,
+}: {
+  photos: PhotoRow[];
+  oxResponses: OxResponseRow[];
+}): Record<NeedTag, number> => {
+  const { needScores } = deriveContext(photos, oxResponses);
+  return NEED_TAGS.reduce(
+    (acc, id) => ({ ...acc, [id]: needScores.get(id)?.score ?? 0 }),
+    {} as Record<NeedTag, number>
+  );
+};
@@ -0,0 +1,118 @@
+import { REPORT_ARCHIVE_TYPES, type ReportArchiveType } from "@tangly/domain";
+
+export { REPORT_ARCHIVE_TYPES } from "@tangly/domain";
+export type { ReportArchiveType } from "@tangly/domain";
+
+export type ReportArchiveCursor = {
+  createdAt: string;
+  id: string;
+};
+
+export type ReportArchiveDateRange = {
+  from: string | null;
+  until: string | null;
+};
+
+const SESSION_SOURCE_TYPES: Record<string, ReportArchiveType> = {
+  eye_wrinkle: "eye_wrinkle",
+  trouble_check: "trouble",
+};
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}:\d{2})$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const resolveSessionReportType = (source?: string | null): ReportArchiveType =>
+  SESSION_SOURCE_TYPES[(source ?? "").toLowerCase()] ?? "skin";
+
+// "skin" covers every source without its own report type, so it can only be expressed as an exclusion.
+export const resolveSessionSourceFilter = (types: ReportArchiveType[]) => {
+  const sources = Object.entries(SESSION_SOURCE_TYPES);
+  if (!types.includes("skin")) {
+    return {
+      mode: "include" as const,
+      sources: sources.filter(([, type]) => types.includes(type)).map(([source]) => source),
+    };
+  }
+  const excluded = sources.filter(([, type]) => !types.includes(type)).map(([source]) => source);
+  return excluded.length ? { mode: "exclude" as const, sources: excluded } : null;
+};
+
+export const parseReportArchiveTypes = (value?: string | null) => {
+  if (!value) {
+    return { types: [...REPORT_ARCHIVE_TYPES] as ReportArchiveType[], invalid: [] as string[] };
+  }
+  const requested = value
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  const invalid = requested.filter(
+    (entry) => !(REPORT_ARCHIVE_TYPES as readonly string[]).includes(entry)
+  );
+  const types = REPORT_ARCHIVE_TYPES.filter((type) => requested.includes(type));
+  return { types: types.length ? types : [...REPORT_ARCHIVE_TYPES], invalid };
+};
+
+export const encodeReportArchiveCursor = (cursor: ReportArchiveCursor) =>
+  Buffer.from(JSON.stringify([cursor.createdAt, cursor.id])).toString("base64url");
+
+export const decodeReportArchiveCursor = (value?: string | null): ReportArchiveCursor | null => {
+  if (!value) {
+    return null;
+  }
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    // Both values end up inside a PostgREST filter string, so only plain timestamps and UUIDs pass.
+    // The timestamp keeps its own precision: Postgres stores microseconds, toISOString() would drop them.
+    if (
+      typeof createdAt !== "string" ||
+      typeof id !== "string" ||
+      !TIMESTAMP_PATTERN.test(createdAt) ||
+      !UUID_PATTERN.test(id) ||
+      Number.isNaN(Date.parse(createdAt))
+    ) {
+      return null;
+    }
+    return { createdAt, id: id.toLowerCase() };
+  } catch {
+    return null;
+  }
+};
+
+// "to" is inclusive: a bare date covers the whole day, so the range ends before the next day starts.
+export const parseReportArchiveDateRange = (
+  fromValue?: string | null,
+  toValue?: string | null
+): ReportArchiveDateRange | null => {
+  const from = fromValue ? parseDate(fromValue) : null;
+  const to = toValue ? parseDate(toValue) : null;
+  if ((fromValue && !from) || (toValue && !to)) {
+    return null;
+  }
+  let until: Date | null = null;
+  if (to && toValue) {
+    until = new Date(to.getTime() + (DATE_ONLY_PATTERN.test(toValue.trim()) ? 86_400_000 : 1));
+  }
+  if (from && until && from.getTime() >= until.getTime()) {
+    return null;
+  }
+  return { from: from?.toISOString() ?? null, until: until?.toISOString() ?? null };
+};
+
+export const compareArchiveRows = (left: ReportArchiveCursor, right: ReportArchiveCursor) => {
+  const diff = Date.parse(right.createdAt) - Date.parse(left.createdAt);
+  if (diff !== 0) {
+    return diff;
+  }
+  return right.id < left.id ? -1 : right.id > left.id ? 1 : 0;
+};
+
+// PostgREST filter for rows strictly after the cursor in (created_at desc, id desc) order.
+export const buildCursorFilter = (cursor: ReportArchiveCursor) =>
+  `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`;
+
+const parseDate = (value: string) => {
+  const trimmed = value.trim();
+  const parsed = new Date(DATE_ONLY_PATTERN.test(trimmed) ? `${trimmed}T00:00:00Z` : trimmed);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
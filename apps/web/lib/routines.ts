@@ -1,7 +1,21 @@
 import { type SupabaseClient } from "@supabase/supabase-js";
+import type {
+  MonthlyHistoryEntry,
+  MonthlyRoutinePayload,
+  RoutineAction,
+  RoutineCheckDay,
+  RoutineCheckStep,
+  RoutineIntensity,
+  RoutineStep,
+  RoutineStreak,
+  WeeklyHistoryEntry,
+  WeeklyHistoryPayload,
+  WeeklyRoutinePayload,
+} from "@tangly/domain";
 
 import {
   buildRecommendationPayload,
+  getCategoryLabel,
   type NeedEntry,
   type OxResponseRow,
   type PhotoRow,
@@ -9,6 +23,14 @@ import {
   type RecommendationPayload,
 } from "@/lib/recommendations";
 import { ensureAiReport, type AiReportContent } from "@/lib/ai-report";
+import {
+  buildIngredientProfile,
+  checkIngredientSafety,
+  formatIngredientWarning,
+  isSensitiveSkin,
+  toIngredientProfile,
+  toStepSubjects,
+} from "@/lib/ingredient-safety";
 import {
   fetchProfileDetails,
   mapConcernToFocus,
@@ -20,6 +42,17 @@ import {
   fetchProfileOxForUser,
   mergeSessionAndProfileOx,
 } from "@/lib/ox-storage";
+import { signPhotoRows } from "@/lib/photo-storage";
+import { listProductFeedback, type ProductFeedback } from "@/lib/product-feedback";
+import { listUserProducts, type UserProduct } from "@/lib/user-products";
+import {
+  addDays,
+  addMonths,
+  getZonedDayStart,
+  getZonedMonthStart,
+  getZonedWeekRange,
+  toZonedDate,
+} from "@/lib/timezone";
 
 type MonthlyRoutineRow = {
   id: string;
@@ -50,56 +83,56 @@ type WeeklyRoutineRow = {
   actions: unknown;
   warnings: unknown;
   ai_payload: Record<string, unknown> | null;
+  ingredient_profile: unknown;
   generated_at: string | null;
   updated_at: string | null;
 };
 
-export type MonthlyRoutinePayload = {
-  id: string;
-  periodMonth: string;
-  goal: string;
-  summary: string[];
-  cautions: string | null;
-  habits: string[];
-  generatedAt: string | null;
-};
+export type {
+  MonthlyHistoryEntry,
+  MonthlyRoutinePayload,
+  RoutineAction,
+  RoutineCheckDay,
+  RoutineCheckStep,
+  RoutineIntensity,
+  RoutineStep,
+  RoutineStreak,
+  WeeklyHistoryEntry,
+  WeeklyHistoryPayload,
+  WeeklyRoutinePayload,
+} from "@tangly/domain";
 
-export type WeeklyRoutinePayload = {
-  id: string;
-  weekStart: string;
-  weekEnd: string;
-  focus: string;
-  focusReason: string;
-  conclusion: string;
-  recommendedDays: string[];
-  intensity: "gentle" | "standard" | "focus";
-  optionalSteps: RoutineStep[];
-  baseRoutine: string[];
-  actions: RoutineAction[];
-  warnings: string[];
-  aiPayload?: AiReportContent | null;
-  generatedAt: string | null;
-  progress: {
-    completed: number;
-    target: number;
-    daysChecked: string[];
-  };
+export type WeeklyProgressDetail = {
+  count: number;
+  daysChecked: string[];
+  steps: RoutineCheckStep[];
+  grid: RoutineCheckDay[];
 };
 
-export type RoutineAction = {
-  title: string;
-  description: string;
+export type RoutineCheckTarget =
+  | { ok: true; date: string; steps: string[] | null }
+  | { ok: false; error: string };
+
+type WeeklyAdaptation = {
+  intensity: RoutineIntensity;
+  recommendedDays: string[];
+  reasons: string[];
 };
 
-export type RoutineStep = {
-  key: string;
-  label: string;
-  enabled: boolean;
+type PreviousWeekSummary = {
+  weekStart: string;
+  sessionId: string | null;
+  intensity: RoutineIntensity;
+  completed: number;
+  target: number;
+  checkedDays: string[];
 };
 
-export type WeeklyProgressDetail = {
-  count: number;
-  daysChecked: string[];
+type RoutineCheckRow = {
+  routine_id?: string | null;
+  created_at: string | null;
+  check_date: string | null;
+  step_key: string | null;
 };
 
 type RecommendationContext = {
@@ -107,6 +140,8 @@ type RecommendationContext = {
   payload: RecommendationPayload;
   photos: PhotoRow[];
   ox: OxResponseRow[];
+  owned: UserProduct[];
+  feedback: ProductFeedback[];
 };
 
 const DEFAULT_OPTIONAL_STEPS: RoutineStep[] = [
@@ -115,14 +150,48 @@ const DEFAULT_OPTIONAL_STEPS: RoutineStep[] = [
   { key: "peel", label: "부드러운 각질케어", enabled: false },
 ];
 
+// Rows written before per-step check-ins carry no step and stand for a whole completed day.
+const LEGACY_CHECK_STEP = "routine";
+
 const DAY_SETS: string[][] = [
   ["월", "수", "금"],
   ["화", "목", "토"],
   ["수", "금", "일"],
 ];
 
-export const ensureMonthlyRoutine = async (supabase: SupabaseClient, userId: string) => {
-  const periodMonth = getMonthStart().toISOString().slice(0, 10);
+const WEEK_DAY_LABELS = ["월", "화", "수", "목", "금", "토", "일"];
+
+const ROUTINE_CATEGORY_ORDER = [
+  "cleanser",
+  "toner",
+  "mist",
+  "essence",
+  "serum",
+  "ampoule",
+  "emulsion",
+  "gel",
+  "eye",
+  "cream",
+  "balm",
+  "oil",
+  "sunscreen",
+];
+
+const INTENSITY_ORDER: RoutineIntensity[] = ["gentle", "standard", "focus"];
+
+// Evenly spaced defaults; days the user actually kept last week are preferred over these.
+const INTENSITY_DAYS: Record<RoutineIntensity, string[]> = {
+  gentle: ["화", "금"],
+  standard: DAY_SETS[0],
+  focus: ["월", "수", "금", "일"],
+};
+
+export const ensureMonthlyRoutine = async (
+  supabase: SupabaseClient,
+  userId: string,
+  timeZone: string
+) => {
+  const periodMonth = getZonedMonthStart(timeZone);
 
   const { data: existing } = await supabase
     .from("monthly_routines")
@@ -135,14 +204,16 @@ export const ensureMonthlyRoutine = async (supabase: SupabaseClient, userId: str
     return toMonthlyPayload(existing);
   }
 
-  const [context, profile] = await Promise.all([
+  const [context, profile, targetDays] = await Promise.all([
     loadRecommendationContext(supabase, userId).catch(() => null),
     fetchProfileDetails(supabase, userId).catch(() => null),
+    fetchLatestWeeklyTarget(supabase, userId).catch(() => INTENSITY_DAYS.standard.length),
   ]);
   const monthly = deriveMonthlyRoutine(
     context?.payload,
     context?.payload?.needs ?? [],
-    profile ?? null
+    profile ?? null,
+    targetDays
   );
 
   const { data: inserted, error } = await supabase
@@ -166,8 +237,12 @@ export const ensureMonthlyRoutine = async (supabase: SupabaseClient, userId: str
   return toMonthlyPayload(inserted);
 };
 
-export const ensureWeeklyRoutine = async (supabase: SupabaseClient, userId: string) => {
-  const { weekStart, weekEnd } = getWeekRange();
+export const ensureWeeklyRoutine = async (
+  supabase: SupabaseClient,
+  userId: string,
+  timeZone: string
+) => {
+  const { weekStart, weekEnd } = getZonedWeekRange(timeZone);
 
   const { data: existing } = await supabase
     .from("weekly_routines")
@@ -194,7 +269,26 @@ export const ensureWeeklyRoutine = async (supabase: SupabaseClient, userId: stri
     profile: profile ?? null,
   });
 
-  const weekly = deriveWeeklyRoutine(context.payload, aiReport.payload ?? null, profile ?? null);
+  const previous = await loadPreviousWeekSummary(supabase, userId, weekStart, timeZone).catch(
+    (error) => {
+      console.warn("previous weekly routine load error", error);
+      return null;
+    }
+  );
+  const adaptation = planWeeklyAdaptation({
+    weekStart,
+    previous,
+    sessionId: context.sessionId,
+    needs: context.payload.needs,
+    ox: context.ox,
+  });
+  const weekly = deriveWeeklyRoutine(
+    context.payload,
+    adaptation,
+    aiReport.payload ?? null,
+    profile ?? null,
+    context.owned
+  );
   const { data: inserted, error } = await supabase
     .from("weekly_routines")
     .insert({
@@ -212,6 +306,11 @@ export const ensureWeeklyRoutine = async (supabase: SupabaseClient, userId: stri
       actions: weekly.actions,
       warnings: weekly.warnings,
       ai_payload: aiReport.payload ?? null,
+      ingredient_profile: buildIngredientProfile(
+        context.payload.recommendations,
+        context.ox,
+        context.owned
+      ),
     })
     .select("*")
     .maybeSingle<WeeklyRoutineRow>();
@@ -226,13 +325,14 @@ export const ensureWeeklyRoutine = async (supabase: SupabaseClient, userId: stri
 export const updateWeeklyRoutine = async (
   supabase: SupabaseClient,
   userId: string,
+  timeZone: string,
   updates: {
     recommendedDays?: string[];
     intensity?: "gentle" | "standard" | "focus";
     optionalSteps?: RoutineStep[];
   }
 ) => {
-  const { weekStart } = getWeekRange();
+  const { weekStart } = getZonedWeekRange(timeZone);
   const payload: Record<string, unknown> = {};
   if (updates.recommendedDays) {
     payload.recommended_days = updates.recommendedDays;
@@ -259,57 +359,450 @@ export const updateWeeklyRoutine = async (
   return data;
 };
 
+export const buildRoutineCheckSteps = (row: WeeklyRoutineRow): RoutineCheckStep[] => [
+  ...toStringArray(row.base_routine).map((line, index) => ({
+    key: `base_${index + 1}`,
+    label: line.split(":")[0].trim() || line,
+    kind: "base" as const,
+  })),
+  ...toStepArray(row.optional_steps)
+    .filter((step) => step.enabled)
+    .map((step) => ({ key: step.key, label: step.label, kind: "optional" as const })),
+];
+
+// Without explicit steps a check marks every base step for the day and an undo clears the whole day.
+export const resolveCheckTarget = (
+  row: WeeklyRoutineRow,
+  timeZone: string,
+  input: { date?: unknown; steps?: unknown },
+  mode: "check" | "undo"
+): RoutineCheckTarget => {
+  const today = toZonedDate(new Date(), timeZone);
+  const date = typeof input.date === "string" && input.date.trim() ? input.date.trim() : today;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return { ok: false, error: "날짜 형식이 올바르지 않습니다." };
+  }
+  if (date < row.week_start || date > row.week_end) {
+    return { ok: false, error: "이번 주 날짜만 체크할 수 있어요." };
+  }
+  if (date > today) {
+    return { ok: false, error: "아직 오지 않은 날은 체크할 수 없어요." };
+  }
+
+  const knownSteps = buildRoutineCheckSteps(row);
+  if (input.steps === undefined || input.steps === null) {
+    if (mode === "undo") {
+      return { ok: true, date, steps: null };
+    }
+    const baseSteps = knownSteps.filter((step) => step.kind === "base").map((step) => step.key);
+    return { ok: true, date, steps: baseSteps.length ? baseSteps : [LEGACY_CHECK_STEP] };
+  }
+  if (!Array.isArray(input.steps) || !input.steps.length) {
+    return { ok: false, error: "steps는 단계 key 배열이어야 합니다." };
+  }
+  const steps = Array.from(new Set(input.steps.map((step) => `${step}`.trim())));
+  const unknown = steps.filter((step) => !knownSteps.some((known) => known.key === step));
+  if (unknown.length) {
+    return { ok: false, error: `알 수 없는 루틴 단계입니다: ${unknown.join(", ")}` };
+  }
+  return { ok: true, date, steps };
+};
+
 export const recordWeeklyCheck = async (
   supabase: SupabaseClient,
-  routineId: string,
-  weekStart?: string,
-  weekEnd?: string
+  row: WeeklyRoutineRow,
+  timeZone: string,
+  date: string,
+  steps: string[]
 ) => {
-  const { error } = await supabase
+  const { error } = await supabase.from("weekly_routine_checks").upsert(
+    steps.map((step) => ({ routine_id: row.id, check_date: date, step_key: step })),
+    { onConflict: "routine_id,check_date,step_key", ignoreDuplicates: true }
+  );
+  if (error) {
+    throw error;
+  }
+  return getWeeklyProgressDetail(supabase, row, timeZone);
+};
+
+export const undoWeeklyCheck = async (
+  supabase: SupabaseClient,
+  row: WeeklyRoutineRow,
+  timeZone: string,
+  date: string,
+  steps: string[] | null
+) => {
+  let query = supabase
     .from("weekly_routine_checks")
-    .insert({ routine_id: routineId });
+    .delete()
+    .eq("routine_id", row.id)
+    .eq("check_date", date);
+  if (steps) {
+    query = query.in("step_key", steps);
+  }
+  const { error } = await query;
   if (error) {
     throw error;
   }
-  return getWeeklyProgressDetail(supabase, routineId, weekStart, weekEnd);
+
+  if (!steps) {
+    const { error: legacyError } = await supabase
+      .from("weekly_routine_checks")
+      .delete()
+      .eq("routine_id", row.id)
+      .is("check_date", null)
+      .gte("created_at", getZonedDayStart(date, timeZone))
+      .lt("created_at", getZonedDayStart(addDays(date, 1), timeZone));
+    if (legacyError) {
+      throw legacyError;
+    }
+  }
+
+  return getWeeklyProgressDetail(supabase, row, timeZone);
 };
 
+// A day counts toward the weekly goal once every base step is checked; optional steps are extra.
 export const getWeeklyProgressDetail = async (
   supabase: SupabaseClient,
-  routineId: string,
-  weekStart?: string,
-  weekEnd?: string
+  row: WeeklyRoutineRow,
+  timeZone: string
 ): Promise<WeeklyProgressDetail> => {
-  const range = weekStart && weekEnd ? { weekStart, weekEnd } : getWeekRange();
   const { data, error } = await supabase
     .from("weekly_routine_checks")
-    .select("created_at")
-    .eq("routine_id", routineId)
-    .gte("created_at", `${range.weekStart}T00:00:00.000Z`)
-    .lte("created_at", `${range.weekEnd}T23:59:59.999Z`)
+    .select("created_at, check_date, step_key")
+    .eq("routine_id", row.id)
     .order("created_at", { ascending: true });
 
   if (error) {
     throw error;
   }
 
-  const daysChecked = Array.from(
-    new Set(
-      (data ?? [])
-        .map((entry) => (entry?.created_at ? `${entry.created_at}`.slice(0, 10) : null))
-        .filter((value): value is string => Boolean(value))
-    )
-  );
+  return buildWeeklyProgressDetail(row, (data ?? []) as RoutineCheckRow[], timeZone);
+};
+
+const buildWeeklyProgressDetail = (
+  row: WeeklyRoutineRow,
+  checks: RoutineCheckRow[],
+  timeZone: string
+): WeeklyProgressDetail => {
+  const checksByDate = new Map<string, Set<string>>();
+  checks.forEach((entry) => {
+    const date =
+      entry.check_date ?? (entry.created_at ? toZonedDate(`${entry.created_at}`, timeZone) : null);
+    if (!date) return;
+    const bucket = checksByDate.get(date) ?? new Set<string>();
+    bucket.add(entry.step_key ?? LEGACY_CHECK_STEP);
+    checksByDate.set(date, bucket);
+  });
+
+  const steps = buildRoutineCheckSteps(row);
+  const baseKeys = steps.filter((step) => step.kind === "base").map((step) => step.key);
+  const stepOrder = [...steps.map((step) => step.key), LEGACY_CHECK_STEP];
+  const grid = Array.from({ length: 7 }, (_, index): RoutineCheckDay => {
+    const date = addDays(row.week_start, index);
+    const checked = checksByDate.get(date) ?? new Set<string>();
+    return {
+      date,
+      steps: stepOrder.filter((key) => checked.has(key)),
+      complete:
+        checked.has(LEGACY_CHECK_STEP) ||
+        (baseKeys.length ? baseKeys.every((key) => checked.has(key)) : checked.size > 0),
+    };
+  });
+  const daysChecked = grid.filter((day) => day.complete).map((day) => day.date);
 
   return {
     count: daysChecked.length,
     daysChecked,
+    steps,
+    grid,
   };
 };
 
-export const getWeeklyProgressCount = async (supabase: SupabaseClient, routineId: string) => {
-  const { count } = await getWeeklyProgressDetail(supabase, routineId);
-  return count;
+// Newest first; the current week is included and flagged so the app can show it as in progress.
+export const listWeeklyHistory = async (
+  supabase: SupabaseClient,
+  userId: string,
+  timeZone: string,
+  limit: number
+): Promise<WeeklyHistoryPayload> => {
+  const weeks = await loadWeeklyHistoryEntries(supabase, userId, timeZone, { limit });
+  return {
+    weeks,
+    streak: computeWeeklyStreak(weeks, getZonedWeekRange(timeZone).weekStart),
+    bestWeek: pickBestWeek(weeks),
+  };
+};
+
+// A month's completion rolls up the weekly routines that start inside it.
+export const listMonthlyHistory = async (
+  supabase: SupabaseClient,
+  userId: string,
+  timeZone: string,
+  limit: number
+): Promise<MonthlyHistoryEntry[]> => {
+  const { data, error } = await supabase
+    .from("monthly_routines")
+    .select("*")
+    .eq("user_id", userId)
+    .order("period_month", { ascending: false })
+    .limit(limit);
+  if (error) {
+    throw error;
+  }
+  const rows = (data ?? []) as MonthlyRoutineRow[];
+  if (!rows.length) {
+    return [];
+  }
+
+  const weeks = await loadWeeklyHistoryEntries(supabase, userId, timeZone, {
+    from: rows[rows.length - 1].period_month,
+    to: addMonths(rows[0].period_month, 1),
+  });
+  const currentMonth = getZonedMonthStart(timeZone);
+
+  return rows.map((row) => {
+    const monthWeeks = weeks.filter(
+      (week) => week.weekStart.slice(0, 7) === row.period_month.slice(0, 7)
+    );
+    const completed = monthWeeks.reduce((sum, week) => sum + week.completed, 0);
+    const target = monthWeeks.reduce((sum, week) => sum + week.target, 0);
+    return {
+      id: row.id,
+      periodMonth: row.period_month,
+      goal: row.goal,
+      weeks: monthWeeks.length,
+      completed,
+      target,
+      rate: toCompletionRate(completed, target),
+      current: row.period_month === currentMonth,
+    };
+  });
+};
+
+const loadWeeklyHistoryEntries = async (
+  supabase: SupabaseClient,
+  userId: string,
+  timeZone: string,
+  range: { limit?: number; from?: string; to?: string }
+): Promise<WeeklyHistoryEntry[]> => {
+  let query = supabase
+    .from("weekly_routines")
+    .select("*")
+    .eq("user_id", userId)
+    .order("week_start", { ascending: false });
+  if (range.from) {
+    query = query.gte("week_start", range.from);
+  }
+  if (range.to) {
+    query = query.lt("week_start", range.to);
+  }
+  if (range.limit) {
+    query = query.limit(range.limit);
+  }
+  const { data, error } = await query;
+  if (error) {
+    throw error;
+  }
+
+  const rows = (data ?? []) as WeeklyRoutineRow[];
+  const checksByRoutine = new Map<string, RoutineCheckRow[]>();
+  if (rows.length) {
+    const { data: checks, error: checksError } = await supabase
+      .from("weekly_routine_checks")
+      .select("routine_id, created_at, check_date, step_key")
+      .in(
+        "routine_id",
+        rows.map((row) => row.id)
+      )
+      .order("created_at", { ascending: true });
+    if (checksError) {
+      throw checksError;
+    }
+    ((checks ?? []) as RoutineCheckRow[]).forEach((check) => {
+      if (!check.routine_id) return;
+      const bucket = checksByRoutine.get(check.routine_id) ?? [];
+      bucket.push(check);
+      checksByRoutine.set(check.routine_id, bucket);
+    });
+  }
+  const progress = rows.map((row) =>
+    buildWeeklyProgressDetail(row, checksByRoutine.get(row.id) ?? [], timeZone)
+  );
+  const { weekStart: currentWeek } = getZonedWeekRange(timeZone);
+
+  return rows.map((row, index) => {
+    const completed = progress[index].count;
+    const target = toWeeklyTarget(row);
+    return {
+      id: row.id,
+      weekStart: row.week_start,
+      weekEnd: row.week_end,
+      focus: row.focus,
+      intensity: normalizeIntensity(row.intensity),
+      completed,
+      target,
+      rate: toCompletionRate(completed, target),
+      achieved: completed >= target,
+      current: row.week_start === currentWeek,
+    };
+  });
+};
+
+// Counts back-to-back weeks that met their goal. A missing week breaks the run, while the
+// week in progress only extends it once achieved so an unfinished week doesn't reset it.
+const computeWeeklyStreak = (weeks: WeeklyHistoryEntry[], currentWeek: string): RoutineStreak => {
+  const ordered = [...weeks].sort((a, b) => a.weekStart.localeCompare(b.weekStart));
+  let run = 0;
+  let best = 0;
+  let lastWeek: string | null = null;
+
+  for (const week of ordered) {
+    if (week.current && !week.achieved) continue;
+    const contiguous = lastWeek !== null && addDays(lastWeek, 7) === week.weekStart;
+    run = week.achieved ? (contiguous ? run + 1 : 1) : 0;
+    best = Math.max(best, run);
+    lastWeek = week.weekStart;
+  }
+
+  const live = lastWeek === currentWeek || lastWeek === addDays(currentWeek, -7);
+  return { current: live ? run : 0, best };
+};
+
+const pickBestWeek = (weeks: WeeklyHistoryEntry[]) =>
+  weeks
+    .filter((week) => week.completed > 0)
+    .reduce<WeeklyHistoryEntry | null>((best, week) => {
+      if (!best) return week;
+      if (week.rate !== best.rate) return week.rate > best.rate ? week : best;
+      return week.completed > best.completed ? week : best;
+    }, null);
+
+const toCompletionRate = (completed: number, target: number) =>
+  target ? Math.round(Math.min(1, completed / target) * 100) / 100 : 0;
+
+const loadPreviousWeekSummary = async (
+  supabase: SupabaseClient,
+  userId: string,
+  weekStart: string,
+  timeZone: string
+): Promise<PreviousWeekSummary | null> => {
+  const { data, error } = await supabase
+    .from("weekly_routines")
+    .select("*")
+    .eq("user_id", userId)
+    .lt("week_start", weekStart)
+    .order("week_start", { ascending: false })
+    .limit(1)
+    .maybeSingle<WeeklyRoutineRow>();
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    return null;
+  }
+  const progress = await getWeeklyProgressDetail(supabase, data, timeZone);
+  return {
+    weekStart: data.week_start,
+    sessionId: data.session_id,
+    intensity: normalizeIntensity(data.intensity),
+    completed: progress.count,
+    target: toWeeklyTarget(data),
+    checkedDays: progress.daysChecked.map(
+      (date) => WEEK_DAY_LABELS[(new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7]
+    ),
+  };
+};
+
+// Moves at most one intensity step per week: adherence and a fresh analysis push it up or down,
+// and sensitive skin caps it at standard.
+const planWeeklyAdaptation = ({
+  weekStart,
+  previous,
+  sessionId,
+  needs,
+  ox,
+}: {
+  weekStart: string;
+  previous: PreviousWeekSummary | null;
+  sessionId: string;
+  needs: NeedEntry[];
+  ox: OxResponseRow[];
+}): WeeklyAdaptation => {
+  const reasons: string[] = [];
+  const baseline = previous?.intensity ?? "standard";
+  let shift = 0;
+
+  if (previous && previous.weekStart !== addDays(weekStart, -7)) {
+    shift -= 1;
+    reasons.push("오랜만에 루틴을 다시 시작해서 가볍게 출발해요.");
+  } else if (previous) {
+    const rate = previous.target ? previous.completed / previous.target : 0;
+    if (rate < 0.5) {
+      shift -= 1;
+      reasons.push(
+        `지난주에는 ${previous.completed}/${previous.target}회 체크해서 이번 주는 부담을 덜었어요.`
+      );
+    } else if (rate >= 1) {
+      shift += 1;
+      reasons.push(`지난주 목표 ${previous.target}회를 모두 채워서 한 단계 올렸어요.`);
+    }
+  }
+
+  if (!previous || previous.sessionId !== sessionId) {
+    const highNeeds = needs.filter((need) => need.level === "high");
+    if (highNeeds.length >= 2) {
+      shift += 1;
+      reasons.push(
+        `새 분석에서 ${highNeeds
+          .slice(0, 2)
+          .map((need) => need.label)
+          .join("·")} 관리가 많이 필요하다고 나왔어요.`
+      );
+    } else if (previous && !highNeeds.length) {
+      shift -= 1;
+      reasons.push("새 분석에서 피부 상태가 안정적이라 강도를 낮췄어요.");
+    }
+  }
+
+  let index = INTENSITY_ORDER.indexOf(baseline) + Math.max(-1, Math.min(1, shift));
+  index = Math.max(0, Math.min(INTENSITY_ORDER.length - 1, index));
+
+  if (isSensitiveSkin(ox) && INTENSITY_ORDER[index] === "focus") {
+    index = INTENSITY_ORDER.indexOf("standard");
+    reasons.push("예민 피부라고 답해서 집중 강도 대신 표준으로 유지해요.");
+  }
+  const intensity = INTENSITY_ORDER[index];
+
+  return {
+    intensity,
+    recommendedDays: pickRecommendedDays(intensity, previous?.checkedDays ?? []),
+    reasons,
+  };
+};
+
+const pickRecommendedDays = (intensity: RoutineIntensity, keptDays: string[]) => {
+  const count = INTENSITY_DAYS[intensity].length;
+  const picked = Array.from(new Set([...keptDays, ...INTENSITY_DAYS[intensity]])).slice(0, count);
+  return picked.sort((a, b) => WEEK_DAY_LABELS.indexOf(a) - WEEK_DAY_LABELS.indexOf(b));
+};
+
+const toWeeklyTarget = (row: WeeklyRoutineRow) =>
+  row.recommended_days?.length || DAY_SETS[0].length;
+
+// The monthly habit line follows the pace of the latest weekly routine.
+const fetchLatestWeeklyTarget = async (supabase: SupabaseClient, userId: string) => {
+  const { data, error } = await supabase
+    .from("weekly_routines")
+    .select("recommended_days")
+    .eq("user_id", userId)
+    .order("week_start", { ascending: false })
+    .limit(1)
+    .maybeSingle<Pick<WeeklyRoutineRow, "recommended_days">>();
+  if (error) {
+    throw error;
+  }
+  return data?.recommended_days?.length || INTENSITY_DAYS.standard.length;
 };
 
 export const toMonthlyPayload = (row: MonthlyRoutineRow): MonthlyRoutinePayload => ({
@@ -322,35 +815,59 @@ export const toMonthlyPayload = (row: MonthlyRoutineRow): MonthlyRoutinePayload
   generatedAt: row.generated_at,
 });
 
+// Re-checked on every read so toggling an optional step (e.g. peeling) updates the warnings.
+const checkWeeklyIngredients = (row: WeeklyRoutineRow) => {
+  const profile = toIngredientProfile(row.ingredient_profile);
+  return checkIngredientSafety(
+    [
+      ...profile.products,
+      ...toStepSubjects(toStringArray(row.base_routine), toStepArray(row.optional_steps)),
+    ],
+    { sensitive: profile.sensitive }
+  );
+};
+
 export const toWeeklyPayload = (
   row: WeeklyRoutineRow,
-  progressCount: number,
-  daysChecked: string[] = []
-): WeeklyRoutinePayload => ({
-  id: row.id,
-  weekStart: row.week_start,
-  weekEnd: row.week_end,
-  focus: row.focus,
-  focusReason: row.focus_reason ?? "",
-  conclusion: row.conclusion ?? "",
-  recommendedDays: row.recommended_days ?? DAY_SETS[0],
-  intensity: normalizeIntensity(row.intensity),
-  optionalSteps: toStepArray(row.optional_steps),
-  baseRoutine: toStringArray(row.base_routine),
-  actions: toActionArray(row.actions),
-  warnings: toStringArray(row.warnings),
-  aiPayload: (row.ai_payload as AiReportContent | null) ?? null,
-  generatedAt: row.generated_at,
-  progress: {
-    completed: progressCount,
-    target: Math.max(row.recommended_days?.length ?? DAY_SETS[0].length, 3),
-    daysChecked: Array.from(new Set(daysChecked)),
-  },
-});
+  timeZone: string,
+  progress: WeeklyProgressDetail
+): WeeklyRoutinePayload => {
+  const ingredientWarnings = checkWeeklyIngredients(row);
+  return {
+    id: row.id,
+    weekStart: row.week_start,
+    weekEnd: row.week_end,
+    focus: row.focus,
+    focusReason: row.focus_reason ?? "",
+    conclusion: row.conclusion ?? "",
+    recommendedDays: row.recommended_days ?? DAY_SETS[0],
+    intensity: normalizeIntensity(row.intensity),
+    optionalSteps: toStepArray(row.optional_steps),
+    baseRoutine: toStringArray(row.base_routine),
+    actions: toActionArray(row.actions),
+    warnings: [
+      ...ingredientWarnings.map(formatIngredientWarning),
+      ...toStringArray(row.warnings),
+    ],
+    ingredientWarnings,
+    aiPayload: (row.ai_payload as AiReportContent | null) ?? null,
+    generatedAt: row.generated_at,
+    timeZone,
+    today: toZonedDate(new Date(), timeZone),
+    progress: {
+      completed: progress.count,
+      target: toWeeklyTarget(row),
+      daysChecked: progress.daysChecked,
+      steps: progress.steps,
+      grid: progress.grid,
+    },
+  };
+};
 
 export const loadRecommendationContext = async (
   supabase: SupabaseClient,
-  userId: string
+  userId: string,
+  { includeScoring = false }: { includeScoring?: boolean } = {}
 ): Promise<RecommendationContext> => {
   const { data: session, error: sessionError } = await supabase
     .from("analysis_sessions")
@@ -364,8 +881,14 @@ export const loadRecommendationContext = async (
     throw sessionError ?? new Error("세션 정보를 찾을 수 없습니다.");
   }
 
-  const [{ data: photos, error: photosError }, { data: ox, error: oxError }, { data: products, error: productError }] =
-    await Promise.all([
+  const [
+    { data: photos, error: photosError },
+    { data: ox, error: oxError },
+    { data: products, error: productError },
+    owned,
+    feedback,
+    profile,
+  ] = await Promise.all([
       supabase
         .from("photos")
         .select("id, session_id, shot_type, focus_area, image_url, created_at")
@@ -376,8 +899,19 @@ export const loadRecommendationContext = async (
         .eq("session_id", session.id),
       supabase
         .from("products")
-        .select("id, name, brand, category, key_ingredients, note, image_url")
+        .select(
+          "id, name, brand, category, key_ingredients, effect_tags, note, image_url, price, product_url"
+        )
         .limit(80),
+      listUserProducts(supabase, userId).catch((error) => {
+        console.warn("user products load error", error);
+        return [] as UserProduct[];
+      }),
+      listProductFeedback(supabase, userId).catch((error) => {
+        console.warn("product feedback load error", error);
+        return [] as ProductFeedback[];
+      }),
+      fetchProfileDetails(supabase, userId),
     ]);
 
   if (photosError) throw photosError;
@@ -393,25 +927,33 @@ export const loadRecommendationContext = async (
     { sessionId: session.id }
   );
 
+  const signedPhotos = await signPhotoRows(supabase, (photos ?? []) as PhotoRow[]);
   const payload = buildRecommendationPayload({
     sessionId: session.id,
-    photos: (photos ?? []) as PhotoRow[],
+    photos: signedPhotos,
     oxResponses: mergedOx,
     products: (products ?? []) as ProductRow[],
+    owned,
+    feedback,
+    budget: profile?.budget ?? null,
+    includeScoring,
   });
 
   return {
     sessionId: session.id,
     payload,
-    photos: (photos ?? []) as PhotoRow[],
+    photos: signedPhotos,
     ox: mergedOx,
+    owned,
+    feedback,
   };
 };
 
 const deriveMonthlyRoutine = (
   payload?: RecommendationPayload | null,
   needs: NeedEntry[] = [],
-  profile?: ProfileDetails | null
+  profile?: ProfileDetails | null,
+  targetDays = INTENSITY_DAYS.standard.length
 ) => {
   const profileConcern = pickPrimaryConcern(profile?.concerns);
   const profileConcernLabel = concernToFriendlyLabel(profileConcern);
@@ -441,7 +983,7 @@ const deriveMonthlyRoutine = (
 
   const habits = profileConcernLabel
     ? [
-        `${profileConcernLabel} 완화를 위해 주 3회 루틴만 지켜도 충분합니다.`,
+        `${profileConcernLabel} 완화를 위해 주 ${targetDays}회 루틴만 지켜도 충분합니다.`,
         ...baseHabits,
       ].slice(0, 3)
     : baseHabits;
@@ -457,10 +999,11 @@ const deriveMonthlyRoutine = (
 
 const deriveWeeklyRoutine = (
   payload: RecommendationPayload,
+  adaptation: WeeklyAdaptation,
   ai?: AiReportContent | null,
-  profile?: ProfileDetails | null
+  profile?: ProfileDetails | null,
+  owned: UserProduct[] = []
 ) => {
-  const range = getWeekRange();
   const profileConcern = pickPrimaryConcern(profile?.concerns);
   const profileConcernLabel = concernToFriendlyLabel(profileConcern);
   const fallbackTopic =
@@ -470,17 +1013,21 @@ const deriveWeeklyRoutine = (
   const focusTopic = ai?.focus?.topic ?? fallbackTopic;
   const focus = focusLabel(focusTopic);
 
-  const focusReason =
+  const focusReason = [
     ai?.focus?.reason ??
-    (profileConcernLabel
-      ? `${profileConcernLabel} 완화를 위해 이번 주 루틴 강도를 조정했어요.`
-      : "이번 주는 느슨해진 루틴을 다시 붙잡는 데 집중해요.");
+      (profileConcernLabel
+        ? `${profileConcernLabel} 완화를 위해 이번 주 루틴 강도를 조정했어요.`
+        : "이번 주는 느슨해진 루틴을 다시 붙잡는 데 집중해요."),
+    ...adaptation.reasons,
+  ].join(" ");
   const conclusion =
-    ai?.oneLiner ?? "주 3회만 지켜도 충분합니다. 하루 정도는 쉬어가도 괜찮아요.";
+    ai?.oneLiner ??
+    `주 ${adaptation.recommendedDays.length}회만 지켜도 충분합니다. 하루 정도는 쉬어가도 괜찮아요.`;
 
-  const baseRoutine =
-    payload.items.slice(0, 4).map((item) => `${item.title}: ${item.description}`) ??
-    [];
+  const baseRoutine = [
+    ...buildOwnedRoutineLines(owned),
+    ...payload.items.map((item) => `${item.title}: ${item.description}`),
+  ].slice(0, 4);
 
   const actions =
     ai?.actions?.length
@@ -499,8 +1046,8 @@ const deriveWeeklyRoutine = (
     focus,
     focusReason,
     conclusion,
-    recommendedDays: DAY_SETS[0],
-    intensity: "standard" as const,
+    recommendedDays: adaptation.recommendedDays,
+    intensity: adaptation.intensity,
     optionalSteps: DEFAULT_OPTIONAL_STEPS,
     baseRoutine: baseRoutine.length ? baseRoutine : [
       "클렌징: 미온수와 순한 클렌저로 가볍게",
@@ -510,11 +1057,35 @@ const deriveWeeklyRoutine = (
     ],
     actions,
     warnings,
-    weekStart: range.weekStart,
-    weekEnd: range.weekEnd,
   };
 };
 
+// Owned products lead the base routine so check-ins follow what the user actually applies.
+const buildOwnedRoutineLines = (owned: UserProduct[]) => {
+  const rank = (category: string | null) => {
+    const index = ROUTINE_CATEGORY_ORDER.indexOf(category ?? "");
+    return index >= 0 ? index : ROUTINE_CATEGORY_ORDER.length;
+  };
+  const daily = owned
+    .filter((item) => item.category !== "mask")
+    .sort((a, b) => rank(a.category) - rank(b.category));
+  const buildLine = (label: string, usage: "am" | "pm") => {
+    const items = daily.filter(
+      (item) =>
+        (item.usage === usage || item.usage === "both") &&
+        !(usage === "pm" && item.category === "sunscreen")
+    );
+    if (!items.length) return null;
+    return `${label}: ${items
+      .slice(0, 5)
+      .map((item) => (item.category ? `${getCategoryLabel(item.category)}(${item.name})` : item.name))
+      .join(" → ")}`;
+  };
+  return [buildLine("아침 루틴", "am"), buildLine("저녁 루틴", "pm")].filter(
+    (line): line is string => Boolean(line)
+  );
+};
+
 const buildFallbackActions = (focus: string): RoutineAction[] => {
   switch (focus) {
     case "elasticity":
@@ -541,24 +1112,6 @@ const buildFallbackActions = (focus: string): RoutineAction[] => {
   }
 };
 
-const getMonthStart = () => {
-  const now = new Date();
-  return new Date(now.getFullYear(), now.getMonth(), 1);
-};
-
-const getWeekRange = () => {
-  const now = new Date();
-  const day = now.getDay();
-  const diff = now.getDate() - day + (day === 0 ? -6 : 1);
-  const weekStartDate = new Date(now.setDate(diff));
-  const weekEndDate = new Date(weekStartDate);
-  weekEndDate.setDate(weekStartDate.getDate() + 6);
-  return {
-    weekStart: weekStartDate.toISOString().slice(0, 10),
-    weekEnd: weekEndDate.toISOString().slice(0, 10),
-  };
-};
-
 const toStringArray = (input: unknown): string[] => {
   if (Array.isArray(input)) {
     return input.map((value) => `${value}`.trim()).filter(Boolean);
@@ -0,0 +1,341 @@
+import { type SupabaseClient } from "@supabase/supabase-js";
+import type {
+  ComparisonEntry,
+  ProgressDirection,
+  ProgressSession,
+  ProgressTimeline,
+  ProgressTrend,
+  SessionComparison,
+  TrendPoint,
+} from "@tangly/domain";
+
+import type { AiReportContent } from "@/lib/ai-report";
+import { fetchLatestAiReports } from "@/lib/ai-report-store";
+import { buildEyeWrinkleMetrics, fetchEyeWrinkleScores } from "@/lib/eye-wrinkle-report";
+import { fetchProfileOxForUser, mergeSessionAndProfileOx } from "@/lib/ox-storage";
+import {
+  buildRecommendationPayload,
+  getNeedLabel,
+  NEED_TAGS,
+  scoreSessionNeeds,
+  type NeedTag,
+  type OxResponseRow,
+  type PhotoRow,
+  type ReportItem,
+} from "@/lib/recommendations";
+import { resolveSessionReportType } from "@/lib/report-archive";
+
+export type {
+  ComparisonEntry,
+  ProgressDirection,
+  ProgressSession,
+  ProgressTimeline,
+  ProgressTrend,
+  SessionComparison,
+  TrendPoint,
+} from "@tangly/domain";
+
+export type ProgressSessionRow = {
+  id: string;
+  created_at: string | null;
+  source: string | null;
+};
+
+type MetricValue = {
+  id: string;
+  label: string;
+  value: number;
+  status: ReportItem["status"];
+};
+
+export type SessionSnapshot = ProgressSession & {
+  needScores: Record<NeedTag, number> | null;
+  metrics: MetricValue[];
+};
+
+// Report items only carry a status, so they share the eye wrinkle index scale.
+const STATUS_VALUES: Record<ReportItem["status"], number> = {
+  좋음: 88,
+  보통: 74,
+  주의: 60,
+};
+
+const NEED_STEP = 0.5;
+const METRIC_STEP = 3;
+
+export const loadSessionSnapshots = async (
+  supabase: SupabaseClient,
+  userId: string,
+  sessions: ProgressSessionRow[]
+): Promise<SessionSnapshot[]> => {
+  if (!sessions.length) {
+    return [];
+  }
+  const sessionIds = sessions.map((session) => session.id);
+  const eyeSessionIds = sessions
+    .filter((session) => resolveSessionReportType(session.source) === "eye_wrinkle")
+    .map((session) => session.id);
+
+  const [
+    { data: photosData, error: photosError },
+    { data: oxData, error: oxError },
+    profileOx,
+    eyeScores,
+    eyeAiReports,
+  ] = await Promise.all([
+    supabase
+      .from("photos")
+      .select("id, session_id, shot_type, focus_area, image_url, created_at")
+      .in("session_id", sessionIds),
+    supabase
+      .from("ox_responses")
+      .select("session_id, question_key, answer, created_at")
+      .in("session_id", sessionIds),
+    fetchProfileOxForUser(supabase, userId),
+    fetchEyeWrinkleScores(supabase, eyeSessionIds),
+    fetchLatestAiReports(supabase, eyeSessionIds, "eye_wrinkle"),
+  ]);
+  if (photosError) {
+    throw photosError;
+  }
+  if (oxError) {
+    throw oxError;
+  }
+
+  const photosBySession = groupRows((photosData ?? []) as PhotoRow[]);
+  const oxBySession = groupRows((oxData ?? []) as OxResponseRow[]);
+
+  return sessions.flatMap((session): SessionSnapshot[] => {
+    const photos = photosBySession.get(session.id) ?? [];
+    if (!photos.length) {
+      return [];
+    }
+    const base: ProgressSession = {
+      sessionId: session.id,
+      createdAt: session.created_at,
+      type: resolveSessionReportType(session.source),
+    };
+
+    if (base.type === "eye_wrinkle") {
+      const metrics = buildEyeWrinkleMetrics({
+        scores: eyeScores.get(session.id) ?? null,
+        aiReport:
+          (eyeAiReports.get(session.id)?.payload as AiReportContent | undefined) ?? null,
+      }).map((metric) => ({
+        id: `eye_${metric.id}`,
+        label: metric.label,
+        value: metric.score,
+        status: metric.status,
+      }));
+      return metrics.length ? [{ ...base, needScores: null, metrics }] : [];
+    }
+
+    const oxResponses = mergeSessionAndProfileOx(oxBySession.get(session.id) ?? [], profileOx, {
+      sessionId: session.id,
+    });
+    const { items } = buildRecommendationPayload({
+      sessionId: session.id,
+      photos,
+      oxResponses,
+      products: [],
+    });
+    return [
+      {
+        ...base,
+        needScores: scoreSessionNeeds({ photos, oxResponses }),
+        metrics: items.map((item) => ({
+          id: item.id,
+          label: item.title,
+          value: STATUS_VALUES[item.status],
+          status: item.status,
+        })),
+      },
+    ];
+  });
+};
+
+export const buildProgressTimeline = (snapshots: SessionSnapshot[]): ProgressTimeline => {
+  const ordered = [...snapshots].sort(compareByCreatedAt);
+
+  const needs = NEED_TAGS.map((id) =>
+    buildTrend({
+      id,
+      label: getNeedLabel(id),
+      kind: "need",
+      points: ordered.flatMap((snapshot) =>
+        snapshot.needScores
+          ? [toPoint(snapshot, round(snapshot.needScores[id]))]
+          : []
+      ),
+    })
+  ).filter((trend) => trend.points.length);
+
+  const metricLabels = new Map<string, string>();
+  ordered.forEach((snapshot) =>
+    snapshot.metrics.forEach((metric) => metricLabels.set(metric.id, metric.label))
+  );
+  const metrics = Array.from(metricLabels.entries()).map(([id, label]) =>
+    buildTrend({
+      id,
+      label,
+      kind: "metric",
+      points: ordered.flatMap((snapshot) => {
+        const metric = snapshot.metrics.find((entry) => entry.id === id);
+        return metric ? [{ ...toPoint(snapshot, metric.value), status: metric.status }] : [];
+      }),
+    })
+  );
+
+  return {
+    sessions: ordered.map(({ sessionId, createdAt, type }) => ({ sessionId, createdAt, type })),
+    needs,
+    metrics,
+  };
+};
+
+export const compareSessionSnapshots = (
+  first: SessionSnapshot,
+  second: SessionSnapshot
+): SessionComparison => {
+  const [before, after] = [first, second].sort(compareByCreatedAt);
+
+  const needs = NEED_TAGS.flatMap((id): ComparisonEntry[] => {
+    const previous = before.needScores ? round(before.needScores[id]) : null;
+    const next = after.needScores ? round(after.needScores[id]) : null;
+    if (previous === null && next === null) {
+      return [];
+    }
+    return [buildComparisonEntry(id, getNeedLabel(id), "need", previous, next)];
+  });
+
+  const metricIds = Array.from(
+    new Set([...before.metrics, ...after.metrics].map((metric) => metric.id))
+  );
+  const metrics = metricIds.map((id) => {
+    const previous = before.metrics.find((metric) => metric.id === id);
+    const next = after.metrics.find((metric) => metric.id === id);
+    return buildComparisonEntry(
+      id,
+      next?.label ?? previous?.label ?? id,
+      "metric",
+      previous?.value ?? null,
+      next?.value ?? null
+    );
+  });
+
+  const changed = [...needs, ...metrics];
+  const improved = changed.filter((entry) => entry.direction === "improved").map((entry) => entry.label);
+  const regressed = changed.filter((entry) => entry.direction === "regressed").map((entry) => entry.label);
+
+  return {
+    before: toSession(before),
+    after: toSession(after),
+    needs,
+    metrics,
+    improved,
+    regressed,
+    summary: buildComparisonSummary(improved, regressed),
+  };
+};
+
+const buildTrend = ({
+  id,
+  label,
+  kind,
+  points,
+}: {
+  id: string;
+  label: string;
+  kind: ProgressTrend["kind"];
+  points: TrendPoint[];
+}): ProgressTrend => {
+  const higherIsBetter = kind === "metric";
+  const first = points[0]?.value ?? null;
+  const latest = points[points.length - 1]?.value ?? null;
+  const change = points.length >= 2 && first !== null && latest !== null ? round(latest - first) : null;
+  return {
+    id,
+    label,
+    kind,
+    higherIsBetter,
+    points,
+    latest,
+    change,
+    direction: change === null ? null : toDirection(change, kind),
+  };
+};
+
+const buildComparisonEntry = (
+  id: string,
+  label: string,
+  kind: ComparisonEntry["kind"],
+  before: number | null,
+  after: number | null
+): ComparisonEntry => {
+  const delta = before !== null && after !== null ? round(after - before) : null;
+  return {
+    id,
+    label,
+    kind,
+    higherIsBetter: kind === "metric",
+    before,
+    after,
+    delta,
+    direction: delta === null ? null : toDirection(delta, kind),
+  };
+};
+
+// Need scores measure how much care is required, so a falling need score is an improvement.
+const toDirection = (delta: number, kind: "need" | "metric"): ProgressDirection => {
+  const step = kind === "need" ? NEED_STEP : METRIC_STEP;
+  if (Math.abs(delta) < step) {
+    return "steady";
+  }
+  const better = kind === "need" ? delta < 0 : delta > 0;
+  return better ? "improved" : "regressed";
+};
+
+const buildComparisonSummary = (improved: string[], regressed: string[]) => {
+  if (!improved.length && !regressed.length) {
+    return "두 세션 사이에 눈에 띄는 변화는 없었어요. 지금 루틴을 꾸준히 이어가 주세요.";
+  }
+  const parts: string[] = [];
+  if (improved.length) {
+    parts.push(`${improved.slice(0, 3).join("·")} 항목이 좋아졌어요.`);
+  }
+  if (regressed.length) {
+    parts.push(`${regressed.slice(0, 3).join("·")} 항목은 이전보다 관리가 더 필요해요.`);
+  }
+  return parts.join(" ");
+};
+
+const toPoint = (snapshot: SessionSnapshot, value: number): TrendPoint => ({
+  sessionId: snapshot.sessionId,
+  createdAt: snapshot.createdAt,
+  value,
+});
+
+const toSession = ({ sessionId, createdAt, type }: SessionSnapshot): ProgressSession => ({
+  sessionId,
+  createdAt,
+  type,
+});
+
+const compareByCreatedAt = (a: ProgressSession, b: ProgressSession) => {
+  const left = a.createdAt ? Date.parse(a.createdAt) : 0;
+  const right = b.createdAt ? Date.parse(b.createdAt) : 0;
+  return left - right;
+};
+
+const groupRows = <T extends { session_id?: string | null }>(rows: T[]) => {
+  const map = new Map<string, T[]>();
+  rows.forEach((row) => {
+    if (!row?.session_id) return;
+    const bucket = map.get(row.session_id) ?? [];
+    bucket.push(row);
+    map.set(row.session_id, bucket);
+  });
+  return map;
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
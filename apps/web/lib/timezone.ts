@@ -0,0 +1,133 @@
+import { type SupabaseClient } from "@supabase/supabase-js";
+
+export const DEFAULT_TIME_ZONE = "Asia/Seoul";
+
+export const TIME_ZONE_HEADER = "x-timezone";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ZonedParts = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+export const normalizeTimeZone = (value: unknown): string | null => {
+  if (typeof value !== "string" || !value.trim()) {
+    return null;
+  }
+  try {
+    return new Intl.DateTimeFormat("en-US", { timeZone: value.trim() }).resolvedOptions().timeZone;
+  } catch {
+    return null;
+  }
+};
+
+export const readRequestTimeZone = (req: Request) =>
+  normalizeTimeZone(req.headers.get(TIME_ZONE_HEADER));
+
+// The app sends its device zone on every routine call; the last one seen is kept on the profile
+// so calls without the header (recommendations, background jobs) still use the user's calendar.
+export const resolveUserTimeZone = async (
+  supabase: SupabaseClient,
+  userId: string,
+  requested?: string | null
+) => {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("timezone")
+    .eq("id", userId)
+    .maybeSingle<{ timezone: string | null }>();
+  if (error) {
+    console.warn("resolveUserTimeZone error", error);
+  }
+  const stored = normalizeTimeZone(data?.timezone);
+
+  if (requested && requested !== stored && !error) {
+    const { error: updateError } = await supabase
+      .from("profiles")
+      .update({ timezone: requested })
+      .eq("id", userId);
+    if (updateError) {
+      console.warn("profile timezone update error", updateError);
+    }
+  }
+
+  return requested ?? stored ?? DEFAULT_TIME_ZONE;
+};
+
+const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const read = (type: Intl.DateTimeFormatPartTypes) =>
+    Number.parseInt(parts.find((part) => part.type === type)?.value ?? "0", 10);
+  return {
+    year: read("year"),
+    month: read("month"),
+    day: read("day"),
+    hour: read("hour"),
+    minute: read("minute"),
+    second: read("second"),
+  };
+};
+
+const formatDate = (year: number, month: number, day: number) =>
+  `${year}-${`${month}`.padStart(2, "0")}-${`${day}`.padStart(2, "0")}`;
+
+const parseDate = (value: string) => {
+  const [year, month, day] = value.split("-").map((part) => Number.parseInt(part, 10));
+  return Date.UTC(year, (month ?? 1) - 1, day ?? 1);
+};
+
+export const addDays = (value: string, days: number) =>
+  new Date(parseDate(value) + days * DAY_MS).toISOString().slice(0, 10);
+
+export const addMonths = (value: string, months: number) => {
+  const date = new Date(parseDate(value));
+  date.setUTCMonth(date.getUTCMonth() + months, 1);
+  return date.toISOString().slice(0, 10);
+};
+
+export const toZonedDate = (value: Date | string, timeZone: string) => {
+  const date = typeof value === "string" ? new Date(value) : value;
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return formatDate(year, month, day);
+};
+
+// UTC instant at which the given calendar day starts in the zone (handles DST shifts).
+export const getZonedDayStart = (value: string, timeZone: string) => {
+  const target = parseDate(value);
+  let guess = target;
+  for (let i = 0; i < 2; i += 1) {
+    const parts = getZonedParts(new Date(guess), timeZone);
+    const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    guess -= asUtc - target;
+  }
+  return new Date(guess).toISOString();
+};
+
+export const getZonedWeekRange = (timeZone: string, now: Date = new Date()) => {
+  const today = toZonedDate(now, timeZone);
+  const weekday = new Date(parseDate(today)).getUTCDay();
+  const weekStart = addDays(today, weekday === 0 ? -6 : 1 - weekday);
+  return {
+    weekStart,
+    weekEnd: addDays(weekStart, 6),
+  };
+};
+
+export const getZonedMonthStart = (timeZone: string, now: Date = new Date()) => {
+  const { year, month } = getZonedParts(now, timeZone);
+  return formatDate(year, month, 1);
+};
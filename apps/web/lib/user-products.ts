@@ -0,0 +1,257 @@
+import { type SupabaseClient } from "@supabase/supabase-js";
+import type { CatalogSearchResult, ProductUsage, ShelfProduct } from "@tangly/domain";
+
+import {
+  deriveEffectTags,
+  deriveKeyIngredients,
+  mapCategory,
+  parseIngredientList,
+} from "@/lib/catalog-ingestion";
+import type { ProductRow } from "@/lib/recommendations";
+
+export type { CatalogSearchResult, ProductUsage } from "@tangly/domain";
+
+type UserProductRow = {
+  id: string;
+  user_id: string;
+  product_id: string | null;
+  name: string;
+  brand: string | null;
+  category: string | null;
+  key_ingredients: string[] | null;
+  effect_tags: string[] | null;
+  usage: string;
+  created_at: string | null;
+};
+
+export type UserProduct = ShelfProduct;
+
+export type UserProductInput =
+  | { productId: string; usage: ProductUsage }
+  | {
+      productId: null;
+      name: string;
+      brand: string | null;
+      category: string | null;
+      ingredients: string[];
+      usage: ProductUsage;
+    };
+
+const USAGE_VALUES: ProductUsage[] = ["am", "pm", "both"];
+const MAX_NAME_LENGTH = 120;
+const MAX_SHELF_SIZE = 60;
+
+export const normalizeUsage = (value: unknown): ProductUsage | null => {
+  const usage = typeof value === "string" ? value.trim().toLowerCase() : "";
+  return USAGE_VALUES.includes(usage as ProductUsage) ? (usage as ProductUsage) : null;
+};
+
+const toStringList = (value: unknown): string[] => {
+  if (Array.isArray(value)) {
+    return value.map((item) => `${item}`.trim()).filter(Boolean);
+  }
+  if (typeof value === "string") {
+    return parseIngredientList(value);
+  }
+  return [];
+};
+
+export const parseUserProductInput = (
+  body: unknown
+): { ok: true; value: UserProductInput } | { ok: false; error: string } => {
+  const record = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+  const usage = normalizeUsage(record.usage ?? "both");
+  if (!usage) {
+    return { ok: false, error: "usage는 am, pm, both 중 하나여야 합니다." };
+  }
+
+  const productId = typeof record.productId === "string" ? record.productId.trim() : "";
+  if (productId) {
+    return { ok: true, value: { productId, usage } };
+  }
+
+  const name = typeof record.name === "string" ? record.name.trim() : "";
+  if (!name) {
+    return { ok: false, error: "제품을 검색해서 고르거나 제품명을 입력해 주세요." };
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    return { ok: false, error: `제품명은 ${MAX_NAME_LENGTH}자 이하로 입력해 주세요.` };
+  }
+  const brand = typeof record.brand === "string" && record.brand.trim() ? record.brand.trim() : null;
+  const category =
+    typeof record.category === "string" && record.category.trim()
+      ? record.category.trim().toLowerCase()
+      : null;
+
+  return {
+    ok: true,
+    value: {
+      productId: null,
+      name,
+      brand,
+      category,
+      ingredients: toStringList(record.ingredients),
+      usage,
+    },
+  };
+};
+
+const toUserProduct = (row: UserProductRow): UserProduct => ({
+  id: row.id,
+  productId: row.product_id,
+  name: row.name,
+  brand: row.brand,
+  category: row.category,
+  keyIngredients: row.key_ingredients ?? [],
+  effectTags: row.effect_tags ?? [],
+  usage: normalizeUsage(row.usage) ?? "both",
+  createdAt: row.created_at,
+});
+
+export const listUserProducts = async (supabase: SupabaseClient, userId: string) => {
+  const { data, error } = await supabase
+    .from("user_products")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+  if (error) {
+    throw error;
+  }
+  return ((data ?? []) as UserProductRow[]).map(toUserProduct);
+};
+
+const toCatalogList = (value: ProductRow["key_ingredients"]) =>
+  Array.isArray(value)
+    ? value.map((item) => `${item}`.trim()).filter(Boolean)
+    : typeof value === "string"
+      ? value.split(",").map((item) => item.trim()).filter(Boolean)
+      : [];
+
+// Catalog picks copy the catalog's tags; free-text entries get the same derivation the crawler uses.
+const resolveProductFields = async (supabase: SupabaseClient, input: UserProductInput) => {
+  if (input.productId !== null) {
+    const { data, error } = await supabase
+      .from("products")
+      .select("id, name, brand, category, key_ingredients, effect_tags")
+      .eq("id", input.productId)
+      .maybeSingle<ProductRow>();
+    if (error) {
+      throw error;
+    }
+    if (!data) {
+      return null;
+    }
+    return {
+      product_id: `${data.id}`,
+      name: data.name ?? data.title ?? "내 제품",
+      brand: data.brand ?? null,
+      category: data.category ?? null,
+      key_ingredients: toCatalogList(data.key_ingredients),
+      effect_tags: toCatalogList(data.effect_tags),
+    };
+  }
+
+  return {
+    product_id: null,
+    name: input.name,
+    brand: input.brand,
+    category: (input.category && mapCategory(input.category)) ?? mapCategory(input.name),
+    key_ingredients: deriveKeyIngredients(input.name, input.ingredients),
+    effect_tags: deriveEffectTags({ name: input.name, tags: [], ingredients: input.ingredients }),
+  };
+};
+
+export const addUserProduct = async (
+  supabase: SupabaseClient,
+  userId: string,
+  input: UserProductInput
+): Promise<{ ok: true; product: UserProduct } | { ok: false; error: string; status: number }> => {
+  const { count, error: countError } = await supabase
+    .from("user_products")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId);
+  if (countError) {
+    throw countError;
+  }
+  if ((count ?? 0) >= MAX_SHELF_SIZE) {
+    return {
+      ok: false,
+      error: `화장대에는 최대 ${MAX_SHELF_SIZE}개까지 등록할 수 있어요.`,
+      status: 400,
+    };
+  }
+
+  const fields = await resolveProductFields(supabase, input);
+  if (!fields) {
+    return { ok: false, error: "제품을 찾을 수 없습니다.", status: 404 };
+  }
+
+  const { data, error } = await supabase
+    .from("user_products")
+    .insert({ ...fields, user_id: userId, usage: input.usage })
+    .select("*")
+    .single<UserProductRow>();
+  if (error) {
+    throw error;
+  }
+  return { ok: true, product: toUserProduct(data) };
+};
+
+export const updateUserProductUsage = async (
+  supabase: SupabaseClient,
+  userId: string,
+  id: string,
+  usage: ProductUsage
+) => {
+  const { data, error } = await supabase
+    .from("user_products")
+    .update({ usage })
+    .eq("id", id)
+    .eq("user_id", userId)
+    .select("*")
+    .maybeSingle<UserProductRow>();
+  if (error) {
+    throw error;
+  }
+  return data ? toUserProduct(data) : null;
+};
+
+export const removeUserProduct = async (supabase: SupabaseClient, userId: string, id: string) => {
+  const { data, error } = await supabase
+    .from("user_products")
+    .delete()
+    .eq("id", id)
+    .eq("user_id", userId)
+    .select("id");
+  if (error) {
+    throw error;
+  }
+  return Boolean(data?.length);
+};
+
+export const searchCatalogProducts = async (
+  supabase: SupabaseClient,
+  query: string,
+  limit: number
+): Promise<CatalogSearchResult[]> => {
+  const term = query.replace(/[%_,()]/g, " ").trim();
+  if (!term) {
+    return [];
+  }
+  const { data, error } = await supabase
+    .from("products")
+    .select("id, name, brand, category, key_ingredients, image_url")
+    .or(`name.ilike.%${term}%,brand.ilike.%${term}%`)
+    .limit(limit);
+  if (error) {
+    throw error;
+  }
+  return ((data ?? []) as ProductRow[]).map((product) => ({
+    id: `${product.id}`,
+    name: product.name ?? product.title ?? "제품",
+    brand: product.brand ?? null,
+    category: product.category ?? null,
+    keyIngredients: toCatalogList(product.key_ingredients),
+    imageUrl: product.image_url ?? null,
+  }));
+};
@@ -1,7 +1,15 @@
+import path from "node:path";
 import type { NextConfig } from "next";
 
+// Shared domain code lives in packages/ at the repo root and ships as TypeScript source.
+const workspaceRoot = path.join(__dirname, "..", "..");
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  transpilePackages: ["@tangly/domain"],
+  outputFileTracingRoot: workspaceRoot,
+  turbopack: {
+    root: workspaceRoot,
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,92 @@
+#!/usr/bin/env node
+import 'dotenv/config';
+import fs from 'node:fs';
+import path from 'node:path';
+
+const OUTPUT_DIR = process.env.OLIVEYOUNG_OUTPUT_DIR || 'crawler-output';
+const INGEST_URL = process.env.CATALOG_INGEST_URL || 'http://localhost:3000/api/catalog/ingest';
+const INGEST_SECRET = process.env.CATALOG_INGEST_SECRET;
+const MODE = process.argv.includes('--write') ? 'write' : 'dry-run';
+const CHANGE_PREVIEW_LIMIT = Number.parseInt(process.env.CATALOG_INGEST_PREVIEW || '30', 10);
+
+const ACTION_LABELS = {
+  insert: '추가',
+  update: '변경',
+  unchanged: '유지',
+};
+
+const findLatestSnapshot = () => {
+  if (!fs.existsSync(OUTPUT_DIR)) return null;
+  const files = fs
+    .readdirSync(OUTPUT_DIR)
+    .filter((file) => file.startsWith('oliveyoung-') && file.endsWith('.json'))
+    .sort();
+  return files.length ? path.join(OUTPUT_DIR, files[files.length - 1]) : null;
+};
+
+const filePath = process.argv.slice(2).find((arg) => !arg.startsWith('--')) || findLatestSnapshot();
+
+if (!filePath) {
+  console.error(`적재할 크롤러 스냅샷이 없습니다. 파일 경로를 지정하거나 ${OUTPUT_DIR}를 확인하세요.`);
+  process.exit(1);
+}
+
+if (!INGEST_SECRET) {
+  console.error('CATALOG_INGEST_SECRET 환경변수가 설정되지 않았습니다.');
+  process.exit(1);
+}
+
+const printReport = (report) => {
+  console.log(
+    `수집 ${report.received}개 -> 정규화 ${report.normalized}개 (중복 ${report.duplicates}개, 제외 ${report.skipped.length}개)`
+  );
+  console.log(`추가 ${report.inserts}개 · 변경 ${report.updates}개 · 유지 ${report.unchanged}개`);
+
+  report.skipped.forEach((skip) => {
+    console.log(`  [제외] ${skip.name ?? '(이름 없음)'}: ${skip.reason}`);
+  });
+
+  const changed = report.changes.filter((change) => change.action !== 'unchanged');
+  changed.slice(0, CHANGE_PREVIEW_LIMIT).forEach((change) => {
+    const fields = change.action === 'update' ? ` (${change.fields.join(', ')})` : '';
+    console.log(`  [${ACTION_LABELS[change.action]}] ${change.brand ?? '-'} / ${change.name}${fields}`);
+  });
+  if (changed.length > CHANGE_PREVIEW_LIMIT) {
+    console.log(`  ... 외 ${changed.length - CHANGE_PREVIEW_LIMIT}개`);
+  }
+};
+
+const main = async () => {
+  const items = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (!Array.isArray(items)) {
+    console.error(`스냅샷 형식이 올바르지 않습니다: ${filePath}`);
+    process.exit(1);
+  }
+
+  console.log(`카탈로그 적재 시작 (${MODE}): ${filePath}`);
+  const response = await fetch(INGEST_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${INGEST_SECRET}`,
+    },
+    body: JSON.stringify({ items, apply: MODE === 'write' }),
+  });
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    console.error(`카탈로그 적재 실패 (${response.status}):`, payload.error ?? response.statusText);
+    process.exit(1);
+  }
+
+  printReport(payload);
+  if (MODE === 'write') {
+    console.log('Supabase products 테이블에 반영했습니다.');
+  } else {
+    console.log('dry-run 모드라 DB에는 반영하지 않았습니다. 반영하려면 --write 옵션을 사용하세요.');
+  }
+};
+
+main().catch((error) => {
+  console.error('카탈로그 적재 중 오류:', error);
+  process.exit(1);
+});
@@ -0,0 +1,70 @@
+export const AI_KEY_FINDING_STATUSES = ["good", "neutral", "caution"] as const;
+export const AI_FOCUS_TOPICS = [
+  "hydration",
+  "elasticity",
+  "wrinkle",
+  "radiance",
+  "trouble",
+] as const;
+export const AI_ACTION_FREQUENCIES = ["daily", "weekly", "three_per_week"] as const;
+export const AI_REPORT_KINDS = ["general", "skin", "trouble", "eye_wrinkle"] as const;
+
+export type AiKeyFindingStatus = (typeof AI_KEY_FINDING_STATUSES)[number];
+export type AiFocusTopic = (typeof AI_FOCUS_TOPICS)[number];
+export type AiActionFrequency = (typeof AI_ACTION_FREQUENCIES)[number];
+export type AiReportKind = (typeof AI_REPORT_KINDS)[number];
+
+export type AiReportContent = {
+  oneLiner: string;
+  summary: string[];
+  keyFindings: {
+    title: string;
+    status: AiKeyFindingStatus;
+    description: string;
+  }[];
+  ageComparison: {
+    percentile: number;
+    statement: string;
+  };
+  focus: {
+    topic: AiFocusTopic;
+    reason: string;
+  };
+  actions: {
+    title: string;
+    description: string;
+    frequency: AiActionFrequency;
+  }[];
+  warnings: string[];
+};
+
+export type AiReportFailure = {
+  code: string;
+  error: string;
+  issues?: { path: string; message: string }[];
+};
+
+export type AiReportVersionSummary = {
+  id: string;
+  kind: AiReportKind;
+  version: number;
+  status: "ready" | "failed";
+  provider: string | null;
+  model: string | null;
+  promptVersion: string | null;
+  generatedAt: string | null;
+  failureReason: AiReportFailure | null;
+};
+
+export type AiReportEnvelope = {
+  status: "ready" | "unavailable" | "error";
+  payload?: AiReportContent | null;
+  generatedAt?: string | null;
+  error?: string | null;
+  version?: AiReportVersionSummary | null;
+};
+
+export const parseAiReportKind = (value?: string | null): AiReportKind | null =>
+  (AI_REPORT_KINDS as readonly string[]).includes(value ?? "")
+    ? (value as AiReportKind)
+    : null;
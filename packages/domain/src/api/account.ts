@@ -0,0 +1,19 @@
+export type SignupBody = {
+  email: string;
+  password: string;
+  displayName: string;
+};
+
+export type SignupResult = {
+  id?: string;
+};
+
+export type AccountExportLink = {
+  url: string;
+  expiresAt: string;
+};
+
+export type AccountErasureResult = {
+  storageObjects: number;
+  rows: Record<string, number>;
+};
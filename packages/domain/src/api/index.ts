@@ -0,0 +1,8 @@
+export * from "./account";
+export * from "./progress";
+export * from "./recommendations";
+export * from "./reports";
+export * from "./routes";
+export * from "./routines";
+export * from "./sessions";
+export * from "./shelf";
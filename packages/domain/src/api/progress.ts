@@ -0,0 +1,55 @@
+import type { ReportItem } from "../report";
+import type { ReportArchiveType } from "./reports";
+
+export type ProgressDirection = "improved" | "regressed" | "steady";
+
+export type ProgressSession = {
+  sessionId: string;
+  createdAt: string | null;
+  type: ReportArchiveType;
+};
+
+export type TrendPoint = {
+  sessionId: string;
+  createdAt: string | null;
+  value: number;
+  status?: ReportItem["status"];
+};
+
+export type ProgressTrend = {
+  id: string;
+  label: string;
+  kind: "need" | "metric";
+  higherIsBetter: boolean;
+  points: TrendPoint[];
+  latest: number | null;
+  change: number | null;
+  direction: ProgressDirection | null;
+};
+
+export type ProgressTimeline = {
+  sessions: ProgressSession[];
+  needs: ProgressTrend[];
+  metrics: ProgressTrend[];
+};
+
+export type ComparisonEntry = {
+  id: string;
+  label: string;
+  kind: "need" | "metric";
+  higherIsBetter: boolean;
+  before: number | null;
+  after: number | null;
+  delta: number | null;
+  direction: ProgressDirection | null;
+};
+
+export type SessionComparison = {
+  before: ProgressSession;
+  after: ProgressSession;
+  needs: ComparisonEntry[];
+  metrics: ComparisonEntry[];
+  improved: string[];
+  regressed: string[];
+  summary: string;
+};
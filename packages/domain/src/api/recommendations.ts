@@ -0,0 +1,97 @@
+import type { PriceTier, ProfileDetails } from "../profile-details";
+import type { NeedLevel, NeedTag, ProductReaction, ScoreBreakdown } from "../report";
+
+export type ProductRecommendation = {
+  id: string;
+  name: string;
+  brand: string | null;
+  category: string | null;
+  reason: string;
+  focus: string[];
+  keyIngredients: string[];
+  note?: string | null;
+  imageUrl?: string | null;
+  price: number | null;
+  productUrl: string | null;
+  priceTier: PriceTier | null;
+  feedback?: ProductReaction;
+  scoring?: ScoreBreakdown;
+};
+
+export type NeedPick = {
+  need: NeedTag;
+  needLabel: string;
+  budgetPick: ProductRecommendation | null;
+  premiumPick: ProductRecommendation | null;
+};
+
+export type ShelfSummary = {
+  owned: number;
+  coveredCategories: string[];
+  coveredNeeds: NeedTag[];
+  gaps: string[];
+};
+
+export type IngredientWarning = {
+  id: string;
+  severity: "conflict" | "caution";
+  title: string;
+  message: string;
+  items: string[];
+};
+
+export type RecommendationTag = {
+  id: string;
+  label: string;
+  level: NeedLevel;
+  reason: string;
+  ingredients: string[];
+  origin: "profile" | "analysis" | "ai";
+};
+
+export type RecommendedProduct = {
+  id: string;
+  name: string;
+  brand: string | null;
+  category: string | null;
+  reason: string;
+  focus: string[];
+  keyIngredients: string[];
+  imageUrl?: string | null;
+  price: number | null;
+  productUrl: string | null;
+  priceTier: PriceTier | null;
+  tags: string[];
+  feedback: ProductReaction | null;
+  scoring?: ScoreBreakdown;
+};
+
+export type RecommendationState = {
+  mode: "weekly" | "monthly";
+  focus: string;
+  headline: string;
+  subline: string;
+  summary: string[];
+};
+
+export type RecommendationsResponse = {
+  planType: "free" | "pro";
+  profile: ProfileDetails | null;
+  state: RecommendationState | null;
+  tags: RecommendationTag[];
+  products: RecommendedProduct[];
+  picks: NeedPick[];
+  safety: IngredientWarning[];
+  shelf: ShelfSummary | null;
+};
+
+export type ProductFeedback = {
+  productId: string;
+  reaction: ProductReaction;
+  updatedAt: string | null;
+};
+
+export type ProductFeedbackBody = {
+  productId: string;
+  reaction: ProductReaction;
+};
@@ -0,0 +1,117 @@
+import type { AiReportEnvelope, AiReportKind, AiReportVersionSummary } from "../ai-report";
+import type { NeedEntry, ReportItem } from "../report";
+import type { NeedPick, ProductRecommendation } from "./recommendations";
+
+export const REPORT_ARCHIVE_TYPES = ["skin", "trouble", "eye_wrinkle", "personal_color"] as const;
+
+export type ReportArchiveType = (typeof REPORT_ARCHIVE_TYPES)[number];
+
+export type ReportArchiveItem = {
+  id: string;
+  createdAt: string | null;
+  summary: string;
+  headline: string;
+  thumbnail: string;
+  type: ReportArchiveType;
+};
+
+export type ReportArchivePage = {
+  reports: ReportArchiveItem[];
+  nextCursor: string | null;
+};
+
+export type ReportArchiveQuery = {
+  limit?: number;
+  type?: string;
+  cursor?: string;
+  from?: string;
+  to?: string;
+};
+
+export type PersonalColorInputs = {
+  tone: number; // 0 ~ 1, 0은 쿨·1은 웜
+  depth: number; // 0은 밝음·1은 딥
+  clarity: number; // 0은 소프트·1은 비비드
+};
+
+export type PersonalColorSliderDetail = {
+  id: keyof PersonalColorInputs;
+  label: string;
+  leftLabel: string;
+  rightLabel: string;
+  value: number;
+};
+
+export type PersonalColorExtras = {
+  toneLabel: string;
+  palette: string[];
+  storyline: string[];
+  sliderDetails: PersonalColorSliderDetail[];
+};
+
+export type ReportDetail = {
+  type: "skin" | "eye_wrinkle" | "personal_color";
+  sessionId: string;
+  createdAt: string | null;
+  thumbnail: string | null;
+  sessionLabel?: string;
+  summary: string;
+  highlight: string;
+  items: ReportItem[];
+  tips: string[];
+  needs: NeedEntry[];
+  recommendations: ProductRecommendation[];
+  picks?: NeedPick[];
+  extras?: PersonalColorExtras | null;
+  aiReport?: AiReportEnvelope | null;
+};
+
+export type AiReportVersionList = {
+  sessionId: string;
+  kind: AiReportKind;
+  versions: AiReportVersionSummary[];
+};
+
+export const COMPARABLE_SHOT_TYPES = [
+  "base",
+  "cheek",
+  "eye_open",
+  "eye_closed",
+  "trouble_overview",
+  "trouble_detail",
+] as const;
+
+export type ComparableShotType = (typeof COMPARABLE_SHOT_TYPES)[number];
+
+export type ComparisonPhoto = {
+  photoId: string;
+  imageUrl: string;
+  createdAt: string | null;
+};
+
+export type PhotoPair = {
+  key: string;
+  shotType: ComparableShotType;
+  label: string;
+  before: ComparisonPhoto;
+  after: ComparisonPhoto;
+};
+
+export type ComparisonCandidate = {
+  sessionId: string;
+  createdAt: string | null;
+  type: ReportArchiveType;
+  shotTypes: ComparableShotType[];
+};
+
+export type ComparisonSide = {
+  sessionId: string;
+  createdAt: string | null;
+};
+
+export type PhotoComparison = {
+  before: ComparisonSide | null;
+  after: ComparisonSide | null;
+  pairs: PhotoPair[];
+  candidates: ComparisonCandidate[];
+};
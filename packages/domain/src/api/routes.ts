@@ -0,0 +1,174 @@
+import type { AiReportEnvelope, AiReportKind } from "../ai-report";
+import type {
+  AccountErasureResult,
+  AccountExportLink,
+  SignupBody,
+  SignupResult,
+} from "./account";
+import type { SessionComparison, ProgressTimeline } from "./progress";
+import type {
+  ProductFeedback,
+  ProductFeedbackBody,
+  RecommendationsResponse,
+} from "./recommendations";
+import type {
+  AiReportVersionList,
+  PhotoComparison,
+  ReportArchivePage,
+  ReportArchiveQuery,
+  ReportDetail,
+} from "./reports";
+import type {
+  MonthlyHistoryEntry,
+  MonthlyRoutinePayload,
+  RoutineCheckBody,
+  WeeklyHistoryPayload,
+  WeeklyRoutinePayload,
+  WeeklyRoutineUpdateBody,
+} from "./routines";
+import type {
+  AnalysisSession,
+  AnalysisSessionStatus,
+  CreateAnalysisSessionBody,
+  PersonalColorSaveResult,
+  PhotoAnalysisResult,
+  PhotoUploadResult,
+  ProfileOxAnswerBody,
+  ProfileOxRecord,
+  SessionOxBody,
+} from "./sessions";
+import type { CatalogSearchResult, ProductUsage, ShelfProduct, ShelfProductBody } from "./shelf";
+
+export type ApiMethod = "GET" | "POST" | "PATCH" | "DELETE";
+
+export type ApiQueryValue = string | number | boolean | null | undefined;
+
+// Structural stand-in for FormData so this package stays free of DOM and React Native typings.
+export type ApiFormData = {
+  append(name: string, value: unknown, fileName?: string): void;
+};
+
+type Contract<Response, Body = undefined, Query = undefined> = {
+  response: Response;
+  body: Body;
+  query: Query;
+};
+
+type ScoringQuery = { debug?: "scoring" };
+
+// Keys follow "METHOD /path", with `:name` segments filled in from the request params.
+export type ApiRoutes = {
+  "POST /api/auth/signup": Contract<SignupResult, SignupBody>;
+  "DELETE /api/account": Contract<{ ok: true } & AccountErasureResult, { confirm: true }>;
+  "POST /api/account/export": Contract<AccountExportLink>;
+
+  "POST /api/analysis-sessions": Contract<AnalysisSession, CreateAnalysisSessionBody>;
+  "GET /api/analysis-sessions/:sessionId": Contract<AnalysisSession>;
+  "PATCH /api/analysis-sessions/:sessionId": Contract<
+    AnalysisSession,
+    { status: AnalysisSessionStatus }
+  >;
+  "POST /api/analysis-sessions/:sessionId/ox": Contract<
+    { success: true; count: number },
+    SessionOxBody
+  >;
+  "POST /api/upload": Contract<PhotoUploadResult, ApiFormData>;
+  "GET /api/skin-analysis/:sessionId": Contract<PhotoAnalysisResult>;
+  "GET /api/trouble-analysis/:sessionId": Contract<PhotoAnalysisResult>;
+  "GET /api/eye-wrinkle-analysis/:sessionId": Contract<PhotoAnalysisResult>;
+
+  "GET /api/reports": Contract<ReportArchivePage, undefined, ReportArchiveQuery>;
+  "GET /api/reports/:sessionId": Contract<
+    ReportDetail,
+    undefined,
+    ScoringQuery & { type?: "personal_color"; aiVersion?: number }
+  >;
+  "GET /api/reports/:sessionId/ai-versions": Contract<
+    AiReportVersionList,
+    undefined,
+    { kind?: AiReportKind }
+  >;
+  "GET /api/reports/:sessionId/ai-versions/:version": Contract<
+    AiReportEnvelope,
+    undefined,
+    { kind?: AiReportKind }
+  >;
+  "GET /api/reports/:sessionId/photo-comparison": Contract<
+    PhotoComparison,
+    undefined,
+    { against?: string }
+  >;
+  "GET /api/progress": Contract<ProgressTimeline, undefined, { limit?: number; type?: string }>;
+  "GET /api/progress/compare": Contract<SessionComparison, undefined, { before: string; after: string }>;
+
+  "GET /api/routines/weekly": Contract<{ routine: WeeklyRoutinePayload }>;
+  "PATCH /api/routines/weekly": Contract<{ routine: WeeklyRoutinePayload }, WeeklyRoutineUpdateBody>;
+  "POST /api/routines/weekly/check": Contract<{ routine: WeeklyRoutinePayload }, RoutineCheckBody>;
+  "DELETE /api/routines/weekly/check": Contract<{ routine: WeeklyRoutinePayload }, RoutineCheckBody>;
+  "GET /api/routines/weekly/history": Contract<WeeklyHistoryPayload, undefined, { limit?: number }>;
+  "GET /api/routines/monthly": Contract<{ routine: MonthlyRoutinePayload }>;
+  "GET /api/routines/monthly/history": Contract<
+    { months: MonthlyHistoryEntry[] },
+    undefined,
+    { limit?: number }
+  >;
+
+  "GET /api/recommendations": Contract<RecommendationsResponse, undefined, ScoringQuery>;
+  "GET /api/product-feedback": Contract<{ feedback: ProductFeedback[] }>;
+  "POST /api/product-feedback": Contract<{ feedback: ProductFeedback }, ProductFeedbackBody>;
+  "DELETE /api/product-feedback/:productId": Contract<{ ok: true }>;
+
+  "GET /api/profile-ox": Contract<{ answers: ProfileOxRecord[] }>;
+  "POST /api/profile-ox": Contract<{ success: true; record: ProfileOxRecord }, ProfileOxAnswerBody>;
+  "POST /api/personal-color": Contract<PersonalColorSaveResult, ApiFormData>;
+
+  "GET /api/shelf": Contract<{ products: ShelfProduct[] }>;
+  "POST /api/shelf": Contract<{ product: ShelfProduct }, ShelfProductBody>;
+  "GET /api/shelf/search": Contract<
+    { products: CatalogSearchResult[] },
+    undefined,
+    { q: string; limit?: number }
+  >;
+  "PATCH /api/shelf/:id": Contract<{ product: ShelfProduct }, { usage: ProductUsage }>;
+  "DELETE /api/shelf/:id": Contract<{ ok: true }>;
+};
+
+export type ApiRoute = keyof ApiRoutes;
+
+export type ApiResponse<R extends ApiRoute> = ApiRoutes[R]["response"];
+export type ApiBody<R extends ApiRoute> = ApiRoutes[R]["body"];
+export type ApiQuery<R extends ApiRoute> = ApiRoutes[R]["query"];
+
+type RoutePath<R extends string> = R extends `${ApiMethod} ${infer Path}` ? Path : never;
+
+type ParamNames<Path extends string> = Path extends `${string}:${infer Name}/${infer Rest}`
+  ? Name | ParamNames<`/${Rest}`>
+  : Path extends `${string}:${infer Name}`
+    ? Name
+    : never;
+
+export type ApiParams<R extends ApiRoute> = Record<ParamNames<RoutePath<R>>, string>;
+
+export const splitApiRoute = (route: ApiRoute) => {
+  const [method, path] = route.split(" ") as [ApiMethod, string];
+  return { method, path };
+};
+
+export const buildApiPath = (
+  path: string,
+  params: Record<string, string> = {},
+  query?: Record<string, ApiQueryValue>
+) => {
+  const filled = path.replace(/:([A-Za-z]+)/g, (_, name: string) => {
+    const value = params[name];
+    if (!value) {
+      throw new Error(`Missing path param: ${name}`);
+    }
+    return encodeURIComponent(value);
+  });
+  const search = Object.entries(query ?? {})
+    .filter(([, value]) => value !== undefined && value !== null && value !== "")
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join("&");
+  return search ? `${filled}?${search}` : filled;
+};
@@ -0,0 +1,111 @@
+import type { AiReportContent } from "../ai-report";
+import type { IngredientWarning } from "./recommendations";
+
+export type RoutineIntensity = "gentle" | "standard" | "focus";
+
+export type RoutineAction = {
+  title: string;
+  description: string;
+};
+
+export type RoutineStep = {
+  key: string;
+  label: string;
+  enabled: boolean;
+};
+
+export type RoutineCheckStep = {
+  key: string;
+  label: string;
+  kind: "base" | "optional";
+};
+
+export type RoutineCheckDay = {
+  date: string;
+  steps: string[];
+  complete: boolean;
+};
+
+export type MonthlyRoutinePayload = {
+  id: string;
+  periodMonth: string;
+  goal: string;
+  summary: string[];
+  cautions: string | null;
+  habits: string[];
+  generatedAt: string | null;
+};
+
+export type WeeklyRoutinePayload = {
+  id: string;
+  weekStart: string;
+  weekEnd: string;
+  focus: string;
+  focusReason: string;
+  conclusion: string;
+  recommendedDays: string[];
+  intensity: RoutineIntensity;
+  optionalSteps: RoutineStep[];
+  baseRoutine: string[];
+  actions: RoutineAction[];
+  warnings: string[];
+  ingredientWarnings: IngredientWarning[];
+  aiPayload?: AiReportContent | null;
+  generatedAt: string | null;
+  timeZone: string;
+  today: string;
+  progress: {
+    completed: number;
+    target: number;
+    daysChecked: string[];
+    steps: RoutineCheckStep[];
+    grid: RoutineCheckDay[];
+  };
+};
+
+export type WeeklyRoutineUpdateBody = {
+  recommendedDays?: string[];
+  intensity?: RoutineIntensity;
+  optionalSteps?: RoutineStep[];
+};
+
+// `date` defaults to today. Without `steps`, a check covers the base routine and an undo clears the day.
+export type RoutineCheckBody = {
+  date?: string;
+  steps?: string[];
+};
+
+export type WeeklyHistoryEntry = {
+  id: string;
+  weekStart: string;
+  weekEnd: string;
+  focus: string;
+  intensity: RoutineIntensity;
+  completed: number;
+  target: number;
+  rate: number;
+  achieved: boolean;
+  current: boolean;
+};
+
+export type MonthlyHistoryEntry = {
+  id: string;
+  periodMonth: string;
+  goal: string;
+  weeks: number;
+  completed: number;
+  target: number;
+  rate: number;
+  current: boolean;
+};
+
+export type RoutineStreak = {
+  current: number;
+  best: number;
+};
+
+export type WeeklyHistoryPayload = {
+  weeks: WeeklyHistoryEntry[];
+  streak: RoutineStreak;
+  bestWeek: WeeklyHistoryEntry | null;
+};
@@ -0,0 +1,113 @@
+import type { AiReportContent, AiReportVersionSummary } from "../ai-report";
+import type { OxAnswer } from "../ox-questions";
+import type { ReportItem } from "../report";
+
+export const ANALYSIS_SESSION_STATUSES = [
+  "capturing",
+  "awaiting_ox",
+  "ox_collected",
+  "analyzing",
+  "report_ready",
+  "failed",
+] as const;
+
+export type AnalysisSessionStatus = (typeof ANALYSIS_SESSION_STATUSES)[number];
+
+export type CreateAnalysisSessionBody = {
+  source?: string;
+  status?: AnalysisSessionStatus;
+  sessionId?: string;
+};
+
+export type AnalysisSession = {
+  sessionId: string;
+  status: AnalysisSessionStatus;
+};
+
+export type PhotoQualityIssueCode =
+  | "too_small"
+  | "too_large"
+  | "too_dark"
+  | "too_bright"
+  | "underexposed"
+  | "overexposed"
+  | "blurry";
+
+export type PhotoQualityIssue = {
+  code: PhotoQualityIssueCode;
+  severity: "error" | "warning";
+  message: string;
+};
+
+export type PhotoQualityMetrics = {
+  width: number;
+  height: number;
+  format: string;
+  bytes: number;
+  brightness: number;
+  sharpness: number;
+  shadowClip: number;
+  highlightClip: number;
+};
+
+export type PhotoQualityVerdict = {
+  passed: boolean;
+  retake: boolean;
+  headline: string;
+  detail: string;
+  issues: PhotoQualityIssue[];
+  metrics: PhotoQualityMetrics | null;
+};
+
+export type PhotoUploadResult = {
+  success: true;
+  photo: Record<string, unknown>;
+  imageUrl: string | null;
+  quality: PhotoQualityVerdict;
+};
+
+// Rejected uploads still carry the verdict so the app can explain why a retake is needed.
+export type PhotoUploadFailure = {
+  error?: string;
+  quality?: PhotoQualityVerdict | null;
+};
+
+export type EyeWrinkleMetricId = "elasticity" | "fineLines" | "hydration";
+
+export type EyeWrinkleMetric = {
+  id: EyeWrinkleMetricId;
+  label: string;
+  score: number;
+  status: ReportItem["status"];
+  detail: string;
+};
+
+export type PhotoAnalysisResult = {
+  status: "ready";
+  payload: AiReportContent;
+  version: AiReportVersionSummary | null;
+  metrics?: EyeWrinkleMetric[];
+};
+
+export type ProfileOxRecord = {
+  user_id: string;
+  question_key: string;
+  answer: string;
+  created_at?: string | null;
+  updated_at?: string | null;
+};
+
+export type ProfileOxAnswerBody = {
+  questionKey: string;
+  answer: NonNullable<OxAnswer>;
+};
+
+export type SessionOxBody = {
+  responses: { question_key: string; answer: NonNullable<OxAnswer> }[];
+};
+
+export type PersonalColorSaveResult = {
+  id: string;
+  createdAt: string | null;
+  thumbnail: string | null;
+};
@@ -0,0 +1,34 @@
+export type ProductUsage = "am" | "pm" | "both";
+
+export type ShelfProduct = {
+  id: string;
+  productId: string | null;
+  name: string;
+  brand: string | null;
+  category: string | null;
+  keyIngredients: string[];
+  effectTags: string[];
+  usage: ProductUsage;
+  createdAt: string | null;
+};
+
+export type CatalogSearchResult = {
+  id: string;
+  name: string;
+  brand: string | null;
+  category: string | null;
+  keyIngredients: string[];
+  imageUrl: string | null;
+};
+
+// Either a catalog product by id or a manual entry the user typed in.
+export type ShelfProductBody =
+  | { productId: string; usage?: ProductUsage }
+  | {
+      productId?: null;
+      name: string;
+      brand?: string | null;
+      category?: string | null;
+      ingredients?: string[] | string;
+      usage?: ProductUsage;
+    };
@@ -0,0 +1,90 @@
+const CONCERN_PRIORITY = [
+  "wrinkle",
+  "elasticity",
+  "sagging",
+  "dryness",
+  "inner_dryness",
+  "texture",
+  "dullness",
+  "radiance",
+  "spots",
+  "pigmentation",
+  "redness",
+  "sensitivity",
+  "trouble",
+  "sebum",
+  "blackhead",
+];
+
+export const CONCERN_LABELS: Record<string, string> = {
+  wrinkle: "주름",
+  elasticity: "탄력 저하",
+  sagging: "처짐(리프팅)",
+  dryness: "건조함",
+  inner_dryness: "속건조(당김)",
+  pores: "모공",
+  texture: "피부결",
+  dullness: "칙칙함",
+  radiance: "광채 부족",
+  spots: "기미/잡티",
+  pigmentation: "색소침착",
+  redness: "홍조",
+  sensitivity: "민감/자극",
+  trouble: "트러블",
+  sebum: "피지/번들거림",
+  blackhead: "블랙헤드/화이트헤드",
+  eye_wrinkle: "아이 주름",
+  dark_circle: "다크서클",
+  flakiness: "각질/들뜸",
+  makeup_caking: "메이크업 들뜸",
+  unknown: "잘 모르겠어요",
+};
+
+export const pickPrimaryConcern = (concerns?: string[] | null) => {
+  if (!concerns || !concerns.length) return null;
+  const ordered = [...concerns];
+  ordered.sort((a, b) => {
+    const left = concernPriorityIndex(a);
+    const right = concernPriorityIndex(b);
+    return left - right;
+  });
+  return ordered[0];
+};
+
+const concernPriorityIndex = (value: string) => {
+  const index = CONCERN_PRIORITY.indexOf(value);
+  return index >= 0 ? index : CONCERN_PRIORITY.length + 1;
+};
+
+export const concernToFriendlyLabel = (value?: string | null) => {
+  if (!value) return null;
+  return CONCERN_LABELS[value] ?? null;
+};
+
+export type FocusKey = "hydration" | "elasticity" | "wrinkle" | "radiance" | "trouble";
+
+export const mapConcernToFocus = (concern?: string | null): FocusKey => {
+  switch (concern) {
+    case "wrinkle":
+    case "eye_wrinkle":
+      return "wrinkle";
+    case "elasticity":
+    case "sagging":
+      return "elasticity";
+    case "dryness":
+    case "inner_dryness":
+    case "flakiness":
+      return "hydration";
+    case "dullness":
+    case "radiance":
+    case "pigmentation":
+    case "spots":
+      return "radiance";
+    case "trouble":
+    case "sebum":
+    case "blackhead":
+      return "trouble";
+    default:
+      return "hydration";
+  }
+};
@@ -0,0 +1,6 @@
+export * from "./ai-report";
+export * from "./api";
+export * from "./concerns";
+export * from "./ox-questions";
+export * from "./profile-details";
+export * from "./report";
@@ -128,3 +128,6 @@ export const OX_QUESTIONS: OxQuestion[] = [
     },
   },
 ];
+
+export const isOxQuestionKey = (value: string) =>
+  OX_QUESTIONS.some((question) => question.key === value);
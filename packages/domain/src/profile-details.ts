@@ -0,0 +1,110 @@
+export type ProfileGender = "female" | "male" | "unspecified" | null;
+
+export type PriceTier = "budget" | "mid" | "premium";
+
+export const PRICE_TIERS: PriceTier[] = ["budget", "mid", "premium"];
+
+export const PRICE_TIER_LABELS: Record<PriceTier, string> = {
+  budget: "2만원 미만",
+  mid: "2~4만원",
+  premium: "4만원 이상",
+};
+
+export type ProfileDetails = {
+  gender: ProfileGender;
+  ageRange: string | null;
+  birthYear?: number | null;
+  concerns: string[];
+  budget?: PriceTier | null;
+  completedAt?: string | null;
+};
+
+const DEFAULT_DETAILS: ProfileDetails = {
+  gender: null,
+  ageRange: null,
+  birthYear: null,
+  concerns: [],
+  budget: null,
+  completedAt: null,
+};
+
+// Details live under `profiles.metadata.profileDetails`; early app builds wrote `details` or flat keys.
+export const parseProfileDetails = (metadata: unknown): ProfileDetails => {
+  if (!metadata || typeof metadata !== "object") {
+    return { ...DEFAULT_DETAILS };
+  }
+
+  const root = metadata as Record<string, unknown>;
+  const detailsRaw = (root.profileDetails ?? root.details) as Record<string, unknown> | undefined;
+  const source = detailsRaw && typeof detailsRaw === "object" ? detailsRaw : root;
+
+  const gender = normalizeGender(source.gender);
+  const ageRange = normalizeString(source.ageRange ?? source.age_range);
+  const birthYear = normalizeNumber(source.birthYear ?? source.birth_year);
+  const concerns = normalizeStringArray(
+    source.concerns ?? source.skinConcerns ?? source.skin_concerns
+  );
+  const budget = normalizePriceTier(source.budget);
+  const completedAt = normalizeString(source.completedAt ?? source.completed_at);
+
+  return {
+    gender,
+    ageRange,
+    birthYear,
+    concerns,
+    budget,
+    completedAt,
+  };
+};
+
+export const isProfileDetailsComplete = (details?: ProfileDetails | null) => {
+  if (!details) return false;
+  if (!details.gender) return false;
+  if (!details.ageRange && !details.birthYear) return false;
+  if (!details.concerns.length) return false;
+  return true;
+};
+
+export const normalizePriceTier = (value: unknown): PriceTier | null =>
+  typeof value === "string" && PRICE_TIERS.includes(value as PriceTier) ? (value as PriceTier) : null;
+
+const normalizeGender = (value: unknown): ProfileGender => {
+  const input = normalizeString(value);
+  if (!input) return null;
+  if (["female", "여성"].includes(input)) {
+    return "female";
+  }
+  if (["male", "남성"].includes(input)) {
+    return "male";
+  }
+  if (["unspecified", "none", "선택하지 않음"].includes(input)) {
+    return "unspecified";
+  }
+  return null;
+};
+
+const normalizeString = (value: unknown) => {
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    return trimmed.length ? trimmed : null;
+  }
+  return null;
+};
+
+const normalizeNumber = (value: unknown) => {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string") {
+    const parsed = Number.parseInt(value, 10);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+const normalizeStringArray = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((entry) => normalizeString(entry))
+    .filter((entry): entry is string => Boolean(entry));
+};
@@ -0,0 +1,61 @@
+export type NeedLevel = "high" | "medium";
+
+export type NeedTag =
+  | "hydration"
+  | "elasticity"
+  | "barrier"
+  | "soothing"
+  | "radiance"
+  | "pore_care"
+  | "sebum_control";
+
+export type ReportItem = {
+  id: string;
+  title: string;
+  description: string;
+  comparison: string;
+  status: "좋음" | "보통" | "주의";
+};
+
+// Eye wrinkle reports use their own metric ids, so only recommendation needs narrow `id` to NeedTag.
+export type NeedEntry = {
+  id: string;
+  label: string;
+  level: NeedLevel;
+  description: string;
+  reasons?: string[];
+};
+
+export type NeedMatch = {
+  need: NeedTag;
+  label: string;
+  rank: number;
+  matchedTags: string[];
+  matchedSynonyms: string[];
+  priorityWeight: number;
+  categoryBonus: number;
+  score: number;
+};
+
+export type ScoreBreakdown = {
+  need: NeedTag;
+  needLabel: string;
+  matches: NeedMatch[];
+  priorityScore: number;
+  categoryBonus: number;
+  ingredientBonus: number;
+  feedbackAdjustment: number;
+  budgetAdjustment: number;
+  total: number;
+};
+
+export type ProductReaction = "like" | "dislike" | "used" | "irritation";
+
+export const PRODUCT_REACTIONS: ProductReaction[] = ["like", "dislike", "used", "irritation"];
+
+export const normalizeReaction = (value: unknown): ProductReaction | null => {
+  const reaction = typeof value === "string" ? value.trim().toLowerCase() : "";
+  return PRODUCT_REACTIONS.includes(reaction as ProductReaction)
+    ? (reaction as ProductReaction)
+    : null;
+};